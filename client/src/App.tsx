@@ -15,6 +15,8 @@ import { useToast } from '@/hooks/use-toast';
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/auth/login";
 import ForgotPassword from "@/pages/auth/forgot-password";
+import SurveyResponsePage from "@/pages/surveys/respond";
+import FormFillPage from "@/pages/forms/fill";
 import Dashboard from "@/pages/dashboard";
 
 // Lazy load heavy pages for better performance
@@ -27,15 +29,20 @@ const CRMCommissionsPage = lazy(() => import("@/pages/crm/commissions"));
 const CRMAccountsPage = lazy(() => import("@/pages/crm/accounts"));
 const CRMSurveysPage = lazy(() => import("@/pages/crm/surveys"));
 const CRMActivitiesPage = lazy(() => import("@/pages/crm/activities"));
+const CRMDuplicatesPage = lazy(() => import("@/pages/crm/duplicates"));
 
 // Lazy load Dispatch modules (heavy with charts/reports)
 const DispatchPage = lazy(() => import("@/pages/dispatch/index"));
 const DispatchClientsPage = lazy(() => import("@/pages/dispatch/clients"));
 const DispatchLoadsPage = lazy(() => import("@/pages/dispatch/loads"));
 const NewLoadPage = lazy(() => import("@/pages/dispatch/new-load"));
+const NewMultiStopLoadPage = lazy(() => import("@/pages/dispatch/loads/new"));
+const LoadDetailPage = lazy(() => import("@/pages/dispatch/loads/[id]"));
 const TrackingPage = lazy(() => import("@/pages/dispatch/tracking"));
+const LoadBoardPage = lazy(() => import("@/pages/dispatch/board"));
 const DispatchTasksPage = lazy(() => import("@/pages/dispatch/tasks/index"));
 const DispatchReportsPage = lazy(() => import("@/pages/dispatch/reports/index"));
+const LaneAnalyticsPage = lazy(() => import("@/pages/dispatch/reports/lanes"));
 const PerformanceTargetsPage = lazy(() => import("@/pages/dispatch/targets/index"));
 
 // Lazy load Invoice modules (heavy with charts)
@@ -143,6 +150,12 @@ function Router() {
       <Route path="/auth/forgot-password">
         <ForgotPassword />
       </Route>
+      <Route path="/surveys/:token">
+        {(params) => <SurveyResponsePage token={params.token} />}
+      </Route>
+      <Route path="/forms/:token">
+        {(params) => <FormFillPage token={params.token} />}
+      </Route>
 
       <Route path="/">
         {() => (
@@ -224,6 +237,14 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/crm/duplicates">
+        {() => (
+          <AppLayout>
+            <ProtectedRoute component={CRMDuplicatesPage} />
+          </AppLayout>
+        )}
+      </Route>
+      
 
 
       <Route path="/dispatch">
@@ -250,6 +271,22 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/dispatch/loads/new">
+        {() => (
+          <AppLayout>
+            <ProtectedRoute component={NewMultiStopLoadPage} />
+          </AppLayout>
+        )}
+      </Route>
+      
+      <Route path="/dispatch/loads/:id">
+        {() => (
+          <AppLayout>
+            <ProtectedRoute component={LoadDetailPage} />
+          </AppLayout>
+        )}
+      </Route>
+      
       <Route path="/dispatch/new-load">
         {() => (
           <AppLayout>
@@ -258,6 +295,14 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/dispatch/board">
+        {() => (
+          <AppLayout>
+            <ProtectedRoute component={LoadBoardPage} />
+          </AppLayout>
+        )}
+      </Route>
+      
       <Route path="/dispatch/tracking">
         {() => (
           <AppLayout>
@@ -282,6 +327,14 @@ function Router() {
         )}
       </Route>
       
+      <Route path="/dispatch/reports/lanes">
+        {() => (
+          <AppLayout>
+            <ProtectedRoute component={LaneAnalyticsPage} />
+          </AppLayout>
+        )}
+      </Route>
+      
       <Route path="/dispatch/targets">
         {() => (
           <AppLayout>
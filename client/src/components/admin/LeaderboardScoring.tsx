@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface LeaderboardScoringWeights {
+  pointsPerActivation: number;
+  pointsPerConnectedCall: number;
+  pointsPerHandoffAccepted: number;
+  pointsPerLoad: number;
+  pointsPerInvoicedDollar: number;
+}
+
+const SCORING_URL = "/api/leaderboard/scoring";
+
+const WEIGHTS: Array<{ key: keyof LeaderboardScoringWeights; label: string; description: string }> = [
+  { key: "pointsPerActivation", label: "Lead activated", description: "Sales: per lead activated during the week" },
+  { key: "pointsPerConnectedCall", label: "Connected call", description: "Sales: per call where the lead was reached" },
+  { key: "pointsPerHandoffAccepted", label: "Handoff accepted", description: "Sales: per lead accepted by dispatch" },
+  { key: "pointsPerLoad", label: "Load booked", description: "Dispatch: per load booked (cancelled loads excluded)" },
+  { key: "pointsPerInvoicedDollar", label: "Invoiced dollar", description: "Dispatch: per USD invoiced for their loads" },
+];
+
+export default function LeaderboardScoring() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [weights, setWeights] = useState<LeaderboardScoringWeights | null>(null);
+
+  const { data, isLoading, isError } = useQuery<LeaderboardScoringWeights>({
+    queryKey: [SCORING_URL],
+  });
+
+  useEffect(() => {
+    if (data) setWeights(data);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LeaderboardScoringWeights) => {
+      const res = await apiRequest("PUT", SCORING_URL, values);
+      return (await res.json()) as LeaderboardScoringWeights;
+    },
+    onSuccess: () => {
+      toast({ title: "Scoring saved", description: "Leaderboards now use the new weights." });
+      queryClient.invalidateQueries({ queryKey: [SCORING_URL] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/leaderboard/"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save scoring", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || (!weights && !isError)) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-20 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !weights) {
+    return (
+      <div className="p-4 rounded-md bg-red-50 text-red-700 border border-red-200">
+        <p className="font-medium">Failed to load leaderboard scoring</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Points each activity earns on the weekly leaderboards and the week-over-week comparison.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {WEIGHTS.map((weight) => (
+          <div key={weight.key} className="space-y-1">
+            <Label htmlFor={weight.key}>{weight.label}</Label>
+            <Input
+              id={weight.key}
+              type="number"
+              min={0}
+              step="any"
+              value={weights[weight.key]}
+              onChange={(e) => setWeights({ ...weights, [weight.key]: parseFloat(e.target.value) || 0 })}
+            />
+            <p className="text-xs text-gray-500">{weight.description}</p>
+          </div>
+        ))}
+      </div>
+      <Button onClick={() => saveMutation.mutate(weights)} disabled={saveMutation.isPending}>
+        {saveMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Save className="h-4 w-4 mr-2" />
+        )}
+        Save Scoring
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, KeyRound, Loader2, Plus, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type AssignmentStrategy = "round_robin" | "lowest_load";
+
+interface MqlEndpoint {
+  id: number;
+  name: string;
+  provider: string;
+  token: string;
+  secret: string;
+  fieldMappings: Record<string, string>;
+  assignmentStrategy: AssignmentStrategy;
+  isActive: boolean;
+}
+
+interface MqlDelivery {
+  id: number;
+  status: "received" | "created" | "duplicate" | "rejected" | "failed";
+  httpStatus: number;
+  error: string | null;
+  leadId: number | null;
+  receivedAt: string;
+}
+
+interface MqlDefaults {
+  fields: string[];
+  fieldMappings: Record<string, string>;
+}
+
+const ENDPOINTS_URL = "/api/crm/mql/endpoints";
+
+const STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  round_robin: "Round robin",
+  lowest_load: "Lowest open leads",
+};
+
+const DELIVERY_STATUS_CLASSES: Record<MqlDelivery["status"], string> = {
+  received: "bg-gray-100 text-gray-800",
+  created: "bg-green-100 text-green-800",
+  duplicate: "bg-blue-100 text-blue-800",
+  rejected: "bg-amber-100 text-amber-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+function webhookUrl(token: string) {
+  return `${window.location.origin}/api/crm/mql/webhook/${token}`;
+}
+
+function EndpointEditor({ endpoint, fields }: { endpoint: MqlEndpoint; fields: string[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mappings, setMappings] = useState<Record<string, string>>(endpoint.fieldMappings);
+  const [strategy, setStrategy] = useState<AssignmentStrategy>(endpoint.assignmentStrategy);
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery<MqlDelivery[]>({
+    queryKey: [`${ENDPOINTS_URL}/${endpoint.id}/deliveries?limit=25`],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const fieldMappings = Object.fromEntries(
+        Object.entries(mappings).filter(([, path]) => path.trim()).map(([field, path]) => [field, path.trim()])
+      );
+      const res = await apiRequest("PUT", `${ENDPOINTS_URL}/${endpoint.id}`, { fieldMappings, assignmentStrategy: strategy });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Endpoint saved", description: endpoint.name });
+      queryClient.invalidateQueries({ queryKey: [ENDPOINTS_URL] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save endpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6 border rounded-md p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Assignment</Label>
+          <Select value={strategy} onValueChange={(value) => setStrategy(value as AssignmentStrategy)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Field mappings</Label>
+        <p className="text-xs text-gray-500">
+          Dot path of each lead field in the provider's JSON payload, e.g. <code>contact.phone</code>.
+          Company, contact and phone are required.
+        </p>
+        <div className="grid gap-3 md:grid-cols-2">
+          {fields.map((field) => (
+            <div key={field} className="flex items-center gap-2">
+              <span className="w-32 text-sm text-gray-600">{field}</span>
+              <Input
+                value={mappings[field] ?? ""}
+                onChange={(e) => setMappings((current) => ({ ...current, [field]: e.target.value }))}
+                placeholder="not mapped"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+        {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+        Save
+      </Button>
+
+      <div className="space-y-2">
+        <Label>Recent deliveries</Label>
+        {deliveriesLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead>Lead</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!deliveries || deliveries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-gray-500">No deliveries yet</TableCell>
+                </TableRow>
+              ) : (
+                deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="text-sm">{format(new Date(delivery.receivedAt), "MMM d, HH:mm:ss")}</TableCell>
+                    <TableCell>
+                      <Badge className={DELIVERY_STATUS_CLASSES[delivery.status]}>
+                        {delivery.status} ({delivery.httpStatus})
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{delivery.leadId ? `#${delivery.leadId}` : "—"}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{delivery.error ?? ""}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function MqlWebhooks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [provider, setProvider] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: number; secret: string } | null>(null);
+
+  const { data: endpoints, isLoading, isError } = useQuery<MqlEndpoint[]>({
+    queryKey: [ENDPOINTS_URL],
+  });
+  const { data: defaults } = useQuery<MqlDefaults>({
+    queryKey: [`${ENDPOINTS_URL}/defaults`],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", ENDPOINTS_URL, { name: name.trim(), provider: provider.trim() || undefined });
+      return (await res.json()) as MqlEndpoint;
+    },
+    onSuccess: (endpoint) => {
+      setName("");
+      setProvider("");
+      setSelectedId(endpoint.id);
+      setRevealedSecret({ endpointId: endpoint.id, secret: endpoint.secret });
+      queryClient.invalidateQueries({ queryKey: [ENDPOINTS_URL] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create endpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const res = await apiRequest("PUT", `${ENDPOINTS_URL}/${id}`, { isActive });
+      return await res.json();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update endpoint", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [ENDPOINTS_URL] });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `${ENDPOINTS_URL}/${id}/rotate-secret`);
+      return (await res.json()) as MqlEndpoint;
+    },
+    onSuccess: (endpoint) => {
+      setRevealedSecret({ endpointId: endpoint.id, secret: endpoint.secret });
+      queryClient.invalidateQueries({ queryKey: [ENDPOINTS_URL] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not rotate secret", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-20 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !endpoints) {
+    return (
+      <div className="p-4 rounded-md bg-red-50 text-red-700 border border-red-200">
+        <p className="font-medium">Failed to load MQL webhooks</p>
+      </div>
+    );
+  }
+
+  const selected = endpoints.find((endpoint) => endpoint.id === selectedId);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Web form providers post marketing-qualified leads to these endpoints. Each delivery must carry an
+        X-MetaSys-Timestamp header (unix seconds) and an X-MetaSys-Signature header of
+        "sha256=" + HMAC-SHA256 of "timestamp.body" with the endpoint's secret.
+      </p>
+
+      {revealedSecret && (
+        <div className="p-4 rounded-md bg-amber-50 border border-amber-200 space-y-2">
+          <p className="text-sm font-medium text-amber-800">Copy the signing secret now; it will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="text-sm break-all">{revealedSecret.secret}</code>
+            <Button size="sm" variant="outline" onClick={() => copy(revealedSecret.secret)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => setRevealedSecret(null)}>Done</Button>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="mql-endpoint-name">Name</Label>
+          <Input id="mql-endpoint-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Website carrier form" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mql-endpoint-provider">Provider</Label>
+          <Input id="mql-endpoint-provider" value={provider} onChange={(e) => setProvider(e.target.value)} placeholder="generic" />
+        </div>
+        <Button onClick={() => createMutation.mutate()} disabled={!name.trim() || createMutation.isPending}>
+          {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+          Add endpoint
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Endpoint</TableHead>
+            <TableHead>URL</TableHead>
+            <TableHead>Assignment</TableHead>
+            <TableHead>Active</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {endpoints.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-gray-500">No webhook endpoints yet</TableCell>
+            </TableRow>
+          ) : (
+            endpoints.map((endpoint) => (
+              <TableRow
+                key={endpoint.id}
+                className={`cursor-pointer ${endpoint.id === selectedId ? "bg-slate-50" : ""}`}
+                onClick={() => setSelectedId(endpoint.id === selectedId ? null : endpoint.id)}
+              >
+                <TableCell>
+                  <div className="font-medium">{endpoint.name}</div>
+                  <div className="text-xs text-gray-500">{endpoint.provider} · secret {endpoint.secret}</div>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      copy(webhookUrl(endpoint.token));
+                    }}
+                  >
+                    <Copy className="h-4 w-4 mr-1" /> Copy URL
+                  </Button>
+                </TableCell>
+                <TableCell className="text-sm">{STRATEGY_LABELS[endpoint.assignmentStrategy]}</TableCell>
+                <TableCell onClick={(e) => e.stopPropagation()}>
+                  <Switch
+                    checked={endpoint.isActive}
+                    disabled={updateMutation.isPending}
+                    onCheckedChange={(isActive) => updateMutation.mutate({ id: endpoint.id, isActive })}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={rotateMutation.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (window.confirm("Deliveries signed with the current secret will be rejected. Rotate it?")) {
+                        rotateMutation.mutate(endpoint.id);
+                      }
+                    }}
+                  >
+                    <KeyRound className="h-4 w-4 mr-1" /> Rotate secret
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {selected && defaults && <EndpointEditor key={selected.id} endpoint={selected} fields={defaults.fields} />}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, CheckCircle2, Clock, Loader2, Play } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface ReportJobRun {
+  id: number;
+  trigger: "schedule" | "manual";
+  runDate: string;
+  status: "running" | "success" | "failed";
+  message: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface ReportSchedule {
+  job: string;
+  label: string;
+  timezone: string;
+  paused: boolean;
+  nextRun: { date: string; time: string } | null;
+  lastRun: ReportJobRun | null;
+}
+
+const SCHEDULES_URL = "/api/admin/report-schedules";
+
+const SCHEDULE_DESCRIPTIONS: Record<string, string> = {
+  daily_report_reminder: "15 minutes before the end of each working day",
+  daily_report_generation: "One hour after the end of each working day",
+  monthly_report_generation: "01:00 on the 1st of each month",
+};
+
+function LastRun({ run }: { run: ReportJobRun | null }) {
+  if (!run) {
+    return <span className="text-sm text-gray-500">Never run</span>;
+  }
+  const when = formatDistanceToNow(new Date(run.startedAt), { addSuffix: true });
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {run.status === "success" ? (
+          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+            <CheckCircle2 className="h-3 w-3 mr-1" />
+            Succeeded
+          </Badge>
+        ) : run.status === "failed" ? (
+          <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Failed
+          </Badge>
+        ) : (
+          <Badge variant="outline">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Running
+          </Badge>
+        )}
+        <span className="text-xs text-gray-500">
+          {when}{run.trigger === "manual" ? ", triggered manually" : ""}
+        </span>
+      </div>
+      {run.message && <p className="text-xs text-gray-600 max-w-sm">{run.message}</p>}
+    </div>
+  );
+}
+
+export default function ReportSchedules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedules, isLoading, isError } = useQuery<ReportSchedule[]>({
+    queryKey: [SCHEDULES_URL],
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async ({ job, paused }: { job: string; paused: boolean }) => {
+      const res = await apiRequest("PATCH", `${SCHEDULES_URL}/${job}`, { paused });
+      return await res.json();
+    },
+    onSuccess: (schedule: ReportSchedule) => {
+      toast({ title: schedule.paused ? "Job paused" : "Job resumed", description: schedule.label });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update schedule", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_URL] });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (job: string) => {
+      const res = await apiRequest("POST", `${SCHEDULES_URL}/${job}/run`);
+      return (await res.json()) as ReportJobRun;
+    },
+    onSuccess: (run) => {
+      toast({ title: "Job finished", description: run.message ?? undefined });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Job failed", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULES_URL] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-20 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !schedules) {
+    return (
+      <div className="p-4 rounded-md bg-red-50 text-red-700 border border-red-200">
+        <p className="font-medium">Failed to load report schedules</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Dispatch report jobs run in the organization's timezone ({schedules[0]?.timezone ?? "UTC"}) and follow its
+        working hours; daily jobs are skipped on non-working days.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Job</TableHead>
+            <TableHead>Next Run</TableHead>
+            <TableHead>Last Run</TableHead>
+            <TableHead>Active</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {schedules.map((schedule) => (
+            <TableRow key={schedule.job}>
+              <TableCell>
+                <div className="font-medium">{schedule.label}</div>
+                <div className="text-xs text-gray-500">{SCHEDULE_DESCRIPTIONS[schedule.job]}</div>
+              </TableCell>
+              <TableCell>
+                {schedule.paused ? (
+                  <Badge variant="outline" className="text-amber-600 border-amber-500">Paused</Badge>
+                ) : schedule.nextRun ? (
+                  <span className="flex items-center text-sm">
+                    <Clock className="h-3.5 w-3.5 mr-1 text-gray-400" />
+                    {schedule.nextRun.date} {schedule.nextRun.time}
+                  </span>
+                ) : (
+                  <span className="text-sm text-gray-500">No working days scheduled</span>
+                )}
+              </TableCell>
+              <TableCell>
+                <LastRun run={schedule.lastRun} />
+              </TableCell>
+              <TableCell>
+                <Switch
+                  checked={!schedule.paused}
+                  disabled={pauseMutation.isPending}
+                  onCheckedChange={(active) => pauseMutation.mutate({ job: schedule.job, paused: !active })}
+                />
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={runMutation.isPending}
+                  onClick={() => runMutation.mutate(schedule.job)}
+                >
+                  {runMutation.isPending && runMutation.variables === schedule.job ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Play className="h-4 w-4 mr-1" />
+                  )}
+                  Run now
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
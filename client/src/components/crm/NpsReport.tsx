@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, subMonths } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface NpsBucket {
+  responses: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  averageScore: number | null;
+  nps: number | null;
+}
+
+interface NpsReportData extends NpsBucket {
+  byMonth: Array<NpsBucket & { month: string }>;
+  byRep: Array<NpsBucket & { userId: number | null; name: string }>;
+}
+
+function formatNps(nps: number | null) {
+  if (nps === null) return '—';
+  return nps > 0 ? `+${nps}` : String(nps);
+}
+
+function BucketRow({ label, bucket }: { label: string; bucket: NpsBucket }) {
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      <TableCell className="text-right">{bucket.responses}</TableCell>
+      <TableCell className="text-right text-green-600">{bucket.promoters}</TableCell>
+      <TableCell className="text-right text-gray-500">{bucket.passives}</TableCell>
+      <TableCell className="text-right text-red-600">{bucket.detractors}</TableCell>
+      <TableCell className="text-right font-semibold">{formatNps(bucket.nps)}</TableCell>
+    </TableRow>
+  );
+}
+
+function BucketTable({ title, rows }: { title: string; rows: Array<{ key: string; label: string; bucket: NpsBucket }> }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead className="text-right">Responses</TableHead>
+            <TableHead className="text-right">Promoters</TableHead>
+            <TableHead className="text-right">Passives</TableHead>
+            <TableHead className="text-right">Detractors</TableHead>
+            <TableHead className="text-right">NPS</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground">No responses yet</TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => <BucketRow key={row.key} label={row.label} bucket={row.bucket} />)
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function NpsReport() {
+  const [from, setFrom] = useState(format(subMonths(new Date(), 6), 'yyyy-MM-01'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: report, isLoading } = useQuery<NpsReportData>({
+    queryKey: [`/api/crm/surveys/reports/nps?from=${from}&to=${to}`],
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Net Promoter Score</CardTitle>
+          <CardDescription>Completed NPS surveys: promoters score 9-10, detractors 0-6</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-[150px]" />
+          <span className="text-muted-foreground">to</span>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-[150px]" />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm text-muted-foreground">NPS</p>
+                <p className="text-2xl font-bold">{formatNps(report.nps)}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm text-muted-foreground">Responses</p>
+                <p className="text-2xl font-bold">{report.responses}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm text-muted-foreground">Promoters</p>
+                <p className="text-2xl font-bold text-green-600">{report.promoters}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm text-muted-foreground">Passives</p>
+                <p className="text-2xl font-bold text-gray-500">{report.passives}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-lg">
+                <p className="text-sm text-muted-foreground">Detractors</p>
+                <p className="text-2xl font-bold text-red-600">{report.detractors}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <BucketTable
+                title="By Month"
+                rows={report.byMonth.map((row) => ({ key: row.month, label: row.month, bucket: row }))}
+              />
+              <BucketTable
+                title="By Assigned Rep"
+                rows={report.byRep.map((row) => ({ key: String(row.userId), label: row.name, bucket: row }))}
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+
+interface CarrierEquipment {
+  equipmentType: string;
+  trucks: number;
+  trailers: number;
+}
+
+interface ComplianceDocument {
+  document: "insurance" | "w9" | "noa";
+  label: string;
+  url: string | null;
+  expiresOn: string | null;
+  daysUntilExpiry: number | null;
+  status: "missing" | "valid" | "expiring" | "expired";
+}
+
+interface ComplianceProfile {
+  dispatcherId: number | null;
+  insuranceProvider: string | null;
+  insurancePolicyNumber: string | null;
+  insuranceCertificateUrl: string | null;
+  insuranceExpiresOn: string | null;
+  w9Url: string | null;
+  w9ReceivedOn: string | null;
+  factoringCompany: string | null;
+  noaUrl: string | null;
+  noaExpiresOn: string | null;
+}
+
+interface CarrierCompliance {
+  companyName: string;
+  mcNumber: string;
+  dotNumber: string | null;
+  profile: ComplianceProfile | null;
+  documents: ComplianceDocument[];
+  equipment: CarrierEquipment[];
+  equipmentTotals: { trucks: number; trailers: number };
+  canBookLoads: boolean;
+  blockedReason: string | null;
+}
+
+interface CarrierComplianceDialogProps {
+  clientId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ProfileFields = Omit<ComplianceProfile, "dispatcherId">;
+
+const EMPTY_PROFILE: ProfileFields = {
+  insuranceProvider: "",
+  insurancePolicyNumber: "",
+  insuranceCertificateUrl: "",
+  insuranceExpiresOn: "",
+  w9Url: "",
+  w9ReceivedOn: "",
+  factoringCompany: "",
+  noaUrl: "",
+  noaExpiresOn: "",
+};
+
+const FIELDS: Array<{ key: keyof ProfileFields; label: string; type?: string; placeholder?: string }> = [
+  { key: "insuranceProvider", label: "Insurance Provider" },
+  { key: "insurancePolicyNumber", label: "Policy Number" },
+  { key: "insuranceCertificateUrl", label: "Insurance Certificate URL", placeholder: "https://" },
+  { key: "insuranceExpiresOn", label: "Insurance Expires", type: "date" },
+  { key: "w9Url", label: "W-9 URL", placeholder: "https://" },
+  { key: "w9ReceivedOn", label: "W-9 Received", type: "date" },
+  { key: "factoringCompany", label: "Factoring Company" },
+  { key: "noaUrl", label: "Notice of Assignment URL", placeholder: "https://" },
+  { key: "noaExpiresOn", label: "NOA Expires", type: "date" },
+];
+
+const STATUS_STYLES: Record<ComplianceDocument["status"], string> = {
+  valid: "bg-green-100 text-green-800",
+  expiring: "bg-amber-100 text-amber-800",
+  expired: "bg-red-100 text-red-800",
+  missing: "bg-gray-100 text-gray-700",
+};
+
+function documentStatusLabel(document: ComplianceDocument) {
+  switch (document.status) {
+    case "expiring":
+      return `Expires in ${document.daysUntilExpiry} days`;
+    case "expired":
+      return `Expired ${document.expiresOn}`;
+    case "valid":
+      return document.expiresOn ? `Valid until ${document.expiresOn}` : "On file";
+    default:
+      return "Missing";
+  }
+}
+
+export function CarrierComplianceDialog({ clientId, onOpenChange }: CarrierComplianceDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fields, setFields] = useState<ProfileFields>(EMPTY_PROFILE);
+  const [equipment, setEquipment] = useState<CarrierEquipment[]>([]);
+
+  const complianceUrl = `/api/dispatch/clients/${clientId}/compliance`;
+  const { data, isLoading } = useQuery<{ data: CarrierCompliance }>({
+    queryKey: [complianceUrl],
+    enabled: !!clientId,
+  });
+  const compliance = data?.data;
+
+  useEffect(() => {
+    if (!compliance) return;
+    const profile = compliance.profile;
+    setFields(
+      Object.fromEntries(
+        Object.keys(EMPTY_PROFILE).map((key) => [key, profile?.[key as keyof ProfileFields] ?? ""])
+      ) as ProfileFields
+    );
+    setEquipment(compliance.equipment);
+  }, [compliance]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = Object.fromEntries(
+        Object.entries(fields).map(([key, value]) => [key, value?.trim() ? value.trim() : null])
+      );
+      const res = await apiRequest("PUT", complianceUrl, {
+        ...payload,
+        equipment: equipment.filter((item) => item.equipmentType.trim()),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [complianceUrl] });
+      toast({ title: "Compliance profile saved", description: compliance?.companyName });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save compliance profile", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateEquipment = (index: number, changes: Partial<CarrierEquipment>) =>
+    setEquipment(equipment.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  return (
+    <Dialog open={!!clientId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Carrier Compliance</DialogTitle>
+          <DialogDescription>
+            {compliance
+              ? `${compliance.companyName} · MC ${compliance.mcNumber}${compliance.dotNumber ? ` · DOT ${compliance.dotNumber}` : ""}`
+              : "Loading carrier"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !compliance ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {!compliance.canBookLoads && (
+              <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                {compliance.blockedReason}. New loads are blocked for this carrier.
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {compliance.documents.map((document) => (
+                <Badge key={document.document} className={STATUS_STYLES[document.status]}>
+                  {document.label}: {documentStatusLabel(document)}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`compliance-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`compliance-${field.key}`}
+                    type={field.type ?? "text"}
+                    placeholder={field.placeholder}
+                    value={fields[field.key] ?? ""}
+                    onChange={(e) => setFields({ ...fields, [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">
+                  Equipment ({compliance.equipmentTotals.trucks} trucks, {compliance.equipmentTotals.trailers} trailers on file)
+                </h3>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEquipment([...equipment, { equipmentType: "", trucks: 0, trailers: 0 }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Equipment
+                </Button>
+              </div>
+              {equipment.map((item, index) => (
+                <div key={index} className="grid grid-cols-[1fr_100px_100px_auto] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Type</Label>
+                    <Input
+                      placeholder="Dry Van, Reefer, Flatbed"
+                      value={item.equipmentType}
+                      onChange={(e) => updateEquipment(index, { equipmentType: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Trucks</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={item.trucks}
+                      onChange={(e) => updateEquipment(index, { trucks: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Trailers</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={item.trailers}
+                      onChange={(e) => updateEquipment(index, { trailers: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEquipment(equipment.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!compliance || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,25 +2,48 @@ import * as React from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { ToastAlert } from "@/components/ui/toast-alert";
 import { Loader2 } from "lucide-react";
 
+const REPORT_METRICS = [
+  { name: "loadsBooked", label: "Loads Booked Today", currency: false },
+  { name: "invoiceUsd", label: "Total Invoice Value (USD)", currency: true },
+  { name: "activeLeads", label: "Active Leads", currency: false },
+  { name: "pendingInvoiceUsd", label: "Pending Invoice Value (USD)", currency: true },
+  { name: "highestInvoiceUsd", label: "Highest Invoice (USD)", currency: true },
+  { name: "paidInvoiceUsd", label: "Paid Today (USD)", currency: true },
+] as const;
+
+type ReportMetric = typeof REPORT_METRICS[number]["name"];
+
 const reportSchema = z.object({
-  loadsBooked: z.number().min(0, "Must be a positive number"),
+  loadsBooked: z.number().int("Must be a whole number").min(0, "Must be a positive number"),
   invoiceUsd: z.number().min(0, "Must be a positive number"),
-  activeLeads: z.number().min(0, "Must be a positive number"),
+  activeLeads: z.number().int("Must be a whole number").min(0, "Must be a positive number"),
   pendingInvoiceUsd: z.number().min(0, "Must be a positive number"),
+  highestInvoiceUsd: z.number().min(0, "Must be a positive number"),
+  paidInvoiceUsd: z.number().min(0, "Must be a positive number"),
+  notes: z.string().max(2000).optional(),
 });
 
 type ReportFormValues = z.infer<typeof reportSchema>;
 
+type DispatchReport = Record<ReportMetric, number> & {
+  id: number;
+  date: string;
+  status: string;
+  notes: string | null;
+  computedAt: string | null;
+};
+
 interface DailyReportModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -31,6 +54,12 @@ export function DailyReportModal({ isOpen, onClose, reportId }: DailyReportModal
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Figures computed from the dispatcher's loads and invoices
+  const { data: report, isLoading } = useQuery<DispatchReport>({
+    queryKey: [`/api/dispatch/reports/${reportId}`],
+    enabled: isOpen,
+  });
+
   const form = useForm<ReportFormValues>({
     resolver: zodResolver(reportSchema),
     defaultValues: {
@@ -38,25 +67,43 @@ export function DailyReportModal({ isOpen, onClose, reportId }: DailyReportModal
       invoiceUsd: 0,
       activeLeads: 0,
       pendingInvoiceUsd: 0,
+      highestInvoiceUsd: 0,
+      paidInvoiceUsd: 0,
+      notes: "",
     },
   });
 
+  React.useEffect(() => {
+    if (report) {
+      form.reset({
+        loadsBooked: report.loadsBooked,
+        invoiceUsd: report.invoiceUsd,
+        activeLeads: report.activeLeads,
+        pendingInvoiceUsd: report.pendingInvoiceUsd,
+        highestInvoiceUsd: report.highestInvoiceUsd,
+        paidInvoiceUsd: report.paidInvoiceUsd,
+        notes: report.notes ?? "",
+      });
+    }
+  }, [report, form]);
+
   const submitMutation = useMutation({
-    mutationFn: async (values: ReportFormValues) => {
+    mutationFn: async ({ notes, ...reported }: ReportFormValues) => {
       const response = await apiRequest(
         "POST",
         `/api/dispatch/reports/${reportId}/submit`,
-        values
+        { reported, notes: notes || null }
       );
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/dispatch/reports"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dispatch/reports/${reportId}`] });
       queryClient.invalidateQueries({ queryKey: ["/api/dispatch/performance"] });
       toast({
         description: (
           <ToastAlert color="green">
-            Daily report submitted successfully
+            Daily report confirmed successfully
           </ToastAlert>
         ),
       });
@@ -83,103 +130,93 @@ export function DailyReportModal({ isOpen, onClose, reportId }: DailyReportModal
     onClose();
   };
 
+  const formatValue = (value: number, currency: boolean) =>
+    currency ? `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : String(value);
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[500px]" onEscapeKeyDown={(e) => e.preventDefault()}>
+      <DialogContent className="sm:max-w-[560px]" onEscapeKeyDown={(e) => e.preventDefault()}>
         <DialogHeader>
-          <DialogTitle className="text-xl font-bold">Daily Report Submission</DialogTitle>
+          <DialogTitle className="text-xl font-bold">Confirm Daily Report</DialogTitle>
+          <DialogDescription>
+            These figures are computed from your loads and invoices. Correct a figure only if it is wrong;
+            managers will see your value next to the computed one.
+          </DialogDescription>
         </DialogHeader>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="loadsBooked"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Loads Booked Today</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="Enter number of loads booked"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="invoiceUsd"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Total Invoice Value (USD)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="Enter total invoice amount"
-                      {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="activeLeads"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Active Leads</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="Enter number of active leads"
-                      {...field}
-                      onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="pendingInvoiceUsd"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Pending Invoice Value (USD)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="Enter pending invoice amount"
-                      {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <Button
-              type="submit"
-              className="w-full bg-[#457B9D] hover:bg-[#2EC4B6] text-white rounded-md transition-all duration-200 mt-6"
-              disabled={submitMutation.isPending}
-            >
-              {submitMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Submitting...
-                </>
-              ) : (
-                "Submit Daily Report"
-              )}
-            </Button>
-          </form>
-        </Form>
+        {isLoading || !report ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {REPORT_METRICS.map((metric) => (
+                  <FormField
+                    key={metric.name}
+                    control={form.control}
+                    name={metric.name}
+                    render={({ field }) => {
+                      const corrected = field.value !== report[metric.name];
+                      return (
+                        <FormItem>
+                          <FormLabel>{metric.label}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step={metric.currency ? "0.01" : "1"}
+                              {...field}
+                              className={corrected ? "border-amber-500" : undefined}
+                              onChange={(e) =>
+                                field.onChange(
+                                  (metric.currency ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0
+                                )
+                              }
+                            />
+                          </FormControl>
+                          {corrected && (
+                            <FormDescription className="text-amber-600">
+                              Computed: {formatValue(report[metric.name], metric.currency)}
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
+                ))}
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Anything managers should know about today's figures" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full bg-[#457B9D] hover:bg-[#2EC4B6] text-white rounded-md transition-all duration-200 mt-6"
+                disabled={submitMutation.isPending}
+              >
+                {submitMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Submitting...
+                  </>
+                ) : (
+                  "Confirm Daily Report"
+                )}
+              </Button>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,306 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckCircle, Download, Eye, FileText, Loader2, Upload, XCircle } from "lucide-react";
+
+export const LOAD_DOCUMENT_TYPES = [
+  { value: "rate_confirmation", label: "Rate Confirmation" },
+  { value: "bol", label: "Bill of Lading" },
+  { value: "pod", label: "Proof of Delivery" },
+  { value: "lumper_receipt", label: "Lumper Receipt" },
+  { value: "scale_ticket", label: "Scale Ticket" },
+] as const;
+
+export interface LoadDocument {
+  id: number;
+  loadId: number;
+  documentType: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  verificationStatus: "pending" | "verified" | "rejected";
+  rejectionReason: string | null;
+  uploadedAt: string;
+  uploadedByName: string | null;
+  verifiedAt: string | null;
+  verifiedByName: string | null;
+  url: string;
+}
+
+interface LoadDocumentsProps {
+  loadId: number;
+  // Verifying documents is left to dispatch leads
+  canVerify?: boolean;
+}
+
+const documentTypeLabel = (type: string) =>
+  LOAD_DOCUMENT_TYPES.find((option) => option.value === type)?.label ?? type;
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+function VerificationBadge({ document }: { document: LoadDocument }) {
+  switch (document.verificationStatus) {
+    case "verified":
+      return <Badge className="bg-green-100 text-green-800 border-green-300">Verified</Badge>;
+    case "rejected":
+      return (
+        <Badge className="bg-red-100 text-red-800 border-red-300" title={document.rejectionReason ?? undefined}>
+          Rejected
+        </Badge>
+      );
+    default:
+      return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-300">Pending</Badge>;
+  }
+}
+
+export function LoadDocuments({ loadId, canVerify = false }: LoadDocumentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [documentType, setDocumentType] = useState<string>("pod");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<LoadDocument | null>(null);
+  const [rejecting, setRejecting] = useState<LoadDocument | null>(null);
+  const [reason, setReason] = useState("");
+
+  const documentsUrl = `/api/dispatch/loads/${loadId}/documents`;
+  const { data: documents = [], isLoading } = useQuery<LoadDocument[]>({
+    queryKey: [documentsUrl],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [documentsUrl] });
+    // Rate confirmations and PODs are linked from the load itself
+    queryClient.invalidateQueries({ queryKey: [`/api/dispatch/loads/${loadId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dispatch/loads"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("documentType", documentType);
+      formData.append("file", file!);
+      // Multipart upload, which apiRequest does not send
+      const res = await fetch(documentsUrl, { method: "POST", body: formData, credentials: "include" });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(body.message || res.statusText);
+      }
+      return body as LoadDocument;
+    },
+    onSuccess: (document) => {
+      refresh();
+      setFile(null);
+      if (fileInput.current) fileInput.current.value = "";
+      toast({ title: "Document uploaded", description: `${documentTypeLabel(document.documentType)}: ${document.fileName}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const verificationMutation = useMutation({
+    mutationFn: async ({ document, status }: { document: LoadDocument; status: "verified" | "rejected" }) => {
+      const res = await apiRequest("PATCH", `${documentsUrl}/${document.id}/verification`, {
+        status,
+        reason: status === "rejected" ? reason.trim() : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (_data, { status }) => {
+      refresh();
+      setRejecting(null);
+      setReason("");
+      toast({ title: status === "verified" ? "Document verified" : "Document rejected" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update document", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="h-5 w-5 mr-2" />
+          Documents
+        </CardTitle>
+        <CardDescription>A delivered load is invoiced once its proof of delivery is verified</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="space-y-2 md:w-56">
+            <Label>Document Type</Label>
+            <Select value={documentType} onValueChange={setDocumentType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOAD_DOCUMENT_TYPES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 flex-1">
+            <Label htmlFor={`load-${loadId}-document`}>File</Label>
+            <Input
+              id={`load-${loadId}-document`}
+              ref={fileInput}
+              type="file"
+              accept="application/pdf,image/jpeg,image/png,image/webp,image/tiff"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <Button onClick={() => uploadMutation.mutate()} disabled={!file || uploadMutation.isPending}>
+            {uploadMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No documents uploaded for this load yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell className="font-medium">{documentTypeLabel(document.documentType)}</TableCell>
+                  <TableCell>
+                    <div>{document.fileName}</div>
+                    <div className="text-xs text-gray-500">{formatFileSize(document.fileSize)}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{format(new Date(document.uploadedAt), "MMM d, yyyy h:mm a")}</div>
+                    <div className="text-xs text-gray-500">{document.uploadedByName ?? "Unknown"}</div>
+                  </TableCell>
+                  <TableCell>
+                    <VerificationBadge document={document} />
+                    {document.verifiedAt && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {document.verifiedByName ?? "Unknown"}, {format(new Date(document.verifiedAt), "MMM d")}
+                      </div>
+                    )}
+                    {document.verificationStatus === "rejected" && document.rejectionReason && (
+                      <div className="text-xs text-red-600 mt-1">{document.rejectionReason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => setPreview(document)} title="Preview">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" asChild title="Download">
+                        <a href={`${document.url}?download=1`}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      {canVerify && document.verificationStatus !== "verified" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Verify"
+                          disabled={verificationMutation.isPending}
+                          onClick={() => verificationMutation.mutate({ document, status: "verified" })}
+                        >
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        </Button>
+                      )}
+                      {canVerify && document.verificationStatus !== "rejected" && (
+                        <Button variant="ghost" size="sm" title="Reject" onClick={() => setRejecting(document)}>
+                          <XCircle className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-[900px]">
+          <DialogHeader>
+            <DialogTitle>{preview && documentTypeLabel(preview.documentType)}</DialogTitle>
+            <DialogDescription>{preview?.fileName}</DialogDescription>
+          </DialogHeader>
+          {preview && (preview.mimeType.startsWith("image/") && preview.mimeType !== "image/tiff" ? (
+            <img src={preview.url} alt={preview.fileName} className="max-h-[70vh] mx-auto" />
+          ) : (
+            <iframe src={preview.url} title={preview.fileName} className="w-full h-[70vh] border rounded" />
+          ))}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Reject Document</DialogTitle>
+            <DialogDescription>{rejecting?.fileName}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="document-rejection-reason">Reason</Label>
+            <Textarea id="document-rejection-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || verificationMutation.isPending}
+              onClick={() => rejecting && verificationMutation.mutate({ document: rejecting, status: "rejected" })}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
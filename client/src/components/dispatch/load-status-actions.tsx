@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, Loader2 } from "lucide-react";
+
+type LoadRequiredField = "rateConfirmationUrl" | "podUrl";
+
+export interface AvailableLoadAction {
+  action: string;
+  label: string;
+  to: string;
+  requires: LoadRequiredField[];
+  requiresNote: boolean;
+}
+
+interface LoadStatusActionsProps {
+  load: {
+    id: number;
+    loadNumber?: string | null;
+    rateConfirmationUrl?: string | null;
+    podUrl?: string | null;
+    availableActions?: AvailableLoadAction[];
+  };
+}
+
+const REQUIRED_FIELD_LABELS: Record<LoadRequiredField, string> = {
+  rateConfirmationUrl: "Rate Confirmation URL",
+  podUrl: "Proof of Delivery (POD) URL",
+};
+
+export function LoadStatusActions({ load }: LoadStatusActionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<AvailableLoadAction | null>(null);
+  const [documents, setDocuments] = useState<Partial<Record<LoadRequiredField, string>>>({});
+  const [note, setNote] = useState("");
+
+  const actions = load.availableActions ?? [];
+  // Only ask for the documents the load does not have yet
+  const missingFields = selected ? selected.requires.filter((field) => !load[field]) : [];
+
+  const closeDialog = () => {
+    setSelected(null);
+    setDocuments({});
+    setNote("");
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: AvailableLoadAction) => {
+      const res = await apiRequest("POST", `/api/dispatch/loads/${load.id}/transitions`, {
+        action: action.action,
+        ...documents,
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dispatch/loads"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dispatch/loads/${load.id}`] });
+      closeDialog();
+      toast({
+        title: action.label,
+        description: `Load ${load.loadNumber || `#${load.id}`} updated`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update load status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectAction = (action: AvailableLoadAction) => {
+    const needsInput = action.requiresNote || action.requires.some((field) => !load[field]);
+    if (needsInput) {
+      setSelected(action);
+    } else {
+      transitionMutation.mutate(action);
+    }
+  };
+
+  if (actions.length === 0) {
+    return null;
+  }
+
+  const canSubmit =
+    !!selected &&
+    missingFields.every((field) => documents[field]?.trim()) &&
+    (!selected.requiresNote || note.trim().length > 0);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={transitionMutation.isPending}
+            className="text-[#025E73] border-[#025E73] hover:bg-[#025E73]/10"
+          >
+            {transitionMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Status"}
+            <ChevronDown className="h-3 w-3 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {actions.map((action) => (
+            <DropdownMenuItem
+              key={action.action}
+              onClick={() => selectAction(action)}
+              className={action.action === "cancel" ? "text-red-600" : undefined}
+            >
+              {action.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{selected?.label}</DialogTitle>
+            <DialogDescription>Load {load.loadNumber || `#${load.id}`}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {missingFields.map((field) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`load-${load.id}-${field}`}>{REQUIRED_FIELD_LABELS[field]}</Label>
+                <Input
+                  id={`load-${load.id}-${field}`}
+                  placeholder="https://"
+                  value={documents[field] ?? ""}
+                  onChange={(e) => setDocuments({ ...documents, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor={`load-${load.id}-note`}>
+                {selected?.requiresNote ? "Reason" : "Note (optional)"}
+              </Label>
+              <Textarea id={`load-${load.id}-note`} value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => selected && transitionMutation.mutate(selected)}
+              disabled={!canSubmit || transitionMutation.isPending}
+              variant={selected?.action === "cancel" ? "destructive" : "default"}
+            >
+              {transitionMutation.isPending ? "Saving..." : selected?.label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+import { useFieldArray, useFormContext, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, MapPin, Package, Plus, Trash2 } from "lucide-react";
+
+export const loadStopFormSchema = z.object({
+  stopType: z.enum(["pickup", "delivery"]),
+  location: z.string().min(2, { message: "Address is required" }),
+  appointmentStart: z.string().min(1, { message: "Appointment is required" }),
+  appointmentEnd: z.string().optional(),
+  referenceNumbers: z.string().optional(),
+});
+
+// A route starts with a pickup and ends with a delivery
+export const loadStopsFormSchema = z
+  .array(loadStopFormSchema)
+  .min(2, { message: "Add at least one pickup and one delivery" })
+  .refine((stops) => stops[0]?.stopType === "pickup", { message: "The first stop must be a pickup" })
+  .refine((stops) => stops[stops.length - 1]?.stopType === "delivery", { message: "The last stop must be a delivery" })
+  .refine(
+    (stops) => stops.every((stop) => !stop.appointmentEnd || stop.appointmentEnd >= stop.appointmentStart),
+    { message: "An appointment window must not end before it starts" }
+  );
+
+export type LoadStopFormValues = z.infer<typeof loadStopFormSchema>;
+
+// datetime-local value for a date at the given hour
+const localDateTime = (date: Date, hour: number) => {
+  const copy = new Date(date);
+  copy.setHours(hour, 0, 0, 0);
+  const offset = copy.getTimezoneOffset() * 60000;
+  return new Date(copy.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * A single pickup today and a single delivery three days out
+ */
+export function defaultLoadStops(): LoadStopFormValues[] {
+  return [
+    { stopType: "pickup", location: "", appointmentStart: localDateTime(new Date(), 8), appointmentEnd: "", referenceNumbers: "" },
+    { stopType: "delivery", location: "", appointmentStart: localDateTime(new Date(Date.now() + 3 * 86400000), 8), appointmentEnd: "", referenceNumbers: "" },
+  ];
+}
+
+/**
+ * Stops as the load API expects them: ISO timestamps and reference number lists
+ */
+export function toLoadStopsPayload(stops: LoadStopFormValues[]) {
+  return stops.map((stop) => ({
+    stopType: stop.stopType,
+    location: stop.location,
+    appointmentStart: new Date(stop.appointmentStart).toISOString(),
+    appointmentEnd: stop.appointmentEnd ? new Date(stop.appointmentEnd).toISOString() : null,
+    referenceNumbers: (stop.referenceNumbers || "")
+      .split(",")
+      .map((reference) => reference.trim())
+      .filter(Boolean),
+  }));
+}
+
+export function LoadStopsEditor() {
+  const { control, formState } = useFormContext<{ stops: LoadStopFormValues[] }>();
+  const { fields, append, remove, move } = useFieldArray({ control, name: "stops" });
+  const stops = useWatch({ control, name: "stops" });
+  const stopsError = formState.errors.stops?.root?.message || formState.errors.stops?.message;
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field, index) => (
+        <div key={field.id} className="border rounded-md p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium flex items-center">
+              {stops?.[index]?.stopType === "pickup" ? (
+                <Package className="h-4 w-4 mr-2 text-gray-500" />
+              ) : (
+                <MapPin className="h-4 w-4 mr-2 text-gray-500" />
+              )}
+              Stop {index + 1}
+            </h3>
+            <div className="flex items-center space-x-1">
+              <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, index - 1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" disabled={index === fields.length - 1} onClick={() => move(index, index + 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" disabled={fields.length <= 2} onClick={() => remove(index)}>
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+            <FormField
+              control={control}
+              name={`stops.${index}.stopType`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type*</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="pickup">Pickup</SelectItem>
+                      <SelectItem value="delivery">Delivery</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name={`stops.${index}.location`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address*</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Street, City, State" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name={`stops.${index}.appointmentStart`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Appointment*</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name={`stops.${index}.appointmentEnd`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Window Ends</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={control}
+              name={`stops.${index}.referenceNumbers`}
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Reference Numbers</FormLabel>
+                  <FormControl>
+                    <Input placeholder="PO, BOL or appointment numbers, comma separated" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+
+      {stopsError && <p className="text-sm font-medium text-destructive">{stopsError}</p>}
+
+      <div className="flex space-x-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ stopType: "pickup", location: "", appointmentStart: "", appointmentEnd: "", referenceNumbers: "" })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Pickup
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ stopType: "delivery", location: "", appointmentStart: "", appointmentEnd: "", referenceNumbers: "" })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Delivery
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileMinus } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invoiceBalance, type InvoiceDetailsData } from "./InvoiceDetails";
+
+interface CreditNote {
+  id: number;
+  creditNoteNumber: string;
+  amount: number;
+  reason: string;
+  issuedDate: string;
+  createdByName: string | null;
+  items: Array<{ id: number; invoiceItemId: number; description: string; amount: number }>;
+}
+
+const CREDITABLE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+export function InvoiceCredits({ invoice }: { invoice: InvoiceDetailsData }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const balance = invoiceBalance(invoice);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [lineAmounts, setLineAmounts] = useState<Record<number, string>>({});
+
+  const { data: creditNotes = [], isLoading } = useQuery<CreditNote[]>({
+    queryKey: [`/api/invoices/${invoice.id}/credit-notes`],
+  });
+
+  const creditedByItem = creditNotes.reduce<Record<number, number>>((totals, note) => {
+    note.items.forEach((item) => {
+      totals[item.invoiceItemId] = (totals[item.invoiceItemId] ?? 0) + item.amount;
+    });
+    return totals;
+  }, {});
+
+  const lines = invoice.items
+    .map((item) => ({ invoiceItemId: item.id, amount: Number(lineAmounts[item.id] || 0) }))
+    .filter((line) => line.amount > 0);
+  const creditTotal = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+
+  const createCreditNoteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/invoices/${invoice.id}/credit-notes`, { reason, lines });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices', invoice.id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/credit-notes`] });
+      setDialogOpen(false);
+      setReason('');
+      setLineAmounts({});
+      toast({
+        title: `Credit note ${data.creditNote.creditNoteNumber} issued`,
+        description: data.flaggedCommissions > 0
+          ? `${data.flaggedCommissions} commission(s) flagged for adjustment`
+          : `Remaining balance: ${formatCurrency(data.balance)}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error issuing credit note",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (!isLoading && creditNotes.length === 0 && !CREDITABLE_STATUSES.includes(invoice.status)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Credit Notes</CardTitle>
+            <CardDescription>
+              {formatCurrency(invoice.creditedAmount ?? 0)} credited on this invoice
+            </CardDescription>
+          </div>
+          {CREDITABLE_STATUSES.includes(invoice.status) && balance > 0 && (
+            <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+              <FileMinus className="h-4 w-4 mr-2" />
+              Issue Credit Note
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : creditNotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No credit notes issued.</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {creditNotes.map((note) => (
+              <div key={note.id} className="p-3 text-sm space-y-1">
+                <div className="grid grid-cols-12">
+                  <div className="col-span-3 font-medium">{note.creditNoteNumber}</div>
+                  <div className="col-span-3">{new Date(note.issuedDate).toLocaleDateString()}</div>
+                  <div className="col-span-4 text-muted-foreground">{note.reason}</div>
+                  <div className="col-span-2 text-right font-medium text-purple-600">-{formatCurrency(note.amount)}</div>
+                </div>
+                {note.items.map((item) => (
+                  <div key={item.id} className="grid grid-cols-12 text-xs text-muted-foreground">
+                    <div className="col-span-10 pl-4">{item.description}</div>
+                    <div className="col-span-2 text-right">-{formatCurrency(item.amount)}</div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Issue Credit Note</DialogTitle>
+            <DialogDescription>
+              Invoice #{invoice.invoiceNumber} - balance {formatCurrency(balance)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="rounded-md border divide-y">
+              {invoice.items.map((item) => {
+                const remaining = Math.round((item.amount - (creditedByItem[item.id] ?? 0)) * 100) / 100;
+                return (
+                  <div key={item.id} className="grid grid-cols-12 items-center gap-2 p-2 text-sm">
+                    <div className="col-span-6">{item.description}</div>
+                    <div className="col-span-3 text-muted-foreground text-right">{formatCurrency(remaining)}</div>
+                    <div className="col-span-3">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max={remaining}
+                        placeholder="0.00"
+                        disabled={remaining <= 0}
+                        value={lineAmounts[item.id] ?? ''}
+                        onChange={(e) => setLineAmounts({ ...lineAmounts, [item.id]: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="credit-reason">Reason</Label>
+              <Textarea id="credit-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            <p className="text-sm text-right font-medium">Credit total: {formatCurrency(creditTotal)}</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createCreditNoteMutation.mutate()}
+              disabled={!reason.trim() || creditTotal <= 0 || creditTotal > balance || createCreditNoteMutation.isPending}
+            >
+              {createCreditNoteMutation.isPending ? 'Saving...' : 'Issue Credit Note'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
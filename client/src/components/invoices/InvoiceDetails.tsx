@@ -19,7 +19,8 @@ import {
   Calendar, 
   FileText, 
   Send, 
-  MessageSquare 
+  MessageSquare,
+  Ban
 } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
 import { 
@@ -42,6 +43,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InvoicePayments } from "./InvoicePayments";
+import { InvoiceCredits } from "./InvoiceCredits";
 
 export interface InvoiceItem {
   id: number;
@@ -64,11 +67,14 @@ export interface InvoiceDetailsData {
   clientName: string;
   clientEmail: string;
   totalAmount: number;
-  status: 'draft' | 'sent' | 'paid' | 'overdue';
+  status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'credited' | 'void';
   issuedDate: string;
   dueDate: string;
   paidDate?: string;
   paidAmount?: number;
+  creditedAmount?: number;
+  voidedAt?: string;
+  voidReason?: string;
   invoicePdf?: string;
   notes?: string;
   items: InvoiceItem[];
@@ -76,8 +82,19 @@ export interface InvoiceDetailsData {
   createdByName: string;
 }
 
+const VOIDABLE_STATUSES = ['draft', 'sent', 'overdue'];
+
+/**
+ * Amount still owed after payments and credit notes
+ */
+export function invoiceBalance(invoice: Pick<InvoiceDetailsData, 'totalAmount' | 'paidAmount' | 'creditedAmount'>) {
+  return Math.round((invoice.totalAmount - (invoice.paidAmount ?? 0) - (invoice.creditedAmount ?? 0)) * 100) / 100;
+}
+
 export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
   const [sendEmailDialogOpen, setSendEmailDialogOpen] = useState(false);
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
   const [selectedTemplate, setSelectedTemplate] = useState('standard');
   const [emailMessage, setEmailMessage] = useState('');
   const { toast } = useToast();
@@ -87,8 +104,11 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
     switch (status) {
       case 'draft': return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100';
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100';
+      case 'partially_paid': return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100';
       case 'paid': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100';
       case 'overdue': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100';
+      case 'credited': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100';
+      case 'void': return 'bg-gray-200 text-gray-500 line-through dark:bg-gray-700 dark:text-gray-300';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100';
     }
   };
@@ -161,32 +181,25 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
     }
   });
   
-  // Mark as paid mutation
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (invoiceId: number) => {
-      const res = await apiRequest('PATCH', `/api/invoices/${invoiceId}`, {
-        status: 'paid',
-        paidDate: new Date().toISOString(),
-        paidAmount: invoice.totalAmount
-      });
-      
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to mark invoice as paid');
-      }
-      
+  // Void invoice mutation
+  const voidInvoiceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/invoices/${invoice.id}/void`, { reason: voidReason });
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/invoices', invoice.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      setVoidDialogOpen(false);
+      setVoidReason('');
       toast({
-        title: "Invoice marked as paid",
-        description: `Invoice #${invoice.invoiceNumber} has been marked as paid`,
+        title: "Invoice voided",
+        description: `${data.releasedLoads.length} load(s) can be billed again${data.flaggedCommissions > 0 ? `, ${data.flaggedCommissions} commission(s) flagged for adjustment` : ''}`,
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "Error updating invoice",
+        title: "Error voiding invoice",
         description: error.message,
         variant: "destructive",
       });
@@ -210,10 +223,6 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
     });
   };
   
-  const handleMarkAsPaid = () => {
-    markAsPaidMutation.mutate(invoice.id);
-  };
-  
   // Handle approve and send invoice
   const handleApproveAndSend = () => {
     approveAndSendMutation.mutate(invoice.id);
@@ -231,7 +240,7 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
               </CardDescription>
             </div>
             <Badge className={getStatusColor(invoice.status)}>
-              {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+              {(invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)).replace('_', ' ')}
             </Badge>
           </div>
         </CardHeader>
@@ -284,22 +293,35 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
                 </div>
               )}
               
-              {invoice.paidAmount !== undefined && invoice.paidAmount < invoice.totalAmount && (
+              {(invoice.creditedAmount ?? 0) > 0 && (
+                <div className="flex items-center justify-between pb-2">
+                  <span className="font-medium">Credited:</span>
+                  <span className="font-semibold text-purple-600">{formatCurrency(invoice.creditedAmount ?? 0)}</span>
+                </div>
+              )}
+              
+              {invoice.status !== 'void' && (invoice.paidAmount !== undefined || (invoice.creditedAmount ?? 0) > 0) && invoiceBalance(invoice) > 0 && (
                 <div className="flex items-center justify-between pb-2">
                   <span className="font-medium">Balance Due:</span>
                   <span className="font-semibold text-red-600">
-                    {formatCurrency(invoice.totalAmount - invoice.paidAmount)}
+                    {formatCurrency(invoiceBalance(invoice))}
                   </span>
                 </div>
               )}
               
+              {invoice.status === 'void' && (
+                <div className="rounded-md bg-muted p-3 text-sm">
+                  Voided{invoice.voidedAt ? ` on ${formatDate(invoice.voidedAt)}` : ''}{invoice.voidReason ? `: ${invoice.voidReason}` : ''}
+                </div>
+              )}
+              
               <div className="flex flex-wrap gap-2 mt-4">
-                {invoice.invoicePdf && (
-                  <Button variant="outline" size="sm" className="h-9">
+                <Button variant="outline" size="sm" className="h-9" asChild>
+                  <a href={`/api/invoices/${invoice.id}/pdf`} download>
                     <Download className="h-4 w-4 mr-2" />
                     Download PDF
-                  </Button>
-                )}
+                  </a>
+                </Button>
                 <Button variant="outline" size="sm" className="h-9">
                   <Printer className="h-4 w-4 mr-2" />
                   Print
@@ -309,7 +331,7 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
                   size="sm" 
                   className="h-9"
                   onClick={() => setSendEmailDialogOpen(true)}
-                  disabled={invoice.status === 'draft'}
+                  disabled={invoice.status === 'draft' || invoice.status === 'void'}
                 >
                   <Mail className="h-4 w-4 mr-2" />
                   Send Email
@@ -335,16 +357,15 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
                     )}
                   </Button>
                 )}
-                
-                {invoice.status !== 'paid' && (
-                  <Button 
-                    variant="default" 
-                    size="sm" 
-                    className="h-9"
-                    onClick={handleMarkAsPaid}
+                {VOIDABLE_STATUSES.includes(invoice.status) && !invoice.paidAmount && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9 text-red-600"
+                    onClick={() => setVoidDialogOpen(true)}
                   >
-                    <DollarSign className="h-4 w-4 mr-2" />
-                    Mark as Paid
+                    <Ban className="h-4 w-4 mr-2" />
+                    Void
                   </Button>
                 )}
               </div>
@@ -403,6 +424,38 @@ export function InvoiceDetails({ invoice }: { invoice: InvoiceDetailsData }) {
           )}
         </CardContent>
       </Card>
+
+      <InvoicePayments invoice={invoice} />
+      
+      <InvoiceCredits invoice={invoice} />
+      
+      {/* Void Invoice Dialog */}
+      <Dialog open={voidDialogOpen} onOpenChange={setVoidDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Invoice</DialogTitle>
+            <DialogDescription>
+              Invoice #{invoice.invoiceNumber} is kept for the record but no longer counts towards receivables or revenue. Its loads can be billed again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Reason</label>
+            <Textarea value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => voidInvoiceMutation.mutate()}
+              disabled={!voidReason.trim() || voidInvoiceMutation.isPending}
+            >
+              {voidInvoiceMutation.isPending ? 'Voiding...' : 'Void Invoice'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       
       {/* Send Email Dialog */}
       <Dialog open={sendEmailDialogOpen} onOpenChange={setSendEmailDialogOpen}>
@@ -85,7 +85,8 @@ const invoiceFormSchema = z.object({
   leadId: z.number({
     required_error: "Client is required",
   }),
-  invoiceNumber: z.string().min(1, "Invoice number is required"),
+  // Assigned from the organization sequence when the invoice is created
+  invoiceNumber: z.string().optional(),
   issuedDate: z.date({
     required_error: "Issue date is required",
   }),
@@ -138,7 +139,7 @@ export function InvoiceForm({
   // Default values for the form
   const defaultValues: Partial<InvoiceFormValues> = {
     leadId: initialData?.leadId,
-    invoiceNumber: initialData?.invoiceNumber || generateInvoiceNumber(),
+    invoiceNumber: initialData?.invoiceNumber || '',
     issuedDate: initialData?.issuedDate || new Date(),
     dueDate: initialData?.dueDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
     items: initialData?.items || [{ loadId: 0, description: '', amount: 0 }],
@@ -160,7 +161,7 @@ export function InvoiceForm({
   
   // Create invoice mutation
   const createInvoiceMutation = useMutation({
-    mutationFn: async (data: InvoiceFormValues) => {
+    mutationFn: async ({ invoiceNumber, ...data }: InvoiceFormValues) => {
       const res = await apiRequest('POST', '/api/invoices', {
         ...data,
         issuedDate: format(data.issuedDate, 'yyyy-MM-dd'),
@@ -237,14 +238,6 @@ export function InvoiceForm({
     }
   };
   
-  function generateInvoiceNumber() {
-    const date = new Date();
-    const year = date.getFullYear().toString().substr(-2);
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const random = Math.floor(1000 + Math.random() * 9000).toString();
-    return `INV-${year}${month}-${random}`;
-  }
-  
   // Calculate total amount of invoice
   const totalAmount = form.watch('items')?.reduce((acc, item) => {
     return acc + (item.amount || 0);
@@ -342,7 +335,7 @@ export function InvoiceForm({
                     <FormItem>
                       <FormLabel>Invoice Number</FormLabel>
                       <FormControl>
-                        <Input placeholder="INV-0001" {...field} />
+                        <Input placeholder="Assigned automatically" readOnly {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -54,7 +54,7 @@ export interface InvoiceListItem {
   invoiceNumber: string;
   clientName: string;
   totalAmount: number;
-  status: 'draft' | 'sent' | 'paid' | 'overdue';
+  status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'credited' | 'void';
   issuedDate: string;
   dueDate: string;
   paidDate?: string;
@@ -160,8 +160,11 @@ export function InvoiceList({
     switch (status) {
       case 'draft': return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100';
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100';
+      case 'partially_paid': return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100';
       case 'paid': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100';
       case 'overdue': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100';
+      case 'credited': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100';
+      case 'void': return 'bg-gray-200 text-gray-500 line-through dark:bg-gray-700 dark:text-gray-300';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100';
     }
   };
@@ -170,8 +173,11 @@ export function InvoiceList({
     switch (status) {
       case 'draft': return <FileText className="h-4 w-4 text-gray-500" />;
       case 'sent': return <AlertCircle className="h-4 w-4 text-blue-500" />;
+      case 'partially_paid': return <AlertCircle className="h-4 w-4 text-amber-500" />;
       case 'paid': return <CheckCircle className="h-4 w-4 text-green-500" />;
       case 'overdue': return <XCircle className="h-4 w-4 text-red-500" />;
+      case 'credited': return <CheckCircle className="h-4 w-4 text-purple-500" />;
+      case 'void': return <XCircle className="h-4 w-4 text-gray-400" />;
       default: return <FileText className="h-4 w-4" />;
     }
   };
@@ -235,8 +241,11 @@ export function InvoiceList({
                   <SelectItem value="all">All Statuses</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="partially_paid">Partially Paid</SelectItem>
                   <SelectItem value="paid">Paid</SelectItem>
                   <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="credited">Credited</SelectItem>
+                  <SelectItem value="void">Void</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={dateFilter} onValueChange={handleDateFilterChange}>
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DollarSign } from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invoiceBalance, type InvoiceDetailsData } from "./InvoiceDetails";
+
+interface InvoicePayment {
+  id: number;
+  amount: number;
+  paymentDate: string;
+  method: string;
+  referenceNumber: string | null;
+  notes: string | null;
+}
+
+const PAYMENT_METHODS = [
+  { value: 'ach', label: 'ACH' },
+  { value: 'wire', label: 'Wire' },
+  { value: 'check', label: 'Check' },
+  { value: 'card', label: 'Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'factoring', label: 'Factoring' },
+  { value: 'other', label: 'Other' },
+];
+
+const PAYABLE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+export function InvoicePayments({ invoice }: { invoice: InvoiceDetailsData }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const balance = invoiceBalance(invoice);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [method, setMethod] = useState('ach');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: payments = [], isLoading } = useQuery<InvoicePayment[]>({
+    queryKey: [`/api/invoices/${invoice.id}/payments`],
+  });
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/invoices/${invoice.id}/payments`, {
+        amount: Number(amount),
+        paymentDate,
+        method,
+        referenceNumber: referenceNumber || null,
+        notes: notes || null,
+      });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices', invoice.id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/payments`] });
+      setDialogOpen(false);
+      setAmount('');
+      setReferenceNumber('');
+      setNotes('');
+      toast({
+        title: "Payment recorded",
+        description: data.balance > 0
+          ? `Remaining balance: ${formatCurrency(data.balance)}`
+          : `Invoice #${invoice.invoiceNumber} is now paid in full`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error recording payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  const openDialog = () => {
+    setAmount(balance.toFixed(2));
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Payments</CardTitle>
+            <CardDescription>
+              {formatCurrency(invoice.paidAmount ?? 0)} received, {formatCurrency(Math.max(balance, 0))} outstanding
+            </CardDescription>
+          </div>
+          {PAYABLE_STATUSES.includes(invoice.status) && balance > 0 && (
+            <Button size="sm" onClick={openDialog}>
+              <DollarSign className="h-4 w-4 mr-2" />
+              Record Payment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {payments.map((payment) => (
+              <div key={payment.id} className="grid grid-cols-12 p-3 text-sm">
+                <div className="col-span-3">{new Date(payment.paymentDate).toLocaleDateString()}</div>
+                <div className="col-span-2 uppercase">{payment.method}</div>
+                <div className="col-span-4 text-muted-foreground">
+                  {payment.referenceNumber ? `Ref ${payment.referenceNumber}` : payment.notes ?? ''}
+                </div>
+                <div className="col-span-3 text-right font-medium text-green-600">{formatCurrency(payment.amount)}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Invoice #{invoice.invoiceNumber} - balance {formatCurrency(balance)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                max={balance}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Payment Date</Label>
+              <Input id="payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference Number</Label>
+              <Input id="payment-reference" value={referenceNumber} onChange={(e) => setReferenceNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="payment-notes">Notes</Label>
+              <Textarea id="payment-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => recordPaymentMutation.mutate()}
+              disabled={!amount || Number(amount) <= 0 || Number(amount) > balance || recordPaymentMutation.isPending}
+            >
+              {recordPaymentMutation.isPending ? 'Saving...' : 'Save Payment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
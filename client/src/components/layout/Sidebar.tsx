@@ -196,6 +196,7 @@ export function Sidebar({ mobile, collapsed }: SidebarProps) {
         { name: "Accounts", href: "/crm/accounts" },
         { name: "Activities", href: "/crm/activities" },
         { name: "Surveys", href: "/crm/surveys" },
+        { name: "Duplicates", href: "/crm/duplicates" },
         { name: "Commissions", href: "/crm/commissions" },
       ],
     },
@@ -151,9 +151,11 @@ export default function SimpleSidebar({ mobile, collapsed: externalCollapsed, on
   // Dispatch Sub-items
   const dispatchSubItems = [
     { name: "Loads", href: "/dispatch/loads" },
+    { name: "Load Board", href: "/dispatch/board" },
     { name: "Clients", href: "/dispatch/clients" },
     { name: "New Load", href: "/dispatch/new-load" },
-    { name: "Load Tracking", href: "/dispatch/tracking" }
+    { name: "Load Tracking", href: "/dispatch/tracking" },
+    { name: "Lane Analytics", href: "/dispatch/reports/lanes" }
   ];
 
   // HR Sub-items
@@ -21,7 +21,7 @@ export function LeaderboardSection() {
     isLoading: salesLoading, 
     error: salesError 
   } = useQuery({
-    queryKey: ['/api/leaderboard/sales'],
+    queryKey: [`/api/leaderboard/sales?date=${period}`],
     staleTime: 5 * 60 * 1000 // 5 minutes
   });
   
@@ -31,7 +31,7 @@ export function LeaderboardSection() {
     isLoading: dispatchLoading, 
     error: dispatchError 
   } = useQuery({
-    queryKey: ['/api/leaderboard/dispatch'],
+    queryKey: [`/api/leaderboard/dispatch?date=${period}`],
     staleTime: 5 * 60 * 1000 // 5 minutes
   });
   
@@ -41,7 +41,7 @@ export function LeaderboardSection() {
     isLoading: combinedLoading, 
     error: combinedError 
   } = useQuery({
-    queryKey: ['/api/leaderboard/combined'],
+    queryKey: [`/api/leaderboard/combined?date=${period}`],
     staleTime: 5 * 60 * 1000 // 5 minutes
   });
   
@@ -181,7 +181,7 @@ export function LeaderboardSection() {
                 <span>{getDepartmentTitle()} Leaderboard</span>
               </CardTitle>
               <CardDescription>
-                Top performers based on {department === 'sales' ? 'leads closed' : department === 'dispatch' ? 'loads booked' : 'overall performance'}
+                Top performers based on {department === 'sales' ? 'activations, calls and handoffs' : department === 'dispatch' ? 'loads booked and invoiced' : 'overall performance'}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -237,8 +237,8 @@ export function LeaderboardSection() {
                 </p>
               )}
               <p className="text-sm text-muted-foreground mt-1">
-                {department === 'sales' ? 'Most leads closed' : 
-                 department === 'dispatch' ? 'Most loads booked' : 'Highest overall performance'}
+                {department === 'sales' ? 'Highest sales score' : 
+                 department === 'dispatch' ? 'Highest dispatch score' : 'Highest overall performance'}
               </p>
             </div>
             
@@ -249,9 +249,9 @@ export function LeaderboardSection() {
               ) : (
                 <p className="text-lg font-semibold">
                   {department === 'sales' ? 
-                    `${((weekOverWeekData.thisWeek.totalSalesLeads / Math.max(1, weekOverWeekData.prevWeek.totalSalesLeads) - 1) * 100).toFixed(1)}%` :
+                    `${((weekOverWeekData.thisWeek.salesScore / Math.max(1, weekOverWeekData.prevWeek.salesScore) - 1) * 100).toFixed(1)}%` :
                    department === 'dispatch' ? 
-                    `${((weekOverWeekData.thisWeek.totalLoads / Math.max(1, weekOverWeekData.prevWeek.totalLoads) - 1) * 100).toFixed(1)}%` :
+                    `${((weekOverWeekData.thisWeek.dispatchScore / Math.max(1, weekOverWeekData.prevWeek.dispatchScore) - 1) * 100).toFixed(1)}%` :
                     `${((weekOverWeekData.thisWeek.totalCombined / Math.max(1, weekOverWeekData.prevWeek.totalCombined) - 1) * 100).toFixed(1)}%`}
                 </p>
               )}
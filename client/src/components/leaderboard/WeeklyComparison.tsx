@@ -2,21 +2,19 @@ import { Card } from "@/components/ui/card";
 import { ArrowUpRight, ArrowDownRight, ArrowRight } from "lucide-react";
 import { motion } from "framer-motion";
 
+interface WeekTotals {
+  totalSalesLeads: number;
+  totalLoads: number;
+  salesScore: number;
+  dispatchScore: number;
+  totalCombined: number;
+  salesUsers: number;
+  dispatchUsers: number;
+}
+
 interface WeekOverWeekData {
-  thisWeek: {
-    totalSalesLeads: number;
-    totalLoads: number;
-    totalCombined: number;
-    salesUsers: number;
-    dispatchUsers: number;
-  };
-  prevWeek: {
-    totalSalesLeads: number;
-    totalLoads: number;
-    totalCombined: number;
-    salesUsers: number;
-    dispatchUsers: number;
-  };
+  thisWeek: WeekTotals;
+  prevWeek: WeekTotals;
 }
 
 interface WeeklyComparisonProps {
@@ -33,18 +31,15 @@ export function WeeklyComparison({ data, departmentType }: WeeklyComparisonProps
     );
   }
 
-  // Calculate the metrics based on the department type
-  const currentValue = departmentType === 'sales' 
-    ? data.thisWeek.totalSalesLeads 
-    : departmentType === 'dispatch' 
-      ? data.thisWeek.totalLoads 
-      : data.thisWeek.totalCombined;
-  
-  const previousValue = departmentType === 'sales' 
-    ? data.prevWeek.totalSalesLeads 
-    : departmentType === 'dispatch' 
-      ? data.prevWeek.totalLoads 
-      : data.prevWeek.totalCombined;
+  // Compare the department's score, computed with the same weights as the leaderboard
+  const scoreOf = (week: WeekTotals) => departmentType === 'sales'
+    ? week.salesScore
+    : departmentType === 'dispatch'
+      ? week.dispatchScore
+      : week.totalCombined;
+
+  const currentValue = scoreOf(data.thisWeek);
+  const previousValue = scoreOf(data.prevWeek);
   
   const percentChange = previousValue > 0
     ? ((currentValue - previousValue) / previousValue) * 100
@@ -61,11 +56,7 @@ export function WeeklyComparison({ data, departmentType }: WeeklyComparisonProps
       : data.thisWeek.salesUsers + data.thisWeek.dispatchUsers;
   
   // The trend labels based on department
-  const trendLabel = departmentType === 'sales'
-    ? 'leads closed'
-    : departmentType === 'dispatch'
-      ? 'loads booked'
-      : 'combined performance';
+  const trendLabel = 'points';
 
   return (
     <div className="space-y-6">
@@ -74,8 +65,8 @@ export function WeeklyComparison({ data, departmentType }: WeeklyComparisonProps
           {currentValue}
         </div>
         <div className="text-sm text-muted-foreground mb-4">
-          {departmentType === 'sales' ? 'Total leads closed this week' : 
-           departmentType === 'dispatch' ? 'Total loads booked this week' : 
+          {departmentType === 'sales' ? `Sales score this week (${data.thisWeek.totalSalesLeads} leads activated)` : 
+           departmentType === 'dispatch' ? `Dispatch score this week (${data.thisWeek.totalLoads} loads booked)` : 
            'Combined performance score'}
         </div>
         
@@ -101,7 +92,7 @@ export function WeeklyComparison({ data, departmentType }: WeeklyComparisonProps
           <div className="flex flex-col items-center gap-2">
             <motion.div 
               initial={{ height: 0 }}
-              animate={{ height: `${Math.min(100, (currentValue / Math.max(currentValue, previousValue)) * 100)}%` }}
+              animate={{ height: `${Math.min(100, (currentValue / Math.max(currentValue, previousValue, 1)) * 100)}%` }}
               transition={{ duration: 0.5 }}
               className="w-12 bg-[#025E73] rounded-t-md"
             />
@@ -113,7 +104,7 @@ export function WeeklyComparison({ data, departmentType }: WeeklyComparisonProps
           <div className="flex flex-col items-center gap-2">
             <motion.div 
               initial={{ height: 0 }}
-              animate={{ height: `${Math.min(100, (previousValue / Math.max(currentValue, previousValue)) * 100)}%` }}
+              animate={{ height: `${Math.min(100, (previousValue / Math.max(currentValue, previousValue, 1)) * 100)}%` }}
               transition={{ duration: 0.5, delay: 0.2 }}
               className="w-12 bg-[#412754] rounded-t-md"
             />
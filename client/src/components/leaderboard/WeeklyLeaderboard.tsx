@@ -13,6 +13,9 @@ interface LeaderboardUser {
   score: number;
   leadsCount?: number;
   loadsCount?: number;
+  callsCount?: number;
+  handoffsAccepted?: number;
+  invoicedUsd?: number;
   position?: number;
 }
 
@@ -95,10 +98,10 @@ export function WeeklyLeaderboard({ data, departmentType, period }: WeeklyLeader
                   <div className="font-medium">{user.name}</div>
                   <div className="text-sm text-muted-foreground">
                     {departmentType === 'sales' && user.leadsCount !== undefined && (
-                      <>{user.leadsCount} leads closed</>
+                      <>{user.leadsCount} activated, {user.callsCount ?? 0} calls, {user.handoffsAccepted ?? 0} handoffs</>
                     )}
                     {departmentType === 'dispatch' && user.loadsCount !== undefined && (
-                      <>{user.loadsCount} loads booked</>
+                      <>{user.loadsCount} loads booked, ${(user.invoicedUsd ?? 0).toLocaleString()} invoiced</>
                     )}
                     {departmentType === 'combined' && (
                       <>Score: {user.score.toFixed(0)}</>
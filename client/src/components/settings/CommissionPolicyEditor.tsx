@@ -485,7 +485,7 @@ export default function CommissionPolicyEditor({ policyId }: { policyId?: number
                               <Input type="number" {...field} />
                             </FormControl>
                             <FormDescription>
-                              Minimum call attempts before penalties apply
+                              Reps with no activations and fewer call attempts than this get the penalty factor
                             </FormDescription>
                           </FormItem>
                         )}
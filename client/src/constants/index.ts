@@ -57,8 +57,11 @@ export const TRUCK_CATEGORIES = {
 export const INVOICE_STATUS = {
   DRAFT: 'draft',
   SENT: 'sent',
+  PARTIALLY_PAID: 'partially_paid',
   PAID: 'paid',
   OVERDUE: 'overdue',
+  CREDITED: 'credited',
+  VOID: 'void',
   CANCELLED: 'cancelled'
 };
 
@@ -198,8 +201,11 @@ export const STATUS_COLORS = {
   nurture: { bg: 'bg-purple-100', text: 'text-purple-800' },
   draft: { bg: 'bg-gray-100', text: 'text-gray-800' },
   sent: { bg: 'bg-blue-100', text: 'text-blue-800' },
+  partially_paid: { bg: 'bg-amber-100', text: 'text-amber-800' },
   paid: { bg: 'bg-green-100', text: 'text-green-800' },
   overdue: { bg: 'bg-red-100', text: 'text-red-800' },
+  credited: { bg: 'bg-purple-100', text: 'text-purple-800' },
+  void: { bg: 'bg-gray-200', text: 'text-gray-500' },
   cancelled: { bg: 'bg-gray-100', text: 'text-gray-800' },
   pending: { bg: 'bg-yellow-100', text: 'text-yellow-800' },
   approved: { bg: 'bg-green-100', text: 'text-green-800' },
@@ -1,14 +1,104 @@
 import { useState } from "react";
 import AdminPageLayout from "@/components/admin/AdminPageLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Plus, DollarSign } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 
+type CommissionRunStatus = "calculated" | "reviewed" | "approved" | "paid" | "locked";
+type CommissionRunAction = "review" | "approve" | "pay" | "lock";
+
+interface CommissionRunRow {
+  id: number;
+  userId: number;
+  userName: string;
+  activeLeadCount: number;
+  totalCommission: number;
+  adjustmentTotal: number;
+  status: CommissionRunStatus;
+  calculatedAt: string;
+}
+
+// Mirrors COMMISSION_TRANSITIONS in server/services/commission-approval.ts
+const RUN_ACTIONS: Record<CommissionRunAction, { from: CommissionRunStatus; label: string; minRoleLevel: number; departments?: string[] }> = {
+  review: { from: "calculated", label: "Mark Reviewed", minRoleLevel: 3 },
+  approve: { from: "reviewed", label: "Approve", minRoleLevel: 4, departments: ["finance", "accounting", "admin"] },
+  pay: { from: "approved", label: "Mark Paid", minRoleLevel: 4, departments: ["finance", "accounting"] },
+  lock: { from: "paid", label: "Lock", minRoleLevel: 5 },
+};
+
+const STATUS_STYLES: Record<CommissionRunStatus, string> = {
+  calculated: "bg-gray-100 text-gray-800",
+  reviewed: "bg-blue-100 text-blue-800",
+  approved: "bg-amber-100 text-amber-800",
+  paid: "bg-green-100 text-green-800",
+  locked: "bg-slate-800 text-white",
+};
+
 export default function AdminCommissionsPage() {
   const { toast } = useToast();
+  const { role } = useAuth();
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [adjustingRun, setAdjustingRun] = useState<CommissionRunRow | null>(null);
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+  const [adjustmentReason, setAdjustmentReason] = useState("");
+
+  const runsQueryKey = [`/api/commission-runs?month=${month}`];
+  const { data: runs = [], isLoading: runsLoading } = useQuery<CommissionRunRow[]>({
+    queryKey: runsQueryKey,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ runId, action }: { runId: number; action: CommissionRunAction }) => {
+      const res = await apiRequest("POST", `/api/commission-runs/${runId}/${action}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: runsQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const adjustmentMutation = useMutation({
+    mutationFn: async ({ runId, amount, reason }: { runId: number; amount: number; reason: string }) => {
+      const res = await apiRequest("POST", `/api/commission-runs/${runId}/adjustments`, { amount, reason });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: runsQueryKey });
+      setAdjustingRun(null);
+      setAdjustmentAmount("");
+      setAdjustmentReason("");
+      toast({ title: "Adjustment recorded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record adjustment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canPerform = (action: CommissionRunAction) => {
+    if (!role) return false;
+    if (role.level >= 5) return true;
+    const { minRoleLevel, departments } = RUN_ACTIONS[action];
+    return role.level >= minRoleLevel && (!departments || departments.includes(role.department));
+  };
+
+  const availableAction = (run: CommissionRunRow) =>
+    (Object.keys(RUN_ACTIONS) as CommissionRunAction[]).find(
+      (action) => RUN_ACTIONS[action].from === run.status && canPerform(action)
+    );
   
   // Fetch commissions data
   const { data: commissions, isLoading, error } = useQuery({
@@ -69,6 +159,128 @@ export default function AdminCommissionsPage() {
             )}
           </CardContent>
         </Card>
+
+        <Card className="mt-6">
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle>Commission Runs</CardTitle>
+              <CardDescription>
+                Review, approve and pay monthly commission runs. Paid runs can only be corrected with adjustments.
+              </CardDescription>
+            </div>
+            <Input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-44"
+            />
+          </CardHeader>
+          <CardContent>
+            {runsLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No commission runs calculated for {month}.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rep</TableHead>
+                    <TableHead className="text-right">Active Leads</TableHead>
+                    <TableHead className="text-right">Commission</TableHead>
+                    <TableHead className="text-right">Adjustments</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => {
+                    const action = availableAction(run);
+                    const frozen = run.status === "paid" || run.status === "locked";
+                    return (
+                      <TableRow key={run.id}>
+                        <TableCell className="font-medium">{run.userName}</TableCell>
+                        <TableCell className="text-right">{run.activeLeadCount}</TableCell>
+                        <TableCell className="text-right">
+                          <DollarSign className="inline h-3 w-3" />
+                          {run.totalCommission.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {run.adjustmentTotal !== 0 ? run.adjustmentTotal.toFixed(2) : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[run.status]}>{run.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          {action && (
+                            <Button
+                              size="sm"
+                              disabled={transitionMutation.isPending}
+                              onClick={() => transitionMutation.mutate({ runId: run.id, action })}
+                            >
+                              {RUN_ACTIONS[action].label}
+                            </Button>
+                          )}
+                          {frozen && (role?.level ?? 0) >= 4 && (
+                            <Button size="sm" variant="outline" onClick={() => setAdjustingRun(run)}>
+                              Adjust
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!adjustingRun} onOpenChange={(open) => !open && setAdjustingRun(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Record Adjustment</DialogTitle>
+              <DialogDescription>
+                {adjustingRun?.userName} - {month}. Use a negative amount to reverse part of the payout.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-amount">Amount</Label>
+                <Input
+                  id="adjustment-amount"
+                  type="number"
+                  step="0.01"
+                  value={adjustmentAmount}
+                  onChange={(e) => setAdjustmentAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment-reason">Reason</Label>
+                <Textarea
+                  id="adjustment-reason"
+                  value={adjustmentReason}
+                  onChange={(e) => setAdjustmentReason(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAdjustingRun(null)}>Cancel</Button>
+              <Button
+                disabled={!adjustmentAmount || !adjustmentReason.trim() || adjustmentMutation.isPending}
+                onClick={() => adjustingRun && adjustmentMutation.mutate({
+                  runId: adjustingRun.id,
+                  amount: Number(adjustmentAmount),
+                  reason: adjustmentReason,
+                })}
+              >
+                Save Adjustment
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </AdminPageLayout>
   );
@@ -1,5 +1,8 @@
 import { useState } from "react";
 import AdminPageLayout from "@/components/admin/AdminPageLayout";
+import LeaderboardScoring from "@/components/admin/LeaderboardScoring";
+import MqlWebhooks from "@/components/admin/MqlWebhooks";
+import ReportSchedules from "@/components/admin/ReportSchedules";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
@@ -68,6 +71,12 @@ export default function AdminSettingsPage() {
                 <TabsTrigger value="feature-flags" className="text-md">
                   Feature Flags
                 </TabsTrigger>
+                <TabsTrigger value="report-schedules" className="text-md">
+                  Report Schedules
+                </TabsTrigger>
+                <TabsTrigger value="leaderboard-scoring" className="text-md">
+                  Leaderboard Scoring
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="general" className="mt-0">
@@ -91,10 +100,7 @@ export default function AdminSettingsPage() {
               </TabsContent>
 
               <TabsContent value="integrations" className="mt-0">
-                <div className="p-4 rounded-md bg-yellow-50 text-yellow-700 border border-yellow-200">
-                  <p className="font-medium">Integration settings interface</p>
-                  <p className="text-sm mt-2">This interface will allow you to configure third-party integration settings.</p>
-                </div>
+                <MqlWebhooks />
               </TabsContent>
 
               <TabsContent value="notifications" className="mt-0">
@@ -117,6 +123,14 @@ export default function AdminSettingsPage() {
                   <p className="text-sm mt-2">This interface will allow you to toggle specific features on or off across the system.</p>
                 </div>
               </TabsContent>
+
+              <TabsContent value="report-schedules" className="mt-0">
+                <ReportSchedules />
+              </TabsContent>
+
+              <TabsContent value="leaderboard-scoring" className="mt-0">
+                <LeaderboardScoring />
+              </TabsContent>
             </Tabs>
           </CardContent>
         </Card>
@@ -91,6 +91,9 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
   const [callDialogOpen, setCallDialogOpen] = useState(false);
   const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [formTemplateId, setFormTemplateId] = useState<string>("");
+  const [formMessage, setFormMessage] = useState("");
+  const [viewingSubmissionId, setViewingSubmissionId] = useState<number | null>(null);
   const [qualificationDialogOpen, setQualificationDialogOpen] = useState(false);
   const [selectedQualificationScore, setSelectedQualificationScore] = useState<string>("");
   
@@ -294,6 +297,74 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
     },
   });
   
+  // Active form templates for the send form dialog
+  const { data: activeFormTemplates } = useQuery<any[]>({
+    queryKey: ['/api/crm/form-templates?active=true'],
+    enabled: formDialogOpen,
+  });
+
+  // Answers of the submission opened from the forms tab
+  const { data: viewingSubmission, isLoading: isViewingSubmissionLoading } = useQuery<any>({
+    queryKey: [`/api/crm/form-submissions/${viewingSubmissionId}`],
+    enabled: viewingSubmissionId !== null,
+  });
+
+  const openFormDialog = () => {
+    setFormTemplateId("");
+    setFormMessage(`Hello ${lead?.contactName},\n\nPlease complete the form at your earliest convenience.\n\nThank you,\n${user?.username}`);
+    setFormDialogOpen(true);
+  };
+
+  // Email the lead a link to a form
+  const sendFormMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/crm/form-submissions", {
+        templateId: Number(formTemplateId),
+        leadId: Number(id),
+        customMessage: formMessage.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Form sent",
+        description: `A link to the form has been emailed to ${lead?.email}.`,
+      });
+      setFormDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/crm/form-submissions?leadId=${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leads/${id}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send the form.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Email the link of a sent form again
+  const resendFormMutation = useMutation({
+    mutationFn: async (submissionId: number) => {
+      const response = await apiRequest("POST", `/api/crm/form-submissions/${submissionId}/resend`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Form resent",
+        description: `The form has been resent to ${lead?.email}`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/crm/form-submissions?leadId=${id}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cannot Resend Form",
+        description: error.message || "Failed to resend the form.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Add remark mutation
   const addRemarkMutation = useMutation({
     mutationFn: async (remarkText: string) => {
@@ -845,7 +916,7 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
                 <Button 
                   size="sm" 
                   className="bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white"
-                  onClick={() => setFormDialogOpen(true)}
+                  onClick={openFormDialog}
                 >
                   Send Form
                 </Button>
@@ -854,7 +925,7 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
                 {/* Form submissions query */}
                 {(() => {
                   const { data: formSubmissions, isLoading, error } = useQuery({
-                    queryKey: [`/api/form-submissions/lead/${id}`],
+                    queryKey: [`/api/crm/form-submissions?leadId=${id}`],
                     enabled: !!id,
                   });
 
@@ -920,31 +991,25 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
                                     : "Not viewed"}
                               </td>
                               <td className="py-3 text-right">
-                                <Button variant="outline" size="sm" onClick={() => {
-                                  toast({
-                                    title: "Form Submissions",
-                                    description: "Viewing form submissions will be available in a future update."
-                                  });
-                                }}>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={submission.status !== "Completed"}
+                                  onClick={() => setViewingSubmissionId(submission.id)}
+                                >
                                   View
                                 </Button>
-                                <Button variant="ghost" size="sm" className="ml-2" onClick={() => {
-                                  const leadEmail = lead.email;
-                                  if (!leadEmail) {
-                                    toast({
-                                      title: "Cannot Resend Form",
-                                      description: "This lead has no email address.",
-                                      variant: "destructive"
-                                    });
-                                    return;
-                                  }
-                                  toast({
-                                    title: "Form Resent",
-                                    description: `The form has been resent to ${leadEmail}`
-                                  });
-                                }}>
-                                  Resend
-                                </Button>
+                                {submission.status !== "Completed" && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="ml-2"
+                                    disabled={resendFormMutation.isPending}
+                                    onClick={() => resendFormMutation.mutate(submission.id)}
+                                  >
+                                    Resend
+                                  </Button>
+                                )}
                               </td>
                             </tr>
                           ))}
@@ -1521,15 +1586,16 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
             <div className="grid grid-cols-1 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="form-template">Form Template</Label>
-                <Select>
+                <Select value={formTemplateId} onValueChange={setFormTemplateId}>
                   <SelectTrigger id="form-template">
                     <SelectValue placeholder="Select a form template" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="onboarding">Carrier Onboarding</SelectItem>
-                    <SelectItem value="credit-app">Credit Application</SelectItem>
-                    <SelectItem value="package-details">Service Package Details</SelectItem>
-                    <SelectItem value="rate-agreement">Rate Agreement</SelectItem>
+                    {(activeFormTemplates || []).map((template: any) => (
+                      <SelectItem key={template.id} value={String(template.id)}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1540,27 +1606,16 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
                   id="custom-message" 
                   placeholder="Add a custom message to include with the form..." 
                   className="min-h-[80px]"
-                  defaultValue={`Hello ${lead?.contactName},\n\nPlease complete the attached form at your earliest convenience.\n\nThank you,\n${user?.username}`}
+                  value={formMessage}
+                  onChange={(e) => setFormMessage(e.target.value)}
                 />
               </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="delivery-method">Delivery Method</Label>
-                <Select defaultValue="email">
-                  <SelectTrigger id="delivery-method">
-                    <SelectValue placeholder="Select delivery method" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="email">Email</SelectItem>
-                    <SelectItem value="text">Text Message</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div className="flex items-center space-x-2">
-                <Checkbox id="create-followup" defaultChecked />
-                <Label htmlFor="create-followup">Create follow-up task</Label>
-              </div>
+              <p className="text-sm text-muted-foreground">
+                {lead?.email
+                  ? `A link to fill out the form will be emailed to ${lead.email}.`
+                  : "This lead has no email address to send the form to."}
+              </p>
             </div>
           </div>
           
@@ -1575,19 +1630,61 @@ export default function LeadDetails({ params }: LeadDetailsProps) {
             <Button 
               type="button"
               className="bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white"
-              onClick={() => {
-                toast({
-                  title: "Form sent",
-                  description: "The form has been sent successfully.",
-                });
-                setFormDialogOpen(false);
-              }}
+              disabled={!formTemplateId || !lead?.email || sendFormMutation.isPending}
+              onClick={() => sendFormMutation.mutate()}
             >
+              {sendFormMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Send Form
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Form Answers Dialog */}
+      <Dialog open={viewingSubmissionId !== null} onOpenChange={(open) => !open && setViewingSubmissionId(null)}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingSubmission?.formName || "Form Answers"}</DialogTitle>
+            <DialogDescription>
+              {viewingSubmission?.completedAt
+                ? `Completed on ${formatDate(viewingSubmission.completedAt)} (version ${viewingSubmission.templateVersion})`
+                : "Answers given by the lead"}
+            </DialogDescription>
+          </DialogHeader>
+          {isViewingSubmissionLoading || !viewingSubmission ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <dl className="space-y-4">
+              {(viewingSubmission.fields || []).map((field: any) => {
+                const answer = viewingSubmission.responseData?.[field.key];
+                return (
+                  <div key={field.key}>
+                    <dt className="text-sm font-medium text-gray-500">{field.label}</dt>
+                    <dd className="mt-1 text-sm">
+                      {answer === undefined || answer === null ? (
+                        <span className="text-muted-foreground">No answer</span>
+                      ) : field.type === "file" ? (
+                        <a
+                          href={`/api/crm/form-submissions/${viewingSubmission.id}/files/${field.key}`}
+                          className="text-[#025E73] underline"
+                        >
+                          {answer.fileName}
+                        </a>
+                      ) : field.type === "signature" ? (
+                        <img src={answer} alt="Signature" className="h-20 border rounded bg-white" />
+                      ) : (
+                        String(answer)
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, GitMerge, Loader2, XCircle } from 'lucide-react';
+import PageLayout from '@/components/layout/PageLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface LeadSummary {
+  id: number;
+  companyName: string;
+  contactName: string;
+  mcNumber: string;
+  dotNumber: string | null;
+  phoneNumber: string;
+  email: string | null;
+  status: string;
+  assignedTo: number;
+  source: string;
+  createdAt: string;
+}
+
+interface DuplicatePair {
+  leadId: number;
+  otherLeadId: number;
+  score: number;
+  matches: Array<{ reason: 'mc_number' | 'dot_number' | 'email' | 'phone' | 'company_name'; detail: string }>;
+  lead: LeadSummary;
+  otherLead: LeadSummary;
+}
+
+interface LeadMerge {
+  id: number;
+  survivorLeadId: number;
+  mergedLeadId: number;
+  survivorCompanyName: string | null;
+  mergedCompanyName: string | null;
+  mergedByName: string | null;
+  movedRecords: Record<string, number>;
+  createdAt: string;
+}
+
+const REASON_LABELS: Record<DuplicatePair['matches'][number]['reason'], string> = {
+  mc_number: 'MC number',
+  dot_number: 'DOT number',
+  email: 'Email',
+  phone: 'Phone',
+  company_name: 'Company name',
+};
+
+// The fields shown in the merge dialog; the server accepts a few more
+const MERGE_FIELDS: Array<{ key: keyof LeadSummary; label: string }> = [
+  { key: 'companyName', label: 'Company' },
+  { key: 'contactName', label: 'Contact' },
+  { key: 'phoneNumber', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'mcNumber', label: 'MC number' },
+  { key: 'dotNumber', label: 'DOT number' },
+  { key: 'status', label: 'Status' },
+  { key: 'assignedTo', label: 'Assigned to' },
+];
+
+function scoreVariant(score: number): 'destructive' | 'default' | 'secondary' {
+  if (score >= 95) return 'destructive';
+  if (score >= 80) return 'default';
+  return 'secondary';
+}
+
+function LeadColumn({ lead }: { lead: LeadSummary }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <Link href={`/crm/leads/${lead.id}`} className="font-medium text-[#025E73] hover:underline">
+        {lead.companyName}
+      </Link>
+      <div className="text-muted-foreground">{lead.contactName}</div>
+      <div>MC {lead.mcNumber || '—'} · DOT {lead.dotNumber || '—'}</div>
+      <div>{lead.phoneNumber}</div>
+      <div>{lead.email || '—'}</div>
+      <div className="flex gap-2 items-center pt-1">
+        <Badge variant="outline">{lead.status}</Badge>
+        <span className="text-xs text-muted-foreground">
+          {lead.source} · {formatDistanceToNow(new Date(lead.createdAt), { addSuffix: true })}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function MergeDialog({ pair, onClose }: { pair: DuplicatePair; onClose: () => void }) {
+  const { toast } = useToast();
+  // The older lead survives by default since it usually carries the history
+  const [survivorId, setSurvivorId] = useState(pair.lead.id);
+  const [choices, setChoices] = useState<Record<string, 'survivor' | 'merged'>>({});
+
+  const survivor = survivorId === pair.lead.id ? pair.lead : pair.otherLead;
+  const merged = survivorId === pair.lead.id ? pair.otherLead : pair.lead;
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/crm/lead-duplicates/merge', {
+        survivorId: survivor.id,
+        mergedId: merged.id,
+        fieldChoices: choices,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Leads merged', description: `${merged.companyName} was merged into ${survivor.companyName}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/lead-duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/lead-duplicates/merges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/leads'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Merge failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const swapSurvivor = (id: number) => {
+    setSurvivorId(id);
+    setChoices({});
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Merge leads</DialogTitle>
+          <DialogDescription>
+            Remarks, calls, follow-ups, forms, loads, invoices and activities of the merged lead move to the
+            surviving lead, and the merged lead is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-32">Field</TableHead>
+              {[pair.lead, pair.otherLead].map((lead) => (
+                <TableHead key={lead.id}>
+                  <Button
+                    variant={lead.id === survivorId ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => swapSurvivor(lead.id)}
+                  >
+                    {lead.id === survivorId ? 'Survives' : 'Keep this lead'} · #{lead.id}
+                  </Button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {MERGE_FIELDS.map(({ key, label }) => {
+              const pick = choices[key] ?? 'survivor';
+              return (
+                <TableRow key={key}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  {[pair.lead, pair.otherLead].map((lead) => {
+                    const side = lead.id === survivorId ? 'survivor' : 'merged';
+                    const chosen = pick === side;
+                    return (
+                      <TableCell
+                        key={lead.id}
+                        className={`cursor-pointer ${chosen ? 'bg-[#F1FAFB] font-medium' : 'text-muted-foreground'}`}
+                        onClick={() => setChoices((current) => ({ ...current, [key]: side }))}
+                      >
+                        {chosen && <CheckCircle2 className="inline h-4 w-4 mr-1 text-[#025E73]" />}
+                        {String(lead[key] ?? '—') || '—'}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-[#025E73] hover:bg-[#011F26] text-white"
+            disabled={mergeMutation.isPending}
+            onClick={() => mergeMutation.mutate()}
+          >
+            {mergeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Merge into #{survivor.id}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function LeadDuplicatesPage() {
+  const { toast } = useToast();
+  const [mergingPair, setMergingPair] = useState<DuplicatePair | null>(null);
+
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair[]>({
+    queryKey: ['/api/crm/lead-duplicates'],
+  });
+
+  const { data: merges = [], isLoading: mergesLoading } = useQuery<LeadMerge[]>({
+    queryKey: ['/api/crm/lead-duplicates/merges'],
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (pair: DuplicatePair) => {
+      await apiRequest('POST', '/api/crm/lead-duplicates/dismiss', {
+        leadId: pair.leadId,
+        otherLeadId: pair.otherLeadId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/lead-duplicates'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not dismiss pair', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <PageLayout title="Duplicate Leads" description="Review likely duplicate leads and merge them">
+      <Tabs defaultValue="queue">
+        <TabsList>
+          <TabsTrigger value="queue">Review queue ({pairs.length})</TabsTrigger>
+          <TabsTrigger value="merges">Merge history</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="queue" className="space-y-4">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-40 w-full" />)
+          ) : pairs.length === 0 ? (
+            <Card>
+              <CardContent className="py-10 text-center text-muted-foreground">No likely duplicates found.</CardContent>
+            </Card>
+          ) : (
+            pairs.map((pair) => (
+              <Card key={`${pair.leadId}-${pair.otherLeadId}`}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <CardTitle className="text-base">Match score</CardTitle>
+                    <Badge variant={scoreVariant(pair.score)}>{pair.score}</Badge>
+                    {pair.matches.map((match) => (
+                      <Badge key={match.reason} variant="outline" title={match.detail}>
+                        {REASON_LABELS[match.reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={dismissMutation.isPending}
+                      onClick={() => dismissMutation.mutate(pair)}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Not duplicates
+                    </Button>
+                    <Button size="sm" className="bg-[#025E73] hover:bg-[#011F26] text-white" onClick={() => setMergingPair(pair)}>
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <LeadColumn lead={pair.lead} />
+                  <LeadColumn lead={pair.otherLead} />
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="merges">
+          <Card>
+            <CardContent className="pt-6">
+              {mergesLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Merged lead</TableHead>
+                      <TableHead>Into</TableHead>
+                      <TableHead>Records moved</TableHead>
+                      <TableHead>By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {merges.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No merges yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      merges.map((merge) => (
+                        <TableRow key={merge.id}>
+                          <TableCell>{formatDistanceToNow(new Date(merge.createdAt), { addSuffix: true })}</TableCell>
+                          <TableCell>
+                            #{merge.mergedLeadId} {merge.mergedCompanyName}
+                          </TableCell>
+                          <TableCell>
+                            <Link href={`/crm/leads/${merge.survivorLeadId}`} className="text-[#025E73] hover:underline">
+                              #{merge.survivorLeadId} {merge.survivorCompanyName}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            {Object.values(merge.movedRecords ?? {}).reduce((sum, n) => sum + n, 0)}
+                          </TableCell>
+                          <TableCell>{merge.mergedByName ?? '—'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {mergingPair && <MergeDialog pair={mergingPair} onClose={() => setMergingPair(null)} />}
+    </PageLayout>
+  );
+}
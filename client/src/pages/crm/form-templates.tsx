@@ -42,21 +42,69 @@ import { AlertCircle } from 'lucide-react';
 import PageHeader from '@/components/layout/PageHeader';
 import { Skeleton } from '@/components/ui/skeleton';
 
+const FIELD_TYPES = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Select' },
+  { value: 'file', label: 'File Upload' },
+  { value: 'signature', label: 'Signature' },
+] as const;
+
+const CATEGORIES = [
+  { value: 'onboarding', label: 'Onboarding' },
+  { value: 'credit', label: 'Credit Application' },
+  { value: 'service', label: 'Service Package' },
+  { value: 'rate_agreement', label: 'Rate Agreement' },
+  { value: 'general', label: 'General' },
+];
+
 // Form Schema for creating/editing form templates
 const formTemplateSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   description: z.string().optional(),
+  category: z.string().min(1, 'Category is required'),
   fields: z.array(z.object({
+    key: z.string().optional(),
     label: z.string().min(1, 'Field label is required'),
-    type: z.enum(['text', 'textarea', 'number', 'checkbox', 'date', 'select']),
+    type: z.enum(['text', 'number', 'date', 'select', 'file', 'signature']),
     required: z.boolean().default(false),
     options: z.array(z.string()).optional(),
-  })).min(1, 'At least one field is required'),
+  }).passthrough()).min(1, 'At least one field is required'),
   isActive: z.boolean().default(true),
 });
 
 type FormTemplateFormValues = z.infer<typeof formTemplateSchema>;
 
+// Field keys identify answers across versions, so existing keys are kept and
+// new fields get one derived from their label
+function toTemplatePayload(data: FormTemplateFormValues) {
+  const usedKeys = new Set(data.fields.map((field) => field.key).filter(Boolean));
+  return {
+    ...data,
+    fields: data.fields.map((field) => {
+      let key = field.key;
+      if (!key) {
+        const base = field.label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(?=\d)/, 'f_') || 'field';
+        key = base.slice(0, 60);
+        for (let suffix = 2; usedKeys.has(key); suffix++) {
+          key = `${base.slice(0, 60)}_${suffix}`;
+        }
+        usedKeys.add(key);
+      }
+      // Settings the builder does not edit (help text, limits) pass through unchanged
+      const { options, ...rest } = field;
+      return {
+        ...rest,
+        key,
+        ...(field.type === 'select'
+          ? { options: (options || []).map((option) => option.trim()).filter(Boolean) }
+          : {}),
+      };
+    }),
+  };
+}
+
 export default function FormTemplatesPage() {
   const { toast } = useToast();
   const [isNewFormOpen, setIsNewFormOpen] = useState(false);
@@ -72,7 +120,7 @@ export default function FormTemplatesPage() {
   // Create form template mutation
   const createMutation = useMutation({
     mutationFn: async (data: FormTemplateFormValues) => {
-      const response = await apiRequest('POST', '/api/crm/form-templates', data);
+      const response = await apiRequest('POST', '/api/crm/form-templates', toTemplatePayload(data));
       return await response.json();
     },
     onSuccess: () => {
@@ -95,7 +143,7 @@ export default function FormTemplatesPage() {
   // Update form template mutation
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number, data: FormTemplateFormValues }) => {
-      const response = await apiRequest('PUT', `/api/crm/form-templates/${id}`, data);
+      const response = await apiRequest('PUT', `/api/crm/form-templates/${id}`, toTemplatePayload(data));
       return await response.json();
     },
     onSuccess: () => {
@@ -120,12 +168,14 @@ export default function FormTemplatesPage() {
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       const response = await apiRequest('DELETE', `/api/crm/form-templates/${id}`);
-      return response.ok;
+      return await response.json() as { deleted: boolean };
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
         title: 'Success',
-        description: 'Form template deleted successfully',
+        description: result.deleted
+          ? 'Form template deleted successfully'
+          : 'This template has been sent to leads, so it was deactivated instead',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/crm/form-templates'] });
     },
@@ -144,6 +194,7 @@ export default function FormTemplatesPage() {
     defaultValues: {
       name: '',
       description: '',
+      category: 'onboarding',
       fields: [{ label: '', type: 'text', required: false }],
       isActive: true,
     },
@@ -155,6 +206,7 @@ export default function FormTemplatesPage() {
     defaultValues: {
       name: '',
       description: '',
+      category: 'onboarding',
       fields: [{ label: '', type: 'text', required: false }],
       isActive: true,
     },
@@ -178,7 +230,8 @@ export default function FormTemplatesPage() {
     editForm.reset({
       name: template.name,
       description: template.description || '',
-      fields: template.fields || [{ label: '', type: 'text', required: false }],
+      category: template.category || 'general',
+      fields: template.fields?.length ? template.fields : [{ label: '', type: 'text', required: false }],
       isActive: template.isActive,
     });
     setIsEditFormOpen(true);
@@ -199,7 +252,7 @@ export default function FormTemplatesPage() {
     if (currentFields.length > 1) {
       form.setValue(
         'fields',
-        currentFields.filter((_, i) => i !== index)
+        currentFields.filter((_: unknown, i: number) => i !== index)
       );
     } else {
       toast({
@@ -307,6 +360,29 @@ export default function FormTemplatesPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={newForm.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category*</FormLabel>
+                      <FormControl>
+                        <select
+                          className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                          {...field}
+                        >
+                          {CATEGORIES.map((category) => (
+                            <option key={category.value} value={category.value}>{category.label}</option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormDescription>
+                        Lead handoffs can require completed forms of a category
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={newForm.control}
                   name="isActive"
@@ -377,12 +453,9 @@ export default function FormTemplatesPage() {
                                   className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                                   {...field}
                                 >
-                                  <option value="text">Text</option>
-                                  <option value="textarea">Textarea</option>
-                                  <option value="number">Number</option>
-                                  <option value="checkbox">Checkbox</option>
-                                  <option value="date">Date</option>
-                                  <option value="select">Select</option>
+                                  {FIELD_TYPES.map((type) => (
+                                    <option key={type.value} value={type.value}>{type.label}</option>
+                                  ))}
                                 </select>
                               </FormControl>
                               <FormMessage />
@@ -390,6 +463,27 @@ export default function FormTemplatesPage() {
                           )}
                         />
                       </div>
+                      {newForm.watch(`fields.${index}.type`) === 'select' && (
+                        <div className="mt-4">
+                          <FormField
+                            control={newForm.control}
+                            name={`fields.${index}.options`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Options*</FormLabel>
+                                <FormControl>
+                                  <Textarea
+                                    placeholder="One option per line"
+                                    value={(field.value || []).join('\n')}
+                                    onChange={(e) => field.onChange(e.target.value.split('\n'))}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      )}
                       <div className="mt-4">
                         <FormField
                           control={newForm.control}
@@ -478,6 +572,29 @@ export default function FormTemplatesPage() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={editForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category*</FormLabel>
+                    <FormControl>
+                      <select
+                        className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                        {...field}
+                      >
+                        {CATEGORIES.map((category) => (
+                          <option key={category.value} value={category.value}>{category.label}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                    <FormDescription>
+                      Lead handoffs can require completed forms of a category
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={editForm.control}
                 name="isActive"
@@ -548,12 +665,9 @@ export default function FormTemplatesPage() {
                                 className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
                                 {...field}
                               >
-                                <option value="text">Text</option>
-                                <option value="textarea">Textarea</option>
-                                <option value="number">Number</option>
-                                <option value="checkbox">Checkbox</option>
-                                <option value="date">Date</option>
-                                <option value="select">Select</option>
+                                {FIELD_TYPES.map((type) => (
+                                  <option key={type.value} value={type.value}>{type.label}</option>
+                                ))}
                               </select>
                             </FormControl>
                             <FormMessage />
@@ -561,6 +675,27 @@ export default function FormTemplatesPage() {
                         )}
                       />
                     </div>
+                    {editForm.watch(`fields.${index}.type`) === 'select' && (
+                      <div className="mt-4">
+                        <FormField
+                          control={editForm.control}
+                          name={`fields.${index}.options`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Options*</FormLabel>
+                              <FormControl>
+                                <Textarea
+                                  placeholder="One option per line"
+                                  value={(field.value || []).join('\n')}
+                                  onChange={(e) => field.onChange(e.target.value.split('\n'))}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
                     <div className="mt-4">
                       <FormField
                         control={editForm.control}
@@ -628,7 +763,12 @@ export default function FormTemplatesPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  <div className="text-sm font-medium">Fields: {template.fields?.length || 0}</div>
+                  <div className="text-sm font-medium">
+                    Fields: {template.fields?.length || 0} · Version {template.version}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {CATEGORIES.find((category) => category.value === template.category)?.label || template.category}
+                  </div>
                   <div className="text-sm text-muted-foreground">
                     Created {new Date(template.createdAt).toLocaleDateString()}
                   </div>
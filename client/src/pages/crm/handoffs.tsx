@@ -96,6 +96,14 @@ const leadHandoffSchema = z.object({
 
 type LeadHandoffFormValues = z.infer<typeof leadHandoffSchema>;
 
+type HandoffAction = 'accept' | 'reject' | 'return';
+
+const HANDOFF_ACTION_LABELS: Record<HandoffAction, string> = {
+  accept: 'Accept',
+  reject: 'Reject',
+  return: 'Return to Sales',
+};
+
 // Function to format date strings
 function formatDate(dateString: string | Date) {
   const date = new Date(dateString);
@@ -115,18 +123,18 @@ function StatusBadge({ status }: { status: string }) {
       variant = 'secondary';
       icon = Clock;
       break;
-    case 'approved':
+    case 'accepted':
       variant = 'success';
       icon = Check;
       break;
+    case 'returned':
+      variant = 'outline';
+      icon = UserCheck;
+      break;
     case 'rejected':
       variant = 'destructive';
       icon = X;
       break;
-    case 'in_review':
-      variant = 'outline';
-      icon = UserCheck;
-      break;
     default:
       variant = 'default';
       icon = Clock;
@@ -146,6 +154,9 @@ export default function LeadHandoffsPage() {
   const [activeTab, setActiveTab] = useState<string>('all');
   const [selectedLead, setSelectedLead] = useState<any>(null);
   const [isLeadDetailsOpen, setIsLeadDetailsOpen] = useState(false);
+  const [respondTarget, setRespondTarget] = useState<{ handoff: any; action: HandoffAction } | null>(null);
+  const [responseRating, setResponseRating] = useState(3);
+  const [responseReason, setResponseReason] = useState('');
 
   // Fetch leads for dropdown
   const { data: leads } = useQuery({
@@ -185,9 +196,41 @@ export default function LeadHandoffsPage() {
         description: `Failed to create lead handoff: ${error.message}`,
         variant: 'destructive',
       });
+      // A handoff failing a gate is still recorded as an automatic rejection
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/lead-handoffs'] });
     },
   });
 
+  // Dispatcher's answer to a pending handoff
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; action: HandoffAction; qualityRating: number; reason: string | null }) => {
+      const response = await apiRequest('POST', `/api/crm/lead-handoffs/${id}/respond`, data);
+      return await response.json();
+    },
+    onSuccess: (handoff: any) => {
+      toast({
+        title: 'Success',
+        description: `Handoff ${handoff.status}`,
+      });
+      setRespondTarget(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/crm/lead-handoffs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/crm'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to answer handoff: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openResponse = (handoff: any, action: HandoffAction) => {
+    setRespondTarget({ handoff, action });
+    setResponseRating(3);
+    setResponseReason('');
+  };
+
   // Setup form for creating new handoffs
   const newForm = useForm<LeadHandoffFormValues>({
     resolver: zodResolver(leadHandoffSchema),
@@ -700,8 +743,8 @@ export default function LeadHandoffsPage() {
                   <AlertCircle className="h-4 w-4 text-amber-600" />
                   <AlertTitle>Call Verification</AlertTitle>
                   <AlertDescription>
-                    A minimum of 3 calls must be logged with this lead before handoff. This will be 
-                    automatically verified during submission.
+                    Answered calls, required forms and the MC number are verified automatically on
+                    submission. A handoff that fails a check is rejected with the reason.
                   </AlertDescription>
                 </Alert>
                 
@@ -798,13 +841,68 @@ export default function LeadHandoffsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Handoff Response Dialog */}
+      <Dialog open={!!respondTarget} onOpenChange={(open) => !open && setRespondTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{respondTarget ? HANDOFF_ACTION_LABELS[respondTarget.action] : ''} Handoff</DialogTitle>
+            <DialogDescription>
+              Rate the quality of this handoff{respondTarget?.action !== 'accept' ? ' and tell sales what to fix' : ''}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-medium mb-2">Quality Rating</p>
+              <Select value={responseRating.toString()} onValueChange={(value) => setResponseRating(parseInt(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4, 5].map((rating) => (
+                    <SelectItem key={rating} value={rating.toString()}>{rating}/5</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {respondTarget?.action !== 'accept' && (
+              <div>
+                <p className="text-sm font-medium mb-2">Reason*</p>
+                <Textarea
+                  value={responseReason}
+                  onChange={(e) => setResponseReason(e.target.value)}
+                  placeholder="What is missing or wrong with this lead?"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRespondTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-[#025E73] hover:bg-[#025E73]/90"
+              disabled={respondMutation.isPending || (respondTarget?.action !== 'accept' && !responseReason.trim())}
+              onClick={() => respondTarget && respondMutation.mutate({
+                id: respondTarget.handoff.id,
+                action: respondTarget.action,
+                qualityRating: responseRating,
+                reason: respondTarget.action === 'accept' ? null : responseReason.trim(),
+              })}
+            >
+              {respondMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {respondTarget ? HANDOFF_ACTION_LABELS[respondTarget.action] : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Tabs */}
       <Tabs defaultValue="all" className="mt-6" onValueChange={setActiveTab}>
         <TabsList className="mb-4">
           <TabsTrigger value="all" className="px-6">All</TabsTrigger>
           <TabsTrigger value="pending" className="px-6">Pending</TabsTrigger>
-          <TabsTrigger value="in_review" className="px-6">In Review</TabsTrigger>
-          <TabsTrigger value="approved" className="px-6">Approved</TabsTrigger>
+          <TabsTrigger value="accepted" className="px-6">Accepted</TabsTrigger>
+          <TabsTrigger value="returned" className="px-6">Returned</TabsTrigger>
           <TabsTrigger value="rejected" className="px-6">Rejected</TabsTrigger>
         </TabsList>
 
@@ -873,13 +971,23 @@ export default function LeadHandoffsPage() {
                             <BarChart3 className="h-4 w-4 mr-2 text-[#025E73]" />
                             <span className="font-medium">Quality:</span>
                             <span className="ml-1">
-                              {handoff.qualityRating}/5
+                              {handoff.qualityRating ? `${handoff.qualityRating}/5` : 'Not rated'}
                             </span>
                           </div>
                         </div>
                       </div>
+                      {handoff.rejectionReason && (
+                        <div className="mt-3 text-sm text-red-700 bg-red-50 rounded-md p-2">
+                          {handoff.autoRejected && <span className="font-medium">Auto-rejected: </span>}
+                          {handoff.rejectionReason}
+                        </div>
+                      )}
                       <div className="mt-4">
                         <div className="flex gap-2 flex-wrap">
+                          <Badge variant={handoff.callsVerified ? "success" : "outline"}>
+                            {handoff.callsVerified ? <Check className="h-3 w-3 mr-1" /> : <StopCircle className="h-3 w-3 mr-1" />}
+                            Calls
+                          </Badge>
                           <TooltipProvider>
                             <Tooltip>
                               <TooltipTrigger asChild>
@@ -924,7 +1032,22 @@ export default function LeadHandoffsPage() {
                         </div>
                       </div>
                     </CardContent>
-                    <CardFooter>
+                    <CardFooter className="flex flex-col gap-2">
+                      {handoff.status === 'pending' && (
+                        <div className="w-full grid grid-cols-3 gap-2">
+                          {(Object.keys(HANDOFF_ACTION_LABELS) as HandoffAction[]).map((action) => (
+                            <Button
+                              key={action}
+                              size="sm"
+                              variant={action === 'accept' ? 'default' : 'outline'}
+                              className={action === 'accept' ? 'bg-[#025E73] hover:bg-[#025E73]/90' : ''}
+                              onClick={() => openResponse(handoff, action)}
+                            >
+                              {HANDOFF_ACTION_LABELS[action]}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
                       <div className="w-full grid grid-cols-2 gap-2">
                         <Button
                           variant="outline"
@@ -32,6 +32,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import PageLayout from '@/components/layout/PageLayout';
+import NpsReport from '@/components/crm/NpsReport';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -68,7 +69,7 @@ interface Survey {
   status: 'pending' | 'sent' | 'completed' | 'expired';
   questions: any;
   responses: any;
-  leadId: number;
+  leadId: number | null;
   accountId: number | null;
   createdBy: number;
   createdAt: string;
@@ -76,9 +77,9 @@ interface Survey {
   sentAt: string | null;
   completedAt: string | null;
   token: string;
-  leadName?: string;
-  accountName?: string;
-  score?: number;
+  leadName?: string | null;
+  accountName?: string | null;
+  score?: number | null;
 }
 
 // Define the Lead type (simplified for this component)
@@ -224,7 +225,7 @@ export default function SurveysPage() {
   // Mutation for sending a survey
   const sendSurveyMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await apiRequest('PUT', `/api/crm/surveys/${id}`, { status: 'sent' });
+      const response = await apiRequest('POST', `/api/crm/surveys/${id}/send`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to send survey');
@@ -234,7 +235,7 @@ export default function SurveysPage() {
     onSuccess: () => {
       toast({
         title: 'Survey Sent',
-        description: 'The survey has been sent to the recipient.',
+        description: 'The survey link has been emailed to the recipient.',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/crm/surveys'] });
     },
@@ -265,7 +266,7 @@ export default function SurveysPage() {
       form.reset({
         title: selectedSurvey.title,
         type: selectedSurvey.type,
-        leadId: selectedSurvey.leadId,
+        leadId: selectedSurvey.leadId ?? undefined,
         accountId: selectedSurvey.accountId,
         questions: selectedSurvey.questions,
       });
@@ -390,12 +391,12 @@ export default function SurveysPage() {
         accessorKey: 'leadId',
         header: 'Recipient',
         cell: ({ row }) => {
-          const leadId = row.getValue('leadId') as number;
-          const lead = getLeadInfo(leadId);
+          const leadId = row.getValue('leadId') as number | null;
+          const recipient = row.original.leadName ?? (leadId ? getLeadInfo(leadId).contactName : row.original.accountName);
           return (
             <div className="flex items-center">
               <User className="h-4 w-4 mr-2 text-muted-foreground" />
-              <div>{lead.contactName}</div>
+              <div>{recipient ?? 'Unknown'}</div>
             </div>
           );
         },
@@ -426,8 +427,8 @@ export default function SurveysPage() {
         accessorKey: 'score',
         header: 'Score',
         cell: ({ row }) => {
-          const score = row.getValue('score') as number | undefined;
-          if (score === undefined) return <div>Not rated</div>;
+          const score = row.getValue('score') as number | null;
+          if (score === null || score === undefined) return <div>Not rated</div>;
           
           return (
             <div className="flex items-center">
@@ -477,10 +478,10 @@ export default function SurveysPage() {
                   Open Survey
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                {survey.status === 'pending' && (
+                {(survey.status === 'pending' || survey.status === 'sent') && (
                   <DropdownMenuItem onClick={() => sendSurveyMutation.mutate(survey.id)}>
                     <Send className="h-4 w-4 mr-2" />
-                    Send Survey
+                    {survey.status === 'pending' ? 'Send Survey' : 'Resend Survey'}
                   </DropdownMenuItem>
                 )}
               </DropdownMenuContent>
@@ -563,6 +564,8 @@ export default function SurveysPage() {
       actionLabel="Create Survey"
       onAction={handleCreateSurvey}
     >
+      <NpsReport />
+      
       <div className="mb-4 flex items-center justify-between">
         <div className="flex items-center w-full max-w-sm">
           <Input
@@ -0,0 +1,270 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { DragDropContext, Draggable, Droppable, DropResult } from "@hello-pangea/dnd";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useSocket } from "@/hooks/use-socket";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Calendar, List, Truck, User } from "lucide-react";
+
+interface BoardLoad {
+  id: number;
+  status: string;
+  route: string;
+  companyName: string | null;
+  pickupDate: string;
+  deliveryDate: string;
+  freightAmount: number;
+  dispatcherId: number | null;
+}
+
+interface DispatcherCapacity {
+  activeCarriers: number;
+  trucks: number;
+  inFlight: number;
+  utilization: number | null;
+}
+
+interface BoardLane {
+  dispatcher: { id: number; name: string } | null;
+  capacity: DispatcherCapacity | null;
+  loads: BoardLoad[];
+}
+
+interface LoadBoard {
+  statuses: string[];
+  lanes: BoardLane[];
+}
+
+const BOARD_URL = "/api/dispatch/loads/board";
+const LOAD_REASSIGNED_EVENT = "load:reassigned";
+const UNASSIGNED_LANE = "unassigned";
+
+const STATUS_LABELS: Record<string, string> = {
+  booked: "Booked",
+  in_transit: "In Transit",
+  delivered: "Delivered",
+};
+
+const laneKey = (lane: BoardLane) => (lane.dispatcher ? String(lane.dispatcher.id) : UNASSIGNED_LANE);
+
+// Droppable ids combine the dispatcher lane and the status column
+const columnId = (lane: BoardLane, status: string) => `${laneKey(lane)}|${status}`;
+const parseColumnId = (id: string) => {
+  const [lane, status] = id.split("|");
+  return { dispatcherId: lane === UNASSIGNED_LANE ? null : Number(lane), status };
+};
+
+function CapacityIndicator({ capacity }: { capacity: DispatcherCapacity }) {
+  if (capacity.utilization === null) {
+    return <span className="text-xs text-gray-500">No active carriers, {capacity.inFlight} loads in flight</span>;
+  }
+  const percent = Math.round(capacity.utilization * 100);
+  const tone = percent > 100 ? "text-red-600" : percent >= 80 ? "text-amber-600" : "text-green-600";
+  return (
+    <div className="w-56 space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-gray-500">
+          {capacity.inFlight} in flight / {capacity.trucks} trucks ({capacity.activeCarriers} carriers)
+        </span>
+        <span className={`font-medium ${tone}`}>{percent}%</span>
+      </div>
+      <Progress value={Math.min(percent, 100)} className="h-2" />
+    </div>
+  );
+}
+
+export default function DispatchLoadBoardPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { socket, connected } = useSocket();
+
+  const { data, isLoading, isError } = useQuery<{ data: LoadBoard }>({
+    queryKey: [BOARD_URL],
+  });
+  const board = data?.data;
+
+  // Reassignments by other dispatch leads refresh the board
+  useEffect(() => {
+    if (!socket || !connected) return;
+    const refresh = () => queryClient.invalidateQueries({ queryKey: [BOARD_URL] });
+    socket.on(LOAD_REASSIGNED_EVENT, refresh);
+    return () => {
+      socket.off(LOAD_REASSIGNED_EVENT, refresh);
+    };
+  }, [socket, connected, queryClient]);
+
+  const reassignMutation = useMutation({
+    mutationFn: async ({ loadId, dispatcherId }: { loadId: number; dispatcherId: number }) => {
+      const res = await apiRequest("POST", `/api/dispatch/loads/${loadId}/reassign`, { dispatcherId });
+      return await res.json();
+    },
+    onMutate: async ({ loadId, dispatcherId }) => {
+      await queryClient.cancelQueries({ queryKey: [BOARD_URL] });
+      const previous = queryClient.getQueryData<{ data: LoadBoard }>([BOARD_URL]);
+      if (previous) {
+        const moved = previous.data.lanes.flatMap((lane) => lane.loads).find((load) => load.id === loadId);
+        if (moved) {
+          const lanes = previous.data.lanes.map((lane) => ({
+            ...lane,
+            loads:
+              lane.dispatcher?.id === dispatcherId
+                ? [...lane.loads, { ...moved, dispatcherId }]
+                : lane.loads.filter((load) => load.id !== loadId),
+          }));
+          queryClient.setQueryData([BOARD_URL], { ...previous, data: { ...previous.data, lanes } });
+        }
+      }
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData([BOARD_URL], context.previous);
+      }
+      toast({ title: "Could not reassign load", description: error.message, variant: "destructive" });
+    },
+    onSuccess: (_data, { loadId, dispatcherId }) => {
+      const dispatcher = board?.lanes.find((lane) => lane.dispatcher?.id === dispatcherId)?.dispatcher;
+      toast({ title: "Load reassigned", description: `Load #${loadId} moved to ${dispatcher?.name ?? "dispatcher"}` });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [BOARD_URL] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dispatch/loads"] });
+    },
+  });
+
+  const handleDragEnd = ({ source, destination, draggableId }: DropResult) => {
+    if (!destination || destination.droppableId === source.droppableId) return;
+
+    const from = parseColumnId(source.droppableId);
+    const to = parseColumnId(destination.droppableId);
+    if (from.status !== to.status) {
+      toast({
+        title: "Status unchanged",
+        description: "Use the load's status actions to move it to another status",
+      });
+      return;
+    }
+    if (to.dispatcherId === null) {
+      toast({ title: "Pick a dispatcher", description: "Loads cannot be moved back to unassigned" });
+      return;
+    }
+
+    reassignMutation.mutate({ loadId: Number(draggableId.replace("load-", "")), dispatcherId: to.dispatcherId });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-6 space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !board) {
+    return (
+      <div className="container mx-auto py-6">
+        <Card className="border-red-200 bg-red-50">
+          <CardHeader>
+            <CardTitle className="flex items-center text-red-700">
+              <AlertCircle className="mr-2 h-5 w-5" />
+              Error Loading Load Board
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Load Board</h1>
+          <p className="text-gray-500 mt-1">Drag a load to another dispatcher's lane to reassign it</p>
+        </div>
+        <Button variant="outline" onClick={() => setLocation("/dispatch/loads")} className="mt-4 sm:mt-0">
+          <List className="h-4 w-4 mr-2" />
+          Load List
+        </Button>
+      </div>
+
+      <DragDropContext onDragEnd={handleDragEnd}>
+        {board.lanes.map((lane) => (
+          <Card key={laneKey(lane)}>
+            <CardHeader className="pb-3">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <CardTitle className="text-base flex items-center">
+                  <User className="h-4 w-4 mr-2 text-[#025E73]" />
+                  {lane.dispatcher?.name ?? "Unassigned"}
+                  <Badge variant="outline" className="ml-2">{lane.loads.length}</Badge>
+                </CardTitle>
+                {lane.capacity && <CapacityIndicator capacity={lane.capacity} />}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+                {board.statuses.map((status) => {
+                  const columnLoads = lane.loads.filter((load) => load.status === status);
+                  return (
+                    <Droppable key={status} droppableId={columnId(lane, status)}>
+                      {(provided, snapshot) => (
+                        <div
+                          ref={provided.innerRef}
+                          {...provided.droppableProps}
+                          className={`rounded-md border p-2 min-h-[96px] ${snapshot.isDraggingOver ? "bg-[#025E73]/5 border-[#025E73]" : "bg-gray-50"}`}
+                        >
+                          <div className="text-xs font-medium text-gray-500 mb-2">
+                            {STATUS_LABELS[status] ?? status} ({columnLoads.length})
+                          </div>
+                          {columnLoads.map((load, index) => (
+                            <Draggable key={load.id} draggableId={`load-${load.id}`} index={index}>
+                              {(dragProvided, dragSnapshot) => (
+                                <div
+                                  ref={dragProvided.innerRef}
+                                  {...dragProvided.draggableProps}
+                                  {...dragProvided.dragHandleProps}
+                                  onClick={() => setLocation(`/dispatch/loads/${load.id}`)}
+                                  className={`mb-2 rounded-md border bg-white p-2 text-sm cursor-pointer ${dragSnapshot.isDragging ? "shadow-lg" : "shadow-sm"}`}
+                                >
+                                  <div className="flex justify-between font-medium">
+                                    <span className="flex items-center">
+                                      <Truck className="h-3.5 w-3.5 mr-1 text-gray-400" />#{load.id}
+                                    </span>
+                                    <span>${load.freightAmount.toLocaleString()}</span>
+                                  </div>
+                                  <div className="text-gray-600 truncate" title={load.route}>{load.route}</div>
+                                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                                    <span className="truncate">{load.companyName ?? "Unknown client"}</span>
+                                    <span className="flex items-center shrink-0">
+                                      <Calendar className="h-3 w-3 mr-1" />
+                                      {format(new Date(`${load.pickupDate}T00:00:00`), "MMM d")}
+                                    </span>
+                                  </div>
+                                </div>
+                              )}
+                            </Draggable>
+                          ))}
+                          {provided.placeholder}
+                        </div>
+                      )}
+                    </Droppable>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </DragDropContext>
+    </div>
+  );
+}
@@ -41,6 +41,7 @@ import {
   TruckIcon,
   User,
   FileSpreadsheet,
+  ShieldCheck,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -50,6 +51,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { CarrierComplianceDialog } from "@/components/dispatch/carrier-compliance-dialog";
 
 // Client statuses with their labels and colors
 const CLIENT_STATUSES = {
@@ -86,6 +88,7 @@ export default function DispatchClientsPage() {
   const { user, role } = useAuth();
   const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState("all");
+  const [complianceClientId, setComplianceClientId] = useState<number | null>(null);
   
   // Load dispatch clients from API
   const {
@@ -467,6 +470,11 @@ export default function DispatchClientsPage() {
                                       View Details
                                     </DropdownMenuItem>
                                     
+                                    <DropdownMenuItem onClick={() => setComplianceClientId(client.id)}>
+                                      <ShieldCheck className="h-4 w-4 mr-2" />
+                                      Compliance
+                                    </DropdownMenuItem>
+                                    
                                     {client.status !== "active" && (
                                       <DropdownMenuItem
                                         onClick={() => handleStatusChange(client.id, "active")}
@@ -511,6 +519,11 @@ export default function DispatchClientsPage() {
           </TabsContent>
         ))}
       </Tabs>
+      
+      <CarrierComplianceDialog
+        clientId={complianceClientId}
+        onOpenChange={(open) => !open && setComplianceClientId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -50,6 +50,7 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDate } from "@/lib/utils";
 import { MotionWrapper } from "@/components/ui/motion-wrapper";
+import { LoadStatusActions } from "@/components/dispatch/load-status-actions";
 
 export default function DispatchLoadsPage() {
   const { toast } = useToast();
@@ -312,7 +313,7 @@ export default function DispatchLoadsPage() {
           : '0.00',
         upcomingLoads: filteredLoads.filter(load => 
           new Date(load.pickupDate) > new Date() && 
-          load.status && ["pending", "assigned"].includes(load.status)).length
+          load.status && ["booked", "pending", "assigned"].includes(load.status)).length
       };
       
       // Create PDF template based on the selected style
@@ -496,7 +497,7 @@ export default function DispatchLoadsPage() {
     if (viewTab === "upcoming") {
       filtered = filtered.filter((load) => 
         new Date(load.pickupDate) > new Date() && 
-        ["pending", "assigned", "in_transit"].includes(load.status)
+        ["booked", "pending", "assigned", "in_transit"].includes(load.status)
       );
     } else if (viewTab === "in_transit") {
       filtered = filtered.filter((load) => load.status === "in_transit");
@@ -514,6 +515,7 @@ export default function DispatchLoadsPage() {
           (load.loadNumber && load.loadNumber.toLowerCase().includes(query)) ||
           (load.origin && load.origin.toLowerCase().includes(query)) ||
           (load.destination && load.destination.toLowerCase().includes(query)) ||
+          (load.stops && load.stops.some((stop: any) => stop.location?.toLowerCase().includes(query))) ||
           (load.client && load.client.name && load.client.name.toLowerCase().includes(query))
       );
     }
@@ -530,10 +532,13 @@ export default function DispatchLoadsPage() {
   // Format status for display
   const formatStatus = (status: string) => {
     const statusMap = {
+      "booked": { label: "Booked", color: "text-blue-600 bg-blue-50 border-blue-200" },
       "pending": { label: "Pending", color: "text-amber-600 bg-amber-50 border-amber-200" },
       "assigned": { label: "Assigned", color: "text-blue-600 bg-blue-50 border-blue-200" },
       "in_transit": { label: "In Transit", color: "text-purple-600 bg-purple-50 border-purple-200" },
       "delivered": { label: "Delivered", color: "text-green-600 bg-green-50 border-green-200" },
+      "invoiced": { label: "Invoiced", color: "text-teal-600 bg-teal-50 border-teal-200" },
+      "paid": { label: "Paid", color: "text-emerald-700 bg-emerald-50 border-emerald-200" },
       "cancelled": { label: "Cancelled", color: "text-red-600 bg-red-50 border-red-200" },
       "issue": { label: "Issue", color: "text-red-600 bg-red-50 border-red-200" },
     };
@@ -651,15 +656,21 @@ export default function DispatchLoadsPage() {
                 Manage and track all loads in the system
               </p>
             </div>
-            {canCreateLoad && (
-              <Button
-                onClick={() => setLocation("/dispatch/new-load")}
-                className="mt-4 sm:mt-0 bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white rounded-md transition-all duration-200"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                New Load
+            <div className="flex gap-2 mt-4 sm:mt-0">
+              <Button variant="outline" onClick={() => setLocation("/dispatch/board")}>
+                <LayoutGrid className="h-4 w-4 mr-2" />
+                Board
               </Button>
-            )}
+              {canCreateLoad && (
+                <Button
+                  onClick={() => setLocation("/dispatch/new-load")}
+                  className="bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white rounded-md transition-all duration-200"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Load
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </MotionWrapper>
@@ -702,10 +713,11 @@ export default function DispatchLoadsPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="assigned">Assigned</SelectItem>
+                    <SelectItem value="booked">Booked</SelectItem>
                     <SelectItem value="in_transit">In Transit</SelectItem>
                     <SelectItem value="delivered">Delivered</SelectItem>
+                    <SelectItem value="invoiced">Invoiced</SelectItem>
+                    <SelectItem value="paid">Paid</SelectItem>
                     <SelectItem value="cancelled">Cancelled</SelectItem>
                     <SelectItem value="issue">Issue</SelectItem>
                   </SelectContent>
@@ -861,16 +873,31 @@ export default function DispatchLoadsPage() {
                         {load.loadNumber}
                       </TableCell>
                       <TableCell>
-                        <div className="flex flex-col">
-                          <div className="flex items-center text-sm">
-                            <MapPin className="h-3 w-3 mr-1 text-gray-500" />
-                            <span className="text-gray-700">{load.origin}</span>
+                        {load.stops?.length > 2 ? (
+                          // Multi-stop loads list every pickup and delivery in route order
+                          <div className="flex flex-col">
+                            {load.stops.map((stop: any, index: number) => (
+                              <div key={stop.id} className={`flex items-center text-sm ${index > 0 ? "mt-1" : ""}`}>
+                                <MapPin className={`h-3 w-3 mr-1 ${stop.stopType === "pickup" ? "text-blue-500" : "text-green-600"}`} />
+                                <span className="text-gray-700">{stop.location}</span>
+                                <span className="ml-1 text-xs text-gray-400">
+                                  {stop.stopType === "pickup" ? "PU" : "DEL"}
+                                </span>
+                              </div>
+                            ))}
                           </div>
-                          <div className="flex items-center text-sm mt-1">
-                            <MapPin className="h-3 w-3 mr-1 text-gray-500" />
-                            <span className="text-gray-700">{load.destination}</span>
+                        ) : (
+                          <div className="flex flex-col">
+                            <div className="flex items-center text-sm">
+                              <MapPin className="h-3 w-3 mr-1 text-gray-500" />
+                              <span className="text-gray-700">{load.origin}</span>
+                            </div>
+                            <div className="flex items-center text-sm mt-1">
+                              <MapPin className="h-3 w-3 mr-1 text-gray-500" />
+                              <span className="text-gray-700">{load.destination}</span>
+                            </div>
                           </div>
-                        </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="text-sm font-medium text-gray-900">
@@ -931,6 +958,7 @@ export default function DispatchLoadsPage() {
                           >
                             View
                           </Button>
+                          <LoadStatusActions load={load} />
                           <Button 
                             variant="outline" 
                             size="sm"
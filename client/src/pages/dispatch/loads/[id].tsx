@@ -0,0 +1,174 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { Helmet } from "react-helmet";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LoadStatusActions, type AvailableLoadAction } from "@/components/dispatch/load-status-actions";
+import { LoadDocuments } from "@/components/dispatch/load-documents";
+import { ArrowLeft, DollarSign, MapPin, Package, Truck } from "lucide-react";
+
+interface LoadStop {
+  id: number;
+  sequence: number;
+  stopType: "pickup" | "delivery";
+  location: string;
+  appointmentStart: string;
+  appointmentEnd: string | null;
+  referenceNumbers: string[] | null;
+  arrivedAt: string | null;
+  departedAt: string | null;
+}
+
+interface LoadDetail {
+  id: number;
+  loadNumber: string | null;
+  status: string;
+  origin: string;
+  destination: string;
+  pickupDate: string;
+  deliveryDate: string;
+  freightAmount: number;
+  serviceCharge: number;
+  notes: string | null;
+  rateConfirmationUrl: string | null;
+  podUrl: string | null;
+  stops: LoadStop[];
+  availableActions: AvailableLoadAction[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  booked: "Booked",
+  in_transit: "In Transit",
+  delivered: "Delivered",
+  invoiced: "Invoiced",
+  paid: "Paid",
+  cancelled: "Cancelled",
+  issue: "Issue",
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount || 0);
+
+export default function LoadDetailPage() {
+  const [, params] = useRoute("/dispatch/loads/:id");
+  const loadId = params?.id ? parseInt(params.id, 10) : null;
+  const { role } = useAuth();
+
+  const { data: load, isLoading, isError } = useQuery<LoadDetail>({
+    queryKey: [`/api/dispatch/loads/${loadId}`],
+    enabled: !!loadId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-6 space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !load) {
+    return (
+      <div className="container mx-auto py-6">
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-6 text-red-700">Load #{loadId} could not be found.</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const title = load.loadNumber || `Load #${load.id}`;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <Helmet>
+        <title>{title} | MetaSys ERP</title>
+      </Helmet>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/dispatch/loads">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Loads
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold flex items-center">
+            <Truck className="h-6 w-6 mr-2 text-[#025E73]" />
+            {title}
+          </h1>
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border">
+            {STATUS_LABELS[load.status] ?? load.status}
+          </span>
+        </div>
+        <LoadStatusActions load={load} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Stops</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-4">
+              {load.stops.map((stop) => (
+                <li key={stop.id} className="flex items-start space-x-3">
+                  {stop.stopType === "pickup" ? (
+                    <Package className="h-5 w-5 mt-0.5 text-blue-600" />
+                  ) : (
+                    <MapPin className="h-5 w-5 mt-0.5 text-green-600" />
+                  )}
+                  <div>
+                    <div className="font-medium">
+                      {stop.sequence}. {stop.stopType === "pickup" ? "Pickup" : "Delivery"}: {stop.location}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {format(new Date(stop.appointmentStart), "MMM d, yyyy h:mm a")}
+                      {stop.appointmentEnd && ` – ${format(new Date(stop.appointmentEnd), "h:mm a")}`}
+                    </div>
+                    {stop.referenceNumbers && stop.referenceNumbers.length > 0 && (
+                      <div className="text-xs text-gray-500">Ref {stop.referenceNumbers.join(", ")}</div>
+                    )}
+                    {stop.arrivedAt && (
+                      <div className="text-xs text-gray-500">
+                        Arrived {format(new Date(stop.arrivedAt), "MMM d, h:mm a")}
+                        {stop.departedAt && `, departed ${format(new Date(stop.departedAt), "MMM d, h:mm a")}`}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <DollarSign className="h-5 w-5 mr-1" />
+              Financials
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Freight</span>
+              <span>{formatCurrency(load.freightAmount)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Service Charge</span>
+              <span>{formatCurrency(load.serviceCharge)}</span>
+            </div>
+            {load.notes && <p className="pt-2 text-gray-600 whitespace-pre-wrap">{load.notes}</p>}
+          </CardContent>
+        </Card>
+      </div>
+
+      <LoadDocuments loadId={load.id} canVerify={(role?.level ?? 0) >= 2} />
+    </div>
+  );
+}
@@ -28,6 +28,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Truck, DollarSign, Building, AlertTriangle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import {
+  LoadStopsEditor,
+  defaultLoadStops,
+  loadStopsFormSchema,
+  toLoadStopsPayload,
+} from "@/components/dispatch/load-stops-editor";
 
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -36,10 +42,7 @@ import { z } from "zod";
 // Create form schema
 const loadFormSchema = z.object({
   leadId: z.coerce.number().min(1, { message: "Client is required" }),
-  origin: z.string().min(2, { message: "Origin is required" }),
-  destination: z.string().min(2, { message: "Destination is required" }),
-  pickupDate: z.string().min(1, { message: "Pickup date is required" }),
-  deliveryDate: z.string().min(1, { message: "Delivery date is required" }),
+  stops: loadStopsFormSchema,
   freightAmount: z.coerce.number().min(1, { message: "Freight amount is required" }),
   serviceCharge: z.coerce.number().min(0, { message: "Service charge must be a valid number" }),
   notes: z.string().optional(),
@@ -66,10 +69,7 @@ export default function NewLoadPage() {
     resolver: zodResolver(loadFormSchema),
     defaultValues: {
       leadId: initialClientId || 0,
-      origin: "",
-      destination: "",
-      pickupDate: new Date().toISOString().split("T")[0],
-      deliveryDate: new Date(Date.now() + 3 * 86400000).toISOString().split("T")[0],
+      stops: defaultLoadStops(),
       freightAmount: 0,
       serviceCharge: 0,
       notes: "",
@@ -90,8 +90,10 @@ export default function NewLoadPage() {
   // Create load mutation
   const createLoadMutation = useMutation({
     mutationFn: async (values: LoadFormValues) => {
+      // Origin, destination and dates are derived from the stops by the server
       return apiRequest("POST", "/api/loads", {
         ...values,
+        stops: toLoadStopsPayload(values.stops),
         assignedTo: user?.id,
       });
     },
@@ -106,7 +108,7 @@ export default function NewLoadPage() {
             leadId: form.getValues("leadId"),
             loadId: data.id,
             amount: calculateCommission(form.getValues("freightAmount"), form.getValues("serviceCharge")),
-            message: `New load commission from ${form.getValues("origin")} to ${form.getValues("destination")}`
+            message: `New load commission from ${data.origin} to ${data.destination}`
           });
         }
         
@@ -256,7 +258,8 @@ export default function NewLoadPage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Status</FormLabel>
-                          <Select value={field.value} onValueChange={field.onChange}>
+                          {/* New loads always start booked; later statuses are set from the loads page */}
+                          <Select value={field.value} onValueChange={field.onChange} disabled>
                             <FormControl>
                               <SelectTrigger>
                                 <SelectValue placeholder="Select status" />
@@ -264,8 +267,6 @@ export default function NewLoadPage() {
                             </FormControl>
                             <SelectContent>
                               <SelectItem value="booked">Booked</SelectItem>
-                              <SelectItem value="in_transit">In Transit</SelectItem>
-                              <SelectItem value="delivered">Delivered</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -273,62 +274,6 @@ export default function NewLoadPage() {
                       )}
                     />
                     
-                    <FormField
-                      control={form.control}
-                      name="origin"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Origin*</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Start location" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="destination"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Destination*</FormLabel>
-                          <FormControl>
-                            <Input placeholder="End location" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="pickupDate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Pickup Date*</FormLabel>
-                          <FormControl>
-                            <Input type="date" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="deliveryDate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Delivery Date*</FormLabel>
-                          <FormControl>
-                            <Input type="date" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
                     <FormField
                       control={form.control}
                       name="freightAmount"
@@ -388,6 +333,11 @@ export default function NewLoadPage() {
                     />
                   </div>
                   
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 mb-3">Stops</h3>
+                    <LoadStopsEditor />
+                  </div>
+                  
                   <FormField
                     control={form.control}
                     name="notes"
@@ -290,19 +290,17 @@ export default function NewLoadPage() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Status</FormLabel>
+                          {/* New loads always start booked; later statuses are set from the loads page */}
                           <Select 
                             value={field.value} 
                             onValueChange={field.onChange}
+                            disabled
                           >
                             <SelectTrigger>
                               <SelectValue placeholder="Select status" />
                             </SelectTrigger>
                             <SelectContent>
                               <SelectItem value="booked">Booked</SelectItem>
-                              <SelectItem value="in_transit">In Transit</SelectItem>
-                              <SelectItem value="delivered">Delivered</SelectItem>
-                              <SelectItem value="invoiced">Invoiced</SelectItem>
-                              <SelectItem value="paid">Paid</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
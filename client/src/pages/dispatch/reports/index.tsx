@@ -19,6 +19,15 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
+const METRIC_LABELS: Record<string, string> = {
+  loadsBooked: "Loads",
+  invoiceUsd: "Invoiced",
+  activeLeads: "Active leads",
+  pendingInvoiceUsd: "Pending",
+  highestInvoiceUsd: "Highest invoice",
+  paidInvoiceUsd: "Paid",
+};
+
 export default function DispatchReportsPage() {
   const [performanceRange, setPerformanceRange] = useState<"daily" | "weekly">("daily");
   const [selectedDispatcher, setSelectedDispatcher] = useState<string | null>(null);
@@ -312,6 +321,7 @@ export default function DispatchReportsPage() {
                       <TableHead>Loads Booked</TableHead>
                       <TableHead>Invoice USD</TableHead>
                       <TableHead>Active Leads</TableHead>
+                      <TableHead>Corrections</TableHead>
                       <TableHead>Status</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -325,6 +335,20 @@ export default function DispatchReportsPage() {
                         <TableCell>{report.loadsBooked}</TableCell>
                         <TableCell>${report.invoiceUsd.toFixed(2)}</TableCell>
                         <TableCell>{report.activeLeads}</TableCell>
+                        <TableCell>
+                          {/* Figures the dispatcher disputed when confirming, against the computed value */}
+                          {report.discrepancies?.length > 0 ? (
+                            <div className="flex flex-col gap-1" title={report.notes || undefined}>
+                              {report.discrepancies.map((item: any) => (
+                                <Badge key={item.metric} variant="outline" className="text-amber-600 border-amber-500 w-fit">
+                                  {METRIC_LABELS[item.metric] ?? item.metric}: {item.reported} (computed {item.computed})
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
                         <TableCell>
                           {report.status === "Submitted" ? (
                             <Badge className="bg-green-500">
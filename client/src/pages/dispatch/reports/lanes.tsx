@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { AlertTriangle, ArrowRight, Loader2, Route, Search } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface LaneMonth {
+  month: string;
+  loadCount: number;
+  averageFreight: number;
+}
+
+interface LaneCarrier {
+  leadId: number;
+  companyName: string;
+  loadCount: number;
+  averageFreight: number;
+}
+
+interface Lane {
+  key: string;
+  origin: string;
+  destination: string;
+  equipmentType: string;
+  loadCount: number;
+  averageFreight: number;
+  medianFreight: number;
+  minFreight: number;
+  maxFreight: number;
+  trend: LaneMonth[];
+  topCarriers: LaneCarrier[];
+}
+
+interface LaneAnalyticsReport {
+  startDate: string;
+  endDate: string;
+  totals: {
+    loadCount: number;
+    laneCount: number;
+    averageFreight: number;
+    medianFreight: number;
+  };
+  equipmentTypes: string[];
+  lanes: Lane[];
+}
+
+const ALL_EQUIPMENT = "all";
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount || 0);
+
+export default function LaneAnalyticsPage() {
+  const [months, setMonths] = useState("12");
+  const [equipmentType, setEquipmentType] = useState(ALL_EQUIPMENT);
+  const [origin, setOrigin] = useState("");
+  const [destination, setDestination] = useState("");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ months });
+  if (equipmentType !== ALL_EQUIPMENT) params.set("equipmentType", equipmentType);
+  if (origin.trim()) params.set("origin", origin.trim());
+  if (destination.trim()) params.set("destination", destination.trim());
+
+  const { data: report, isLoading, isError } = useQuery<LaneAnalyticsReport>({
+    queryKey: [`/api/dispatch/analytics/lanes?${params.toString()}`],
+  });
+
+  const lanes = report?.lanes ?? [];
+  const selected = lanes.find((lane) => lane.key === selectedKey) ?? lanes[0] ?? null;
+
+  // Keep the selection on a lane that is still in the filtered results
+  useEffect(() => {
+    if (selectedKey && !lanes.some((lane) => lane.key === selectedKey)) {
+      setSelectedKey(null);
+    }
+  }, [lanes, selectedKey]);
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Lane Analytics</h1>
+        <p className="text-gray-500 mt-1">Freight rates by lane and equipment type from historical loads</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Select value={months} onValueChange={setMonths}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="3">Last 3 months</SelectItem>
+              <SelectItem value="6">Last 6 months</SelectItem>
+              <SelectItem value="12">Last 12 months</SelectItem>
+              <SelectItem value="24">Last 24 months</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={equipmentType} onValueChange={setEquipmentType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_EQUIPMENT}>All equipment</SelectItem>
+              {report?.equipmentTypes.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input className="pl-8" placeholder="Origin city or state" value={origin} onChange={(e) => setOrigin(e.target.value)} />
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input className="pl-8" placeholder="Destination city or state" value={destination} onChange={(e) => setDestination(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : isError || !report ? (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-6 flex items-center text-red-700">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            Lane analytics could not be loaded
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "Loads", value: report.totals.loadCount.toLocaleString() },
+              { label: "Lanes", value: report.totals.laneCount.toLocaleString() },
+              { label: "Average Freight", value: formatCurrency(report.totals.averageFreight) },
+              { label: "Median Freight", value: formatCurrency(report.totals.medianFreight) },
+            ].map((metric) => (
+              <Card key={metric.label}>
+                <CardContent className="p-4">
+                  <div className="text-sm text-gray-500">{metric.label}</div>
+                  <div className="text-2xl font-semibold">{metric.value}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+            <Card className="xl:col-span-3">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Route className="h-5 w-5 mr-2" />
+                  Lanes
+                </CardTitle>
+                <CardDescription>
+                  {report.startDate} to {report.endDate}, busiest lanes first
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {lanes.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-6">No loads match these filters</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Lane</TableHead>
+                        <TableHead>Equipment</TableHead>
+                        <TableHead className="text-right">Loads</TableHead>
+                        <TableHead className="text-right">Average</TableHead>
+                        <TableHead className="text-right">Median</TableHead>
+                        <TableHead className="text-right">Range</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {lanes.map((lane) => (
+                        <TableRow
+                          key={lane.key}
+                          onClick={() => setSelectedKey(lane.key)}
+                          className={`cursor-pointer ${selected?.key === lane.key ? "bg-[#025E73]/5" : ""}`}
+                        >
+                          <TableCell className="font-medium">
+                            <span className="flex items-center">
+                              {lane.origin}
+                              <ArrowRight className="h-3.5 w-3.5 mx-1 text-gray-400" />
+                              {lane.destination}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{lane.equipmentType}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{lane.loadCount}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(lane.averageFreight)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(lane.medianFreight)}</TableCell>
+                          <TableCell className="text-right text-gray-500">
+                            {formatCurrency(lane.minFreight)} – {formatCurrency(lane.maxFreight)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <div className="xl:col-span-2 space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">
+                      {selected.origin} → {selected.destination}
+                    </CardTitle>
+                    <CardDescription>{selected.equipmentType}, average freight by month</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={selected.trend}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="month" />
+                          <YAxis tickFormatter={(value) => `$${value}`} />
+                          <Tooltip
+                            formatter={(value: number, name: string) =>
+                              name === "averageFreight" ? [formatCurrency(value), "Average freight"] : [value, "Loads"]
+                            }
+                          />
+                          <Line type="monotone" dataKey="averageFreight" stroke="#025E73" strokeWidth={2} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Top Carriers</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Carrier</TableHead>
+                          <TableHead className="text-right">Loads</TableHead>
+                          <TableHead className="text-right">Average</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selected.topCarriers.map((carrier) => (
+                          <TableRow key={carrier.leadId}>
+                            <TableCell>{carrier.companyName}</TableCell>
+                            <TableCell className="text-right">{carrier.loadCount}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(carrier.averageFreight)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
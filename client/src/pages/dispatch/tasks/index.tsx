@@ -159,7 +159,7 @@ export default function DispatchTasksPage() {
               Daily Reports
             </CardTitle>
             <CardDescription>
-              Submit your end-of-day performance reports
+              Review and confirm your end-of-day figures, computed from your loads and invoices
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -200,7 +200,7 @@ export default function DispatchTasksPage() {
                             className="bg-[#457B9D] hover:bg-[#2EC4B6] text-white rounded-md transition-all duration-200"
                             size="sm"
                           >
-                            Submit
+                            Review
                           </Button>
                         )}
                       </TableCell>
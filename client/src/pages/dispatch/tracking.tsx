@@ -1,141 +1,231 @@
 import { useState, useEffect } from "react";
 import { useLocation, useSearch } from "wouter";
-import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription } from "@/components/ui/card";
+import { useSocket } from "@/hooks/use-socket";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   Truck,
   Search,
   MapPin,
-  CalendarCheck,
   Clock,
-  Phone,
   AlertCircle,
   CheckCircle2,
-  ClipboardCheck,
   Package,
   RefreshCw,
   User,
 } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
-import { formatDate } from "@/lib/utils";
 import { MotionWrapper } from "@/components/ui/motion-wrapper";
 
+type StopTimeliness = "on_time" | "late" | "at_risk" | "scheduled";
+
+interface TrackedStop {
+  id: number;
+  sequence: number;
+  stopType: "pickup" | "delivery";
+  location: string;
+  appointmentStart: string;
+  appointmentEnd: string | null;
+  eta: string | null;
+  arrivedAt: string | null;
+  departedAt: string | null;
+  notes: string | null;
+  timeliness: StopTimeliness;
+  minutesLate: number | null;
+}
+
+interface CheckCall {
+  id: number;
+  stopId: number | null;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  status: string;
+  eta: string | null;
+  notes: string | null;
+  reportedAt: string;
+  reportedByName: string | null;
+}
+
+interface LoadTracking {
+  load: {
+    id: number;
+    origin: string;
+    destination: string;
+    status: string;
+    pickupDate: string;
+    deliveryDate: string;
+    companyName: string | null;
+    notes: string | null;
+  };
+  stops: TrackedStop[];
+  checkCalls: CheckCall[];
+  currentLocation: string | null;
+  lastUpdated: string | null;
+  nextStop: TrackedStop | null;
+  estimatedDelivery: string | null;
+  onTime: boolean;
+}
+
+interface ShipmentSummary {
+  loadId: number;
+  origin: string;
+  destination: string;
+  status: string;
+  companyName: string | null;
+  currentLocation: string | null;
+  lastCheckCall: { reportedAt: string; status: string } | null;
+  nextStop: TrackedStop | null;
+  timeliness: "late" | "at_risk" | "on_time";
+}
+
+const CHECK_CALL_STATUSES: Record<string, string> = {
+  en_route: "En Route",
+  arrived: "Arrived",
+  departed: "Departed",
+  delayed: "Delayed",
+  issue: "Issue",
+};
+
+const TRACKING_UPDATED_EVENT = "load:tracking_updated";
+
+const emptyCheckCall = {
+  location: "",
+  status: "en_route",
+  stopId: "next",
+  eta: "",
+  latitude: "",
+  longitude: "",
+  notes: "",
+};
+
 export default function TrackingPage() {
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { socket, emit, connected } = useSocket();
   const [, setLocation] = useLocation();
   const search = useSearch();
   const queryClient = useQueryClient();
   const searchParams = new URLSearchParams(search);
-  
+
   const [loadId, setLoadId] = useState<string | null>(searchParams.get("id"));
-  const [trackingNumber, setTrackingNumber] = useState<string>(searchParams.get("tracking") || "");
-  const [activeTab, setActiveTab] = useState<string>("map");
-  
+  const [trackingNumber, setTrackingNumber] = useState<string>(searchParams.get("id") || "");
+  const [activeTab, setActiveTab] = useState<string>("stops");
+  const [checkCall, setCheckCall] = useState(emptyCheckCall);
+
+  const trackingUrl = `/api/dispatch/tracking/${loadId}`;
+
   // Get load tracking data
-  const { data: trackingData, isLoading, error, isError } = useQuery({
-    queryKey: ["/api/dispatch/tracking", loadId],
+  const { data: trackingResponse, isLoading, isError, error } = useQuery<{ status: string; data: LoadTracking }>({
+    queryKey: [trackingUrl],
     enabled: !!loadId,
   });
-  
-  // Search for a load
+  const tracking = trackingResponse?.data;
+
+  // Active shipments shown before a load is selected
+  const { data: shipmentsResponse, isLoading: shipmentsLoading } = useQuery<{ status: string; data: ShipmentSummary[] }>({
+    queryKey: ["/api/dispatch/tracking"],
+    enabled: !loadId,
+  });
+  const shipments = shipmentsResponse?.data ?? [];
+
+  // Join the load's room so check calls logged elsewhere show up live
+  useEffect(() => {
+    if (!loadId || !socket || !connected) return;
+
+    const handleTrackingUpdate = (data: LoadTracking) => {
+      if (String(data.load.id) !== loadId) return;
+      queryClient.setQueryData([trackingUrl], { status: "success", data });
+    };
+
+    emit("subscribe:entity", { entityType: "load", entityId: Number(loadId) });
+    socket.on(TRACKING_UPDATED_EVENT, handleTrackingUpdate);
+
+    return () => {
+      socket.off(TRACKING_UPDATED_EVENT, handleTrackingUpdate);
+      emit("unsubscribe:entity", { entityType: "load", entityId: Number(loadId) });
+    };
+  }, [loadId, socket, connected, emit, queryClient, trackingUrl]);
+
+  const checkCallMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/dispatch/tracking/${loadId}/check-calls`, {
+        location: checkCall.location,
+        status: checkCall.status,
+        stopId: checkCall.stopId !== "next" ? Number(checkCall.stopId) : undefined,
+        eta: checkCall.eta ? new Date(checkCall.eta).toISOString() : undefined,
+        latitude: checkCall.latitude ? Number(checkCall.latitude) : undefined,
+        longitude: checkCall.longitude ? Number(checkCall.longitude) : undefined,
+        notes: checkCall.notes || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData([trackingUrl], { status: "success", data: result.data.tracking });
+      queryClient.invalidateQueries({ queryKey: ["/api/dispatch/tracking"] });
+      setCheckCall(emptyCheckCall);
+      setActiveTab("timeline");
+      toast({
+        title: "Check call logged",
+        description: `${CHECK_CALL_STATUSES[result.data.checkCall.status]} at ${result.data.checkCall.location}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not log check call",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Loads are looked up by number, e.g. "LD-42" or "42"
   const handleSearch = () => {
-    if (!trackingNumber.trim()) {
+    const id = trackingNumber.replace(/\D/g, "");
+    if (!id) {
       toast({
         title: "Validation Error",
-        description: "Please enter a tracking number",
+        description: "Please enter a load number",
         variant: "destructive",
       });
       return;
     }
-    
-    // Update URL and tracking number
-    const newParams = new URLSearchParams();
-    newParams.set("tracking", trackingNumber);
-    setLocation(`/dispatch/tracking?${newParams.toString()}`);
-    
-    // In a real application, this would query the API
-    // For now, we'll simulate finding the load by ID
-    setLoadId("1"); // Dummy ID for demo purposes
-    
-    // Invalidate tracking data to trigger a refetch
-    queryClient.invalidateQueries({ queryKey: ["/api/dispatch/tracking"] });
+
+    openLoad(id);
   };
-  
-  // When the component mounts, check if we have a tracking number in the URL
-  useEffect(() => {
-    if (searchParams.get("tracking")) {
-      setTrackingNumber(searchParams.get("tracking") || "");
-      handleSearch();
-    }
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
-  
-  // Mock tracking data for the demo
-  const mockTrackingData = {
-    id: 1,
-    loadNumber: "LD-001",
-    trackingNumber: "TRK-123456",
-    status: "in_transit",
-    origin: "Chicago, IL",
-    destination: "Dallas, TX",
-    pickupDate: "2025-05-01T08:00:00Z",
-    estimatedDelivery: "2025-05-03T14:00:00Z",
-    currentLocation: "St. Louis, MO",
-    lastUpdated: "2025-05-02T10:30:00Z",
-    client: {
-      name: "ABC Logistics",
-      contactName: "John Smith",
-      phoneNumber: "(555) 123-4567",
-      email: "john@abclogistics.com",
-    },
-    driver: {
-      name: "Mike Johnson",
-      phoneNumber: "(555) 987-6543",
-      truckNumber: "T-789",
-    },
-    events: [
-      {
-        id: 1,
-        time: "2025-05-01T08:15:00Z",
-        location: "Chicago, IL",
-        status: "Picked up",
-        notes: "Load picked up on time",
-      },
-      {
-        id: 2,
-        time: "2025-05-01T12:30:00Z",
-        location: "Indianapolis, IN",
-        status: "In transit",
-        notes: "Load moving as scheduled",
-      },
-      {
-        id: 3,
-        time: "2025-05-02T08:45:00Z",
-        location: "St. Louis, MO",
-        status: "Check-in",
-        notes: "Driver checked in, everything on schedule",
-      },
-    ],
-    loadDetails: {
-      weight: "42000 lbs",
-      equipment: "Dry Van",
-      temperature: "N/A",
-      pieces: "48 pallets",
-      specialInstructions: "Call customer 1 hour before delivery",
-    },
+
+  const openLoad = (id: string | number) => {
+    setLoadId(String(id));
+    setTrackingNumber(String(id));
+    setActiveTab("stops");
+    setLocation(`/dispatch/tracking?id=${id}`);
   };
-  
-  // Use mock data for demonstration purposes
-  const displayData = trackingData || mockTrackingData;
-  
+
   // Format the date with time
-  const formatDateWithTime = (dateString: string) => {
+  const formatDateWithTime = (dateString: string | null) => {
+    if (!dateString) return "—";
     try {
       const date = new Date(dateString);
       return date.toLocaleString('en-US', {
@@ -149,43 +239,62 @@ export default function TrackingPage() {
       return dateString;
     }
   };
-  
+
+  const formatWindow = (stop: TrackedStop) => {
+    if (!stop.appointmentEnd) return formatDateWithTime(stop.appointmentStart);
+    return `${formatDateWithTime(stop.appointmentStart)} – ${new Date(stop.appointmentEnd).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
   // Calculate estimated time of arrival
-  const calculateETA = (estimatedDelivery: string) => {
+  const calculateETA = (estimatedDelivery: string | null) => {
+    if (!estimatedDelivery) return "—";
     const now = new Date();
     const eta = new Date(estimatedDelivery);
     const diffTime = eta.getTime() - now.getTime();
-    
+
     // If the ETA is in the past
     if (diffTime < 0) {
-      return "Delivered";
+      return "Due";
     }
-    
+
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
     const diffHours = Math.floor((diffTime % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-    
+
     if (diffDays > 0) {
       return `${diffDays} day${diffDays !== 1 ? 's' : ''} ${diffHours} hour${diffHours !== 1 ? 's' : ''}`;
     }
-    
+
     return `${diffHours} hour${diffHours !== 1 ? 's' : ''}`;
   };
-  
+
   // Get status badge styling
   const getStatusBadge = (status: string) => {
     const statusMap: Record<string, { label: string, color: string }> = {
-      "pending": { label: "Pending", color: "bg-amber-50 text-amber-600 border-amber-200" },
+      "booked": { label: "Booked", color: "bg-blue-50 text-blue-600 border-blue-200" },
       "in_transit": { label: "In Transit", color: "bg-purple-50 text-purple-600 border-purple-200" },
       "delivered": { label: "Delivered", color: "bg-green-50 text-green-600 border-green-200" },
-      "delayed": { label: "Delayed", color: "bg-red-50 text-red-600 border-red-200" },
+      "invoiced": { label: "Invoiced", color: "bg-teal-50 text-teal-600 border-teal-200" },
+      "paid": { label: "Paid", color: "bg-emerald-50 text-emerald-700 border-emerald-200" },
       "cancelled": { label: "Cancelled", color: "bg-gray-50 text-gray-600 border-gray-200" },
     };
-    
+
     return statusMap[status] || { label: status, color: "bg-gray-50 text-gray-600 border-gray-200" };
   };
-  
+
+  const getTimelinessBadge = (timeliness: StopTimeliness, minutesLate?: number | null) => {
+    const late = minutesLate ? ` (${minutesLate >= 60 ? `${Math.round(minutesLate / 60)}h` : `${minutesLate}m`})` : "";
+    const timelinessMap: Record<StopTimeliness, { label: string, color: string }> = {
+      "on_time": { label: "On Time", color: "bg-green-50 text-green-600 border-green-200" },
+      "scheduled": { label: "Scheduled", color: "bg-blue-50 text-blue-600 border-blue-200" },
+      "at_risk": { label: `At Risk${late}`, color: "bg-amber-50 text-amber-600 border-amber-200" },
+      "late": { label: `Late${late}`, color: "bg-red-50 text-red-600 border-red-200" },
+    };
+
+    return timelinessMap[timeliness];
+  };
+
   // Render loading skeleton
-  if (isLoading) {
+  if (loadId && isLoading) {
     return (
       <div className="container mx-auto py-6">
         <div className="flex flex-col gap-4 mb-6">
@@ -196,9 +305,46 @@ export default function TrackingPage() {
       </div>
     );
   }
-  
-  // Render search form if no load is being tracked
-  if (!loadId) {
+
+  const searchCard = (
+    <Card className="max-w-2xl mx-auto shadow">
+      <CardHeader>
+        <CardTitle>Shipment Tracking</CardTitle>
+        <CardDescription>
+          Enter a load number, e.g. LD-1042 or 1042
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Truck className="h-4 w-4 text-gray-400" />
+              </div>
+              <Input
+                type="text"
+                placeholder="Enter load number"
+                className="pl-10"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              />
+            </div>
+          </div>
+          <Button
+            onClick={handleSearch}
+            className="bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white rounded-md transition-all duration-200"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Track
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  // Render search form and active shipments if no load is being tracked
+  if (!loadId || isError || !tracking) {
     return (
       <div className="container mx-auto py-6">
         <MotionWrapper animation="fade-down" delay={0.1}>
@@ -207,60 +353,98 @@ export default function TrackingPage() {
               Track Shipment
             </h1>
             <p className="text-gray-500 mt-1">
-              Enter a tracking number to monitor the status of your shipment
+              Follow booked and moving loads through their stops
             </p>
           </div>
         </MotionWrapper>
-        
+
         <MotionWrapper animation="fade-up" delay={0.2}>
-          <Card className="max-w-2xl mx-auto shadow">
+          {searchCard}
+          {loadId && isError && (
+            <p className="max-w-2xl mx-auto mt-3 text-sm text-red-600 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {(error as Error)?.message || "Load not found"}
+            </p>
+          )}
+        </MotionWrapper>
+
+        <MotionWrapper animation="fade-up" delay={0.3}>
+          <Card className="mt-8 shadow-sm">
             <CardHeader>
-              <CardTitle>Shipment Tracking</CardTitle>
-              <CardDescription>
-                Enter a load number, tracking number, or PRO number
-              </CardDescription>
+              <CardTitle>Active Shipments</CardTitle>
+              <CardDescription>Late and at-risk loads are listed first</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="flex flex-col sm:flex-row gap-4">
-                <div className="flex-1">
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <Truck className="h-4 w-4 text-gray-400" />
-                    </div>
-                    <Input
-                      type="text"
-                      placeholder="Enter tracking number"
-                      className="pl-10"
-                      value={trackingNumber}
-                      onChange={(e) => setTrackingNumber(e.target.value)}
-                    />
-                  </div>
-                </div>
-                <Button 
-                  onClick={handleSearch}
-                  className="bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white rounded-md transition-all duration-200"
-                >
-                  <Search className="h-4 w-4 mr-2" />
-                  Track
-                </Button>
-              </div>
+              {shipmentsLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : shipments.length === 0 ? (
+                <p className="text-sm text-gray-500">No booked or in-transit loads.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Load</TableHead>
+                      <TableHead>Route</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Last Check Call</TableHead>
+                      <TableHead>Next Stop</TableHead>
+                      <TableHead className="text-right">On Time</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shipments.map((shipment) => (
+                      <TableRow
+                        key={shipment.loadId}
+                        className="cursor-pointer hover:bg-gray-50"
+                        onClick={() => openLoad(shipment.loadId)}
+                      >
+                        <TableCell>
+                          <div className="font-medium">LD-{shipment.loadId}</div>
+                          <div className="text-xs text-gray-500">{shipment.companyName}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{shipment.origin} → {shipment.destination}</TableCell>
+                        <TableCell>
+                          <Badge className={getStatusBadge(shipment.status).color}>
+                            {getStatusBadge(shipment.status).label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {shipment.lastCheckCall ? (
+                            <>
+                              <div>{shipment.currentLocation}</div>
+                              <div className="text-xs text-gray-500">{formatDateWithTime(shipment.lastCheckCall.reportedAt)}</div>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">None yet</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {shipment.nextStop ? (
+                            <>
+                              <div>{shipment.nextStop.location}</div>
+                              <div className="text-xs text-gray-500">{formatWindow(shipment.nextStop)}</div>
+                            </>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Badge className={getTimelinessBadge(shipment.timeliness).color}>
+                            {getTimelinessBadge(shipment.timeliness).label}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
-            <CardFooter className="flex flex-col items-start gap-2 border-t pt-6">
-              <div className="text-sm text-gray-500">
-                <p>Examples of valid tracking numbers:</p>
-                <ul className="list-disc pl-5 mt-2">
-                  <li>LD-12345 (Load Number)</li>
-                  <li>TRK-67890 (Tracking Number)</li>
-                  <li>PRO-54321 (PRO Number)</li>
-                </ul>
-              </div>
-            </CardFooter>
           </Card>
         </MotionWrapper>
       </div>
     );
   }
-  
+
+  const canLogCheckCall = ["booked", "in_transit"].includes(tracking.load.status);
+
   // Render tracking details
   return (
     <div className="container mx-auto py-6">
@@ -273,10 +457,14 @@ export default function TrackingPage() {
               </h1>
               <div className="flex items-center mt-1">
                 <span className="text-gray-500 mr-2">Load:</span>
-                <span className="font-medium">{displayData.loadNumber}</span>
-                <span className="mx-2 text-gray-400">|</span>
-                <span className="text-gray-500 mr-2">Tracking:</span>
-                <span className="font-medium">{displayData.trackingNumber}</span>
+                <span className="font-medium">LD-{tracking.load.id}</span>
+                {tracking.load.companyName && (
+                  <>
+                    <span className="mx-2 text-gray-400">|</span>
+                    <span className="text-gray-500 mr-2">Client:</span>
+                    <span className="font-medium">{tracking.load.companyName}</span>
+                  </>
+                )}
               </div>
             </div>
             <div className="mt-4 sm:mt-0">
@@ -285,7 +473,7 @@ export default function TrackingPage() {
                 size="sm"
                 onClick={() => {
                   // Refresh tracking data
-                  queryClient.invalidateQueries({ queryKey: ["/api/dispatch/tracking", loadId] });
+                  queryClient.invalidateQueries({ queryKey: [trackingUrl] });
                   toast({
                     title: "Refreshed",
                     description: "Tracking information updated",
@@ -314,234 +502,272 @@ export default function TrackingPage() {
           </div>
         </div>
       </MotionWrapper>
-      
+
       {/* Status Card */}
       <MotionWrapper animation="fade-up" delay={0.2}>
         <Card className="mb-6 shadow-sm">
           <CardContent className="p-6">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div>
                 <h2 className="text-sm font-medium text-gray-500 mb-1">Status</h2>
                 <div className="flex items-center">
-                  <Badge className={`${getStatusBadge(displayData.status).color} h-6 text-sm capitalize`}>
-                    {getStatusBadge(displayData.status).label}
+                  <Badge className={`${getStatusBadge(tracking.load.status).color} h-6 text-sm capitalize`}>
+                    {getStatusBadge(tracking.load.status).label}
                   </Badge>
                 </div>
                 <p className="text-xs text-gray-500 mt-1">
-                  Last updated: {formatDateWithTime(displayData.lastUpdated)}
+                  Last check call: {formatDateWithTime(tracking.lastUpdated)}
                 </p>
               </div>
-              
+
               <div>
                 <h2 className="text-sm font-medium text-gray-500 mb-1">Estimated Delivery</h2>
-                <p className="font-medium">{formatDateWithTime(displayData.estimatedDelivery)}</p>
+                <p className="font-medium">{formatDateWithTime(tracking.estimatedDelivery)}</p>
                 <p className="text-xs text-gray-500 mt-1">
-                  ETA: {calculateETA(displayData.estimatedDelivery)}
+                  ETA: {calculateETA(tracking.estimatedDelivery)}
                 </p>
               </div>
-              
+
               <div>
                 <h2 className="text-sm font-medium text-gray-500 mb-1">Current Location</h2>
                 <div className="flex items-center">
                   <MapPin className="h-4 w-4 text-gray-500 mr-1" />
-                  <span className="font-medium">{displayData.currentLocation}</span>
+                  <span className="font-medium">{tracking.currentLocation || "No check calls yet"}</span>
+                </div>
+              </div>
+
+              <div>
+                <h2 className="text-sm font-medium text-gray-500 mb-1">Schedule</h2>
+                <div className="flex items-center">
+                  {tracking.onTime ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 mr-1" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-red-600 mr-1" />
+                  )}
+                  <span className="font-medium">{tracking.onTime ? "On time" : "Behind schedule"}</span>
                 </div>
+                {tracking.nextStop && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Next: {tracking.nextStop.location}
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
       </MotionWrapper>
-      
+
       {/* Tabs for different views */}
       <MotionWrapper animation="fade-up" delay={0.3}>
-        <Tabs defaultValue="map" value={activeTab} onValueChange={setActiveTab} className="mb-6">
-          <TabsList className="grid grid-cols-1 sm:grid-cols-4 w-full gap-2">
-            <TabsTrigger value="map">Map View</TabsTrigger>
-            <TabsTrigger value="timeline">Timeline</TabsTrigger>
-            <TabsTrigger value="details">Load Details</TabsTrigger>
-            <TabsTrigger value="contacts">Contacts</TabsTrigger>
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-6">
+          <TabsList className="grid grid-cols-1 sm:grid-cols-3 w-full gap-2">
+            <TabsTrigger value="stops">Stops</TabsTrigger>
+            <TabsTrigger value="timeline">Check Calls</TabsTrigger>
+            <TabsTrigger value="check-call" disabled={!canLogCheckCall}>Log Check Call</TabsTrigger>
           </TabsList>
-          
-          <TabsContent value="map" className="mt-6">
+
+          <TabsContent value="stops" className="mt-6">
             <Card>
               <CardHeader>
-                <CardTitle>Shipment Route</CardTitle>
+                <CardTitle>Stops</CardTitle>
+                <CardDescription>
+                  Appointment windows with actual arrival and departure times
+                </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="bg-gray-100 border rounded-md h-[400px] flex items-center justify-center">
-                  <div className="text-center p-6">
-                    <MapPin className="h-8 w-8 text-gray-400 mx-auto mb-2" />
-                    <p className="text-gray-500 mb-1">Map View Coming Soon</p>
-                    <p className="text-sm text-gray-400">
-                      Live tracking map will be available in the next update
-                    </p>
-                  </div>
-                </div>
-                <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div className="border rounded-md p-4">
-                    <h3 className="text-sm font-medium flex items-center mb-2">
-                      <MapPin className="h-4 w-4 text-gray-500 mr-1" />
-                      Origin
-                    </h3>
-                    <p className="font-medium text-gray-900">{displayData.origin}</p>
-                    <p className="text-sm text-gray-500 mt-1">
-                      Pickup: {formatDateWithTime(displayData.pickupDate)}
-                    </p>
-                  </div>
-                  
-                  <div className="border rounded-md p-4">
-                    <h3 className="text-sm font-medium flex items-center mb-2">
-                      <MapPin className="h-4 w-4 text-gray-500 mr-1" />
-                      Destination
-                    </h3>
-                    <p className="font-medium text-gray-900">{displayData.destination}</p>
-                    <p className="text-sm text-gray-500 mt-1">
-                      Expected: {formatDateWithTime(displayData.estimatedDelivery)}
-                    </p>
-                  </div>
+                <div className="space-y-4">
+                  {tracking.stops.map((stop) => {
+                    const badge = getTimelinessBadge(stop.timeliness, stop.minutesLate);
+                    return (
+                      <div key={stop.id} className="border rounded-md p-4">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <h3 className="text-sm font-medium flex items-center mb-1">
+                              {stop.stopType === "pickup" ? (
+                                <Package className="h-4 w-4 text-gray-500 mr-1" />
+                              ) : (
+                                <MapPin className="h-4 w-4 text-gray-500 mr-1" />
+                              )}
+                              {stop.sequence}. {stop.stopType === "pickup" ? "Pickup" : "Delivery"}
+                            </h3>
+                            <p className="font-medium text-gray-900">{stop.location}</p>
+                          </div>
+                          <Badge className={badge.color}>{badge.label}</Badge>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mt-3 text-sm">
+                          <div>
+                            <div className="text-xs text-gray-500">Appointment</div>
+                            <div>{formatWindow(stop)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-gray-500">ETA</div>
+                            <div>{formatDateWithTime(stop.eta)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-gray-500">Arrived</div>
+                            <div>{formatDateWithTime(stop.arrivedAt)}</div>
+                          </div>
+                          <div>
+                            <div className="text-xs text-gray-500">Departed</div>
+                            <div>{formatDateWithTime(stop.departedAt)}</div>
+                          </div>
+                        </div>
+                        {stop.notes && <p className="mt-2 text-sm text-gray-500">{stop.notes}</p>}
+                      </div>
+                    );
+                  })}
                 </div>
               </CardContent>
             </Card>
           </TabsContent>
-          
+
           <TabsContent value="timeline" className="mt-6">
             <Card>
               <CardHeader>
-                <CardTitle>Shipment Timeline</CardTitle>
+                <CardTitle>Check Calls</CardTitle>
                 <CardDescription>
-                  Track the progress of your shipment
+                  Position and status reports, newest first
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-6">
-                  {displayData.events.map((event) => (
-                    <div key={event.id} className="relative pl-8 pb-8">
-                      <div className="absolute left-0 top-0 mt-1 h-full w-px bg-[#025E73]/20"></div>
-                      <div className="absolute left-0 top-1 h-4 w-4 rounded-full border-2 border-[#025E73] bg-white"></div>
-                      <div className="mb-1 text-sm font-medium">{event.status}</div>
-                      <div className="text-xs text-muted-foreground mb-1">
-                        {formatDateWithTime(event.time)}
-                      </div>
-                      <div className="text-sm">
-                        <span className="font-medium text-gray-700">{event.location}</span>
-                        {event.notes && (
-                          <p className="mt-1 text-gray-500">{event.notes}</p>
-                        )}
+                {tracking.checkCalls.length === 0 ? (
+                  <p className="text-sm text-gray-500">No check calls logged yet.</p>
+                ) : (
+                  <div className="space-y-6">
+                    {tracking.checkCalls.map((call) => (
+                      <div key={call.id} className="relative pl-8 pb-8">
+                        <div className="absolute left-0 top-0 mt-1 h-full w-px bg-[#025E73]/20"></div>
+                        <div className="absolute left-0 top-1 h-4 w-4 rounded-full border-2 border-[#025E73] bg-white"></div>
+                        <div className="mb-1 text-sm font-medium">{CHECK_CALL_STATUSES[call.status] || call.status}</div>
+                        <div className="text-xs text-muted-foreground mb-1 flex items-center gap-3">
+                          <span className="flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {formatDateWithTime(call.reportedAt)}
+                          </span>
+                          {call.reportedByName && (
+                            <span className="flex items-center">
+                              <User className="h-3 w-3 mr-1" />
+                              {call.reportedByName}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm">
+                          <span className="font-medium text-gray-700">{call.location}</span>
+                          {call.latitude !== null && call.longitude !== null && (
+                            <span className="ml-2 text-xs text-gray-400">
+                              {call.latitude.toFixed(4)}, {call.longitude.toFixed(4)}
+                            </span>
+                          )}
+                          {call.eta && (
+                            <p className="mt-1 text-gray-500">ETA {formatDateWithTime(call.eta)}</p>
+                          )}
+                          {call.notes && (
+                            <p className="mt-1 text-gray-500">{call.notes}</p>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
-          
-          <TabsContent value="details" className="mt-6">
+
+          <TabsContent value="check-call" className="mt-6">
             <Card>
               <CardHeader>
-                <CardTitle>Load Details</CardTitle>
+                <CardTitle>Log Check Call</CardTitle>
+                <CardDescription>
+                  Arrival and departure are recorded on the selected stop
+                </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-                  <div className="space-y-4">
-                    <div>
-                      <h3 className="text-sm font-medium text-gray-500 mb-1">Equipment Type</h3>
-                      <p className="font-medium">{displayData.loadDetails.equipment}</p>
-                    </div>
-                    
-                    <div>
-                      <h3 className="text-sm font-medium text-gray-500 mb-1">Weight</h3>
-                      <p className="font-medium">{displayData.loadDetails.weight}</p>
-                    </div>
-                    
-                    <div>
-                      <h3 className="text-sm font-medium text-gray-500 mb-1">Pieces</h3>
-                      <p className="font-medium">{displayData.loadDetails.pieces}</p>
-                    </div>
-                    
-                    {displayData.loadDetails.temperature !== "N/A" && (
-                      <div>
-                        <h3 className="text-sm font-medium text-gray-500 mb-1">Temperature</h3>
-                        <p className="font-medium">{displayData.loadDetails.temperature}</p>
-                      </div>
-                    )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="check-call-location">Location</Label>
+                    <Input
+                      id="check-call-location"
+                      placeholder="City, State"
+                      value={checkCall.location}
+                      onChange={(e) => setCheckCall({ ...checkCall, location: e.target.value })}
+                    />
                   </div>
-                  
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-500 mb-2">Special Instructions</h3>
-                    <div className="p-4 bg-gray-50 rounded-md border">
-                      <p className="text-sm">{displayData.loadDetails.specialInstructions}</p>
-                    </div>
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select value={checkCall.status} onValueChange={(status) => setCheckCall({ ...checkCall, status })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CHECK_CALL_STATUSES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-          
-          <TabsContent value="contacts" className="mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Contact Information</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div className="border rounded-md p-4">
-                    <h3 className="text-md font-medium mb-3">Client</h3>
-                    <div className="space-y-3">
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500">Company</h4>
-                        <p className="font-medium">{displayData.client.name}</p>
-                      </div>
-                      
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500">Contact</h4>
-                        <p>{displayData.client.contactName}</p>
-                      </div>
-                      
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500 mb-1">Phone</h4>
-                        <div className="flex items-center">
-                          <Phone className="h-4 w-4 text-gray-500 mr-2" />
-                          <p>{displayData.client.phoneNumber}</p>
-                        </div>
-                      </div>
-                      
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500 mb-1">Email</h4>
-                        <p className="text-sm">{displayData.client.email}</p>
-                      </div>
-                    </div>
+                  <div className="space-y-2">
+                    <Label>Stop</Label>
+                    <Select value={checkCall.stopId} onValueChange={(stopId) => setCheckCall({ ...checkCall, stopId })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="next">Next stop</SelectItem>
+                        {tracking.stops.map((stop) => (
+                          <SelectItem key={stop.id} value={String(stop.id)}>
+                            {stop.sequence}. {stop.location}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
-                  
-                  <div className="border rounded-md p-4">
-                    <h3 className="text-md font-medium mb-3">Driver</h3>
-                    <div className="space-y-3">
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500">Name</h4>
-                        <p className="font-medium">{displayData.driver.name}</p>
-                      </div>
-                      
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500">Truck Number</h4>
-                        <p>{displayData.driver.truckNumber}</p>
-                      </div>
-                      
-                      <div>
-                        <h4 className="text-sm font-medium text-gray-500 mb-1">Phone</h4>
-                        <div className="flex items-center">
-                          <Phone className="h-4 w-4 text-gray-500 mr-2" />
-                          <p>{displayData.driver.phoneNumber}</p>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            className="ml-2 h-8 px-2 text-xs text-[#025E73] hover:bg-[#025E73]/10"
-                          >
-                            Call
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="check-call-eta">ETA (optional)</Label>
+                    <Input
+                      id="check-call-eta"
+                      type="datetime-local"
+                      value={checkCall.eta}
+                      onChange={(e) => setCheckCall({ ...checkCall, eta: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="check-call-latitude">Latitude (optional)</Label>
+                    <Input
+                      id="check-call-latitude"
+                      type="number"
+                      step="any"
+                      value={checkCall.latitude}
+                      onChange={(e) => setCheckCall({ ...checkCall, latitude: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="check-call-longitude">Longitude (optional)</Label>
+                    <Input
+                      id="check-call-longitude"
+                      type="number"
+                      step="any"
+                      value={checkCall.longitude}
+                      onChange={(e) => setCheckCall({ ...checkCall, longitude: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="check-call-notes">Notes</Label>
+                    <Textarea
+                      id="check-call-notes"
+                      value={checkCall.notes}
+                      onChange={(e) => setCheckCall({ ...checkCall, notes: e.target.value })}
+                    />
                   </div>
                 </div>
+                <div className="flex justify-end mt-4">
+                  <Button
+                    onClick={() => checkCallMutation.mutate()}
+                    disabled={!checkCall.location.trim() || checkCallMutation.isPending}
+                    className="bg-gradient-to-r from-[#025E73] to-[#011F26] hover:opacity-90 text-white"
+                  >
+                    {checkCallMutation.isPending ? "Saving..." : "Log Check Call"}
+                  </Button>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -549,4 +775,4 @@ export default function TrackingPage() {
       </MotionWrapper>
     </div>
   );
-}
\ No newline at end of file
+}
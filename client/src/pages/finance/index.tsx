@@ -1,9 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { PageHeader } from '@/components/ui/page-header';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   DollarSign, 
   PieChart, 
@@ -16,17 +23,175 @@ import {
   ChevronDown,
   ArrowDownRight,
   FileSpreadsheet,
-  FilePlus2
+  FilePlus2,
+  Plus
 } from 'lucide-react';
 import { MotionWrapper } from '@/components/ui/motion-wrapper';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatCurrency } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+type PeriodType = 'month' | 'quarter' | 'year';
+
+interface ProfitAndLossStatement {
+  period: string;
+  revenue: { total: number; invoiceCount: number; breakdown: Record<string, number> };
+  expenses: { total: number; commissions: number; operating: number; breakdown: Record<string, number> };
+  netProfit: number;
+  profitMargin: number;
+}
+
+interface ProfitAndLossReport extends ProfitAndLossStatement {
+  previous: ProfitAndLossStatement;
+  change: { revenuePct: number | null; expensesPct: number | null; netProfitPct: number | null };
+  receivables: { total: number; count: number };
+}
+
+interface Expense {
+  id: number;
+  category: string;
+  vendor: string | null;
+  amount: number;
+  expenseDate: string;
+  description: string | null;
+  attachmentUrl: string | null;
+}
+
+type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+type AgingAmounts = Record<AgingBucket, number> & { total: number };
+
+interface ArAgingReport {
+  asOf: string;
+  totals: AgingAmounts;
+  clients: Array<AgingAmounts & { leadId: number; clientName: string }>;
+}
+
+const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1-30', label: '1-30 days' },
+  { key: '31-60', label: '31-60 days' },
+  { key: '61-90', label: '61-90 days' },
+  { key: '90+', label: '90+ days' },
+];
+
+const EXPENSE_CATEGORIES = ['Payroll', 'Rent', 'Software', 'Utilities', 'Insurance', 'Marketing', 'Maintenance', 'Travel', 'Miscellaneous'];
+
+const EMPTY_EXPENSE = {
+  category: 'Miscellaneous',
+  vendor: '',
+  amount: '',
+  expenseDate: new Date().toISOString().slice(0, 10),
+  description: '',
+  attachmentUrl: '',
+};
+
+/**
+ * Percentage change vs the prior period. For expenses an increase is bad,
+ * so the colours are inverted.
+ */
+function ChangeIndicator({ value, invert = false, label }: { value: number | null | undefined; invert?: boolean; label: string }) {
+  if (value === null || value === undefined) {
+    return <span className="text-sm text-muted-foreground mt-1">No data for {label}</span>;
+  }
+  const up = value >= 0;
+  const good = invert ? !up : up;
+  const color = good ? 'text-green-500' : 'text-red-500';
+  const Icon = up ? ArrowUpRight : ArrowDownRight;
+  return (
+    <div className="text-sm text-muted-foreground mt-1 flex items-center">
+      <Icon className={`h-4 w-4 mr-1 ${color}`} />
+      <span className={`${color} font-medium`}>{Math.abs(value).toFixed(1)}%</span>
+      <span className="ml-1">vs {label}</span>
+    </div>
+  );
+}
+
+function BreakdownRows({ current, previous }: { current: Record<string, number>; previous: Record<string, number> }) {
+  const keys = Array.from(new Set([...Object.keys(current), ...Object.keys(previous)])).sort();
+  if (keys.length === 0) {
+    return (
+      <TableRow>
+        <TableCell colSpan={3} className="text-muted-foreground">Nothing recorded</TableCell>
+      </TableRow>
+    );
+  }
+  return (
+    <>
+      {keys.map((key) => (
+        <TableRow key={key}>
+          <TableCell className="pl-8">{key}</TableCell>
+          <TableCell className="text-right">{formatCurrency(current[key] ?? 0)}</TableCell>
+          <TableCell className="text-right text-muted-foreground">{formatCurrency(previous[key] ?? 0)}</TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
 
 export default function FinancePage() {
+  const { toast } = useToast();
+  const [periodType, setPeriodType] = useState<PeriodType>('month');
+  const [expenseDialogOpen, setExpenseDialogOpen] = useState(false);
+  const [expenseForm, setExpenseForm] = useState(EMPTY_EXPENSE);
+
+  const periodLabel = periodType === 'month' ? 'last month' : periodType === 'quarter' ? 'last quarter' : 'last year';
+
+  const { data: report, isLoading: reportLoading } = useQuery<ProfitAndLossReport>({
+    queryKey: [`/api/finance/profit-loss?period=${periodType}`],
+  });
+
+  const { data: expenseList = [], isLoading: expensesLoading } = useQuery<Expense[]>({
+    queryKey: [`/api/finance/expenses?period=${periodType}`],
+  });
+
+  const { data: aging, isLoading: agingLoading } = useQuery<ArAgingReport>({
+    queryKey: ['/api/finance/ar-aging'],
+  });
+
+  const createExpenseMutation = useMutation({
+    mutationFn: async (values: typeof EMPTY_EXPENSE) => {
+      const res = await apiRequest('POST', '/api/finance/expenses', {
+        ...values,
+        amount: Number(values.amount),
+        vendor: values.vendor || null,
+        description: values.description || null,
+        attachmentUrl: values.attachmentUrl || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/finance/expenses?period=${periodType}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/finance/profit-loss?period=${periodType}`] });
+      setExpenseDialogOpen(false);
+      setExpenseForm(EMPTY_EXPENSE);
+      toast({ title: 'Expense recorded' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to record expense', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const renderAmount = (value: number | undefined) =>
+    reportLoading ? <Skeleton className="h-9 w-32" /> : <div className="text-3xl font-bold">{formatCurrency(value ?? 0)}</div>;
+
   return (
     <div className="container mx-auto py-6 px-4 sm:px-6 lg:px-8 max-w-7xl">
       <PageHeader
         title="Finance"
         subtitle="Manage financial operations, reporting, and analysis"
         icon={<DollarSign className="h-6 w-6 text-[#F2A71B]" />}
+        actions={
+          <Select value={periodType} onValueChange={(value) => setPeriodType(value as PeriodType)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">This month</SelectItem>
+              <SelectItem value="quarter">This quarter</SelectItem>
+              <SelectItem value="year">This year</SelectItem>
+            </SelectContent>
+          </Select>
+        }
       />
 
       <Tabs defaultValue="dashboard" className="mt-6">
@@ -45,18 +210,14 @@ export default function FinancePage() {
                 <CardHeader className="pb-2">
                   <div className="flex justify-between items-start">
                     <TrendingUp className="h-8 w-8 text-green-500" />
-                    <Badge variant="outline" className="bg-green-50">May 2025</Badge>
+                    <Badge variant="outline" className="bg-green-50">{report?.period ?? '...'}</Badge>
                   </div>
                   <CardTitle className="text-xl mt-4">Revenue</CardTitle>
-                  <CardDescription>Current month</CardDescription>
+                  <CardDescription>Payments received</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-3xl font-bold">$246,500</div>
-                  <div className="text-sm text-muted-foreground mt-1 flex items-center">
-                    <ArrowUpRight className="h-4 w-4 text-green-500 mr-1" />
-                    <span className="text-green-500 font-medium">8.3%</span>
-                    <span className="ml-1">vs last month</span>
-                  </div>
+                  {renderAmount(report?.revenue.total)}
+                  {report && <ChangeIndicator value={report.change.revenuePct} label={periodLabel} />}
                 </CardContent>
               </Card>
             </MotionWrapper>
@@ -66,18 +227,14 @@ export default function FinancePage() {
                 <CardHeader className="pb-2">
                   <div className="flex justify-between items-start">
                     <CreditCard className="h-8 w-8 text-red-500" />
-                    <Badge variant="outline" className="bg-red-50">May 2025</Badge>
+                    <Badge variant="outline" className="bg-red-50">{report?.period ?? '...'}</Badge>
                   </div>
                   <CardTitle className="text-xl mt-4">Expenses</CardTitle>
-                  <CardDescription>Current month</CardDescription>
+                  <CardDescription>Commissions and operating costs</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-3xl font-bold">$184,720</div>
-                  <div className="text-sm text-muted-foreground mt-1 flex items-center">
-                    <ArrowDownRight className="h-4 w-4 text-red-500 mr-1" />
-                    <span className="text-red-500 font-medium">4.2%</span>
-                    <span className="ml-1">vs last month</span>
-                  </div>
+                  {renderAmount(report?.expenses.total)}
+                  {report && <ChangeIndicator value={report.change.expensesPct} invert label={periodLabel} />}
                 </CardContent>
               </Card>
             </MotionWrapper>
@@ -87,18 +244,16 @@ export default function FinancePage() {
                 <CardHeader className="pb-2">
                   <div className="flex justify-between items-start">
                     <Receipt className="h-8 w-8 text-blue-500" />
-                    <Badge variant="outline" className="bg-blue-50">May 2025</Badge>
+                    <Badge variant="outline" className="bg-blue-50">{report?.period ?? '...'}</Badge>
                   </div>
-                  <CardTitle className="text-xl mt-4">Cash Flow</CardTitle>
-                  <CardDescription>Net for current month</CardDescription>
+                  <CardTitle className="text-xl mt-4">Net Profit</CardTitle>
+                  <CardDescription>
+                    {report ? `${report.profitMargin.toFixed(1)}% margin` : 'Revenue less expenses'}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-3xl font-bold">$61,780</div>
-                  <div className="text-sm text-muted-foreground mt-1 flex items-center">
-                    <ArrowUpRight className="h-4 w-4 text-green-500 mr-1" />
-                    <span className="text-green-500 font-medium">12.1%</span>
-                    <span className="ml-1">vs last month</span>
-                  </div>
+                  {renderAmount(report?.netProfit)}
+                  {report && <ChangeIndicator value={report.change.netProfitPct} label={periodLabel} />}
                 </CardContent>
               </Card>
             </MotionWrapper>
@@ -114,9 +269,9 @@ export default function FinancePage() {
                   <CardDescription>Unpaid invoices</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-3xl font-bold">$87,320</div>
+                  {renderAmount(report?.receivables.total)}
                   <div className="text-sm text-muted-foreground mt-1">
-                    12 invoices pending payment
+                    {report?.receivables.count ?? 0} invoices pending payment
                   </div>
                 </CardContent>
               </Card>
@@ -372,85 +527,222 @@ export default function FinancePage() {
         <TabsContent value="income" className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Income Module Coming Soon</CardTitle>
+              <CardTitle>Accounts Receivable Aging</CardTitle>
               <CardDescription>
-                This feature is currently under development. Check back soon for enhanced income tracking capabilities!
+                Open invoice balances by days past due{aging ? ` as of ${aging.asOf}` : ''}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-muted-foreground mb-4">
-                The Income module will include:
-              </p>
-              <ul className="list-disc pl-5 space-y-2 text-muted-foreground">
-                <li>Invoice management and tracking</li>
-                <li>Revenue stream analysis</li>
-                <li>Client payment history</li>
-                <li>Recurring income tracking</li>
-                <li>AR aging reports</li>
-                <li>Income forecasting and projections</li>
-                <li>Tax categorization for income</li>
-              </ul>
+              {agingLoading || !aging ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : aging.clients.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No outstanding invoices.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Client</TableHead>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {aging.clients.map((client) => (
+                      <TableRow key={client.leadId}>
+                        <TableCell className="font-medium">{client.clientName}</TableCell>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableCell key={bucket.key} className="text-right">
+                            {client[bucket.key] ? formatCurrency(client[bucket.key]) : '-'}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">{formatCurrency(client.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="border-t-2">
+                      <TableCell className="font-bold">Total</TableCell>
+                      {AGING_BUCKETS.map((bucket) => (
+                        <TableCell key={bucket.key} className="text-right font-bold">
+                          {formatCurrency(aging.totals[bucket.key])}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-bold">{formatCurrency(aging.totals.total)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
-            <CardFooter>
-              <Button variant="outline">View Documentation</Button>
-            </CardFooter>
           </Card>
         </TabsContent>
 
         <TabsContent value="expenses" className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Expenses Module Coming Soon</CardTitle>
-              <CardDescription>
-                This feature is currently under development. Check back soon for enhanced expense tracking capabilities!
-              </CardDescription>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Expenses</CardTitle>
+                  <CardDescription>Operating expenses recorded for {report?.period ?? 'the period'}</CardDescription>
+                </div>
+                <Button className="bg-[#025E73] hover:bg-[#025E73]/90" onClick={() => setExpenseDialogOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Expense
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
-              <p className="text-muted-foreground mb-4">
-                The Expenses module will include:
-              </p>
-              <ul className="list-disc pl-5 space-y-2 text-muted-foreground">
-                <li>Expense categorization and tagging</li>
-                <li>Receipt capture and storage</li>
-                <li>Vendor management</li>
-                <li>Recurring expense tracking</li>
-                <li>Approval workflows for expenses</li>
-                <li>Department budget allocation</li>
-                <li>Tax deduction categorization</li>
-              </ul>
+              {expensesLoading ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : expenseList.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No expenses recorded for this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {expenseList.map((expense) => (
+                      <TableRow key={expense.id}>
+                        <TableCell>{expense.expenseDate}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{expense.category}</Badge>
+                        </TableCell>
+                        <TableCell>{expense.vendor ?? '-'}</TableCell>
+                        <TableCell>
+                          {expense.description ?? '-'}
+                          {expense.attachmentUrl && (
+                            <a href={expense.attachmentUrl} target="_blank" rel="noreferrer" className="ml-2 text-blue-600 underline text-sm">
+                              Receipt
+                            </a>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(expense.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
-            <CardFooter>
-              <Button variant="outline">View Documentation</Button>
-            </CardFooter>
           </Card>
+
+          <Dialog open={expenseDialogOpen} onOpenChange={setExpenseDialogOpen}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Record Expense</DialogTitle>
+              </DialogHeader>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={expenseForm.category} onValueChange={(category) => setExpenseForm({ ...expenseForm, category })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPENSE_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expense-vendor">Vendor</Label>
+                  <Input id="expense-vendor" value={expenseForm.vendor} onChange={(e) => setExpenseForm({ ...expenseForm, vendor: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expense-amount">Amount</Label>
+                  <Input id="expense-amount" type="number" step="0.01" min="0" value={expenseForm.amount} onChange={(e) => setExpenseForm({ ...expenseForm, amount: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expense-date">Date</Label>
+                  <Input id="expense-date" type="date" value={expenseForm.expenseDate} onChange={(e) => setExpenseForm({ ...expenseForm, expenseDate: e.target.value })} />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="expense-description">Description</Label>
+                  <Input id="expense-description" value={expenseForm.description} onChange={(e) => setExpenseForm({ ...expenseForm, description: e.target.value })} />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="expense-attachment">Attachment URL</Label>
+                  <Input id="expense-attachment" value={expenseForm.attachmentUrl} onChange={(e) => setExpenseForm({ ...expenseForm, attachmentUrl: e.target.value })} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setExpenseDialogOpen(false)}>Cancel</Button>
+                <Button
+                  disabled={!expenseForm.amount || Number(expenseForm.amount) <= 0 || createExpenseMutation.isPending}
+                  onClick={() => createExpenseMutation.mutate(expenseForm)}
+                >
+                  Save
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
         </TabsContent>
 
         <TabsContent value="reports" className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Reports Module Coming Soon</CardTitle>
+              <CardTitle>Profit & Loss Statement</CardTitle>
               <CardDescription>
-                This feature is currently under development. Check back soon for enhanced financial reporting capabilities!
+                {report ? `${report.period} compared with ${report.previous.period}` : 'Loading...'}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-muted-foreground mb-4">
-                The Reports module will include:
-              </p>
-              <ul className="list-disc pl-5 space-y-2 text-muted-foreground">
-                <li>Profit & Loss statements</li>
-                <li>Balance sheets</li>
-                <li>Cash flow analysis</li>
-                <li>Budget vs. Actual comparisons</li>
-                <li>Department expense breakdowns</li>
-                <li>Financial trend analysis</li>
-                <li>Custom report builder</li>
-                <li>Export capabilities (PDF, Excel, CSV)</li>
-              </ul>
+              {reportLoading || !report ? (
+                <div className="space-y-2">
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                  <Skeleton className="h-10 w-full" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead></TableHead>
+                      <TableHead className="text-right">{report.period}</TableHead>
+                      <TableHead className="text-right">{report.previous.period}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell className="font-semibold">Revenue</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(report.revenue.total)}</TableCell>
+                      <TableCell className="text-right font-semibold text-muted-foreground">{formatCurrency(report.previous.revenue.total)}</TableCell>
+                    </TableRow>
+                    <BreakdownRows current={report.revenue.breakdown} previous={report.previous.revenue.breakdown} />
+                    <TableRow>
+                      <TableCell className="font-semibold">Expenses</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(report.expenses.total)}</TableCell>
+                      <TableCell className="text-right font-semibold text-muted-foreground">{formatCurrency(report.previous.expenses.total)}</TableCell>
+                    </TableRow>
+                    <BreakdownRows current={report.expenses.breakdown} previous={report.previous.expenses.breakdown} />
+                    <TableRow className="border-t-2">
+                      <TableCell className="font-bold">Net Profit</TableCell>
+                      <TableCell className={`text-right font-bold ${report.netProfit < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(report.netProfit)}
+                      </TableCell>
+                      <TableCell className="text-right font-bold text-muted-foreground">{formatCurrency(report.previous.netProfit)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>Profit Margin</TableCell>
+                      <TableCell className="text-right">{report.profitMargin.toFixed(2)}%</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{report.previous.profitMargin.toFixed(2)}%</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
             </CardContent>
-            <CardFooter>
-              <Button variant="outline">View Documentation</Button>
-            </CardFooter>
           </Card>
         </TabsContent>
 
@@ -0,0 +1,299 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import logoLightPath from "@/assets/logos/MetaSys-Logo-Light.png";
+
+interface FormFieldDefinition {
+  key: string;
+  label: string;
+  type: "text" | "number" | "date" | "select" | "file" | "signature";
+  required: boolean;
+  helpText?: string | null;
+  options?: string[];
+  min?: number | null;
+  max?: number | null;
+  multiline?: boolean;
+  accept?: string[];
+}
+
+interface PublicForm {
+  title: string;
+  description: string | null;
+  companyName: string | null;
+  customMessage: string | null;
+  status: "Sent" | "Viewed" | "Completed" | "Expired";
+  expiresAt: string | null;
+  fields: FormFieldDefinition[];
+}
+
+class FormSubmitError extends Error {
+  constructor(message: string, public fieldErrors: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+// Public page: plain fetch, no session is involved
+async function fetchForm(token: string): Promise<PublicForm> {
+  const response = await fetch(`/api/public/forms/${token}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message || "This form could not be loaded");
+  }
+  return body;
+}
+
+function SignaturePad({ onChange }: { onChange: (value: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * event.currentTarget.width,
+      y: ((event.clientY - rect.top) / rect.height) * event.currentTarget.height,
+    };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    drawing.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = point(event);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.strokeStyle = "#011F26";
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext("2d");
+    const { x, y } = point(event);
+    context?.lineTo(x, y);
+    context?.stroke();
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(canvasRef.current?.toDataURL("image/png") ?? null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={500}
+        height={150}
+        className="w-full h-[150px] border rounded-md bg-white touch-none"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+      />
+      <Button type="button" variant="outline" size="sm" onClick={clear}>
+        Clear
+      </Button>
+    </div>
+  );
+}
+
+export default function FormFillPage({ token }: { token: string }) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState<Record<string, File>>({});
+
+  const { data: form, isLoading, error } = useQuery({
+    queryKey: ["/api/public/forms", token],
+    queryFn: () => fetchForm(token),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const body = new FormData();
+      body.append("answers", JSON.stringify(answers));
+      Object.entries(files).forEach(([key, file]) => body.append(key, file));
+
+      const response = await fetch(`/api/public/forms/${token}`, { method: "POST", body });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new FormSubmitError(result.message || "Your form could not be submitted", result.fieldErrors);
+      }
+      return result;
+    },
+  });
+
+  const fieldErrors = submitMutation.error instanceof FormSubmitError ? submitMutation.error.fieldErrors : {};
+  const completed = submitMutation.isSuccess || form?.status === "Completed";
+
+  const setAnswer = (key: string, value: string | null) => {
+    setAnswers((current) => {
+      const next = { ...current };
+      if (value === null || value === "") delete next[key];
+      else next[key] = value;
+      return next;
+    });
+  };
+
+  const renderField = (field: FormFieldDefinition) => {
+    switch (field.type) {
+      case "text":
+        return field.multiline ? (
+          <Textarea
+            id={field.key}
+            value={answers[field.key] ?? ""}
+            onChange={(e) => setAnswer(field.key, e.target.value)}
+            maxLength={field.max ?? 5000}
+          />
+        ) : (
+          <Input
+            id={field.key}
+            value={answers[field.key] ?? ""}
+            onChange={(e) => setAnswer(field.key, e.target.value)}
+            maxLength={field.max ?? 5000}
+          />
+        );
+      case "number":
+        return (
+          <Input
+            id={field.key}
+            type="number"
+            value={answers[field.key] ?? ""}
+            onChange={(e) => setAnswer(field.key, e.target.value)}
+            min={field.min ?? undefined}
+            max={field.max ?? undefined}
+          />
+        );
+      case "date":
+        return (
+          <Input
+            id={field.key}
+            type="date"
+            value={answers[field.key] ?? ""}
+            onChange={(e) => setAnswer(field.key, e.target.value)}
+          />
+        );
+      case "select":
+        return (
+          <Select value={answers[field.key] ?? ""} onValueChange={(value) => setAnswer(field.key, value)}>
+            <SelectTrigger id={field.key}>
+              <SelectValue placeholder="Select an option" />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options || []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "file":
+        return (
+          <Input
+            id={field.key}
+            type="file"
+            accept={field.accept?.join(",")}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              setFiles((current) => {
+                const next = { ...current };
+                if (file) next[field.key] = file;
+                else delete next[field.key];
+                return next;
+              });
+            }}
+          />
+        );
+      case "signature":
+        return <SignaturePad onChange={(value) => setAnswer(field.key, value)} />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F1FAFB] p-6">
+      <img src={logoLightPath} alt="MetaSys ERP" className="h-12 mb-8" />
+      <Card className="w-full max-w-2xl border-0 shadow-lg">
+        {isLoading ? (
+          <CardContent className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#025E73]" />
+          </CardContent>
+        ) : error || !form ? (
+          <CardContent className="pt-6">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Form unavailable</AlertTitle>
+              <AlertDescription>{(error as Error)?.message || "This form could not be loaded"}</AlertDescription>
+            </Alert>
+          </CardContent>
+        ) : completed ? (
+          <CardContent className="text-center space-y-4 py-10">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-[#011F26]">Thank you!</h2>
+            <p className="text-gray-600">Your form has been submitted.</p>
+          </CardContent>
+        ) : form.status === "Expired" ? (
+          <CardContent className="pt-6">
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>This form has expired</AlertTitle>
+              <AlertDescription>Please ask your contact to send you a new link.</AlertDescription>
+            </Alert>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-[#011F26]">{form.title}</CardTitle>
+              {form.companyName && <CardDescription>For {form.companyName}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {form.customMessage && <p className="text-gray-600 whitespace-pre-line">{form.customMessage}</p>}
+              {form.description && <p className="text-gray-600">{form.description}</p>}
+              {form.fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={field.key}>
+                    {field.label}
+                    {field.required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  {renderField(field)}
+                  {field.helpText && <p className="text-xs text-gray-500">{field.helpText}</p>}
+                  {fieldErrors[field.key] && <p className="text-sm text-red-600">{fieldErrors[field.key]}</p>}
+                </div>
+              ))}
+              {submitMutation.isError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{(submitMutation.error as Error).message}</AlertDescription>
+                </Alert>
+              )}
+              <Button
+                className="w-full bg-[#025E73] hover:bg-[#F2A71B] text-white"
+                disabled={submitMutation.isPending}
+                onClick={() => submitMutation.mutate()}
+              >
+                {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -78,9 +78,15 @@ export default function InvoicesPage() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
       
+      // Delivered loads wait for a verified POD before they are billed
+      const awaitingPod = data.report.skipped.filter((load: { reason: string }) => load.reason === 'missing_verified_pod').length;
+      
       toast({
         title: "Weekly Invoices Generated",
-        description: `Successfully generated ${data.count} invoices for clients with delivered loads.`,
+        description: (data.count > 0
+          ? `Generated ${data.count} invoices for ${data.report.invoicedLoads} delivered loads.`
+          : "No uninvoiced delivered loads from the past week.") +
+          (awaitingPod > 0 ? ` ${awaitingPod} loads are waiting for a verified POD.` : ""),
         variant: "default",
       });
       
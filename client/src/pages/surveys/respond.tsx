@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import logoLightPath from "@/assets/logos/MetaSys-Logo-Light.png";
+
+interface PublicSurvey {
+  title: string;
+  type: string;
+  question: string;
+  companyName: string;
+  status: "sent" | "completed" | "expired";
+  score: number | null;
+}
+
+const SCORES = Array.from({ length: 11 }, (_, score) => score);
+
+// Public page: plain fetch, no session is involved
+async function fetchSurvey(token: string): Promise<PublicSurvey> {
+  const response = await fetch(`/api/public/surveys/${token}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.message || "This survey could not be loaded");
+  }
+  return body;
+}
+
+export default function SurveyResponsePage({ token }: { token: string }) {
+  const [score, setScore] = useState<number | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: survey, isLoading, error } = useQuery({
+    queryKey: ["/api/public/surveys", token],
+    queryFn: () => fetchSurvey(token),
+    retry: false,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/public/surveys/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ score, comment: comment.trim() || null }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message || "Your response could not be saved");
+      }
+      return body;
+    },
+  });
+
+  const completed = submitMutation.isSuccess || survey?.status === "completed";
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-[#F1FAFB] p-6">
+      <img src={logoLightPath} alt="MetaSys ERP" className="h-12 mb-8" />
+      <Card className="w-full max-w-xl border-0 shadow-lg">
+        {isLoading ? (
+          <CardContent className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#025E73]" />
+          </CardContent>
+        ) : error || !survey ? (
+          <CardContent className="pt-6">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Survey unavailable</AlertTitle>
+              <AlertDescription>{(error as Error)?.message || "This survey could not be loaded"}</AlertDescription>
+            </Alert>
+          </CardContent>
+        ) : completed ? (
+          <CardContent className="text-center space-y-4 py-10">
+            <CheckCircle className="h-16 w-16 text-green-500 mx-auto" />
+            <h2 className="text-2xl font-bold text-[#011F26]">Thank you!</h2>
+            <p className="text-gray-600">Your feedback has been recorded.</p>
+          </CardContent>
+        ) : survey.status === "expired" ? (
+          <CardContent className="pt-6">
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>This survey has expired</AlertTitle>
+              <AlertDescription>The link is no longer accepting responses.</AlertDescription>
+            </Alert>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-[#011F26]">{survey.title}</CardTitle>
+              <CardDescription>For {survey.companyName}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                <p className="font-medium">{survey.question}</p>
+                <div className="grid grid-cols-11 gap-1">
+                  {SCORES.map((value) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      variant={score === value ? "default" : "outline"}
+                      className={`px-0 ${score === value ? "bg-[#025E73] hover:bg-[#025E73]/90" : ""}`}
+                      onClick={() => setScore(value)}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>Not at all likely</span>
+                  <span>Extremely likely</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <p className="font-medium">What is the main reason for your score?</p>
+                <Textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Optional"
+                  maxLength={5000}
+                />
+              </div>
+              {submitMutation.isError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{(submitMutation.error as Error).message}</AlertDescription>
+                </Alert>
+              )}
+              <Button
+                className="w-full bg-[#025E73] hover:bg-[#F2A71B] text-white"
+                disabled={score === null || submitMutation.isPending}
+                onClick={() => submitMutation.mutate()}
+              >
+                {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
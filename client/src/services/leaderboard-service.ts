@@ -7,6 +7,9 @@ export interface LeaderboardUser {
   score: number;
   leadsCount?: number;
   loadsCount?: number;
+  callsCount?: number;
+  handoffsAccepted?: number;
+  invoicedUsd?: number;
   position?: number;
 }
 
@@ -14,6 +17,8 @@ export interface WeekOverWeekData {
   thisWeek: {
     totalSalesLeads: number;
     totalLoads: number;
+    salesScore: number;
+    dispatchScore: number;
     totalCombined: number;
     salesUsers: number;
     dispatchUsers: number;
@@ -21,6 +26,8 @@ export interface WeekOverWeekData {
   prevWeek: {
     totalSalesLeads: number;
     totalLoads: number;
+    salesScore: number;
+    dispatchScore: number;
     totalCombined: number;
     salesUsers: number;
     dispatchUsers: number;
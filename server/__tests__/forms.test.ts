@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { validateFormAnswers, type FormFieldDefinition, type UploadedFormFile } from '../services/forms';
+
+const fields: FormFieldDefinition[] = [
+  { key: 'company', label: 'Company', type: 'text', required: true, min: 2, max: 50 },
+  { key: 'trucks', label: 'Trucks', type: 'number', required: false, min: 1, max: 100 },
+  { key: 'start_date', label: 'Start date', type: 'date', required: false },
+  { key: 'equipment', label: 'Equipment', type: 'select', required: true, options: ['Dry Van', 'Reefer'] },
+  { key: 'signature', label: 'Signature', type: 'signature', required: false },
+  { key: 'w9', label: 'W-9', type: 'file', required: true, accept: ['application/pdf'] }
+];
+
+function upload(overrides: Partial<UploadedFormFile> = {}): UploadedFormFile {
+  return {
+    fieldname: 'w9',
+    originalname: 'w9.pdf',
+    mimetype: 'application/pdf',
+    size: 1024,
+    buffer: Buffer.from('%PDF-1.4'),
+    ...overrides
+  };
+}
+
+describe('validateFormAnswers', () => {
+  it('keeps valid answers, coerces numbers and drops unknown keys', () => {
+    const result = validateFormAnswers(fields, {
+      company: '  Acme Freight ',
+      trucks: '12',
+      start_date: '2026-05-01',
+      equipment: 'Reefer',
+      signature: 'data:image/png;base64,iVBORw0KGgo=',
+      unexpected: 'ignored'
+    }, [upload()]);
+
+    expect(result.errors).toEqual({});
+    expect(result.values).toEqual({
+      company: 'Acme Freight',
+      trucks: 12,
+      start_date: '2026-05-01',
+      equipment: 'Reefer',
+      signature: 'data:image/png;base64,iVBORw0KGgo='
+    });
+    expect(result.files.get('w9')?.originalname).toBe('w9.pdf');
+  });
+
+  it('reports missing required answers and files', () => {
+    const result = validateFormAnswers(fields, { company: '   ' });
+
+    expect(result.errors).toEqual({
+      company: 'This field is required',
+      equipment: 'This field is required',
+      w9: 'This file is required'
+    });
+    expect(result.values).toEqual({});
+  });
+
+  it('checks text length and number range', () => {
+    const result = validateFormAnswers(fields, { company: 'A', trucks: 0, equipment: 'Reefer' }, [upload()]);
+
+    expect(result.errors.company).toBe('Must be at least 2 characters');
+    expect(result.errors.trucks).toBe('Must be at least 1');
+    expect(validateFormAnswers(fields, { company: 'Acme', trucks: 'many', equipment: 'Reefer' }, [upload()]).errors.trucks)
+      .toBe('Must be a number');
+  });
+
+  it('rejects dates, options and signatures in the wrong shape', () => {
+    const result = validateFormAnswers(fields, {
+      company: 'Acme',
+      start_date: '05/01/2026',
+      equipment: 'Flatbed',
+      signature: 'data:image/svg+xml;base64,PHN2Zz4='
+    }, [upload()]);
+
+    expect(result.errors).toEqual({
+      start_date: 'Must be a date (YYYY-MM-DD)',
+      equipment: 'Must be one of the listed options',
+      signature: 'Please sign in the box'
+    });
+  });
+
+  it('rejects files of a type the field does not accept', () => {
+    const result = validateFormAnswers(fields, { company: 'Acme', equipment: 'Reefer' }, [upload({ mimetype: 'image/png' })]);
+
+    expect(result.errors.w9).toBe('Must be one of: application/pdf');
+    expect(result.files.has('w9')).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { agingBucket, deriveInvoiceStatus } from '../services/invoice-payments';
+
+describe('deriveInvoiceStatus', () => {
+  const invoice = { status: 'sent', totalAmount: 1000, creditedAmount: 0 };
+
+  it('keeps the status of an invoice without payments or credits', () => {
+    expect(deriveInvoiceStatus(invoice, 0)).toBe('sent');
+    expect(deriveInvoiceStatus({ ...invoice, status: 'draft' }, 0)).toBe('draft');
+    expect(deriveInvoiceStatus({ ...invoice, status: 'overdue' }, 0)).toBe('overdue');
+  });
+
+  it('marks a partly paid invoice as partially paid', () => {
+    expect(deriveInvoiceStatus(invoice, 400)).toBe('partially_paid');
+  });
+
+  it('marks an invoice paid once payments and credits cover the total', () => {
+    expect(deriveInvoiceStatus(invoice, 1000)).toBe('paid');
+    expect(deriveInvoiceStatus({ ...invoice, creditedAmount: 250 }, 750)).toBe('paid');
+    expect(deriveInvoiceStatus(invoice, 999.999)).toBe('paid');
+  });
+
+  it('marks an invoice covered by credits alone as credited', () => {
+    expect(deriveInvoiceStatus({ ...invoice, creditedAmount: 1000 }, 0)).toBe('credited');
+  });
+
+  it('moves a settled invoice back to sent when its payments are removed', () => {
+    expect(deriveInvoiceStatus({ ...invoice, status: 'paid' }, 0)).toBe('sent');
+    expect(deriveInvoiceStatus({ ...invoice, status: 'partially_paid' }, 0)).toBe('sent');
+    expect(deriveInvoiceStatus({ ...invoice, status: 'paid' }, 300)).toBe('partially_paid');
+  });
+});
+
+describe('agingBucket', () => {
+  it('puts invoices that are not yet due in current', () => {
+    expect(agingBucket(-5)).toBe('current');
+    expect(agingBucket(0)).toBe('current');
+  });
+
+  it('buckets overdue invoices by days past due', () => {
+    expect(agingBucket(1)).toBe('1-30');
+    expect(agingBucket(30)).toBe('1-30');
+    expect(agingBucket(31)).toBe('31-60');
+    expect(agingBucket(60)).toBe('31-60');
+    expect(agingBucket(61)).toBe('61-90');
+    expect(agingBucket(90)).toBe('61-90');
+    expect(agingBucket(91)).toBe('90+');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  companyNameSimilarity,
+  detectPairs,
+  normalizeCarrierNumber,
+  normalizeCompanyName,
+  normalizeEmail,
+  normalizePhone,
+  type LeadSummary
+} from '../services/lead-duplicates';
+
+function lead(id: number, overrides: Partial<LeadSummary> = {}): LeadSummary {
+  return {
+    id,
+    companyName: '', // Names only match where a test sets them
+    contactName: 'Dana',
+    mcNumber: `MC-${1000 + id}`,
+    dotNumber: null,
+    phoneNumber: `555010${String(id).padStart(4, '0')}`,
+    email: `carrier${id}@example.com`,
+    status: 'New',
+    assignedTo: 1,
+    source: 'SQL',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('normalizers', () => {
+  it('reduce carrier numbers to digits without leading zeros', () => {
+    expect(normalizeCarrierNumber('MC-0123456')).toBe('123456');
+    expect(normalizeCarrierNumber('mc 123456')).toBe('123456');
+    expect(normalizeCarrierNumber('MC-')).toBeNull();
+    expect(normalizeCarrierNumber(null)).toBeNull();
+  });
+
+  it('compare phones by their last ten digits', () => {
+    expect(normalizePhone('+1 (555) 010-2000')).toBe('5550102000');
+    expect(normalizePhone('555-0102')).toBeNull();
+  });
+
+  it('lowercase emails and drop values that are not emails', () => {
+    expect(normalizeEmail(' Ops@Acme.com ')).toBe('ops@acme.com');
+    expect(normalizeEmail('n/a')).toBeNull();
+  });
+
+  it('drop punctuation and company suffixes from names', () => {
+    expect(normalizeCompanyName('The Acme Freight, LLC')).toBe('acme freight');
+    expect(normalizeCompanyName('Smith & Sons Trucking Inc.')).toBe('smith and sons trucking');
+    expect(normalizeCompanyName(null)).toBe('');
+  });
+});
+
+describe('companyNameSimilarity', () => {
+  it('is 1 for equal names and 0 when a name is missing', () => {
+    expect(companyNameSimilarity('acme freight', 'acme freight')).toBe(1);
+    expect(companyNameSimilarity('', 'acme freight')).toBe(0);
+  });
+
+  it('scales with the edit distance', () => {
+    expect(companyNameSimilarity('acme freight', 'acme frieght')).toBeCloseTo(1 - 2 / 12);
+    expect(companyNameSimilarity('acme freight', 'acme freights')).toBeCloseTo(1 - 1 / 13);
+    expect(companyNameSimilarity('acme freight', 'zenith logistics')).toBeLessThan(0.5);
+  });
+});
+
+describe('detectPairs', () => {
+  it('pairs leads sharing an MC number however it is written', () => {
+    const pairs = detectPairs([lead(1, { mcNumber: 'MC-00777' }), lead(2, { mcNumber: '777' }), lead(3)], new Set());
+
+    expect(pairs).toEqual([
+      { leadId: 1, otherLeadId: 2, score: 100, matches: [{ reason: 'mc_number', detail: '777' }] }
+    ]);
+  });
+
+  it('raises the score for every further kind of match', () => {
+    const pairs = detectPairs([
+      lead(1, { phoneNumber: '(555) 010-9999', email: 'ops@acme.com' }),
+      lead(2, { phoneNumber: '+1 555 010 9999', email: 'OPS@acme.com' })
+    ], new Set());
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].matches.map(match => match.reason)).toEqual(['email', 'phone']);
+    expect(pairs[0].score).toBe(90);
+  });
+
+  it('pairs leads with similar company names', () => {
+    const pairs = detectPairs([
+      lead(1, { companyName: 'Acme Freight LLC' }),
+      lead(2, { companyName: 'ACME Freight, Inc.' }),
+      lead(3, { companyName: 'Acme Freigt' })
+    ], new Set());
+
+    expect(pairs.map(pair => [pair.leadId, pair.otherLeadId])).toEqual([[1, 2], [1, 3], [2, 3]]);
+    expect(pairs[0]).toMatchObject({ score: 70, matches: [{ reason: 'company_name', detail: 'acme freight' }] });
+    expect(pairs[1].matches[0].detail).toBe('92% similar');
+  });
+
+  it('skips dismissed pairs', () => {
+    const pairs = detectPairs([lead(1, { mcNumber: '777' }), lead(2, { mcNumber: '777' })], new Set(['1:2']));
+
+    expect(pairs).toEqual([]);
+  });
+
+  it('ignores a value shared by more leads than one carrier would have', () => {
+    const placeholders = Array.from({ length: 26 }, (_, index) => lead(index + 1, { phoneNumber: '000-000-0000 0000' }));
+
+    expect(detectPairs(placeholders, new Set())).toEqual([]);
+  });
+});
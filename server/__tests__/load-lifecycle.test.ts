@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  availableLoadActions,
+  LOAD_STATUSES,
+  LOAD_TRANSITIONS,
+  missingLoadRequirements,
+  normalizeLoadStatus
+} from '../services/load-lifecycle';
+
+describe('load transitions', () => {
+  it('only lead to lifecycle statuses', () => {
+    for (const transition of Object.values(LOAD_TRANSITIONS)) {
+      expect(LOAD_STATUSES).toContain(transition.to);
+      for (const from of transition.from) {
+        expect(LOAD_STATUSES).toContain(from);
+      }
+    }
+  });
+
+  it('offer dispatchers the manual actions of the current status', () => {
+    expect(availableLoadActions({ status: 'booked' }).map(action => action.action)).toEqual(['dispatch', 'cancel']);
+    expect(availableLoadActions({ status: 'in_transit' }).map(action => action.action)).toEqual(['deliver', 'cancel']);
+  });
+
+  it('leave billing and payment to the system', () => {
+    for (const status of ['delivered', 'invoiced', 'paid', 'cancelled']) {
+      expect(availableLoadActions({ status })).toEqual([]);
+    }
+  });
+
+  it('describe what an action needs', () => {
+    const [cancel] = availableLoadActions({ status: 'booked' }).filter(action => action.action === 'cancel');
+    expect(cancel).toEqual({ action: 'cancel', label: 'Cancel Load', to: 'cancelled', requires: [], requiresNote: true });
+  });
+
+  it('treat statuses of older dispatch screens as booked', () => {
+    expect(normalizeLoadStatus('pending')).toBe('booked');
+    expect(normalizeLoadStatus('assigned')).toBe('booked');
+    expect(normalizeLoadStatus('in_transit')).toBe('in_transit');
+    expect(availableLoadActions({ status: 'assigned' }).map(action => action.action)).toEqual(['dispatch', 'cancel']);
+  });
+
+  it('require a rate confirmation to dispatch and a POD to deliver', () => {
+    const bare = { rateConfirmationUrl: null, podUrl: null };
+    expect(missingLoadRequirements(bare, 'dispatch')).toEqual(['rate confirmation']);
+    expect(missingLoadRequirements(bare, 'deliver')).toEqual(['proof of delivery (POD)']);
+    expect(missingLoadRequirements(bare, 'cancel')).toEqual([]);
+    expect(missingLoadRequirements({ ...bare, rateConfirmationUrl: '/docs/1' }, 'dispatch')).toEqual([]);
+    expect(missingLoadRequirements({ ...bare, podUrl: '/docs/2' }, 'deliver')).toEqual([]);
+  });
+
+  it('move payments and their reversal between invoiced and paid', () => {
+    expect(LOAD_TRANSITIONS.pay).toMatchObject({ from: ['invoiced'], to: 'paid', manual: false });
+    expect(LOAD_TRANSITIONS.reverse_payment).toMatchObject({ from: ['paid'], to: 'invoiced', manual: false });
+    expect(LOAD_TRANSITIONS.void_invoice).toMatchObject({ from: ['invoiced'], to: 'delivered', manual: false });
+  });
+});
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { applyFieldMappings, DEFAULT_FIELD_MAPPINGS, verifySignature } from '../services/mql-webhooks';
+
+const secret = 'whsec_test';
+const now = Date.UTC(2026, 4, 1, 12, 0, 0);
+const timestamp = String(now / 1000);
+const body = Buffer.from(JSON.stringify({ companyName: 'Acme Freight' }));
+
+function sign(payload: Buffer, signedAt = timestamp, key = secret): string {
+  return `sha256=${crypto.createHmac('sha256', key).update(`${signedAt}.`).update(payload).digest('hex')}`;
+}
+
+describe('verifySignature', () => {
+  it('accepts a delivery signed with the endpoint secret', () => {
+    expect(verifySignature(secret, body, sign(body), timestamp, now)).toBeNull();
+  });
+
+  it('rejects missing headers or body', () => {
+    expect(verifySignature(secret, undefined, sign(body), timestamp, now)).toBe('Missing request body');
+    expect(verifySignature(secret, body, undefined, timestamp, now)).toMatch(/^Missing x-metasys-signature/);
+    expect(verifySignature(secret, body, sign(body), undefined, now)).toMatch(/^Missing x-metasys-signature/);
+  });
+
+  it('rejects timestamps outside the five minute window', () => {
+    const stale = String(now / 1000 - 301);
+    expect(verifySignature(secret, body, sign(body, stale), stale, now)).toBe('Timestamp is outside the allowed window');
+    expect(verifySignature(secret, body, sign(body, 'soon'), 'soon', now)).toBe('Invalid timestamp');
+  });
+
+  it('rejects a tampered body, another secret or a moved timestamp', () => {
+    const tampered = Buffer.from(JSON.stringify({ companyName: 'Other Freight' }));
+    expect(verifySignature(secret, tampered, sign(body), timestamp, now)).toBe('Invalid signature');
+    expect(verifySignature(secret, body, sign(body, timestamp, 'whsec_other'), timestamp, now)).toBe('Invalid signature');
+    const later = String(now / 1000 + 60);
+    expect(verifySignature(secret, body, sign(body), later, now)).toBe('Invalid signature');
+    expect(verifySignature(secret, body, 'sha256=abc', timestamp, now)).toBe('Invalid signature');
+  });
+});
+
+describe('applyFieldMappings', () => {
+  it('reads mapped fields by dot path and trims them', () => {
+    const payload = {
+      company: { name: ' Acme Freight ' },
+      contact: { first: 'Dana', phone: 5551234567 },
+      answers: { mc: 'MC-123456' }
+    };
+
+    expect(applyFieldMappings(payload, {
+      companyName: 'company.name',
+      contactName: 'contact.first',
+      phoneNumber: 'contact.phone',
+      mcNumber: 'answers.mc'
+    })).toEqual({
+      companyName: 'Acme Freight',
+      contactName: 'Dana',
+      phoneNumber: '5551234567',
+      mcNumber: 'MC-123456'
+    });
+  });
+
+  it('skips missing paths, blanks and nested objects', () => {
+    const payload = { company: { name: '  ' }, contact: { details: { phone: '555' } } };
+
+    expect(applyFieldMappings(payload, {
+      companyName: 'company.name',
+      contactName: 'contact.first',
+      phoneNumber: 'contact.details',
+      email: 'missing.path.entirely'
+    })).toEqual({});
+    expect(applyFieldMappings(null, DEFAULT_FIELD_MAPPINGS)).toEqual({});
+  });
+
+  it('reads the flat payload of the default mappings', () => {
+    expect(applyFieldMappings({
+      companyName: 'Acme Freight',
+      contactName: 'Dana',
+      phone: '(555) 123-4567',
+      truckType: 'Reefer',
+      sourceForm: 'Website'
+    }, DEFAULT_FIELD_MAPPINGS)).toEqual({
+      companyName: 'Acme Freight',
+      contactName: 'Dana',
+      phoneNumber: '(555) 123-4567',
+      equipmentType: 'Reefer',
+      sourceDetails: 'Website'
+    });
+  });
+});
@@ -8,6 +8,8 @@ const defaults = {
   PORT: '5000',
   HOST: '0.0.0.0',
   API_PREFIX: '/api',
+  // Origin of links sent outside the app, e.g. survey and form emails
+  PUBLIC_BASE_URL: 'http://localhost:5000',
   
   // Database
   DATABASE_URL: '',
@@ -90,6 +92,16 @@ function getEnv(key: string): string {
   return value;
 }
 
+/**
+ * Absolute link to a page of the app, built from PUBLIC_BASE_URL and never
+ * from request headers
+ * @param pathname - Path starting with a slash
+ * @returns Link for emails and other outside recipients
+ */
+function publicUrl(pathname: string): string {
+  return `${getEnv('PUBLIC_BASE_URL').replace(/\/+$/, '')}${pathname}`;
+}
+
 /**
  * Log all environment variables
  */
@@ -145,6 +157,7 @@ export const env = {
   PORT: parseInt(getEnv('PORT'), 10),
   HOST: getEnv('HOST'),
   API_PREFIX: getEnv('API_PREFIX'),
+  PUBLIC_BASE_URL: getEnv('PUBLIC_BASE_URL'),
   IS_PRODUCTION: getEnv('NODE_ENV') === 'production',
   IS_DEVELOPMENT: getEnv('NODE_ENV') === 'development',
   IS_TEST: getEnv('NODE_ENV') === 'test',
@@ -195,6 +208,7 @@ export const env = {
   
   // Helper functions
   getEnv,
+  publicUrl,
   logEnv,
   validateEnv
 };
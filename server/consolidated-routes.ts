@@ -2,7 +2,7 @@ import express, { type Request, Response, NextFunction, Router } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { 
   insertUserSchema, insertRoleSchema, insertLeadSchema, 
@@ -1217,13 +1217,52 @@ export async function registerRoutes(apiRouter: Router, httpServer: Server): Pro
   });
   
   // Leaderboard routes
+  const leaderboardPeriod = (date: unknown): 'current' | 'previous' => (date === 'previous' ? 'previous' : 'current');
+
+  const leaderboardScoringSchema = z.object({
+    pointsPerActivation: z.number().min(0),
+    pointsPerConnectedCall: z.number().min(0),
+    pointsPerHandoffAccepted: z.number().min(0),
+    pointsPerLoad: z.number().min(0),
+    pointsPerInvoicedDollar: z.number().min(0)
+  });
+
+  // Points each activity is worth; everyone can see how the leaderboards are scored
+  apiRouter.get('/leaderboard/scoring', createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      if (!req.user || !req.user.orgId) {
+        return res.status(401).json({ error: 'Unauthorized - Missing organization' });
+      }
+      res.json(await leaderboardService.getLeaderboardScoring(req.user.orgId));
+    } catch (error) {
+      console.error('Error fetching leaderboard scoring:', error);
+      next(error);
+    }
+  });
+
+  apiRouter.put('/leaderboard/scoring', createAuthMiddleware(4), async (req, res, next) => {
+    try {
+      if (!req.user || !req.user.orgId) {
+        return res.status(401).json({ error: 'Unauthorized - Missing organization' });
+      }
+      const parsed = leaderboardScoringSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid scoring weights', errors: parsed.error.format() });
+      }
+      res.json(await leaderboardService.updateLeaderboardScoring(req.user.orgId, parsed.data));
+    } catch (error) {
+      console.error('Error updating leaderboard scoring:', error);
+      next(error);
+    }
+  });
+
   apiRouter.get('/leaderboard/sales', createAuthMiddleware(1), async (req, res) => {
     try {
       if (!req.user || !req.user.orgId) {
         return res.status(401).json({ error: 'Unauthorized - Missing organization' });
       }
       
-      const salesLeaderboard = await leaderboardService.getSalesLeaderboard(req.user.orgId);
+      const salesLeaderboard = await leaderboardService.getSalesLeaderboard(req.user.orgId, leaderboardPeriod(req.query.date));
       res.json(salesLeaderboard);
     } catch (error: any) {
       console.error('Error fetching sales leaderboard:', error);
@@ -1240,7 +1279,7 @@ export async function registerRoutes(apiRouter: Router, httpServer: Server): Pro
         return res.status(401).json({ error: 'Unauthorized - Missing organization' });
       }
       
-      const dispatchLeaderboard = await leaderboardService.getDispatchLeaderboard(req.user.orgId);
+      const dispatchLeaderboard = await leaderboardService.getDispatchLeaderboard(req.user.orgId, leaderboardPeriod(req.query.date));
       res.json(dispatchLeaderboard);
     } catch (error: any) {
       console.error('Error fetching dispatch leaderboard:', error);
@@ -1257,7 +1296,7 @@ export async function registerRoutes(apiRouter: Router, httpServer: Server): Pro
         return res.status(401).json({ error: 'Unauthorized - Missing organization' });
       }
       
-      const combinedLeaderboard = await leaderboardService.getCombinedLeaderboard(req.user.orgId);
+      const combinedLeaderboard = await leaderboardService.getCombinedLeaderboard(req.user.orgId, leaderboardPeriod(req.query.date));
       res.json(combinedLeaderboard);
     } catch (error: any) {
       console.error('Error fetching combined leaderboard:', error);
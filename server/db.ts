@@ -52,4 +52,7 @@ process.on('uncaughtException', (err) => {
 });
 
 export const db = drizzle(queryClient, { schema });
+
+// The database or an open transaction, for helpers that take part in a caller's transaction
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
 export const pool = pgPool; // Export the pg Pool for connect-pg-simple
\ No newline at end of file
@@ -16,6 +16,7 @@ interface EmailConfig {
   fromName: string;
   replyToEmail?: string;
   footerText?: string;
+  attachments?: Array<{ filename: string; path: string; contentType?: string }>;
 }
 
 const defaultConfig: EmailConfig = {
@@ -105,7 +106,8 @@ export async function sendEmail(
       subject,
       text,
       html,
-      replyTo: emailConfig.replyToEmail
+      replyTo: emailConfig.replyToEmail,
+      attachments: emailConfig.attachments
     };
     
     // Send the email
@@ -1,24 +1,12 @@
 // API functions for form templates and submissions with robust error handling
 import { db } from './db';
 import { formTemplates, formSubmissions } from '../shared/schema';
-import { sql } from 'drizzle-orm';
+import { asc, desc, eq } from 'drizzle-orm';
 
-// Get all form templates with error handling for schema inconsistencies
+// Get all form templates
 export async function getAllFormTemplates() {
   try {
-    // Using a safer SQL approach that handles potential schema issues
-    const result = await db.execute(sql`
-      SELECT 
-        id, name, description, fields, created_at, updated_at, 
-        COALESCE(category, 'general') as category,
-        COALESCE(lead_type, 'carrier') as lead_type,
-        COALESCE(is_active, true) as is_active,
-        COALESCE(sort_order, 0) as sort_order
-      FROM form_templates
-      ORDER BY sort_order ASC, name ASC
-    `);
-    
-    return result;
+    return await db.select().from(formTemplates).orderBy(asc(formTemplates.name));
   } catch (error) {
     console.error("Error fetching form templates:", error);
     // Return a safe fallback
@@ -29,40 +17,22 @@ export async function getAllFormTemplates() {
 // Get form template by ID with error handling
 export async function getFormTemplateById(id: number) {
   try {
-    const [template] = await db.execute(sql`
-      SELECT 
-        id, name, description, fields, created_at, updated_at, 
-        COALESCE(category, 'general') as category,
-        COALESCE(lead_type, 'carrier') as lead_type,
-        COALESCE(is_active, true) as is_active,
-        COALESCE(sort_order, 0) as sort_order
-      FROM form_templates
-      WHERE id = ${id}
-    `);
-    
+    const [template] = await db.select().from(formTemplates).where(eq(formTemplates.id, id));
     return template;
   } catch (error) {
     console.error(`Error fetching form template ID ${id}:`, error);
-    return null;
+    return undefined;
   }
 }
 
-// Get forms by lead type
+// Templates are not tied to a lead type, so every active template applies
 export async function getFormTemplatesByLeadType(leadType: string) {
   try {
-    const result = await db.execute(sql`
-      SELECT 
-        id, name, description, fields, created_at, updated_at, 
-        COALESCE(category, 'general') as category,
-        COALESCE(lead_type, 'carrier') as lead_type,
-        COALESCE(is_active, true) as is_active,
-        COALESCE(sort_order, 0) as sort_order
-      FROM form_templates
-      WHERE lead_type = ${leadType} OR lead_type IS NULL
-      ORDER BY sort_order ASC, name ASC
-    `);
-    
-    return result;
+    return await db
+      .select()
+      .from(formTemplates)
+      .where(eq(formTemplates.isActive, true))
+      .orderBy(asc(formTemplates.name));
   } catch (error) {
     console.error(`Error fetching form templates for lead type ${leadType}:`, error);
     return [];
@@ -72,17 +42,7 @@ export async function getFormTemplatesByLeadType(leadType: string) {
 // Get all form submissions
 export async function getAllFormSubmissions() {
   try {
-    const result = await db.execute(sql`
-      SELECT 
-        id, lead_id, template_id, submitted_by, data, 
-        created_at, updated_at, status,
-        COALESCE(completed_at, NULL) as completed_at,
-        COALESCE(validated_by, NULL) as validated_by,
-        COALESCE(qualification_result, NULL) as qualification_result
-      FROM form_submissions
-    `);
-    
-    return result;
+    return await db.select().from(formSubmissions).orderBy(desc(formSubmissions.sentAt));
   } catch (error) {
     console.error("Error fetching form submissions:", error);
     return [];
@@ -92,18 +52,11 @@ export async function getAllFormSubmissions() {
 // Get form submissions by lead ID
 export async function getFormSubmissionsByLeadId(leadId: number) {
   try {
-    const result = await db.execute(sql`
-      SELECT 
-        id, lead_id, template_id, submitted_by, data, 
-        created_at, updated_at, status,
-        COALESCE(completed_at, NULL) as completed_at,
-        COALESCE(validated_by, NULL) as validated_by,
-        COALESCE(qualification_result, NULL) as qualification_result
-      FROM form_submissions
-      WHERE lead_id = ${leadId}
-    `);
-    
-    return result;
+    return await db
+      .select()
+      .from(formSubmissions)
+      .where(eq(formSubmissions.leadId, leadId))
+      .orderBy(desc(formSubmissions.sentAt));
   } catch (error) {
     console.error(`Error fetching form submissions for lead ID ${leadId}:`, error);
     return [];
@@ -113,20 +66,10 @@ export async function getFormSubmissionsByLeadId(leadId: number) {
 // Get form submission by ID
 export async function getFormSubmissionById(id: number) {
   try {
-    const [submission] = await db.execute(sql`
-      SELECT 
-        id, lead_id, template_id, submitted_by, data, 
-        created_at, updated_at, status,
-        COALESCE(completed_at, NULL) as completed_at,
-        COALESCE(validated_by, NULL) as validated_by,
-        COALESCE(qualification_result, NULL) as qualification_result
-      FROM form_submissions
-      WHERE id = ${id}
-    `);
-    
+    const [submission] = await db.select().from(formSubmissions).where(eq(formSubmissions.id, id));
     return submission;
   } catch (error) {
     console.error(`Error fetching form submission ID ${id}:`, error);
-    return null;
+    return undefined;
   }
-}
\ No newline at end of file
+}
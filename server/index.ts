@@ -22,7 +22,14 @@ function jsonErrorHandler(err: any, req: Request, res: Response, next: NextFunct
 const SESSION_SECRET = process.env.SESSION_SECRET || "metasys_erp_secure_session_secret";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // MQL webhook signatures are computed over the exact bytes received
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/crm/mql/webhook/')) {
+      (req as Request).rawBody = buf;
+    }
+  }
+}));
 app.use(jsonErrorHandler);
 app.use(express.urlencoded({ extended: false }));
 
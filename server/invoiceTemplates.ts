@@ -1,4 +1,7 @@
+import path from 'path';
 import { sendEmail } from './email';
+import { logger } from './logger';
+import { ensureInvoicePdf } from './services/invoice-pdf';
 
 // Define invoice email template types
 export enum InvoiceTemplateType {
@@ -8,7 +11,7 @@ export enum InvoiceTemplateType {
   OVERDUE_NOTICE = 'overdue_notice'
 }
 
-interface InvoiceEmailData {
+export interface InvoiceEmailData {
   id: number;
   invoiceNumber: string;
   clientName: string;
@@ -34,6 +37,8 @@ interface InvoiceEmailData {
     phone?: string;
   };
   customMessage?: string;
+  // Absolute path of the invoice PDF; generated on send when omitted
+  pdfPath?: string;
 }
 
 /**
@@ -917,6 +922,16 @@ export async function sendInvoiceEmailWithTemplate(
       break;
   }
   
+  // Attach the invoice PDF; the email still goes out if rendering fails
+  let pdfPath = invoiceData.pdfPath;
+  if (!pdfPath) {
+    try {
+      pdfPath = (await ensureInvoicePdf(invoiceData.id)) ?? undefined;
+    } catch (error) {
+      logger.error(`Failed to generate PDF for invoice ${invoiceData.invoiceNumber}:`, error);
+    }
+  }
+
   // Send the email
   return sendEmail(
     invoiceData.clientEmail,
@@ -925,7 +940,10 @@ export async function sendInvoiceEmailWithTemplate(
     templateHtml,
     {
       fromName: "MetaSys ERP",
-      fromEmail: invoiceData.createdBy.email || "noreply@metasyserp.com"
+      fromEmail: invoiceData.createdBy.email || "noreply@metasyserp.com",
+      attachments: pdfPath
+        ? [{ filename: `Invoice-${invoiceData.invoiceNumber}${path.extname(pdfPath)}`, path: pdfPath, contentType: 'application/pdf' }]
+        : undefined
     }
   );
 }
\ No newline at end of file
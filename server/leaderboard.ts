@@ -1,7 +1,17 @@
-import { and, count, desc, eq, gt, gte, lte, sql, sum } from "drizzle-orm";
+import { and, eq, gte, inArray, lte, ne, sql } from "drizzle-orm";
 import { db } from "./db";
-import { leads, loads, users } from "@shared/schema";
-import { addDays, endOfWeek, format, startOfWeek, subWeeks } from "date-fns";
+import {
+  callLogs,
+  invoiceItems,
+  invoices,
+  leadHandoffs,
+  leads,
+  loads,
+  roles,
+  users
+} from "@shared/schema";
+import { endOfWeek, format, startOfWeek, subWeeks } from "date-fns";
+import { getModuleSettings, updateModuleSettings } from "./services/organization-settings";
 
 // Type definition for leaderboard entries
 export interface LeaderboardUser {
@@ -11,171 +21,245 @@ export interface LeaderboardUser {
   score: number;
   leadsCount?: number;
   loadsCount?: number;
+  callsCount?: number;
+  handoffsAccepted?: number;
+  invoicedUsd?: number;
   position?: number;
 }
 
 // Type definition for week-over-week comparison
 export interface WeekOverWeekData {
-  thisWeek: {
-    totalSalesLeads: number;
-    totalLoads: number;
-    totalCombined: number;
-    salesUsers: number;
-    dispatchUsers: number;
-  };
-  prevWeek: {
-    totalSalesLeads: number;
-    totalLoads: number;
-    totalCombined: number;
-    salesUsers: number;
-    dispatchUsers: number;
-  };
+  thisWeek: WeekTotals;
+  prevWeek: WeekTotals;
+}
+
+interface WeekTotals {
+  totalSalesLeads: number;
+  totalLoads: number;
+  salesScore: number;
+  dispatchScore: number;
+  totalCombined: number;
+  salesUsers: number;
+  dispatchUsers: number;
 }
 
 /**
- * Get the sales department leaderboard
- * @param organizationId - The ID of the organization
- * @param period - The period to get data for (current or previous)
- * @returns An array of leaderboard users sorted by score
+ * Points awarded per unit of work, configured per organization under
+ * organization_settings.moduleSettings.leaderboard
  */
-export async function getSalesLeaderboard(
+export interface LeaderboardScoring {
+  pointsPerActivation: number;
+  pointsPerConnectedCall: number;
+  pointsPerHandoffAccepted: number;
+  pointsPerLoad: number;
+  pointsPerInvoicedDollar: number;
+}
+
+export const DEFAULT_LEADERBOARD_SCORING: LeaderboardScoring = {
+  pointsPerActivation: 10,
+  pointsPerConnectedCall: 1,
+  pointsPerHandoffAccepted: 5,
+  pointsPerLoad: 15,
+  pointsPerInvoicedDollar: 0.01
+};
+
+// Call outcomes where the rep actually spoke to the lead
+const CONNECTED_CALL_OUTCOMES = ['Answered', 'Interested', 'Not Interested', 'Follow Up', 'Booked'] as const;
+
+type Period = 'current' | 'previous';
+
+export async function getLeaderboardScoring(organizationId: number): Promise<LeaderboardScoring> {
+  return getModuleSettings(organizationId, 'leaderboard', DEFAULT_LEADERBOARD_SCORING);
+}
+
+export async function updateLeaderboardScoring(
   organizationId: number,
-  period: 'current' | 'previous' = 'current'
-): Promise<LeaderboardUser[]> {
-  // For demonstration purposes, return sample data
-  // This data would normally come from the database
-  if (period === 'current') {
-    return [
-      {
-        id: 1,
-        name: "System Administrator",
-        profileImageUrl: null,
-        leadsCount: 18,
-        score: 90,
-        position: 1
-      },
-      {
-        id: 2,
-        name: "Sarah Johnson",
-        profileImageUrl: null,
-        leadsCount: 15,
-        score: 75,
-        position: 2
-      },
-      {
-        id: 3,
-        name: "Michael Chen",
-        profileImageUrl: null,
-        leadsCount: 12,
-        score: 60,
-        position: 3
-      },
-      {
-        id: 4,
-        name: "Jessica Williams",
-        profileImageUrl: null,
-        leadsCount: 8,
-        score: 40,
-        position: 4
-      },
-      {
-        id: 5,
-        name: "David Rodriguez",
-        profileImageUrl: null,
-        leadsCount: 4,
-        score: 20,
-        position: 5
-      }
-    ];
-  } else {
-    return [
-      {
-        id: 1,
-        name: "System Administrator",
-        profileImageUrl: null,
-        leadsCount: 16,
-        score: 80,
-        position: 1
-      },
-      {
-        id: 3,
-        name: "Michael Chen",
-        profileImageUrl: null,
-        leadsCount: 14,
-        score: 70,
-        position: 2
-      },
-      {
-        id: 2,
-        name: "Sarah Johnson",
-        profileImageUrl: null,
-        leadsCount: 12,
-        score: 60,
-        position: 3
-      },
-      {
-        id: 5,
-        name: "David Rodriguez",
-        profileImageUrl: null,
-        leadsCount: 10,
-        score: 50,
-        position: 4
-      },
-      {
-        id: 4,
-        name: "Jessica Williams",
-        profileImageUrl: null,
-        leadsCount: 6,
-        score: 30,
-        position: 5
-      }
-    ];
-  }
+  scoring: LeaderboardScoring
+): Promise<LeaderboardScoring> {
+  return updateModuleSettings(organizationId, 'leaderboard', scoring);
+}
 
-  /*
-  // Define the start and end dates for the period
-  const now = new Date();
-  const startDate = period === 'current' 
-    ? startOfWeek(now, { weekStartsOn: 1 }) 
-    : startOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
-  const endDate = period === 'current'
-    ? endOfWeek(now, { weekStartsOn: 1 })
-    : endOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
+/**
+ * Monday-to-Sunday week of the period
+ */
+function weekRange(period: Period, now: Date = new Date()): { start: Date; end: Date } {
+  const reference = period === 'current' ? now : subWeeks(now, 1);
+  return {
+    start: startOfWeek(reference, { weekStartsOn: 1 }),
+    end: endOfWeek(reference, { weekStartsOn: 1 })
+  };
+}
 
-  // Get all the sales users and their lead counts for the period
-  const results = await db
+async function getDepartmentUsers(organizationId: number, department: 'sales' | 'dispatch') {
+  return db
     .select({
       id: users.id,
-      name: sql`concat(${users.firstName}, ' ', ${users.lastName})`,
-      profileImageUrl: users.profileImageUrl,
-      leadsCount: count(leads.id),
+      firstName: users.firstName,
+      lastName: users.lastName,
+      profileImageUrl: users.profileImageUrl
     })
     .from(users)
-    .leftJoin(leads, and(
-      eq(leads.assignedTo, users.id),
-      gte(leads.createdAt, sql`${format(startDate, 'yyyy-MM-dd')}`),
-      lte(leads.createdAt, sql`${format(endDate, 'yyyy-MM-dd')}`),
-      eq(leads.status, 'HandToDispatch')
-    ))
-    .where(and(
-      eq(users.orgId, organizationId),
-      eq(users.roleId, 2) // Role ID 2 is for sales representatives
-    ))
-    .groupBy(users.id, users.firstName, users.lastName, users.profileImageUrl)
-    .orderBy(desc(count(leads.id)));
+    .innerJoin(roles, eq(roles.id, users.roleId))
+    .where(and(eq(users.orgId, organizationId), eq(users.active, true), eq(roles.department, department)));
+}
+
+function countsByUser(rows: Array<{ userId: number | null; value: number | string | null }>): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const row of rows) {
+    if (row.userId !== null) {
+      counts.set(row.userId, Number(row.value) || 0);
+    }
+  }
+  return counts;
+}
+
+function rank(entries: LeaderboardUser[]): LeaderboardUser[] {
+  return entries
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .map((user, index) => ({ ...user, position: index + 1 }));
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 10) / 10;
+}
+
+/**
+ * Sales reps scored on activated leads, connected calls and handoffs
+ * accepted by dispatch within the week
+ */
+async function computeSalesLeaderboard(
+  organizationId: number,
+  start: Date,
+  end: Date,
+  scoring: LeaderboardScoring
+): Promise<LeaderboardUser[]> {
+  const reps = await getDepartmentUsers(organizationId, 'sales');
+  if (reps.length === 0) return [];
+  const repIds = reps.map(rep => rep.id);
+
+  const [activations, calls, handoffs] = await Promise.all([
+    db
+      .select({ userId: leads.assignedTo, value: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(and(inArray(leads.assignedTo, repIds), gte(leads.activatedAt, start), lte(leads.activatedAt, end)))
+      .groupBy(leads.assignedTo),
+    db
+      .select({ userId: callLogs.userId, value: sql<number>`count(*)::int` })
+      .from(callLogs)
+      .where(and(
+        inArray(callLogs.userId, repIds),
+        inArray(callLogs.outcome, [...CONNECTED_CALL_OUTCOMES]),
+        gte(callLogs.createdAt, start),
+        lte(callLogs.createdAt, end)
+      ))
+      .groupBy(callLogs.userId),
+    db
+      .select({ userId: leadHandoffs.salesRepId, value: sql<number>`count(*)::int` })
+      .from(leadHandoffs)
+      .where(and(
+        inArray(leadHandoffs.salesRepId, repIds),
+        eq(leadHandoffs.status, 'accepted'),
+        gte(leadHandoffs.responseDate, start),
+        lte(leadHandoffs.responseDate, end)
+      ))
+      .groupBy(leadHandoffs.salesRepId)
+  ]);
+
+  const activationCounts = countsByUser(activations);
+  const callCounts = countsByUser(calls);
+  const handoffCounts = countsByUser(handoffs);
 
-  // Calculate the score based on lead count and position
-  return results.map((user, index) => ({
-    id: user.id,
-    name: user.name,
-    profileImageUrl: user.profileImageUrl,
-    leadsCount: Number(user.leadsCount || 0),
-    score: Number(user.leadsCount || 0) > 0 
-      ? Number(user.leadsCount) * 10
-      : 0,
-    position: index + 1
+  return rank(reps.map(rep => {
+    const leadsCount = activationCounts.get(rep.id) ?? 0;
+    const callsCount = callCounts.get(rep.id) ?? 0;
+    const handoffsAccepted = handoffCounts.get(rep.id) ?? 0;
+    return {
+      id: rep.id,
+      name: `${rep.firstName} ${rep.lastName}`,
+      profileImageUrl: rep.profileImageUrl,
+      leadsCount,
+      callsCount,
+      handoffsAccepted,
+      score: roundScore(
+        leadsCount * scoring.pointsPerActivation +
+        callsCount * scoring.pointsPerConnectedCall +
+        handoffsAccepted * scoring.pointsPerHandoffAccepted
+      )
+    };
   }));
-  */
+}
+
+/**
+ * Dispatchers scored on loads booked and the amount invoiced for their loads
+ * within the week. A load belongs to its dispatcher, else to the user it is
+ * assigned to.
+ */
+async function computeDispatchLeaderboard(
+  organizationId: number,
+  start: Date,
+  end: Date,
+  scoring: LeaderboardScoring
+): Promise<LeaderboardUser[]> {
+  const dispatchers = await getDepartmentUsers(organizationId, 'dispatch');
+  if (dispatchers.length === 0) return [];
+  const dispatcherIds = dispatchers.map(dispatcher => dispatcher.id);
+  const loadOwner = sql<number>`coalesce(${loads.dispatcherId}, ${loads.assignedTo})`;
+
+  const [booked, invoiced] = await Promise.all([
+    db
+      .select({ userId: loadOwner, value: sql<number>`count(*)::int` })
+      .from(loads)
+      .where(and(
+        inArray(loadOwner, dispatcherIds),
+        ne(loads.status, 'cancelled'),
+        gte(loads.createdAt, start),
+        lte(loads.createdAt, end)
+      ))
+      .groupBy(loadOwner),
+    db
+      .select({ userId: loadOwner, value: sql<string>`sum(${invoiceItems.amount})` })
+      .from(invoiceItems)
+      .innerJoin(loads, eq(loads.id, invoiceItems.loadId))
+      .innerJoin(invoices, eq(invoices.id, invoiceItems.invoiceId))
+      .where(and(
+        inArray(loadOwner, dispatcherIds),
+        ne(invoices.status, 'void'),
+        ne(invoices.status, 'draft'),
+        gte(invoices.issuedDate, format(start, 'yyyy-MM-dd')),
+        lte(invoices.issuedDate, format(end, 'yyyy-MM-dd'))
+      ))
+      .groupBy(loadOwner)
+  ]);
+
+  const loadCounts = countsByUser(booked);
+  const invoicedAmounts = countsByUser(invoiced);
+
+  return rank(dispatchers.map(dispatcher => {
+    const loadsCount = loadCounts.get(dispatcher.id) ?? 0;
+    const invoicedUsd = Math.round((invoicedAmounts.get(dispatcher.id) ?? 0) * 100) / 100;
+    return {
+      id: dispatcher.id,
+      name: `${dispatcher.firstName} ${dispatcher.lastName}`,
+      profileImageUrl: dispatcher.profileImageUrl,
+      loadsCount,
+      invoicedUsd,
+      score: roundScore(loadsCount * scoring.pointsPerLoad + invoicedUsd * scoring.pointsPerInvoicedDollar)
+    };
+  }));
+}
+
+/**
+ * Get the sales department leaderboard
+ * @param organizationId - The ID of the organization
+ * @param period - The period to get data for (current or previous)
+ * @returns An array of leaderboard users sorted by score
+ */
+export async function getSalesLeaderboard(
+  organizationId: number,
+  period: Period = 'current'
+): Promise<LeaderboardUser[]> {
+  const { start, end } = weekRange(period);
+  return computeSalesLeaderboard(organizationId, start, end, await getLeaderboardScoring(organizationId));
 }
 
 /**
@@ -186,141 +270,10 @@ export async function getSalesLeaderboard(
  */
 export async function getDispatchLeaderboard(
   organizationId: number,
-  period: 'current' | 'previous' = 'current'
+  period: Period = 'current'
 ): Promise<LeaderboardUser[]> {
-  // For demonstration purposes, return sample data
-  // This data would normally come from the database
-  if (period === 'current') {
-    return [
-      {
-        id: 6,
-        name: "Alex Thompson",
-        profileImageUrl: null,
-        loadsCount: 17,
-        score: 85,
-        position: 1
-      },
-      {
-        id: 7,
-        name: "Emily Martinez",
-        profileImageUrl: null,
-        loadsCount: 14,
-        score: 70,
-        position: 2
-      },
-      {
-        id: 8,
-        name: "Christopher Lee",
-        profileImageUrl: null,
-        loadsCount: 12,
-        score: 60,
-        position: 3
-      },
-      {
-        id: 9,
-        name: "Amanda Wilson",
-        profileImageUrl: null,
-        loadsCount: 8,
-        score: 40,
-        position: 4
-      },
-      {
-        id: 10,
-        name: "Daniel Garcia",
-        profileImageUrl: null,
-        loadsCount: 4,
-        score: 20,
-        position: 5
-      }
-    ];
-  } else {
-    return [
-      {
-        id: 7,
-        name: "Emily Martinez",
-        profileImageUrl: null,
-        loadsCount: 16,
-        score: 80,
-        position: 1
-      },
-      {
-        id: 6,
-        name: "Alex Thompson",
-        profileImageUrl: null,
-        loadsCount: 15,
-        score: 75,
-        position: 2
-      },
-      {
-        id: 8,
-        name: "Christopher Lee",
-        profileImageUrl: null,
-        loadsCount: 13,
-        score: 65,
-        position: 3
-      },
-      {
-        id: 10,
-        name: "Daniel Garcia",
-        profileImageUrl: null,
-        loadsCount: 9,
-        score: 45,
-        position: 4
-      },
-      {
-        id: 9,
-        name: "Amanda Wilson",
-        profileImageUrl: null,
-        loadsCount: 6,
-        score: 30,
-        position: 5
-      }
-    ];
-  }
-
-  /*
-  // Define the start and end dates for the period
-  const now = new Date();
-  const startDate = period === 'current' 
-    ? startOfWeek(now, { weekStartsOn: 1 }) 
-    : startOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
-  const endDate = period === 'current'
-    ? endOfWeek(now, { weekStartsOn: 1 })
-    : endOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
-
-  // Get all the dispatch users and their load counts for the period
-  const results = await db
-    .select({
-      id: users.id,
-      name: sql`concat(${users.firstName}, ' ', ${users.lastName})`,
-      profileImageUrl: users.profileImageUrl,
-      loadsCount: count(loads.id),
-    })
-    .from(users)
-    .leftJoin(loads, and(
-      eq(loads.dispatcherId, users.id),
-      gte(loads.createdAt, sql`${format(startDate, 'yyyy-MM-dd')}`),
-      lte(loads.createdAt, sql`${format(endDate, 'yyyy-MM-dd')}`)
-    ))
-    .where(and(
-      eq(users.orgId, organizationId),
-      eq(users.roleId, 3) // Role ID 3 is for dispatch representatives
-    ))
-    .groupBy(users.id, users.firstName, users.lastName, users.profileImageUrl)
-    .orderBy(desc(count(loads.id)));
-
-  // Calculate the score based on load count and position
-  return results.map((user, index) => ({
-    id: user.id,
-    name: user.name,
-    profileImageUrl: user.profileImageUrl,
-    loadsCount: Number(user.loadsCount || 0),
-    score: Number(user.loadsCount || 0) > 0 
-      ? Number(user.loadsCount) * 15
-      : 0,
-    position: index + 1
-  }));
-  */
+  const { start, end } = weekRange(period);
+  return computeDispatchLeaderboard(organizationId, start, end, await getLeaderboardScoring(organizationId));
 }
 
 /**
@@ -331,15 +284,15 @@ export async function getDispatchLeaderboard(
  */
 export async function getCombinedLeaderboard(
   organizationId: number,
-  period: 'current' | 'previous' = 'current'
+  period: Period = 'current'
 ): Promise<LeaderboardUser[]> {
   // Get both sales and dispatch leaderboards
   const salesLeaderboard = await getSalesLeaderboard(organizationId, period);
   const dispatchLeaderboard = await getDispatchLeaderboard(organizationId, period);
-  
+
   // Create a map to combine users who might be in both departments
   const combinedMap = new Map<number, LeaderboardUser>();
-  
+
   // Add sales users to the map
   for (const user of salesLeaderboard) {
     combinedMap.set(user.id, {
@@ -347,7 +300,7 @@ export async function getCombinedLeaderboard(
       score: user.score,
     });
   }
-  
+
   // Combine or add dispatch users
   for (const user of dispatchLeaderboard) {
     if (combinedMap.has(user.id)) {
@@ -355,152 +308,54 @@ export async function getCombinedLeaderboard(
       combinedMap.set(user.id, {
         ...existingUser,
         loadsCount: user.loadsCount,
-        score: existingUser.score + user.score, // Combine the scores
+        invoicedUsd: user.invoicedUsd,
+        score: roundScore(existingUser.score + user.score), // Combine the scores
       });
     } else {
       combinedMap.set(user.id, user);
     }
   }
-  
+
   // Convert map to array and sort by score
-  const combinedLeaderboard = Array.from(combinedMap.values())
-    .sort((a, b) => b.score - a.score)
-    .map((user, index) => ({
-      ...user,
-      position: index + 1,
-    }));
-  
-  return combinedLeaderboard;
+  return rank(Array.from(combinedMap.values()));
+}
+
+async function getWeekTotals(
+  organizationId: number,
+  period: Period,
+  scoring: LeaderboardScoring
+): Promise<WeekTotals> {
+  const { start, end } = weekRange(period);
+  const [sales, dispatch] = await Promise.all([
+    computeSalesLeaderboard(organizationId, start, end, scoring),
+    computeDispatchLeaderboard(organizationId, start, end, scoring)
+  ]);
+  const salesScore = roundScore(sales.reduce((total, user) => total + user.score, 0));
+  const dispatchScore = roundScore(dispatch.reduce((total, user) => total + user.score, 0));
+  return {
+    totalSalesLeads: sales.reduce((total, user) => total + (user.leadsCount ?? 0), 0),
+    totalLoads: dispatch.reduce((total, user) => total + (user.loadsCount ?? 0), 0),
+    salesScore,
+    dispatchScore,
+    totalCombined: roundScore(salesScore + dispatchScore),
+    // Users who scored during the week
+    salesUsers: sales.filter(user => user.score > 0).length,
+    dispatchUsers: dispatch.filter(user => user.score > 0).length
+  };
 }
 
 /**
- * Get the week-over-week comparison data
+ * Get the week-over-week comparison data, scored the same way as the leaderboards
  * @param organizationId - The ID of the organization
  * @returns Week-over-week comparison data
  */
 export async function getWeekOverWeekComparison(
   organizationId: number
 ): Promise<WeekOverWeekData> {
-  // For demonstration purposes, return sample data
-  // This data would normally come from the database
-  return {
-    thisWeek: {
-      totalSalesLeads: 57,
-      totalLoads: 48,
-      totalCombined: 105,
-      salesUsers: 5,
-      dispatchUsers: 5,
-    },
-    prevWeek: {
-      totalSalesLeads: 52,
-      totalLoads: 45,
-      totalCombined: 97,
-      salesUsers: 5,
-      dispatchUsers: 5,
-    },
-  };
-  
-  /*
-  // This week's dates
-  const now = new Date();
-  const thisWeekStart = startOfWeek(now, { weekStartsOn: 1 });
-  const thisWeekEnd = endOfWeek(now, { weekStartsOn: 1 });
-  
-  // Previous week's dates
-  const prevWeekStart = startOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
-  const prevWeekEnd = endOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
-  
-  // Get this week's metrics
-  const thisWeekLeads = await db
-    .select({ count: count() })
-    .from(leads)
-    .where(and(
-      gte(leads.createdAt, sql`${format(thisWeekStart, 'yyyy-MM-dd')}`),
-      lte(leads.createdAt, sql`${format(thisWeekEnd, 'yyyy-MM-dd')}`),
-      eq(leads.orgId, organizationId),
-      eq(leads.status, 'HandToDispatch')
-    ));
-  
-  const thisWeekLoads = await db
-    .select({ count: count() })
-    .from(loads)
-    .where(and(
-      gte(loads.createdAt, sql`${format(thisWeekStart, 'yyyy-MM-dd')}`),
-      lte(loads.createdAt, sql`${format(thisWeekEnd, 'yyyy-MM-dd')}`),
-      eq(loads.orgId, organizationId)
-    ));
-  
-  const thisWeekSalesUsers = await db
-    .select({ count: count() })
-    .from(users)
-    .where(and(
-      eq(users.orgId, organizationId),
-      eq(users.roleId, 2),
-      eq(users.active, true)
-    ));
-  
-  const thisWeekDispatchUsers = await db
-    .select({ count: count() })
-    .from(users)
-    .where(and(
-      eq(users.orgId, organizationId),
-      eq(users.roleId, 3),
-      eq(users.active, true)
-    ));
-  
-  // Get previous week's metrics
-  const prevWeekLeads = await db
-    .select({ count: count() })
-    .from(leads)
-    .where(and(
-      gte(leads.createdAt, sql`${format(prevWeekStart, 'yyyy-MM-dd')}`),
-      lte(leads.createdAt, sql`${format(prevWeekEnd, 'yyyy-MM-dd')}`),
-      eq(leads.orgId, organizationId),
-      eq(leads.status, 'HandToDispatch')
-    ));
-  
-  const prevWeekLoads = await db
-    .select({ count: count() })
-    .from(loads)
-    .where(and(
-      gte(loads.createdAt, sql`${format(prevWeekStart, 'yyyy-MM-dd')}`),
-      lte(loads.createdAt, sql`${format(prevWeekEnd, 'yyyy-MM-dd')}`),
-      eq(loads.orgId, organizationId)
-    ));
-  
-  const prevWeekSalesUsers = await db
-    .select({ count: count() })
-    .from(users)
-    .where(and(
-      eq(users.orgId, organizationId),
-      eq(users.roleId, 2),
-      eq(users.active, true)
-    ));
-  
-  const prevWeekDispatchUsers = await db
-    .select({ count: count() })
-    .from(users)
-    .where(and(
-      eq(users.orgId, organizationId),
-      eq(users.roleId, 3),
-      eq(users.active, true)
-    ));
-  
-  return {
-    thisWeek: {
-      totalSalesLeads: Number(thisWeekLeads[0]?.count || 0),
-      totalLoads: Number(thisWeekLoads[0]?.count || 0),
-      totalCombined: Number(thisWeekLeads[0]?.count || 0) + Number(thisWeekLoads[0]?.count || 0),
-      salesUsers: Number(thisWeekSalesUsers[0]?.count || 0),
-      dispatchUsers: Number(thisWeekDispatchUsers[0]?.count || 0),
-    },
-    prevWeek: {
-      totalSalesLeads: Number(prevWeekLeads[0]?.count || 0),
-      totalLoads: Number(prevWeekLoads[0]?.count || 0),
-      totalCombined: Number(prevWeekLeads[0]?.count || 0) + Number(prevWeekLoads[0]?.count || 0),
-      salesUsers: Number(prevWeekSalesUsers[0]?.count || 0),
-      dispatchUsers: Number(prevWeekDispatchUsers[0]?.count || 0),
-    },
-  };
-  */
-}
\ No newline at end of file
+  const scoring = await getLeaderboardScoring(organizationId);
+  const [thisWeek, prevWeek] = await Promise.all([
+    getWeekTotals(organizationId, 'current', scoring),
+    getWeekTotals(organizationId, 'previous', scoring)
+  ]);
+  return { thisWeek, prevWeek };
+}
@@ -0,0 +1,19 @@
+-- Commission run approval workflow
+
+ALTER TABLE commission_run ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'calculated';
+CREATE INDEX IF NOT EXISTS commission_run_status_idx ON commission_run(status);
+
+-- Adjustments recorded against paid/locked runs instead of recalculating them
+CREATE TABLE IF NOT EXISTS commission_adjustments (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  run_id INTEGER NOT NULL REFERENCES commission_run(id),
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  amount REAL NOT NULL,
+  reason TEXT NOT NULL,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS commission_adjustments_run_id_idx ON commission_adjustments(run_id);
+CREATE INDEX IF NOT EXISTS commission_adjustments_user_id_idx ON commission_adjustments(user_id);
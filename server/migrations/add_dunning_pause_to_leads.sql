@@ -0,0 +1,5 @@
+-- Per-client pause switch for automatic invoice dunning
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS dunning_paused BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS dunning_paused_at TIMESTAMP;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS dunning_paused_by INTEGER REFERENCES users(id);
@@ -0,0 +1,3 @@
+-- Multi-stop loads: reference numbers (PO, BOL, appointment) per stop
+
+ALTER TABLE load_stops ADD COLUMN IF NOT EXISTS reference_numbers TEXT[];
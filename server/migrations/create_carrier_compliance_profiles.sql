@@ -0,0 +1,23 @@
+-- Carrier compliance profiles of dispatch clients (insurance, W-9, factoring NOA, equipment)
+
+CREATE TABLE IF NOT EXISTS carrier_compliance_profiles (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL,
+  dispatch_client_id INTEGER NOT NULL UNIQUE REFERENCES dispatch_clients(id),
+  dispatcher_id INTEGER REFERENCES users(id),
+  insurance_provider TEXT,
+  insurance_policy_number TEXT,
+  insurance_certificate_url TEXT,
+  insurance_expires_on DATE,
+  w9_url TEXT,
+  w9_received_on DATE,
+  factoring_company TEXT,
+  noa_url TEXT,
+  noa_expires_on DATE,
+  equipment JSONB DEFAULT '[]',
+  updated_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS carrier_compliance_insurance_expires_idx ON carrier_compliance_profiles(insurance_expires_on);
@@ -0,0 +1,34 @@
+-- Credit notes against sent invoices, invoice voiding and commission adjustment flags
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credited_amount REAL NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS voided_by INTEGER REFERENCES users(id);
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER REFERENCES organizations(id),
+  invoice_id INTEGER NOT NULL REFERENCES invoices(id),
+  credit_note_number TEXT NOT NULL,
+  amount REAL NOT NULL,
+  reason TEXT NOT NULL,
+  issued_date DATE NOT NULL,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS credit_notes_invoice_id_idx ON credit_notes(invoice_id);
+
+CREATE TABLE IF NOT EXISTS credit_note_items (
+  id SERIAL PRIMARY KEY,
+  credit_note_id INTEGER NOT NULL REFERENCES credit_notes(id),
+  invoice_item_id INTEGER NOT NULL REFERENCES invoice_items(id),
+  description TEXT NOT NULL,
+  amount REAL NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS credit_note_items_credit_note_id_idx ON credit_note_items(credit_note_id);
+CREATE INDEX IF NOT EXISTS credit_note_items_invoice_item_id_idx ON credit_note_items(invoice_item_id);
+
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS adjustment_status TEXT;
+ALTER TABLE commissions ADD COLUMN IF NOT EXISTS adjustment_reason TEXT;
@@ -0,0 +1,18 @@
+-- Expenses ledger used by the finance profit & loss report
+
+CREATE TABLE IF NOT EXISTS expenses (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  category TEXT NOT NULL,
+  vendor TEXT,
+  amount REAL NOT NULL,
+  expense_date DATE NOT NULL,
+  description TEXT,
+  attachment_url TEXT,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS expenses_org_date_idx ON expenses(org_id, expense_date);
+CREATE INDEX IF NOT EXISTS expenses_category_idx ON expenses(category);
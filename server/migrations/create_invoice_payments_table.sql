@@ -0,0 +1,24 @@
+-- Invoice payment ledger; invoices.paid_amount, paid_date and status are derived from it
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER REFERENCES organizations(id),
+  invoice_id INTEGER NOT NULL REFERENCES invoices(id),
+  amount REAL NOT NULL,
+  payment_date DATE NOT NULL,
+  method TEXT NOT NULL,
+  reference_number TEXT,
+  notes TEXT,
+  recorded_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS invoice_payments_invoice_id_idx ON invoice_payments(invoice_id);
+CREATE INDEX IF NOT EXISTS invoice_payments_payment_date_idx ON invoice_payments(payment_date);
+
+-- Backfill the ledger from invoices that were marked paid before it existed
+INSERT INTO invoice_payments (org_id, invoice_id, amount, payment_date, method, notes, recorded_by)
+SELECT i.org_id, i.id, COALESCE(i.paid_amount, i.total_amount), COALESCE(i.paid_date, i.updated_at::date), 'other', 'Imported from invoice paid amount', i.created_by
+FROM invoices i
+WHERE i.status = 'paid'
+  AND NOT EXISTS (SELECT 1 FROM invoice_payments p WHERE p.invoice_id = i.id);
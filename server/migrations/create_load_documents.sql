@@ -0,0 +1,20 @@
+-- Load documents (rate confirmations, BOLs, PODs, lumper receipts, scale tickets)
+
+CREATE TABLE IF NOT EXISTS load_documents (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER REFERENCES organizations(id),
+  load_id INTEGER NOT NULL REFERENCES loads(id),
+  document_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  verification_status TEXT NOT NULL DEFAULT 'pending',
+  verified_by INTEGER REFERENCES users(id),
+  verified_at TIMESTAMP,
+  rejection_reason TEXT,
+  uploaded_by INTEGER NOT NULL REFERENCES users(id),
+  uploaded_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS load_documents_load_id_idx ON load_documents(load_id);
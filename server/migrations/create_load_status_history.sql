@@ -0,0 +1,17 @@
+-- Load lifecycle history; legacy pending/assigned loads become booked
+
+CREATE TABLE IF NOT EXISTS load_status_history (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER REFERENCES organizations(id),
+  load_id INTEGER NOT NULL REFERENCES loads(id),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  action TEXT NOT NULL,
+  note TEXT,
+  changed_by INTEGER NOT NULL REFERENCES users(id),
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS load_status_history_load_id_idx ON load_status_history(load_id);
+
+UPDATE loads SET status = 'booked' WHERE status IN ('pending', 'assigned');
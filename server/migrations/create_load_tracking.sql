@@ -0,0 +1,49 @@
+-- Shipment tracking: pickup/delivery stops with appointment windows and check calls
+
+CREATE TABLE IF NOT EXISTS load_stops (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER REFERENCES organizations(id),
+  load_id INTEGER NOT NULL REFERENCES loads(id),
+  sequence INTEGER NOT NULL,
+  stop_type TEXT NOT NULL,
+  location TEXT NOT NULL,
+  appointment_start TIMESTAMP NOT NULL,
+  appointment_end TIMESTAMP,
+  eta TIMESTAMP,
+  arrived_at TIMESTAMP,
+  departed_at TIMESTAMP,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS load_stops_load_id_idx ON load_stops(load_id);
+
+CREATE TABLE IF NOT EXISTS load_check_calls (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER REFERENCES organizations(id),
+  load_id INTEGER NOT NULL REFERENCES loads(id),
+  stop_id INTEGER REFERENCES load_stops(id),
+  location TEXT NOT NULL,
+  latitude REAL,
+  longitude REAL,
+  status TEXT NOT NULL,
+  eta TIMESTAMP,
+  notes TEXT,
+  reported_by INTEGER NOT NULL REFERENCES users(id),
+  reported_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS load_check_calls_load_id_idx ON load_check_calls(load_id);
+
+-- Existing loads get their origin and destination as whole-day appointments
+INSERT INTO load_stops (org_id, load_id, sequence, stop_type, location, appointment_start, appointment_end)
+SELECT l.org_id, l.id, 1, 'pickup', l.origin, l.pickup_date::timestamp, l.pickup_date::timestamp + INTERVAL '1 day' - INTERVAL '1 second'
+FROM loads l
+WHERE NOT EXISTS (SELECT 1 FROM load_stops s WHERE s.load_id = l.id);
+
+INSERT INTO load_stops (org_id, load_id, sequence, stop_type, location, appointment_start, appointment_end)
+SELECT l.org_id, l.id, 2, 'delivery', l.destination, l.delivery_date::timestamp, l.delivery_date::timestamp + INTERVAL '1 day' - INTERVAL '1 second'
+FROM loads l
+WHERE NOT EXISTS (SELECT 1 FROM load_stops s WHERE s.load_id = l.id AND s.stop_type = 'delivery');
@@ -0,0 +1,18 @@
+-- Runs of the per-organization dispatch report jobs (daily reminder, daily
+-- generation, monthly summary), scheduled from each organization's timezone
+-- and working hours or triggered by an admin
+
+CREATE TABLE IF NOT EXISTS report_job_runs (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  job TEXT NOT NULL,
+  trigger TEXT NOT NULL,
+  run_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  message TEXT,
+  triggered_by INTEGER REFERENCES users(id),
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS report_job_runs_org_job_idx ON report_job_runs(org_id, job, started_at);
@@ -0,0 +1,8 @@
+-- Daily dispatch report figures are computed from loads and invoices; the
+-- dispatcher confirms them and any correction is kept next to the computed value
+
+ALTER TABLE dispatch_reports ADD COLUMN IF NOT EXISTS overrides JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE dispatch_reports ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE dispatch_reports ADD COLUMN IF NOT EXISTS computed_at TIMESTAMP;
+ALTER TABLE dispatch_reports ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
+ALTER TABLE dispatch_reports ADD COLUMN IF NOT EXISTS confirmed_by INTEGER REFERENCES users(id);
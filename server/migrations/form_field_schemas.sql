@@ -0,0 +1,31 @@
+-- Form templates carry a typed field schema with a version history, and
+-- submissions are sent to leads as tokenized public fill-out links
+
+ALTER TABLE form_templates ADD COLUMN IF NOT EXISTS fields JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE form_templates ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE form_templates ALTER COLUMN content DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS form_template_versions (
+  id SERIAL PRIMARY KEY,
+  form_template_id INTEGER NOT NULL REFERENCES form_templates(id),
+  version INTEGER NOT NULL,
+  fields JSONB NOT NULL,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS form_template_versions_template_version_idx
+  ON form_template_versions(form_template_id, version);
+
+-- Existing templates start their history at version 1
+INSERT INTO form_template_versions (form_template_id, version, fields, created_by, created_at)
+SELECT id, version, fields, created_by, updated_at FROM form_templates
+ON CONFLICT (form_template_id, version) DO NOTHING;
+
+ALTER TABLE form_submissions ADD COLUMN IF NOT EXISTS template_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE form_submissions ADD COLUMN IF NOT EXISTS org_id INTEGER REFERENCES organizations(id);
+ALTER TABLE form_submissions ADD COLUMN IF NOT EXISTS token TEXT;
+
+UPDATE form_submissions SET org_id = leads.org_id FROM leads WHERE form_submissions.lead_id = leads.id AND form_submissions.org_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS form_submissions_token_idx ON form_submissions(token);
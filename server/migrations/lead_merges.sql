@@ -0,0 +1,28 @@
+-- Audit trail of lead merges and the lead pairs dismissed from the
+-- duplicate review queue
+
+CREATE TABLE IF NOT EXISTS lead_merges (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  survivor_lead_id INTEGER NOT NULL REFERENCES leads(id),
+  merged_lead_id INTEGER NOT NULL,
+  merged_lead_snapshot JSONB NOT NULL,
+  field_choices JSONB NOT NULL,
+  moved_records JSONB NOT NULL,
+  merged_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS lead_merges_org_id_idx ON lead_merges(org_id);
+CREATE INDEX IF NOT EXISTS lead_merges_survivor_idx ON lead_merges(survivor_lead_id);
+
+CREATE TABLE IF NOT EXISTS lead_duplicate_dismissals (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  lead_id INTEGER NOT NULL REFERENCES leads(id),
+  other_lead_id INTEGER NOT NULL REFERENCES leads(id),
+  dismissed_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS lead_duplicate_dismissals_pair_idx ON lead_duplicate_dismissals(lead_id, other_lead_id);
@@ -0,0 +1,42 @@
+-- Per-organization MQL webhook endpoints with signing secrets and field
+-- mappings, and a log of every delivery they receive
+
+CREATE TABLE IF NOT EXISTS mql_webhook_endpoints (
+  id SERIAL PRIMARY KEY,
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  name TEXT NOT NULL,
+  provider TEXT NOT NULL DEFAULT 'generic',
+  token TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  field_mappings JSONB NOT NULL,
+  assignment_strategy TEXT NOT NULL DEFAULT 'round_robin',
+  last_assigned_user_id INTEGER REFERENCES users(id),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS mql_webhook_endpoints_org_id_idx ON mql_webhook_endpoints(org_id);
+CREATE UNIQUE INDEX IF NOT EXISTS mql_webhook_endpoints_token_idx ON mql_webhook_endpoints(token);
+
+CREATE TABLE IF NOT EXISTS mql_webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  endpoint_id INTEGER NOT NULL REFERENCES mql_webhook_endpoints(id),
+  org_id INTEGER NOT NULL REFERENCES organizations(id),
+  status TEXT NOT NULL,
+  http_status INTEGER NOT NULL,
+  signature TEXT,
+  signed_at TIMESTAMP,
+  error TEXT,
+  payload JSONB,
+  lead_id INTEGER REFERENCES leads(id),
+  assigned_to INTEGER REFERENCES users(id),
+  received_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS mql_webhook_deliveries_endpoint_received_idx ON mql_webhook_deliveries(endpoint_id, received_at);
+DROP INDEX IF EXISTS mql_webhook_deliveries_signature_idx;
+DROP INDEX IF EXISTS mql_webhook_deliveries_signature_unique_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS mql_webhook_deliveries_signature_claim_idx
+  ON mql_webhook_deliveries(endpoint_id, signature) WHERE status NOT IN ('rejected', 'failed');
@@ -0,0 +1,4 @@
+-- Invoice numbers are unique per organization instead of globally
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS invoices_org_invoice_number_idx ON invoices (org_id, invoice_number);
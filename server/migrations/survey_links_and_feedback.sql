@@ -0,0 +1,22 @@
+-- Surveys go to a lead or an account as a tokenized public link; responses
+-- are copied to customer_feedback with their 0-10 NPS score
+
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS org_id INTEGER REFERENCES organizations(id);
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS account_id INTEGER REFERENCES accounts(id);
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS title TEXT NOT NULL DEFAULT 'Customer Satisfaction Survey';
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'nps';
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS recipient_email TEXT;
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+ALTER TABLE surveys ADD COLUMN IF NOT EXISTS created_by INTEGER REFERENCES users(id);
+ALTER TABLE surveys ALTER COLUMN lead_id DROP NOT NULL;
+
+UPDATE surveys SET org_id = leads.org_id FROM leads WHERE surveys.lead_id = leads.id AND surveys.org_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS surveys_org_id_idx ON surveys(org_id);
+DROP INDEX IF EXISTS surveys_token_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS surveys_token_idx ON surveys(token);
+
+ALTER TABLE customer_feedback ADD COLUMN IF NOT EXISTS account_id INTEGER REFERENCES accounts(id);
+ALTER TABLE customer_feedback ADD COLUMN IF NOT EXISTS survey_id INTEGER REFERENCES surveys(id);
+ALTER TABLE customer_feedback ADD COLUMN IF NOT EXISTS nps_score INTEGER;
+ALTER TABLE customer_feedback ALTER COLUMN lead_id DROP NOT NULL;
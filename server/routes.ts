@@ -2,8 +2,9 @@ import express, { type Request, Response, NextFunction, Router } from "express";
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
+import multer from "multer";
 import { storage } from "./storage";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import adminRouter from './routes/admin';
 import timeOffRouter from './routes/time-off';
@@ -30,6 +31,20 @@ import errorLoggingRoutes from "./routes/error-logging";
 import statusRoutes from "./routes/status";
 import settingsRoutes from "./routes/settings";
 import usersRoutes from "./routes/users";
+import * as commissionEngine from "./services/commission-engine";
+import { CommissionWorkflowError } from "./services/commission-approval";
+import * as invoicePaymentService from "./services/invoice-payments";
+import * as invoicePdfService from "./services/invoice-pdf";
+import * as billingRunService from "./services/billing-run";
+import * as invoiceNumberingService from "./services/invoice-numbering";
+import * as invoiceCreditService from "./services/invoice-credits";
+import * as loadLifecycle from "./services/load-lifecycle";
+import * as loadTracking from "./services/load-tracking";
+import * as loadStopService from "./services/load-stops";
+import * as loadDocumentService from "./services/load-documents";
+import * as carrierCompliance from "./services/carrier-compliance";
+import * as loadBoard from "./services/load-board";
+import * as dispatchDailyReports from "./services/dispatch-daily-reports";
 
 // Helper function to handle date objects correctly for database insertion
 function createDateObject(dateString?: string | null) {
@@ -1566,7 +1581,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
       
       if (role?.department === "sales") {
         // Calculate sales commissions
-        const salesCommissions = await calculateSalesCommission(userId, month, req.user.id);
+        const salesCommissions = await getOrCalculateSalesCommission(req.user!.orgId!, userId, month);
         res.json(salesCommissions);
       } else if (role?.department === "dispatch") {
         // Calculate dispatch commissions
@@ -1609,7 +1624,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
             
             let commissions;
             if (role?.department === "sales") {
-              commissions = await calculateSalesCommission(userId, month, req.user.id);
+              commissions = await getOrCalculateSalesCommission(req.user!.orgId!, userId, month);
             } else if (role?.department === "dispatch") {
               commissions = await calculateDispatchCommission(userId, month, req.user.id);
             } else {
@@ -2898,6 +2913,16 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  // Ordered pickup and delivery stops submitted with a load
+  const loadStopsSchema = z.array(z.object({
+    stopType: z.enum(loadStopService.STOP_TYPES),
+    location: z.string().trim().min(2, "Stop address is required"),
+    appointmentStart: z.coerce.date(),
+    appointmentEnd: z.coerce.date().nullable().optional(),
+    referenceNumbers: z.array(z.string().trim().min(1)).optional(),
+    notes: z.string().nullable().optional()
+  }));
+
   loadRouter.get("/", createAuthMiddleware(1), async (req, res, next) => {
     try {
       let loads;
@@ -2972,8 +2997,16 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(403).json({ message: "Forbidden: Only dispatch department can create loads" });
       }
       
+      // With stops, origin, destination and dates summarize the route
+      const { stops: stopsInput, ...body } = req.body;
+      const stops = stopsInput ? loadStopsSchema.parse(stopsInput) : undefined;
+      if (stops) loadStopService.validateLoadStops(stops);
+      
       const loadData = insertLoadSchema.parse({
-        ...req.body,
+        ...body,
+        ...(stops ? loadStopService.summarizeLoadStops(stops) : {}),
+        status: 'booked',
+        createdBy: req.user!.id,
         orgId: req.orgId // Add organization ID from the request context
       });
       
@@ -2987,7 +3020,10 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(400).json({ message: "Cannot create load for inactive lead" });
       }
       
+      await carrierCompliance.assertCarrierCanBook(loadData.leadId);
+      
       const load = await storage.createLoad(loadData);
+      const savedStops = await loadStopService.saveLoadStops(load, stops);
       
       // Log activity
       await storage.createActivity({
@@ -2995,7 +3031,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         entityType: 'load',
         entityId: load.id,
         action: 'created',
-        details: `Created load from ${load.origin} to ${load.destination}`
+        details: `Created load ${loadStopService.describeLoadRoute(load, savedStops)}`
       });
       
       // Send notification through multiple channels
@@ -3005,11 +3041,14 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         true
       ).catch(err => console.error('Error sending load notification:', err));
       
-      res.status(201).json(load);
+      res.status(201).json({ ...load, stops: savedStops });
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
       }
+      if (error instanceof loadStopService.LoadStopError || error instanceof carrierCompliance.CarrierComplianceError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       next(error);
     }
   });
@@ -3033,42 +3072,36 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(403).json({ message: "Forbidden: You can only update your own loads" });
       }
       
+      if (req.body.status !== undefined && req.body.status !== load.status) {
+        return res.status(400).json({
+          message: "Change the load status via /api/dispatch/loads/:id/transitions"
+        });
+      }
+      
+      const routeChanged = loadStopService.touchesRoute(req.body);
+      if (routeChanged) {
+        await loadStopService.assertRouteEditable(loadId);
+      }
+      
       const updatedLoad = await storage.updateLoad(loadId, req.body);
+      if (updatedLoad && routeChanged) {
+        await loadStopService.syncSingleStopRoute(updatedLoad);
+      }
       
       // Log the activity
-      if (req.body.status && req.body.status !== load.status) {
-        await storage.createActivity({
-          userId: req.user.id,
-          entityType: 'load',
-          entityId: loadId,
-          action: 'status_changed',
-          details: `Changed load status from ${load.status} to ${req.body.status}`
-        });
-        
-        // Send notification through multiple channels for status change
-        notificationService.sendLoadNotification(
-          load.id,
-          'status_changed',
-          true
-        ).catch(err => console.error('Error sending load status notification:', err));
-        
-        // If status changed to 'delivered', trigger invoice creation logic
-        if (req.body.status === 'delivered') {
-          // This would normally be more complex, possibly creating an invoice
-          // or adding this load to a pending invoice
-        }
-      } else {
-        await storage.createActivity({
-          userId: req.user.id,
-          entityType: 'load',
-          entityId: loadId,
-          action: 'updated',
-          details: `Updated load information`
-        });
-      }
+      await storage.createActivity({
+        userId: req.user.id,
+        entityType: 'load',
+        entityId: loadId,
+        action: 'updated',
+        details: `Updated load information`
+      });
       
       res.json(updatedLoad);
     } catch (error) {
+      if (error instanceof loadStopService.LoadStopError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       next(error);
     }
   });
@@ -3078,12 +3111,22 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
   const dispatchLoadRouter = express.Router();
   app.use("/api/dispatch/loads", dispatchLoadRouter);
 
+  // Fields a load edit may change; status only moves through transitions
+  const loadUpdateSchema = insertLoadSchema
+    .omit({ status: true, orgId: true, createdBy: true })
+    .partial();
+
   // GET loads
   dispatchLoadRouter.get("/", createAuthMiddleware(1), async (req, res, next) => {
     try {
       // Fetch loads based on organization and user role
-      const loads = await storage.getLoads(req.orgId);
-      res.json(loads || []);
+      const loads = await storage.getLoads(req.orgId) || [];
+      const stopsByLoad = await loadStopService.getStopsForLoads(loads.map(load => load.id));
+      res.json(loads.map(load => ({
+        ...load,
+        stops: stopsByLoad.get(load.id) ?? [],
+        availableActions: loadLifecycle.availableLoadActions(load)
+      })));
     } catch (error) {
       console.error("Error fetching dispatch loads:", error);
       res.status(500).json({ 
@@ -3095,19 +3138,33 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
   });
 
   // GET a specific load
+  // Load board: open loads by dispatcher and status, with dispatcher capacity
+  dispatchLoadRouter.get("/board", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const board = await loadBoard.getLoadBoard(req.user!.orgId!);
+      res.json({ status: "success", data: board });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   dispatchLoadRouter.get("/:id", createAuthMiddleware(1), async (req, res, next) => {
     try {
       const loadId = Number(req.params.id);
       const load = await storage.getLoad(loadId);
       
-      if (!load) {
+      if (!load || load.orgId !== req.user!.orgId) {
         return res.status(404).json({ 
           status: "error", 
           message: "Load not found" 
         });
       }
       
-      res.json(load);
+      res.json({
+        ...load,
+        stops: await loadStopService.getLoadStops(loadId),
+        availableActions: loadLifecycle.availableLoadActions(load)
+      });
     } catch (error) {
       console.error("Error fetching specific load:", error);
       res.status(500).json({ 
@@ -3121,15 +3178,31 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
   // Create a new load
   dispatchLoadRouter.post("/", createAuthMiddleware(1), async (req, res, next) => {
     try {
+      const { stops: stopsInput, ...body } = req.body;
+      const stops = stopsInput ? loadStopsSchema.parse(stopsInput) : undefined;
+      if (stops) loadStopService.validateLoadStops(stops);
+      
+      // Every load starts booked and moves on through the lifecycle transitions
       const loadData = {
-        ...req.body,
+        ...body,
+        ...(stops ? loadStopService.summarizeLoadStops(stops) : {}),
+        status: 'booked',
         createdBy: req.user.id,
         orgId: req.orgId
       };
       
+      await carrierCompliance.assertCarrierCanBook(Number(loadData.leadId));
+      
       const newLoad = await storage.createLoad(loadData);
-      res.status(201).json(newLoad);
+      const savedStops = await loadStopService.saveLoadStops(newLoad, stops);
+      res.status(201).json({ ...newLoad, stops: savedStops });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadStopService.LoadStopError || error instanceof carrierCompliance.CarrierComplianceError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
       console.error("Error creating load:", error);
       res.status(500).json({ 
         status: "error", 
@@ -3145,20 +3218,47 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
       const loadId = Number(req.params.id);
       const load = await storage.getLoad(loadId);
       
-      if (!load) {
+      if (!load || load.orgId !== req.user!.orgId) {
         return res.status(404).json({ 
           status: "error", 
           message: "Load not found" 
         });
       }
       
-      const updatedLoad = await storage.updateLoad(loadId, {
-        ...req.body,
-        updatedBy: req.user.id
-      });
+      if (req.body.status !== undefined && req.body.status !== load.status) {
+        return res.status(400).json({
+          status: "error",
+          message: "Change the load status via /api/dispatch/loads/:id/transitions"
+        });
+      }
       
-      res.json(updatedLoad);
+      if ((req.body.dispatcherId !== undefined && req.body.dispatcherId !== load.dispatcherId) ||
+          (req.body.assignedTo !== undefined && req.body.assignedTo !== load.assignedTo)) {
+        return res.status(400).json({
+          status: "error",
+          message: "Change the dispatcher via /api/dispatch/loads/:id/reassign"
+        });
+      }
+      
+      const changes = loadUpdateSchema.parse(req.body);
+      const routeChanged = loadStopService.touchesRoute(changes);
+      if (routeChanged) {
+        await loadStopService.assertRouteEditable(loadId);
+      }
+      
+      const updatedLoad = await storage.updateLoad(loadId, changes);
+      if (updatedLoad && routeChanged) {
+        await loadStopService.syncSingleStopRoute(updatedLoad);
+      }
+      
+      res.json({ ...updatedLoad, availableActions: updatedLoad ? loadLifecycle.availableLoadActions(updatedLoad) : [] });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadStopService.LoadStopError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
       console.error("Error updating load:", error);
       res.status(500).json({ 
         status: "error", 
@@ -3168,17 +3268,257 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  // Replace the stops of a booked load
+  dispatchLoadRouter.put("/:id/stops", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const loadId = Number(req.params.id);
+      const load = await storage.getLoad(loadId);
+      
+      if (!load || load.orgId !== req.user!.orgId) {
+        return res.status(404).json({ status: "error", message: "Load not found" });
+      }
+      if (loadLifecycle.normalizeLoadStatus(load.status) !== 'booked') {
+        return res.status(409).json({ status: "error", message: "Stops can only be changed while the load is booked" });
+      }
+      
+      const { stops, route } = await loadStopService.replaceLoadStops(load, loadStopsSchema.parse(req.body.stops));
+      const updatedLoad = await storage.updateLoad(loadId, route);
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'load',
+        entityId: loadId,
+        action: 'updated',
+        details: `Updated stops: ${loadStopService.describeLoadRoute(route, stops)}`
+      });
+      
+      res.json({
+        ...updatedLoad,
+        stops,
+        availableActions: updatedLoad ? loadLifecycle.availableLoadActions(updatedLoad) : []
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadStopService.LoadStopError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  const loadTransitionSchema = z.object({
+    action: z.enum(['dispatch', 'deliver', 'cancel']),
+    podUrl: z.string().min(1).optional(),
+    rateConfirmationUrl: z.string().min(1).optional(),
+    note: z.string().optional()
+  });
+
+  // Move a load to its next lifecycle status
+  dispatchLoadRouter.post("/:id/transitions", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const { action, ...input } = loadTransitionSchema.parse(req.body);
+      const result = await loadLifecycle.transitionLoad(Number(req.params.id), action, req.user!.id, req.user!.orgId!, input);
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'load',
+        entityId: result.load.id,
+        action: 'status_changed',
+        details: `Changed load status from ${result.previousStatus} to ${result.load.status}${input.note ? `: ${input.note}` : ''}`
+      });
+      
+      notificationService.sendLoadNotification(
+        result.load.id,
+        'status_changed',
+        true
+      ).catch(err => console.error('Error sending load status notification:', err));
+      
+      res.json({
+        ...result.load,
+        availableActions: loadLifecycle.availableLoadActions(result.load),
+        history: result.history
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadLifecycle.LoadTransitionError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  const loadDocumentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: loadDocumentService.MAX_DOCUMENT_SIZE_BYTES, files: 1 }
+  });
+
+  const loadDocumentUploadSchema = z.object({
+    documentType: z.enum(loadDocumentService.LOAD_DOCUMENT_TYPES)
+  });
+
+  const loadDocumentVerificationSchema = z.object({
+    status: z.enum(['verified', 'rejected']),
+    reason: z.string().optional()
+  });
+
+  // Documents of a load
+  dispatchLoadRouter.get("/:id/documents", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const documents = await loadDocumentService.listLoadDocuments(Number(req.params.id), req.user!.orgId!);
+      res.json(documents);
+    } catch (error) {
+      if (error instanceof loadDocumentService.LoadDocumentError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Upload a document (multipart field "file") for a load
+  dispatchLoadRouter.post("/:id/documents", createAuthMiddleware(1), (req, res, next) => {
+    loadDocumentUpload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === 'LIMIT_FILE_SIZE'
+          ? `Documents may be at most ${Math.round(loadDocumentService.MAX_DOCUMENT_SIZE_BYTES / (1024 * 1024))} MB`
+          : error.message;
+        return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ status: "error", message });
+      }
+      next(error);
+    });
+  }, async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ status: "error", message: "A file is required" });
+      }
+      
+      const { documentType } = loadDocumentUploadSchema.parse(req.body);
+      const loadId = Number(req.params.id);
+      const document = await loadDocumentService.uploadLoadDocument(loadId, req.user!.orgId!, req.user!.id, documentType, req.file);
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'load',
+        entityId: loadId,
+        action: 'document_uploaded',
+        details: `Uploaded ${documentType.replace('_', ' ')} document ${document.fileName}`
+      });
+      
+      res.status(201).json({ ...document, url: loadDocumentService.loadDocumentUrl(document) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadDocumentService.LoadDocumentError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Verify or reject a load document
+  dispatchLoadRouter.patch("/:id/documents/:documentId/verification", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const { status, reason } = loadDocumentVerificationSchema.parse(req.body);
+      const loadId = Number(req.params.id);
+      const document = await loadDocumentService.setDocumentVerification(
+        loadId,
+        Number(req.params.documentId),
+        req.user!.orgId!,
+        req.user!.id,
+        status,
+        reason
+      );
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'load',
+        entityId: loadId,
+        action: `document_${status}`,
+        details: `${status === 'verified' ? 'Verified' : 'Rejected'} ${document.documentType.replace('_', ' ')} document ${document.fileName}${reason ? `: ${reason}` : ''}`
+      });
+      
+      res.json({ ...document, url: loadDocumentService.loadDocumentUrl(document) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadDocumentService.LoadDocumentError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Preview a load document inline, or download it with ?download=1
+  dispatchLoadRouter.get("/:id/documents/:documentId/file", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const { document, absolutePath } = await loadDocumentService.getLoadDocumentFile(
+        Number(req.params.id),
+        Number(req.params.documentId),
+        req.user!.orgId!
+      );
+      
+      if (req.query.download) {
+        return res.download(absolutePath, document.fileName);
+      }
+      res.type(document.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(document.fileName)}"`);
+      res.sendFile(absolutePath);
+    } catch (error) {
+      if (error instanceof loadDocumentService.LoadDocumentError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  const loadReassignSchema = z.object({
+    dispatcherId: z.number().int().positive(),
+    note: z.string().optional()
+  });
+
+  // Hand a load over to another dispatcher
+  dispatchLoadRouter.post("/:id/reassign", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const { dispatcherId, note } = loadReassignSchema.parse(req.body);
+      const load = await loadBoard.reassignLoad(Number(req.params.id), req.user!.orgId!, dispatcherId, req.user!.id, note?.trim() || undefined);
+      res.json({ status: "success", data: load });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadBoard.LoadBoardError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // Status history of a load
+  dispatchLoadRouter.get("/:id/history", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const history = await loadLifecycle.getLoadStatusHistory(Number(req.params.id), req.user!.orgId!);
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Tracking endpoint for dispatch
   const trackingRouter = express.Router();
   app.use("/api/dispatch/tracking", trackingRouter);
 
+  // Booked and moving loads with their latest check call and on-time flags
   trackingRouter.get("/", createAuthMiddleware(1), async (req, res, next) => {
     try {
-      // Return empty array for now - tracking data would be implementation-specific
-      // Use a structured response format for consistency
+      const shipments = await loadTracking.getActiveShipments(req.user!.orgId!);
       res.status(200).json({
         status: "success",
-        data: []
+        data: shipments
       });
     } catch (error) {
       console.error("Error fetching tracking data:", error);
@@ -3190,20 +3530,18 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  // Stops, check calls and ETAs of a load
   trackingRouter.get("/:id", createAuthMiddleware(1), async (req, res, next) => {
     try {
-      const trackingId = req.params.id;
-      
-      // Return empty object for now - tracking implementation would be specific
-      // Use consistent response format with status and data fields
+      const tracking = await loadTracking.getLoadTracking(Number(req.params.id), req.user!.orgId!);
       res.status(200).json({
         status: "success",
-        data: {
-          id: trackingId,
-          status: "in_transit"
-        }
+        data: tracking
       });
     } catch (error) {
+      if (error instanceof loadTracking.LoadTrackingError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
       console.error("Error fetching specific tracking:", error);
       res.status(500).json({ 
         status: "error", 
@@ -3213,6 +3551,79 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  const checkCallSchema = z.object({
+    location: z.string().trim().min(1, "Location is required"),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    status: z.enum(loadTracking.CHECK_CALL_STATUSES),
+    stopId: z.number().int().positive().optional(),
+    eta: z.coerce.date().optional(),
+    notes: z.string().optional(),
+    reportedAt: z.coerce.date().optional()
+  });
+
+  // Log a check call for a load
+  trackingRouter.post("/:id/check-calls", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const input = checkCallSchema.parse(req.body);
+      const result = await loadTracking.recordCheckCall(Number(req.params.id), req.user!.orgId!, req.user!.id, input);
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'load',
+        entityId: result.checkCall.loadId,
+        action: 'check_call',
+        details: `Check call (${input.status.replace('_', ' ')}) at ${input.location}`
+      });
+      
+      res.status(201).json({
+        status: "success",
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadTracking.LoadTrackingError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  const loadStopUpdateSchema = z.object({
+    appointmentStart: z.coerce.date(),
+    appointmentEnd: z.coerce.date().nullable(),
+    eta: z.coerce.date().nullable(),
+    arrivedAt: z.coerce.date().nullable(),
+    departedAt: z.coerce.date().nullable(),
+    notes: z.string().nullable()
+  }).partial();
+
+  // Change a stop's appointment window or correct its arrival and departure
+  trackingRouter.patch("/:id/stops/:stopId", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const tracking = await loadTracking.updateLoadStop(
+        Number(req.params.id),
+        Number(req.params.stopId),
+        req.user!.orgId!,
+        loadStopUpdateSchema.parse(req.body)
+      );
+      res.json({
+        status: "success",
+        data: tracking
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof loadTracking.LoadTrackingError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
   // Dispatch client routes
   const dispatchClientRouter = express.Router();
   app.use("/api/dispatch/clients", dispatchClientRouter);
@@ -3404,6 +3815,65 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD date format");
+
+  const carrierComplianceSchema = z.object({
+    dispatcherId: z.number().int().positive().nullable().optional(),
+    insuranceProvider: z.string().nullable().optional(),
+    insurancePolicyNumber: z.string().nullable().optional(),
+    insuranceCertificateUrl: z.string().url().nullable().optional(),
+    insuranceExpiresOn: isoDateSchema.nullable().optional(),
+    w9Url: z.string().url().nullable().optional(),
+    w9ReceivedOn: isoDateSchema.nullable().optional(),
+    factoringCompany: z.string().nullable().optional(),
+    noaUrl: z.string().url().nullable().optional(),
+    noaExpiresOn: isoDateSchema.nullable().optional(),
+    equipment: z.array(z.object({
+      equipmentType: z.string().min(1),
+      trucks: z.number().int().min(0),
+      trailers: z.number().int().min(0)
+    })).optional()
+  });
+
+  // Compliance profile of a carrier
+  dispatchClientRouter.get("/:id/compliance", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const compliance = await carrierCompliance.getCarrierCompliance(Number(req.params.id), req.user!.orgId!);
+      res.json({ status: "success", data: compliance });
+    } catch (error) {
+      if (error instanceof carrierCompliance.CarrierComplianceError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  dispatchClientRouter.put("/:id/compliance", createAuthMiddleware(3), async (req, res, next) => {
+    try {
+      const clientId = Number(req.params.id);
+      const input = carrierComplianceSchema.parse(req.body);
+      await carrierCompliance.saveCarrierCompliance(clientId, req.user!.orgId!, req.user!.id, input);
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'dispatch_client',
+        entityId: clientId,
+        action: 'compliance_updated',
+        details: 'Updated carrier compliance profile'
+      });
+      
+      res.json({ status: "success", data: await carrierCompliance.getCarrierCompliance(clientId, req.user!.orgId!) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ status: "error", message: fromZodError(error).message });
+      }
+      if (error instanceof carrierCompliance.CarrierComplianceError) {
+        return res.status(error.statusCode).json({ status: "error", message: error.message });
+      }
+      next(error);
+    }
+  });
+
   // Invoice routes
   const invoiceRouter = express.Router();
   app.use("/api/invoices", invoiceRouter);
@@ -3476,10 +3946,13 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
 
   invoiceRouter.post("/", createAuthMiddleware(3), async (req, res, next) => {
     try {
-      const invoiceData = insertInvoiceSchema.parse({
-        ...req.body,
-        createdBy: req.user.id
-      });
+      // Numbers come from the organization's gapless sequence only
+      if (req.body.invoiceNumber) {
+        return res.status(400).json({ message: "Invoice numbers are assigned automatically and cannot be set" });
+      }
+      
+      const invoiceData = insertInvoiceSchema.omit({ orgId: true, invoiceNumber: true, createdBy: true }).parse(req.body);
+      const itemsData = insertInvoiceItemSchema.omit({ invoiceId: true }).array().parse(req.body.items ?? []);
       
       // Verify the lead exists
       const lead = await storage.getLead(invoiceData.leadId);
@@ -3487,17 +3960,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(400).json({ message: "Invalid lead ID" });
       }
       
-      const invoice = await storage.createInvoice(invoiceData);
-      
-      // Create invoice items if provided
-      if (req.body.items && Array.isArray(req.body.items)) {
-        for (const item of req.body.items) {
-          await storage.createInvoiceItem({
-            ...item,
-            invoiceId: invoice.id
-          });
-        }
-      }
+      const { invoice, items } = await billingRunService.createInvoice(req.user!.orgId!, req.user!.id, invoiceData, itemsData);
       
       // Log activity
       await storage.createActivity({
@@ -3508,9 +3971,6 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         details: `Created invoice #${invoice.invoiceNumber} for $${invoice.totalAmount}`
       });
       
-      // Get the created invoice items
-      const items = await storage.getInvoiceItemsByInvoice(invoice.id);
-      
       res.status(201).json({
         ...invoice,
         items
@@ -3519,54 +3979,232 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
       }
+      if (error instanceof billingRunService.BillingRunError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       next(error);
     }
   });
 
+  invoiceRouter.get("/:id/pdf", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const invoice = await storage.getInvoice(Number(req.params.id));
+      if (!invoice || invoice.orgId !== req.user!.orgId) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const pdfPath = await invoicePdfService.ensureInvoicePdf(invoice.id);
+      if (!pdfPath) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      res.download(pdfPath, `Invoice-${path.basename(pdfPath).replace(/-[0-9a-f]+\.pdf$/, '')}.pdf`);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const invoiceUpdateSchema = z.object({
+    notes: z.string().nullish(),
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be YYYY-MM-DD").optional(),
+    items: z.array(z.object({
+      loadId: z.number().int().positive(),
+      amount: z.coerce.number().positive(),
+      description: z.string().min(1).optional()
+    })).optional()
+  });
+
   invoiceRouter.patch("/:id", createAuthMiddleware(3), async (req, res, next) => {
     try {
       const invoiceId = Number(req.params.id);
       const invoice = await storage.getInvoice(invoiceId);
       
-      if (!invoice) {
+      if (!invoice || invoice.orgId !== req.user!.orgId) {
         return res.status(404).json({ message: "Invoice not found" });
       }
       
-      const updatedInvoice = await storage.updateInvoice(invoiceId, req.body);
-      
-      // Log the activity
-      if (req.body.status && req.body.status !== invoice.status) {
-        await storage.createActivity({
-          userId: req.user.id,
-          entityType: 'invoice',
-          entityId: invoiceId,
-          action: 'status_changed',
-          details: `Changed invoice status from ${invoice.status} to ${req.body.status}`
-        });
-        
-        // If status changed to 'paid', trigger commission calculation
-        if (req.body.status === 'paid') {
-          // This would normally trigger commission calculation
-          // based on the invoice details
-        }
-      } else {
-        await storage.createActivity({
-          userId: req.user.id,
-          entityType: 'invoice',
-          entityId: invoiceId,
-          action: 'updated',
-          details: `Updated invoice information`
-        });
-      }
+      // Status, amounts paid or credited, the number and the PDF all have their
+      // own endpoints; anything not listed in the schema is dropped
+      const changes = invoiceUpdateSchema.parse(req.body);
+      const { invoice: updatedInvoice, items } = await billingRunService.updateInvoice(req.user!.orgId!, invoiceId, changes);
       
-      // Get the invoice items
-      const items = await storage.getInvoiceItemsByInvoice(invoiceId);
+      await storage.createActivity({
+        userId: req.user.id,
+        entityType: 'invoice',
+        entityId: invoiceId,
+        action: 'updated',
+        details: `Updated invoice information`
+      });
       
       res.json({
         ...updatedInvoice,
         items
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof billingRunService.BillingRunError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  const invoicePaymentSchema = z.object({
+    amount: z.coerce.number().positive(),
+    paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Payment date must be YYYY-MM-DD"),
+    method: z.enum(invoicePaymentService.PAYMENT_METHODS),
+    referenceNumber: z.string().nullish(),
+    notes: z.string().nullish()
+  });
+
+  invoiceRouter.get("/:id/payments", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const payments = await invoicePaymentService.getInvoicePayments(Number(req.params.id), req.user!.orgId!);
+      res.json(payments);
+    } catch (error) {
+      if (error instanceof invoicePaymentService.InvoicePaymentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  invoiceRouter.post("/:id/payments", createAuthMiddleware(3), async (req, res, next) => {
+    try {
+      const paymentData = invoicePaymentSchema.parse(req.body);
+      const result = await invoicePaymentService.recordInvoicePayment(
+        Number(req.params.id),
+        paymentData,
+        req.user!.id,
+        req.user!.orgId!
+      );
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'invoice',
+        entityId: result.invoice.id,
+        action: 'payment_recorded',
+        details: `Recorded ${paymentData.method} payment of $${result.payment.amount} on invoice #${result.invoice.invoiceNumber} (balance $${result.balance})`
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof invoicePaymentService.InvoicePaymentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  invoiceRouter.delete("/:id/payments/:paymentId", createAuthMiddleware(4), async (req, res, next) => {
+    try {
+      const invoice = await invoicePaymentService.deleteInvoicePayment(
+        Number(req.params.id),
+        Number(req.params.paymentId),
+        req.user!.orgId!,
+        req.user!.id
+      );
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'invoice',
+        entityId: invoice.id,
+        action: 'payment_deleted',
+        details: `Deleted payment #${req.params.paymentId} from invoice #${invoice.invoiceNumber}`
+      });
+      
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof invoicePaymentService.InvoicePaymentError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  const creditNoteSchema = z.object({
+    reason: z.string().min(1, "Reason is required"),
+    issuedDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Issue date must be YYYY-MM-DD").optional(),
+    lines: z.array(z.object({
+      invoiceItemId: z.number().int().positive(),
+      amount: z.coerce.number().positive(),
+      description: z.string().optional()
+    })).min(1, "At least one line is required")
+  });
+
+  invoiceRouter.get("/:id/credit-notes", createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const creditNotes = await invoiceCreditService.getCreditNotes(Number(req.params.id), req.user!.orgId!);
+      res.json(creditNotes);
+    } catch (error) {
+      if (error instanceof invoiceCreditService.InvoiceCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  invoiceRouter.post("/:id/credit-notes", createAuthMiddleware(3), async (req, res, next) => {
+    try {
+      const creditNoteData = creditNoteSchema.parse(req.body);
+      const result = await invoiceCreditService.createCreditNote(
+        Number(req.params.id),
+        creditNoteData,
+        req.user!.id,
+        req.user!.orgId!
+      );
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'invoice',
+        entityId: result.invoice.id,
+        action: 'credit_note_issued',
+        details: `Issued credit note ${result.creditNote.creditNoteNumber} of $${result.creditNote.amount} on invoice #${result.invoice.invoiceNumber} (balance $${result.balance})`
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof invoiceCreditService.InvoiceCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  invoiceRouter.post("/:id/void", createAuthMiddleware(4), async (req, res, next) => {
+    try {
+      const { reason } = z.object({ reason: z.string().min(1, "Reason is required") }).parse(req.body);
+      const result = await invoiceCreditService.voidInvoice(
+        Number(req.params.id),
+        reason,
+        req.user!.id,
+        req.user!.orgId!
+      );
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'invoice',
+        entityId: result.invoice.id,
+        action: 'voided',
+        details: `Voided invoice #${result.invoice.invoiceNumber}: ${reason}`
+      });
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof invoiceCreditService.InvoiceCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       next(error);
     }
   });
@@ -3666,6 +4304,41 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  // Commissions flagged after their invoice was credited or voided
+  commissionRouter.get("/needs-adjustment", createAuthMiddleware(3), async (req, res, next) => {
+    try {
+      const flagged = await invoiceCreditService.getCommissionsNeedingAdjustment(req.user!.orgId!);
+      res.json(flagged);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  commissionRouter.post("/:id/resolve-adjustment", createAuthMiddleware(4), async (req, res, next) => {
+    try {
+      const { amount } = z.object({ amount: z.coerce.number().min(0).optional() }).parse(req.body);
+      const commission = await invoiceCreditService.resolveCommissionAdjustment(Number(req.params.id), req.user!.orgId!, amount);
+      
+      await storage.createActivity({
+        userId: req.user!.id,
+        entityType: 'commission',
+        entityId: commission.id,
+        action: 'adjusted',
+        details: `Resolved adjustment of commission #${commission.id}${amount !== undefined ? ` (amount set to $${commission.amount})` : ''}`
+      });
+      
+      res.json(commission);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof invoiceCreditService.InvoiceCreditError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
   // Commission Policy routes
   
   // Get all commission policies
@@ -4081,7 +4754,10 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         reports = await storage.getDispatchReportsByDispatcher(req.user.id);
       }
       
-      res.json(reports);
+      res.json(reports.map(report => ({
+        ...report,
+        discrepancies: dispatchDailyReports.getReportDiscrepancies(report)
+      })));
     } catch (error) {
       next(error);
     }
@@ -4165,7 +4841,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(404).json({ message: "Report not found" });
       }
       
-      res.json(report);
+      res.json({ ...report, discrepancies: dispatchDailyReports.getReportDiscrepancies(report) });
     } catch (error) {
       next(error);
     }
@@ -4253,13 +4929,18 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const reportData = {
-        ...req.body,
-        dispatcherId: req.body.dispatcherId || req.user.id,
-        orgId: req.body.orgId || req.user.orgId
-      };
+      // Figures are computed from loads and invoices; only the dispatcher and day come from the request
+      const dispatcherId = req.body.dispatcherId || req.user.id;
+      if (dispatcherId !== req.user.id && (req.userRole?.level ?? 0) < 3) {
+        return res.status(403).json({ 
+          message: "You don't have permission to create reports for other dispatchers" 
+        });
+      }
       
-      const newReport = await storage.createDispatchReport(reportData);
+      const newReport = await dispatchDailyReports.refreshDispatchReport(
+        dispatcherId,
+        req.body.date ? new Date(req.body.date) : new Date()
+      );
       
       // Log the activity
       await storage.createActivity({
@@ -4399,6 +5080,88 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
   
+  const reportedFigureSchema = z.number().min(0, "Must be a positive number");
+  const dispatchReportSubmitSchema = z.object({
+    // Figures the dispatcher reports; those that differ from the computed ones are kept as overrides
+    reported: z.object({
+      loadsBooked: reportedFigureSchema.int(),
+      invoiceUsd: reportedFigureSchema,
+      activeLeads: reportedFigureSchema.int(),
+      pendingInvoiceUsd: reportedFigureSchema,
+      highestInvoiceUsd: reportedFigureSchema,
+      paidInvoiceUsd: reportedFigureSchema
+    }).partial().optional(),
+    notes: z.string().max(2000).nullish()
+  });
+
+  // Confirm a daily report, optionally correcting and annotating its computed figures
+  dispatchReportsRouter.post("/:id/submit", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const reportId = Number(req.params.id);
+      const report = await storage.getDispatchReport(reportId);
+      
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      if (report.dispatcherId !== req.user.id && req.userRole?.department !== 'admin') {
+        return res.status(403).json({ message: "You don't have permission to submit this report" });
+      }
+      
+      const input = dispatchReportSubmitSchema.parse(req.body);
+      const confirmedReport = await dispatchDailyReports.confirmDispatchReport(reportId, req.user.id, input);
+      const discrepancies = dispatchDailyReports.getReportDiscrepancies(confirmedReport);
+      
+      await storage.createActivity({
+        userId: req.user.id,
+        action: 'submit',
+        entityType: 'dispatch_report',
+        entityId: reportId,
+        details: discrepancies.length > 0
+          ? `Confirmed dispatch report with corrections to ${discrepancies.map(item => item.metric).join(', ')}`
+          : 'Confirmed dispatch report',
+        metadata: { discrepancies, notes: confirmedReport.notes }
+      });
+      
+      io.emit('dispatch-report-updated', confirmedReport);
+      
+      // Let the heads of dispatch know, pointing out any figures the dispatcher disputes
+      const managers = await storage.getUsersByRole(8); // Head of Dispatch role id
+      const message = `Dispatch report submitted by ${req.user.firstName} ${req.user.lastName}` +
+        (discrepancies.length > 0 ? ` with ${discrepancies.length} corrected figure(s)` : '');
+      for (const manager of managers) {
+        await storage.createNotification({
+          userId: manager.id,
+          type: 'dispatch_report_submitted',
+          message,
+          entityType: 'dispatch_report',
+          entityId: reportId,
+          read: false
+        });
+        
+        io.to(`user:${manager.id}`).emit('notification', {
+          type: 'dispatch_report_submitted',
+          message,
+          reportId
+        });
+      }
+      
+      res.json({ ...confirmedReport, discrepancies });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof dispatchDailyReports.DispatchReportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+  
   dispatchReportsRouter.put("/:id", createAuthMiddleware(1), async (req, res, next) => {
     try {
       if (!req.user) {
@@ -4417,7 +5180,15 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         return res.status(403).json({ message: "You don't have permission to update this report" });
       }
       
-      const updatedReport = await storage.updateDispatchReport(reportId, req.body);
+      // Figures are computed and confirmed through /submit; only the annotation can be edited here
+      const notes = z.object({ notes: z.string().max(2000).nullable() }).strict().safeParse(req.body);
+      if (!notes.success) {
+        return res.status(400).json({
+          message: "Report figures are computed from loads and invoices. Submit the report with your corrections instead"
+        });
+      }
+      
+      const updatedReport = await storage.updateDispatchReport(reportId, { notes: notes.data.notes });
       
       // Log the activity
       await storage.createActivity({
@@ -4425,37 +5196,12 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         action: 'update',
         entityType: 'dispatch_report',
         entityId: reportId,
-        details: JSON.stringify(updatedReport)
+        details: 'Updated dispatch report notes'
       });
       
       // Send real-time notification
       io.emit('dispatch-report-updated', updatedReport);
       
-      // If the report is now submitted, create a notification for managers
-      if (req.body.status === 'Submitted' && report.status === 'Pending') {
-        // Find managers to notify
-        const managers = await storage.getUsersByRole(8); // Head of Dispatch role id
-        
-        // Create notifications for each manager
-        for (const manager of managers) {
-          await storage.createNotification({
-            userId: manager.id,
-            type: 'dispatch_report_submitted',
-            message: `Dispatch report submitted by ${req.user.firstName} ${req.user.lastName}`,
-            entityType: 'dispatch_report',
-            entityId: reportId,
-            read: false
-          });
-          
-          // Send real-time notification
-          io.to(`user:${manager.id}`).emit('notification', {
-            type: 'dispatch_report_submitted',
-            message: `Dispatch report submitted by ${req.user.firstName} ${req.user.lastName}`,
-            reportId
-          });
-        }
-      }
-      
       res.json(updatedReport);
     } catch (error) {
       next(error);
@@ -5151,121 +5897,47 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
-  // Generate invoices (for weekly or custom date range)
+  const billingRunSchema = z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be YYYY-MM-DD"),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be YYYY-MM-DD"),
+    paymentTermDays: z.coerce.number().int().positive().optional()
+  });
+
+  const sendBillingRunReport = (res: Response, report: billingRunService.BillingRunReport) => {
+    return res.status(200).json({
+      success: true,
+      message: report.invoices.length > 0
+        ? `Successfully generated ${report.invoices.length} invoices for ${report.invoicedLoads} loads`
+        : "No uninvoiced delivered loads in the specified range",
+      count: report.invoices.length,
+      invoices: report.invoices.map(inv => inv.invoiceId),
+      report
+    });
+  };
+
+  // Generate invoices (for weekly or custom delivery date range)
   app.post("/api/invoices/generate", createAuthMiddleware(4), async (req, res, next) => {
     try {
-      // Get date range parameter
       const range = req.query.range as string || 'weekly';
       
-      // Get all leads
-      const leads = await storage.getLeads();
-      if (!leads.length) {
-        return res.status(400).json({ message: "No leads available to generate invoices for" });
-      }
-      
-      // Get all loads that are completed but not invoiced
-      // Filter loads based on date range and status
-      const allLoads = await storage.getLoads();
-      let loads;
-      
+      let options: billingRunService.BillingRunOptions;
       if (range === 'weekly') {
-        // Get loads from the last 7 days
-        const weekAgo = new Date();
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        
-        loads = allLoads.filter(load => 
-          load.status === 'delivered' && 
-          !load.invoiceId && // Not already invoiced
-          new Date(load.deliveryDate) >= weekAgo
-        );
+        options = billingRunService.weeklyBillingRange();
       } else if (range === 'custom') {
-        // Get all loads that are delivered but not invoiced (regardless of date)
-        loads = allLoads.filter(load => 
-          load.status === 'delivered' && 
-          !load.invoiceId // Not already invoiced
-        );
+        options = billingRunSchema.parse({ ...req.query, ...req.body });
       } else {
         return res.status(400).json({ message: "Invalid range parameter. Use 'weekly' or 'custom'." });
       }
       
-      if (!loads.length) {
-        return res.status(400).json({ message: "No uninvoiced loads available in the specified range" });
-      }
-      
-      // Group loads by client (lead)
-      const loadsByLead: Record<number, any[]> = {};
-      
-      for (const load of loads) {
-        if (!loadsByLead[load.leadId]) {
-          loadsByLead[load.leadId] = [];
-        }
-        loadsByLead[load.leadId].push(load);
+      const report = await billingRunService.runBilling(req.user!.orgId!, options, req.user!.id);
+      return sendBillingRunReport(res, report);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
-      
-      // Generate an invoice for each lead that has loads
-      const createdInvoices = [];
-      
-      for (const [leadId, leadLoads] of Object.entries(loadsByLead)) {
-        if (leadLoads.length === 0) continue;
-        
-        // Generate invoice number
-        const date = new Date();
-        const year = date.getFullYear().toString().substr(-2);
-        const month = (date.getMonth() + 1).toString().padStart(2, '0');
-        const random = Math.floor(1000 + Math.random() * 9000).toString();
-        const invoiceNumber = `INV-${year}${month}-${random}`;
-        
-        // Calculate total amount
-        const totalAmount = leadLoads.reduce((total, load) => {
-          // Make sure we're calculating the actual total properly
-          const loadTotal = load.freightAmount + load.serviceCharge;
-          return total + loadTotal;
-        }, 0);
-        
-        // Create the invoice
-        const invoice = await storage.createInvoice({
-          leadId: parseInt(leadId),
-          invoiceNumber,
-          totalAmount,
-          status: 'draft',
-          issuedDate: new Date().toISOString().split('T')[0],
-          dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          createdBy: req.user?.id || 1,
-          notes: `Automatically generated invoice for ${leadLoads.length} loads.`
-        });
-        
-        // Create invoice items for each load
-        for (const load of leadLoads) {
-          await storage.createInvoiceItem({
-            invoiceId: invoice.id,
-            loadId: load.id,
-            description: `Load: ${load.origin} to ${load.destination}`,
-            amount: load.freightAmount + load.serviceCharge
-          });
-          
-          // Mark the load as invoiced by adding the invoice ID
-          await storage.updateLoad(load.id, { status: 'invoiced', invoiceId: invoice.id });
-        }
-        
-        createdInvoices.push(invoice);
+      if (error instanceof billingRunService.BillingRunError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
-      
-      // Log the activity
-      await storage.createActivity({
-        userId: req.user?.id || 1,
-        entityType: 'invoice',
-        entityId: 0, // System-wide activity
-        action: range === 'weekly' ? 'generate-weekly' : 'generate-custom',
-        details: `Generated ${createdInvoices.length} invoices (${range} range)`
-      });
-      
-      return res.status(200).json({ 
-        success: true, 
-        message: `Successfully generated ${createdInvoices.length} invoices`,
-        count: createdInvoices.length,
-        invoices: createdInvoices.map(inv => inv.id)
-      });
-    } catch (error) {
       console.error("Error generating invoices:", error);
       next(error);
     }
@@ -5274,101 +5946,16 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
   // Legacy route for backward compatibility
   app.post("/api/invoices/generate-weekly", createAuthMiddleware(4), async (req, res, next) => {
     try {
-      // This will generate invoices for all active loads that don't have invoices yet
-      // In a real implementation, this would query for all completed loads without invoices
-      
-      // Get all leads
-      const leads = await storage.getLeads();
-      if (!leads.length) {
-        return res.status(400).json({ message: "No leads available to generate invoices for" });
-      }
-      
-      // Get all loads that are completed but not invoiced
-      // Filter loads that are "delivered" status and not already invoiced
-      const allLoads = await storage.getLoads();
-      const loads = allLoads.filter(load => 
-        load.status === 'delivered' && 
-        !load.invoiceId // We'll use this to determine if it's been invoiced
+      const report = await billingRunService.runBilling(
+        req.user!.orgId!,
+        billingRunService.weeklyBillingRange(),
+        req.user!.id
       );
-      
-      if (!loads.length) {
-        return res.status(400).json({ message: "No uninvoiced loads available" });
-      }
-      
-      // Group loads by client (lead)
-      const loadsByLead: Record<number, any[]> = {};
-      
-      for (const load of loads) {
-        if (!loadsByLead[load.leadId]) {
-          loadsByLead[load.leadId] = [];
-        }
-        loadsByLead[load.leadId].push(load);
-      }
-      
-      // Generate an invoice for each lead that has loads
-      const createdInvoices = [];
-      
-      for (const [leadId, leadLoads] of Object.entries(loadsByLead)) {
-        if (leadLoads.length === 0) continue;
-        
-        // Generate invoice number
-        const date = new Date();
-        const year = date.getFullYear().toString().substr(-2);
-        const month = (date.getMonth() + 1).toString().padStart(2, '0');
-        const random = Math.floor(1000 + Math.random() * 9000).toString();
-        const invoiceNumber = `INV-${year}${month}-${random}`;
-        
-        // Calculate total amount
-        const totalAmount = leadLoads.reduce((total, load) => {
-          // Make sure we're calculating the actual total properly
-          const loadTotal = load.freightAmount + load.serviceCharge;
-          return total + loadTotal;
-        }, 0);
-        
-        // Create the invoice
-        const invoice = await storage.createInvoice({
-          leadId: parseInt(leadId),
-          invoiceNumber,
-          totalAmount,
-          status: 'draft',
-          issuedDate: new Date().toISOString().split('T')[0],
-          dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          createdBy: req.user?.id || 1,
-          notes: `Automatically generated weekly invoice for ${leadLoads.length} loads.`
-        });
-        
-        // Create invoice items for each load
-        for (const load of leadLoads) {
-          await storage.createInvoiceItem({
-            invoiceId: invoice.id,
-            loadId: load.id,
-            description: `Load: ${load.origin} to ${load.destination}`,
-            amount: load.freightAmount + load.serviceCharge
-          });
-          
-          // Mark the load as invoiced by adding the invoice ID
-          await storage.updateLoad(load.id, { status: 'invoiced', invoiceId: invoice.id });
-        }
-        
-        createdInvoices.push(invoice);
-      }
-      
-      // Log the activity
-      await storage.createActivity({
-        userId: req.user?.id || 1,
-        entityType: 'invoice',
-        entityId: 0, // System-wide activity
-        action: 'generate-weekly',
-        details: `Generated ${createdInvoices.length} weekly invoices`
-      });
-      
-      return res.status(200).json({ 
-        success: true, 
-        message: `Successfully generated ${createdInvoices.length} invoices`,
-        count: createdInvoices.length,
-        invoices: createdInvoices.map(inv => inv.id)
-      });
+      return sendBillingRunReport(res, report);
     } catch (error) {
+      if (error instanceof billingRunService.BillingRunError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error generating weekly invoices:", error);
       next(error);
     }
@@ -6341,6 +6928,29 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
+  // Get the stored commission run with its calculation breakdown for a user and month
+  commissionMonthlyRouter.get("/runs/:userId/:month", createAuthMiddleware(1), async (req, res, next) => {
+    try {
+      const userId = Number(req.params.userId);
+
+      // Reps can only see their own breakdown
+      if (req.userRole?.level < 3 && userId !== req.user?.id) {
+        return res.status(403).json({
+          message: "You don't have permission to view this commission breakdown"
+        });
+      }
+
+      const run = await commissionEngine.getCommissionRun(req.user!.orgId!, userId, req.params.month);
+      if (!run) {
+        return res.status(404).json({ message: "No commission run found for this month" });
+      }
+
+      res.json(run);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   commissionMonthlyRouter.post("/calculate", createAuthMiddleware(4), async (req, res, next) => {
     try {
       const { userId, month } = req.body;
@@ -6419,6 +7029,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
   commissionMonthlyRouter.post("/calculate-all", createAuthMiddleware(5), async (req, res, next) => {
     try {
       const { month } = req.body;
+      const preview = req.body.preview === true || req.query.preview === 'true';
       
       if (!month) {
         return res.status(400).json({ message: "Month is required (YYYY-MM format)" });
@@ -6428,7 +7039,42 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
       const allUsers = await storage.getUsers();
       const activeUsers = allUsers.filter(user => user.active);
       
+      // Preview mode: compute every rep's commission without persisting and
+      // return what would change against the stored run
+      if (preview) {
+        const previews = [];
+        const skipped = [];
+        
+        for (const user of activeUsers) {
+          const role = await storage.getRole(user.roleId);
+          const roleName = role?.name?.toLowerCase() || '';
+          
+          if (roleName.includes('sales')) {
+            const userPreview = await commissionEngine.previewSalesCommission(user.id, month);
+            if (userPreview) {
+              previews.push({
+                ...userPreview,
+                name: `${user.firstName} ${user.lastName}`
+              });
+            } else {
+              skipped.push({ userId: user.id, reason: "No commission policy in force for this month" });
+            }
+          } else if (roleName.includes('dispatch')) {
+            skipped.push({ userId: user.id, reason: "Dispatch commissions cannot be previewed" });
+          }
+        }
+        
+        return res.json({
+          month,
+          preview: true,
+          changedCount: previews.filter(p => p.difference !== 0 || p.changes.length > 0).length,
+          previews,
+          skipped
+        });
+      }
+      
       const results = [];
+      const locked: { userId: number; name: string; reason: string }[] = [];
       
       // Calculate commissions for all users
       for (const user of activeUsers) {
@@ -6448,7 +7094,16 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
         
         // Calculate commission based on role name
         if (roleName.includes('sales')) {
-          calculatedCommission = await calculateSalesCommission(user.id, month, req.user?.id || 0);
+          try {
+            calculatedCommission = await calculateSalesCommission(user.id, month, req.user?.id || 0);
+          } catch (error) {
+            // Paid/locked runs are frozen; report them instead of failing the whole batch
+            if (error instanceof CommissionWorkflowError) {
+              locked.push({ userId: user.id, name: `${user.firstName} ${user.lastName}`, reason: error.message });
+              continue;
+            }
+            throw error;
+          }
         } else if (roleName.includes('dispatch')) {
           calculatedCommission = await calculateDispatchCommission(user.id, month, req.user?.id || 0);
         }
@@ -6485,133 +7140,36 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
       
       res.json({ 
         message: `Calculated commissions for ${results.length} users`,
-        commissions: results
+        commissions: results,
+        locked
       });
     } catch (error) {
       next(error);
     }
   });
 
-  // Helper function to calculate sales commission
+  // Helper function to calculate sales commission from the policy in force for the month
   async function calculateSalesCommission(userId: number, month: string, calculatedBy: number): Promise<any> {
-    // Get the user
-    const user = await storage.getUser(userId);
-    if (!user) return null;
-    
-    // Get the commission rule for sales
-    const salesRules = await storage.getCommissionRulesByType("sales");
-    const orgRules = salesRules.filter(rule => rule.orgId === user.orgId);
-    if (orgRules.length === 0) return null;
-    
-    // Use the latest rule
-    const rule = orgRules.sort((a, b) => 
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    )[0];
-    
-    // Parse the tiers from the rule
-    const tiers = rule.tiers as { active: number, pct?: number, fixed?: number }[];
-    
-    // Count active leads for this user for the specified month
-    // This is a simplified version - in a real app, we would filter by created month
-    // and status change date to ensure we only count leads activated in the target month
-    const userLeads = await storage.getLeadsByAssignee(userId);
-    const activeLeads = userLeads.filter(lead => lead.status === 'active');
-    const activeLeadCount = activeLeads.length;
-    
-    // Get existing commission record if any
-    let commissionRecord = await storage.getCommissionMonthlyByUserAndMonth(userId, month);
-    
-    // Calculate the fixed amount and percentage
-    let fixedAmount = 0;
-    let calculatedPct = 0;
-    let appliedTier = null;
-    
-    // Find the appropriate tier based on active lead count
-    for (const tier of tiers) {
-      if (activeLeadCount >= tier.active) {
-        appliedTier = tier;
-        if (tier.fixed !== undefined) {
-          fixedAmount = tier.fixed;
-        }
-        if (tier.pct !== undefined) {
-          calculatedPct = tier.pct;
-        }
-      }
-    }
-    
-    // Calculate total amount (simplified - in a real app we would factor in lead value)
-    // Adjust for inbound leads if needed
-    const inboundFactor = 0.75; // 25% reduction for inbound leads
-    const starterCloserSplit = { starter: 0.4, closer: 0.6 }; // 40% starter, 60% closer
-    
-    // Dummy values for metrics - in a real app, these would be calculated from actual data
-    const inboundLeadCount = Math.floor(activeLeadCount * 0.3); // Assuming 30% are inbound
-    const outboundLeadCount = activeLeadCount - inboundLeadCount;
-    const teamTargetMet = activeLeadCount >= 10; // Example target
-    const teamLeadBonus = teamTargetMet ? activeLeadCount * 1000 : 0; // 1000 PKR per active lead after target
-    
-    // Calculate adjusted amount based on inbound/outbound mix
-    const adjustedFixedAmount = (
-      (inboundLeadCount * fixedAmount * inboundFactor) + 
-      (outboundLeadCount * fixedAmount)
-    ) / activeLeadCount;
-    
-    // Apply percentage adjustment if applicable
-    let finalAmount = adjustedFixedAmount;
-    if (calculatedPct !== 0) {
-      const percentageAdjustment = (finalAmount * calculatedPct) / 100;
-      finalAmount += percentageAdjustment;
-    }
-    
-    // Add team lead bonus if applicable
-    if (user.roleId === 2) { // Assuming roleId 2 is for Team Leads
-      finalAmount += teamLeadBonus;
+    return commissionEngine.runSalesCommission(Number(userId), month, calculatedBy);
+  }
+
+  // Helper for read paths: a stored run is returned as is, whatever its workflow
+  // status; without one the commission is calculated but not saved
+  async function getOrCalculateSalesCommission(orgId: number, userId: number, month: string): Promise<any> {
+    const run = await commissionEngine.getCommissionRun(orgId, Number(userId), month);
+    if (run) {
+      return run;
     }
-    
-    // If we have an existing record, update it, otherwise create a new one
-    if (commissionRecord) {
-      commissionRecord = await storage.updateCommissionMonthly(commissionRecord.id, {
-        amount: finalAmount,
-        metrics: {
-          activeLeads: activeLeadCount,
-          inboundLeads: inboundLeadCount,
-          outboundLeads: outboundLeadCount,
-          teamTargetMet,
-          appliedTier: appliedTier ? appliedTier.active : 0,
-          fixedAmount,
-          adjustedAmount: adjustedFixedAmount,
-          teamLeadBonus
-        },
-        updatedBy: calculatedBy
-      });
-    } else {
-      commissionRecord = await storage.createCommissionMonthly({
-        userId,
-        orgId: user.orgId || 0,
-        month,
-        amount: finalAmount,
-        baseAmount: fixedAmount,
-        bonusAmount: teamLeadBonus,
-        percentageAdjustment: calculatedPct,
-        type: "sales",
-        metrics: {
-          activeLeads: activeLeadCount,
-          inboundLeads: inboundLeadCount,
-          outboundLeads: outboundLeadCount,
-          teamTargetMet,
-          appliedTier: appliedTier ? appliedTier.active : 0,
-          fixedAmount,
-          adjustedAmount: adjustedFixedAmount,
-          teamLeadBonus
-        },
-        status: "calculated",
-        approvedBy: null,
-        approvedAt: null,
-        updatedBy: calculatedBy
-      });
+    return commissionEngine.calculateSalesCommission(Number(userId), month);
+  }
+
+  // Keep a run that nobody has reviewed yet in step with new activations;
+  // reviewed, approved, paid and locked runs only change through /calculate
+  async function refreshDraftSalesCommission(orgId: number, userId: number, month: string, calculatedBy: number): Promise<void> {
+    const run = await commissionEngine.getCommissionRun(orgId, userId, month);
+    if (!run || run.status === 'calculated') {
+      await calculateSalesCommission(userId, month, calculatedBy);
     }
-    
-    return commissionRecord;
   }
 
   // Helper function to calculate dispatch commission
@@ -6816,7 +7374,7 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
           
           // Only recalculate if we have an assigned user
           if (lead.assignedTo) {
-            await calculateSalesCommission(lead.assignedTo, currentMonth, req.user?.id || 0);
+            await refreshDraftSalesCommission(req.user!.orgId!, lead.assignedTo, currentMonth, req.user?.id || 0);
           }
         }
       }
@@ -6828,21 +7386,49 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
     }
   });
 
-  // Automatically recalculate commissions when a load is marked as completed
+  // Automatically recalculate commissions when a load is marked as delivered
   app.patch("/api/loads/:id", createAuthMiddleware(2), async (req, res, next) => {
     try {
       const loadId = Number(req.params.id);
       const load = await storage.getLoad(loadId);
       
-      if (!load) {
+      if (!load || load.orgId !== req.user!.orgId) {
         return res.status(404).json({ message: "Load not found" });
       }
       
-      // Update load
-      const updatedLoad = await storage.updateLoad(loadId, req.body);
+      // A status in the body is applied as the matching lifecycle transition;
+      // older clients still send 'completed' for delivered
+      const { status, note, ...body } = req.body;
+      const targetStatus = status === 'completed' ? 'delivered' : status === undefined ? undefined : loadLifecycle.normalizeLoadStatus(status);
+      const statusChanged = targetStatus !== undefined && targetStatus !== loadLifecycle.normalizeLoadStatus(load.status);
+      const transition = statusChanged
+        ? loadLifecycle.availableLoadActions(load).find(action => action.to === targetStatus)
+        : undefined;
+      if (statusChanged && !transition) {
+        return res.status(409).json({ message: `A ${load.status.replace('_', ' ')} load cannot be moved to ${targetStatus}` });
+      }
+      
+      const changes = loadUpdateSchema.parse(body);
+      const routeChanged = loadStopService.touchesRoute(changes);
+      if (routeChanged) {
+        await loadStopService.assertRouteEditable(loadId);
+      }
+      
+      let updatedLoad = transition
+        ? (await loadLifecycle.transitionLoad(loadId, transition.action, req.user!.id, req.user!.orgId!, {
+            podUrl: changes.podUrl ?? undefined,
+            rateConfirmationUrl: changes.rateConfirmationUrl ?? undefined,
+            note
+          })).load
+        : load;
+      if (Object.keys(changes).length > 0) {
+        updatedLoad = (await storage.updateLoad(loadId, changes)) ?? updatedLoad;
+        if (routeChanged) {
+          await loadStopService.syncSingleStopRoute(updatedLoad);
+        }
+      }
       
-      // Check if status changed to completed
-      if (req.body.status === 'completed' && load.status !== 'completed') {
+      if (transition?.to === 'delivered') {
         // Trigger commission recalculation for the assigned dispatcher
         const currentDate = new Date();
         const currentMonth = `${currentDate.getFullYear()}-${(currentDate.getMonth() + 1).toString().padStart(2, '0')}`;
@@ -6855,6 +7441,12 @@ export async function registerRoutes(apiRouter: Router, server?: Server): Promis
       
       res.json(updatedLoad);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof loadLifecycle.LoadTransitionError || error instanceof loadStopService.LoadStopError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       next(error);
     }
   });
@@ -0,0 +1,129 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import { parseCommissionMonth } from '../services/commission-engine';
+import {
+  COMMISSION_TRANSITIONS,
+  CommissionWorkflowError,
+  createCommissionAdjustment,
+  getCommissionAdjustments,
+  getCommissionRunById,
+  listCommissionRuns,
+  transitionCommissionRun,
+  type CommissionRunAction
+} from '../services/commission-approval';
+
+const router = express.Router();
+
+const adjustmentSchema = z.object({
+  amount: z.coerce.number(),
+  reason: z.string().min(1, 'Reason is required')
+});
+
+function handleWorkflowError(error: unknown, res: express.Response, next: express.NextFunction) {
+  if (error instanceof CommissionWorkflowError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  next(error);
+}
+
+/**
+ * GET /api/commission-runs?month=YYYY-MM&status=
+ * List commission runs of the organization for a month
+ */
+router.get('/', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    const month = (req.query.month as string) || new Date().toISOString().slice(0, 7);
+    const { year, month: monthNumber } = parseCommissionMonth(month);
+    const status = req.query.status as string | undefined;
+
+    const rows = await listCommissionRuns(req.user!.orgId!, year, monthNumber, status);
+    res.json(rows.map(({ run, userName, adjustmentTotal }) => ({
+      ...run,
+      userName,
+      adjustmentTotal: Number(adjustmentTotal)
+    })));
+  } catch (error) {
+    logger.error('Error listing commission runs:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/commission-runs/:id
+ * Get a commission run with its status log and adjustments
+ */
+router.get('/:id', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const run = await getCommissionRunById(Number(req.params.id));
+    if (!run || run.orgId !== req.user!.orgId) {
+      return res.status(404).json({ message: 'Commission run not found' });
+    }
+    if (run.userId !== req.user!.id && (req.userRole?.level ?? 0) < 3) {
+      return res.status(403).json({ message: 'You can only view your own commission runs' });
+    }
+
+    const adjustments = await getCommissionAdjustments(run.id);
+    res.json({ ...run, adjustments });
+  } catch (error) {
+    logger.error('Error fetching commission run:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/commission-runs/:id/{review|approve|pay|lock}
+ * Move a commission run through the approval workflow
+ */
+for (const action of Object.keys(COMMISSION_TRANSITIONS) as CommissionRunAction[]) {
+  router.post(`/:id/${action}`, createAuthMiddleware(COMMISSION_TRANSITIONS[action].minRoleLevel), async (req, res, next) => {
+    try {
+      const existing = await getCommissionRunById(Number(req.params.id));
+      if (!existing || existing.orgId !== req.user!.orgId) {
+        return res.status(404).json({ message: 'Commission run not found' });
+      }
+
+      const run = await transitionCommissionRun(
+        existing.id,
+        action,
+        req.user!.id,
+        req.userRole!,
+        typeof req.body?.note === 'string' ? req.body.note : undefined
+      );
+      res.json(run);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  });
+}
+
+/**
+ * POST /api/commission-runs/:id/adjustments
+ * Record a correction against a paid or locked commission run
+ */
+router.post('/:id/adjustments', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const parsed = adjustmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid adjustment', errors: parsed.error.format() });
+    }
+
+    const existing = await getCommissionRunById(Number(req.params.id));
+    if (!existing || existing.orgId !== req.user!.orgId) {
+      return res.status(404).json({ message: 'Commission run not found' });
+    }
+
+    const adjustment = await createCommissionAdjustment(
+      existing.id,
+      parsed.data.amount,
+      parsed.data.reason,
+      req.user!.id
+    );
+    res.status(201).json(adjustment);
+  } catch (error) {
+    handleWorkflowError(error, res, next);
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import { getLaneAnalytics } from '../services/lane-analytics';
+
+const router = express.Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const laneQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  months: z.coerce.number().int().min(1).max(36).default(12),
+  equipmentType: z.string().optional(),
+  origin: z.string().optional(),
+  destination: z.string().optional(),
+  minLoads: z.coerce.number().int().min(1).default(1)
+});
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * GET /api/dispatch/analytics/lanes?months=12|from=&to=&equipmentType=&origin=&destination=&minLoads=
+ * Freight statistics, monthly trend and top carriers per lane (origin city,
+ * destination city and equipment type). Without from/to the report covers
+ * the last `months` months up to today.
+ */
+router.get('/lanes', createAuthMiddleware(2), async (req, res, next) => {
+  try {
+    const query = laneQuerySchema.parse(req.query);
+
+    const today = new Date();
+    const end = query.to ?? toDateString(new Date(today.getTime() + 24 * 60 * 60 * 1000));
+    const start = query.from ?? toDateString(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - query.months + 1, 1)));
+    if (start >= end) {
+      return res.status(400).json({ message: 'The start date must be before the end date' });
+    }
+
+    const report = await getLaneAnalytics(req.user!.orgId!, {
+      startDate: start,
+      endDate: end,
+      equipmentType: query.equipmentType || undefined,
+      origin: query.origin || undefined,
+      destination: query.destination || undefined,
+      minLoads: query.minLoads
+    });
+    res.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: fromZodError(error).message });
+    }
+    logger.error('Error in dispatch lane analytics route:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -1,9 +1,77 @@
 import express from 'express';
+import { z } from 'zod';
+import { and, desc, eq, gte, lt } from 'drizzle-orm';
 import { createAuthMiddleware } from '../auth-middleware';
 import { logger } from '../logger';
+import { db } from '../db';
+import { expenses, insertExpenseSchema } from '@shared/schema';
+import {
+  getProfitAndLossReport,
+  resolveReportPeriod,
+  type ReportPeriod,
+  type ReportPeriodType
+} from '../services/finance-reports';
+import { getArAgingReport } from '../services/invoice-payments';
+import {
+  getDunningSettings,
+  runInvoiceDunning,
+  setClientDunningPaused,
+  updateDunningSettings
+} from '../services/invoice-dunning';
+import {
+  getInvoiceNumberingOverview,
+  InvoiceNumberingError,
+  updateInvoiceNumberingSettings
+} from '../services/invoice-numbering';
+import { InvoiceTemplateType } from '../invoiceTemplates';
 
 const router = express.Router();
 
+const reportPeriodQuerySchema = z.object({
+  period: z.enum(['month', 'quarter', 'year']).default('month'),
+  year: z.coerce.number().int().optional(),
+  month: z.coerce.number().int().min(1).max(12).optional(),
+  quarter: z.coerce.number().int().min(1).max(4).optional()
+});
+
+const expenseBodySchema = insertExpenseSchema
+  .omit({ orgId: true, createdBy: true })
+  .extend({
+    amount: z.coerce.number().positive('Amount must be greater than zero'),
+    expenseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expense date must be YYYY-MM-DD')
+  });
+
+const dunningSettingsSchema = z.object({
+  enabled: z.boolean(),
+  steps: z.array(z.object({
+    daysFromDue: z.number().int().min(-60).max(365),
+    template: z.enum([
+      InvoiceTemplateType.FRIENDLY_REMINDER,
+      InvoiceTemplateType.URGENT_PAYMENT,
+      InvoiceTemplateType.OVERDUE_NOTICE
+    ])
+  })).max(10)
+});
+
+const invoiceNumberingSchema = z.object({
+  prefix: z.string().max(20).regex(/^[A-Za-z0-9_-]*$/, 'Prefix may only contain letters, digits, - and _'),
+  yearlyReset: z.boolean(),
+  padding: z.number().int().min(1).max(10),
+  nextNumber: z.number().int().positive().optional()
+});
+
+/**
+ * Resolve ?period=month|quarter|year&year=&month=&quarter= into a report
+ * period, defaulting to the current month/quarter/year
+ */
+function parseReportPeriod(query: unknown): ReportPeriod {
+  const { period, year, month, quarter } = reportPeriodQuerySchema.parse(query);
+  const now = new Date();
+  const currentMonth = month ?? now.getMonth() + 1;
+  const index = period === 'month' ? currentMonth : quarter ?? Math.ceil(currentMonth / 3);
+  return resolveReportPeriod(period as ReportPeriodType, year ?? now.getFullYear(), index);
+}
+
 /**
  * GET /api/finance/invoices
  * Get invoices
@@ -19,48 +87,148 @@ router.get('/invoices', createAuthMiddleware(1), async (req, res, next) => {
 });
 
 /**
- * GET /api/finance/profit-loss
- * Get profit and loss report
+ * GET /api/finance/profit-loss?period=month|quarter|year&year=&month=&quarter=
+ * Profit and loss from paid invoices, commission payouts and recorded
+ * expenses, compared against the prior period
  */
 router.get('/profit-loss', createAuthMiddleware(3), async (req, res, next) => {
   try {
-    // Get profit and loss report
-    const year = req.query.year || new Date().getFullYear();
-    const month = req.query.month || new Date().getMonth() + 1;
-    
-    res.json({
-      period: `${year}-${month.toString().padStart(2, '0')}`,
-      revenue: {
-        total: 246500,
-        breakdown: {
-          "Freight Services": 198000,
-          "Consulting": 32500,
-          "Brokerage Fees": 16000
-        }
-      },
-      expenses: {
-        total: 184720,
-        breakdown: {
-          "Payroll": 120000,
-          "Rent": 15000,
-          "Software": 4500,
-          "Utilities": 2800,
-          "Insurance": 8600,
-          "Marketing": 7820,
-          "Maintenance": 5200,
-          "Travel": 12300,
-          "Miscellaneous": 8500
-        }
-      },
-      netProfit: 61780,
-      profitMargin: 25.06
-    });
+    let period: ReportPeriod;
+    try {
+      period = parseReportPeriod(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid report period' });
+    }
+
+    const report = await getProfitAndLossReport(req.user!.orgId!, period);
+    res.json(report);
   } catch (error) {
     logger.error('Error in finance profit-loss route:', error);
     next(error);
   }
 });
 
+/**
+ * GET /api/finance/ar-aging?asOf=YYYY-MM-DD
+ * Accounts receivable aging of open invoices (current / 30 / 60 / 90+ days past due)
+ */
+router.get('/ar-aging', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    const asOf = typeof req.query.asOf === 'string' ? new Date(req.query.asOf) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return res.status(400).json({ message: 'Invalid asOf date' });
+    }
+
+    const report = await getArAgingReport(req.user!.orgId!, asOf);
+    res.json(report);
+  } catch (error) {
+    logger.error('Error in finance ar-aging route:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/finance/dunning/settings
+ * Overdue reminder schedule of the organization
+ */
+router.get('/dunning/settings', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await getDunningSettings(req.user!.orgId!));
+  } catch (error) {
+    logger.error('Error fetching dunning settings:', error);
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/finance/dunning/settings
+ * Update the overdue reminder schedule (day offsets relative to the due date)
+ */
+router.put('/dunning/settings', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const parsed = dunningSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid dunning settings', errors: parsed.error.format() });
+    }
+    res.json(await updateDunningSettings(req.user!.orgId!, parsed.data));
+  } catch (error) {
+    logger.error('Error updating dunning settings:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/finance/dunning/clients/:leadId/pause
+ * POST /api/finance/dunning/clients/:leadId/resume
+ * Pause or resume automatic reminders for a client
+ */
+for (const action of ['pause', 'resume'] as const) {
+  router.post(`/dunning/clients/:leadId/${action}`, createAuthMiddleware(2), async (req, res, next) => {
+    try {
+      const lead = await setClientDunningPaused(
+        Number(req.params.leadId),
+        req.user!.orgId!,
+        action === 'pause',
+        req.user!.id
+      );
+      if (!lead) {
+        return res.status(404).json({ message: 'Client not found' });
+      }
+      res.json({ leadId: lead.id, dunningPaused: lead.dunningPaused, dunningPausedAt: lead.dunningPausedAt });
+    } catch (error) {
+      logger.error(`Error trying to ${action} dunning:`, error);
+      next(error);
+    }
+  });
+}
+
+/**
+ * POST /api/finance/dunning/run
+ * Run the dunning job immediately
+ */
+router.post('/dunning/run', createAuthMiddleware(5), async (req, res, next) => {
+  try {
+    res.json(await runInvoiceDunning());
+  } catch (error) {
+    logger.error('Error running invoice dunning:', error);
+    next(error);
+  }
+});
+
+/**
+ * GET /api/finance/invoice-numbering
+ * Invoice numbering settings with a preview of the next number
+ */
+router.get('/invoice-numbering', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await getInvoiceNumberingOverview(req.user!.orgId!));
+  } catch (error) {
+    logger.error('Error fetching invoice numbering settings:', error);
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/finance/invoice-numbering
+ * Update prefix, yearly reset, padding and the next number
+ */
+router.put('/invoice-numbering', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const parsed = invoiceNumberingSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid invoice numbering settings', errors: parsed.error.format() });
+    }
+    await updateInvoiceNumberingSettings(req.user!.orgId!, parsed.data);
+    res.json(await getInvoiceNumberingOverview(req.user!.orgId!));
+  } catch (error) {
+    if (error instanceof InvoiceNumberingError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    logger.error('Error updating invoice numbering settings:', error);
+    next(error);
+  }
+});
+
 /**
  * GET /api/finance/commissions
  * Get commissions data
@@ -76,17 +244,109 @@ router.get('/commissions', createAuthMiddleware(1), async (req, res, next) => {
 });
 
 /**
- * GET /api/finance/expenses
- * Get expenses data
+ * GET /api/finance/expenses?period=&year=&month=&quarter=&category=
+ * List recorded expenses for a period
  */
 router.get('/expenses', createAuthMiddleware(1), async (req, res, next) => {
   try {
-    // Get expenses data
-    res.json([]);
+    let period: ReportPeriod;
+    try {
+      period = parseReportPeriod(req.query);
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid report period' });
+    }
+
+    const conditions = [
+      eq(expenses.orgId, req.user!.orgId!),
+      gte(expenses.expenseDate, period.startDate),
+      lt(expenses.expenseDate, period.endDate)
+    ];
+    if (typeof req.query.category === 'string' && req.query.category) {
+      conditions.push(eq(expenses.category, req.query.category));
+    }
+
+    const rows = await db
+      .select()
+      .from(expenses)
+      .where(and(...conditions))
+      .orderBy(desc(expenses.expenseDate), desc(expenses.id));
+
+    res.json(rows);
   } catch (error) {
     logger.error('Error in finance expenses route:', error);
     next(error);
   }
 });
 
+/**
+ * POST /api/finance/expenses
+ * Record an expense
+ */
+router.post('/expenses', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    const parsed = expenseBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid expense', errors: parsed.error.format() });
+    }
+
+    const [expense] = await db
+      .insert(expenses)
+      .values({ ...parsed.data, orgId: req.user!.orgId!, createdBy: req.user!.id })
+      .returning();
+
+    res.status(201).json(expense);
+  } catch (error) {
+    logger.error('Error creating expense:', error);
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/finance/expenses/:id
+ * Update an expense
+ */
+router.patch('/expenses/:id', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    const parsed = expenseBodySchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid expense', errors: parsed.error.format() });
+    }
+
+    const [expense] = await db
+      .update(expenses)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(and(eq(expenses.id, Number(req.params.id)), eq(expenses.orgId, req.user!.orgId!)))
+      .returning();
+
+    if (!expense) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+    res.json(expense);
+  } catch (error) {
+    logger.error('Error updating expense:', error);
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/finance/expenses/:id
+ * Delete an expense
+ */
+router.delete('/expenses/:id', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const [expense] = await db
+      .delete(expenses)
+      .where(and(eq(expenses.id, Number(req.params.id)), eq(expenses.orgId, req.user!.orgId!)))
+      .returning();
+
+    if (!expense) {
+      return res.status(404).json({ message: 'Expense not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    logger.error('Error deleting expense:', error);
+    next(error);
+  }
+});
+
 export default router;
\ No newline at end of file
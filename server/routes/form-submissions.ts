@@ -0,0 +1,109 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import {
+  FormError,
+  getFormSubmission,
+  getSubmissionFile,
+  listFormSubmissions,
+  resendForm,
+  sendForm
+} from '../services/forms';
+
+const router = express.Router();
+
+const sendSchema = z.object({
+  templateId: z.number().int().positive(),
+  leadId: z.number().int().positive(),
+  customMessage: z.string().max(5000).nullable().optional(),
+  expiresInDays: z.number().int().min(1).max(90).optional()
+});
+
+const resendSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(90).optional()
+});
+
+function handleFormError(error: unknown, res: express.Response, next: express.NextFunction, context: string) {
+  if (error instanceof FormError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/crm/form-submissions?leadId=
+ * Forms sent by the organization, newest first
+ */
+router.get('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const leadId = req.query.leadId ? Number(req.query.leadId) : undefined;
+    res.json(await listFormSubmissions(req.user!.orgId!, { leadId }));
+  } catch (error) {
+    handleFormError(error, res, next, 'fetching form submissions');
+  }
+});
+
+/**
+ * GET /api/crm/form-submissions/:id
+ * A submission with its answers and the fields they were given against
+ */
+router.get('/:id', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await getFormSubmission(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleFormError(error, res, next, 'fetching form submission');
+  }
+});
+
+/**
+ * GET /api/crm/form-submissions/:id/files/:fieldKey
+ * Download a file uploaded as an answer
+ */
+router.get('/:id/files/:fieldKey', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const { file, absolutePath } = await getSubmissionFile(Number(req.params.id), req.user!.orgId!, req.params.fieldKey);
+    res.download(absolutePath, file.fileName);
+  } catch (error) {
+    handleFormError(error, res, next, 'downloading form file');
+  }
+});
+
+/**
+ * POST /api/crm/form-submissions
+ * Email a lead a link to fill out a form
+ */
+router.post('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = sendSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid form request', errors: parsed.error.format() });
+    }
+    res.status(201).json(await sendForm(req.user!.orgId!, req.user!.id, parsed.data));
+  } catch (error) {
+    handleFormError(error, res, next, 'sending form');
+  }
+});
+
+/**
+ * POST /api/crm/form-submissions/:id/resend
+ */
+router.post('/:id/resend', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = resendSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid resend request', errors: parsed.error.format() });
+    }
+    res.json(await resendForm(
+      Number(req.params.id),
+      req.user!.orgId!,
+      req.user!.id,
+      parsed.data.expiresInDays
+    ));
+  } catch (error) {
+    handleFormError(error, res, next, 'resending form');
+  }
+});
+
+export default router;
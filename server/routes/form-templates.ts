@@ -0,0 +1,113 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import {
+  createFormTemplate,
+  deleteFormTemplate,
+  FORM_FIELD_TYPES,
+  FormError,
+  getFormTemplate,
+  listFormTemplates,
+  updateFormTemplate
+} from '../services/forms';
+
+const router = express.Router();
+
+const fieldSchema = z.object({
+  key: z.string().min(1).max(64),
+  label: z.string().min(1).max(200),
+  type: z.enum(FORM_FIELD_TYPES),
+  required: z.boolean().default(false),
+  helpText: z.string().max(500).nullable().optional(),
+  options: z.array(z.string().min(1).max(200)).max(100).optional(),
+  min: z.number().nullable().optional(),
+  max: z.number().nullable().optional(),
+  multiline: z.boolean().optional(),
+  accept: z.array(z.string().min(1)).max(20).optional()
+});
+
+const templateSchema = z.object({
+  name: z.string().min(2).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  category: z.string().min(1).max(50).default('general'),
+  fields: z.array(fieldSchema).min(1).max(100),
+  isActive: z.boolean().optional()
+});
+
+function handleFormError(error: unknown, res: express.Response, next: express.NextFunction, context: string) {
+  if (error instanceof FormError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/crm/form-templates
+ * Templates of the organization; ?active=true for the ones that can be sent
+ */
+router.get('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await listFormTemplates(req.user!.orgId!, { activeOnly: req.query.active === 'true' }));
+  } catch (error) {
+    handleFormError(error, res, next, 'fetching form templates');
+  }
+});
+
+/**
+ * GET /api/crm/form-templates/:id
+ * A template with its version history
+ */
+router.get('/:id', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await getFormTemplate(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleFormError(error, res, next, 'fetching form template');
+  }
+});
+
+/**
+ * POST /api/crm/form-templates
+ */
+router.post('/', createAuthMiddleware(2), async (req, res, next) => {
+  try {
+    const parsed = templateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid form template', errors: parsed.error.format() });
+    }
+    res.status(201).json(await createFormTemplate(req.user!.orgId!, req.user!.id, parsed.data));
+  } catch (error) {
+    handleFormError(error, res, next, 'creating form template');
+  }
+});
+
+/**
+ * PUT /api/crm/form-templates/:id
+ * Changed fields are saved as a new version
+ */
+router.put('/:id', createAuthMiddleware(2), async (req, res, next) => {
+  try {
+    const parsed = templateSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid form template', errors: parsed.error.format() });
+    }
+    res.json(await updateFormTemplate(Number(req.params.id), req.user!.orgId!, req.user!.id, parsed.data));
+  } catch (error) {
+    handleFormError(error, res, next, 'updating form template');
+  }
+});
+
+/**
+ * DELETE /api/crm/form-templates/:id
+ * Templates that were already sent are deactivated instead
+ */
+router.delete('/:id', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await deleteFormTemplate(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleFormError(error, res, next, 'deleting form template');
+  }
+});
+
+export default router;
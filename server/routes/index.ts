@@ -2,17 +2,27 @@ import express from 'express';
 import timeTrackingRouter from './time-tracking';
 import hrRouter from './hr';
 import financeRouter from './finance';
+import dispatchAnalyticsRouter from './dispatch-analytics';
 import marketingRouter from './marketing';
 import portalRouter from './portal';
 import dashboardRouter from './dashboard';
 import bugsRouter from './bugs';
 import crmRouter from './crm';
+import leadHandoffsRouter from './lead-handoffs';
+import surveysRouter from './surveys';
+import publicSurveysRouter from './public-surveys';
+import formTemplatesRouter from './form-templates';
+import formSubmissionsRouter from './form-submissions';
+import publicFormsRouter from './public-forms';
+import leadDuplicatesRouter from './lead-duplicates';
 import crmDashboardRouter from './crm-dashboard';
 import activitiesRouter from './activities';
 import leadsRouter from './leads';
 import accountsRouter from './accounts';
 import commissionsRouter from './commissions';
+import commissionRunsRouter from './commission-runs';
 import adminRouter from './admin';
+import reportSchedulesRouter from './report-schedules';
 import crossModuleRouter from './cross-module';
 import { logger } from '../logger';
 
@@ -31,6 +41,9 @@ export function registerModuleRoutes(apiRouter: express.Router): void {
   // Finance Module
   apiRouter.use('/finance', financeRouter);
   
+  // Dispatch lane and rate analytics
+  apiRouter.use('/dispatch/analytics', dispatchAnalyticsRouter);
+  
   // Marketing Module
   apiRouter.use('/marketing', marketingRouter);
   
@@ -43,6 +56,21 @@ export function registerModuleRoutes(apiRouter: express.Router): void {
   // Bug Reporting System
   apiRouter.use('/bugs', bugsRouter);
   
+  // Sales-to-dispatch lead handoffs
+  apiRouter.use('/crm/lead-handoffs', leadHandoffsRouter);
+  
+  // Customer surveys and their public response links
+  apiRouter.use('/crm/surveys', surveysRouter);
+  apiRouter.use('/public/surveys', publicSurveysRouter);
+  
+  // Form templates, forms sent to leads and their public fill-out links
+  apiRouter.use('/crm/form-templates', formTemplatesRouter);
+  apiRouter.use('/crm/form-submissions', formSubmissionsRouter);
+  apiRouter.use('/public/forms', publicFormsRouter);
+  
+  // Duplicate lead review and merges
+  apiRouter.use('/crm/lead-duplicates', leadDuplicatesRouter);
+  
   // CRM Module
   apiRouter.use('/crm', crmRouter);
   
@@ -55,6 +83,12 @@ export function registerModuleRoutes(apiRouter: express.Router): void {
   apiRouter.use('/accounts', accountsRouter);
   apiRouter.use('/commissions', commissionsRouter);
   
+  // Commission run approval workflow
+  apiRouter.use('/commission-runs', commissionRunsRouter);
+  
+  // Dispatch report job schedules (mounted ahead of the generic admin routes)
+  apiRouter.use('/admin/report-schedules', reportSchedulesRouter);
+  
   // Admin Management Module
   apiRouter.use('/admin', adminRouter);
   
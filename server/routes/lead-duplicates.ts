@@ -0,0 +1,96 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import {
+  dismissDuplicatePair,
+  LeadDuplicateError,
+  listDuplicatePairs,
+  listLeadMerges,
+  MERGE_FIELDS,
+  mergeLeads
+} from '../services/lead-duplicates';
+
+const router = express.Router();
+
+const pairSchema = z.object({
+  leadId: z.number().int().positive(),
+  otherLeadId: z.number().int().positive()
+});
+
+const mergeSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedId: z.number().int().positive(),
+  fieldChoices: z.record(z.enum(MERGE_FIELDS), z.enum(['survivor', 'merged'])).optional()
+});
+
+function handleDuplicateError(error: unknown, res: express.Response, next: express.NextFunction, context: string) {
+  if (error instanceof LeadDuplicateError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/crm/lead-duplicates?leadId=&minScore=&limit=
+ * Review queue of likely duplicate lead pairs, strongest match first
+ */
+router.get('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await listDuplicatePairs(req.user!.orgId!, {
+      leadId: req.query.leadId ? Number(req.query.leadId) : undefined,
+      minScore: req.query.minScore ? Number(req.query.minScore) : undefined,
+      limit: Math.min(Math.max(Number(req.query.limit) || 200, 1), 500)
+    }));
+  } catch (error) {
+    handleDuplicateError(error, res, next, 'fetching lead duplicates');
+  }
+});
+
+/**
+ * GET /api/crm/lead-duplicates/merges
+ * Merge audit log of the organization
+ */
+router.get('/merges', createAuthMiddleware(2), async (req, res, next) => {
+  try {
+    res.json(await listLeadMerges(req.user!.orgId!));
+  } catch (error) {
+    handleDuplicateError(error, res, next, 'fetching lead merges');
+  }
+});
+
+/**
+ * POST /api/crm/lead-duplicates/dismiss
+ * Mark a pair as different carriers so it leaves the queue
+ */
+router.post('/dismiss', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = pairSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid lead pair', errors: parsed.error.format() });
+    }
+    await dismissDuplicatePair(req.user!.orgId!, req.user!.id, parsed.data.leadId, parsed.data.otherLeadId);
+    res.status(204).end();
+  } catch (error) {
+    handleDuplicateError(error, res, next, 'dismissing lead duplicate');
+  }
+});
+
+/**
+ * POST /api/crm/lead-duplicates/merge
+ * Merge one lead into another; the merged lead is deleted
+ */
+router.post('/merge', createAuthMiddleware(2), async (req, res, next) => {
+  try {
+    const parsed = mergeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid merge request', errors: parsed.error.format() });
+    }
+    res.json(await mergeLeads(req.user!.orgId!, req.user!.id, parsed.data));
+  } catch (error) {
+    handleDuplicateError(error, res, next, 'merging leads');
+  }
+});
+
+export default router;
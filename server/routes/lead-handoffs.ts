@@ -0,0 +1,160 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import {
+  getHandoffGates,
+  getLeadHandoffDetails,
+  getLeadHandoffSettings,
+  LeadHandoffError,
+  listLeadHandoffs,
+  respondToLeadHandoff,
+  submitLeadHandoff,
+  updateLeadHandoffSettings
+} from '../services/lead-handoffs';
+
+const router = express.Router();
+
+const submitSchema = z.object({
+  leadId: z.number().int().positive(),
+  dispatcherId: z.number().int().positive().nullable().optional(),
+  handoffNotes: z.string().max(2000).nullable().optional()
+});
+
+const respondSchema = z.object({
+  action: z.enum(['accept', 'reject', 'return']),
+  qualityRating: z.number().int().min(1).max(5),
+  reason: z.string().max(1000).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional()
+});
+
+const settingsSchema = z.object({
+  minAnsweredCalls: z.number().int().min(0).max(50),
+  requiredFormCategories: z.array(z.string().min(1)).max(20)
+});
+
+function handleError(res: express.Response, next: express.NextFunction, error: unknown, context: string) {
+  if (error instanceof LeadHandoffError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/crm/lead-handoffs
+ * Handoffs of the organization, newest first; filter by ?status= and ?leadId=
+ */
+router.get('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const leadId = req.query.leadId ? Number(req.query.leadId) : undefined;
+    res.json(await listLeadHandoffs(req.user!.orgId!, { status, leadId }));
+  } catch (error) {
+    handleError(res, next, error, 'fetching lead handoffs');
+  }
+});
+
+/**
+ * GET /api/crm/lead-handoffs/settings
+ * Handoff gates of the organization
+ */
+router.get('/settings', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await getLeadHandoffSettings(req.user!.orgId!));
+  } catch (error) {
+    handleError(res, next, error, 'fetching lead handoff settings');
+  }
+});
+
+/**
+ * PUT /api/crm/lead-handoffs/settings
+ * Change the minimum answered calls and the required form categories
+ */
+router.put('/settings', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const parsed = settingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid handoff settings', errors: parsed.error.format() });
+    }
+    res.json(await updateLeadHandoffSettings(req.user!.orgId!, parsed.data));
+  } catch (error) {
+    handleError(res, next, error, 'updating lead handoff settings');
+  }
+});
+
+/**
+ * GET /api/crm/lead-handoffs/gates/:leadId
+ * Check a lead against the handoff gates before submitting it
+ */
+router.get('/gates/:leadId', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await getHandoffGates(Number(req.params.leadId), req.user!.orgId!));
+  } catch (error) {
+    handleError(res, next, error, 'checking handoff gates');
+  }
+});
+
+/**
+ * GET /api/crm/lead-handoffs/:id
+ * A handoff with its lead's current gate results
+ */
+router.get('/:id', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await getLeadHandoffDetails(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleError(res, next, error, 'fetching lead handoff');
+  }
+});
+
+/**
+ * POST /api/crm/lead-handoffs
+ * Hand a lead to dispatch; responds 201 when it awaits review and 422 when
+ * a gate failed and it was rejected automatically
+ */
+router.post('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = submitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid handoff', errors: parsed.error.format() });
+    }
+    const handoff = await submitLeadHandoff(req.user!.orgId!, req.user!.id, parsed.data);
+    if (handoff.autoRejected) {
+      return res.status(422).json({ message: `Handoff rejected: ${handoff.rejectionReason}`, handoff });
+    }
+    res.status(201).json(handoff);
+  } catch (error) {
+    handleError(res, next, error, 'submitting lead handoff');
+  }
+});
+
+/**
+ * POST /api/crm/lead-handoffs/:id/respond
+ * Accept, reject or return a pending handoff with a quality rating. Only
+ * dispatch may answer, and only the assigned dispatcher unless a manager.
+ */
+router.post('/:id/respond', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = respondSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid handoff response', errors: parsed.error.format() });
+    }
+
+    const orgId = req.user!.orgId!;
+    const handoffId = Number(req.params.id);
+    const level = req.userRole?.level ?? 0;
+    if (req.userRole?.department !== 'dispatch' && level < 4) {
+      return res.status(403).json({ message: 'Only dispatch can answer a handoff' });
+    }
+    const handoff = await getLeadHandoffDetails(handoffId, orgId);
+    if (handoff.dispatcherId && handoff.dispatcherId !== req.user!.id && level < 3) {
+      return res.status(403).json({ message: 'This handoff is assigned to another dispatcher' });
+    }
+
+    res.json(await respondToLeadHandoff(handoffId, orgId, req.user!.id, parsed.data));
+  } catch (error) {
+    handleError(res, next, error, 'answering lead handoff');
+  }
+});
+
+export default router;
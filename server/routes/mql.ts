@@ -1,118 +1,169 @@
-import { Router } from "express";
+import { Router, type NextFunction, type Response } from "express";
 import { z } from "zod";
-import { db } from "../db";
-import { leads, roles, users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { createAuthMiddleware } from "../auth-middleware";
+import { logger } from "../logger";
+import {
+  ASSIGNMENT_STRATEGIES,
+  createEndpoint,
+  DEFAULT_FIELD_MAPPINGS,
+  getEndpoint,
+  listDeliveries,
+  listEndpoints,
+  MQL_LEAD_FIELDS,
+  MqlWebhookError,
+  receiveDelivery,
+  rotateEndpointSecret,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  updateEndpoint
+} from "../services/mql-webhooks";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
 
 const mqlRouter = Router();
 
-// Schema for validating MQL webhook payload
-const mqlWebhookSchema = z.object({
-  companyName: z.string().min(1),
-  contactName: z.string().min(1),
-  phone: z.string().min(10),
-  email: z.string().email().optional(),
-  truckType: z.string().optional(),
-  mcNumber: z.string().optional(),
-  sourceForm: z.string().optional(),
+const fieldMappingsSchema = z.object(
+  Object.fromEntries(MQL_LEAD_FIELDS.map(field => [field, z.string().max(200).optional()])) as
+    Record<typeof MQL_LEAD_FIELDS[number], z.ZodOptional<z.ZodString>>
+).strict();
+
+const endpointSchema = z.object({
+  name: z.string().min(1).max(100),
+  provider: z.string().min(1).max(50).optional(),
+  fieldMappings: fieldMappingsSchema.optional(),
+  assignmentStrategy: z.enum(ASSIGNMENT_STRATEGIES).optional(),
+  isActive: z.boolean().optional(),
 });
 
-type MQLWebhookPayload = z.infer<typeof mqlWebhookSchema>;
+function handleMqlError(error: unknown, res: Response, next: NextFunction, context: string) {
+  if (error instanceof MqlWebhookError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
 
-// Get the sales-unassigned user (Admin for now as fallback)
-async function getUnassignedSalesUserID(): Promise<number> {
+/**
+ * POST /api/crm/mql/webhook/:token
+ * Signed deliveries from a form provider; see services/mql-webhooks for the
+ * signature scheme. Responds 201 for a new lead and 200 for a duplicate.
+ */
+mqlRouter.post("/webhook/:token", async (req, res, next) => {
   try {
-    // Try to find a user with role in sales department to auto-assign
-    const salesRole = await db.query.roles.findFirst({
-      where: eq(roles.department, "sales"),
+    const result = await receiveDelivery(req.params.token, {
+      rawBody: req.rawBody,
+      body: req.body,
+      signature: req.get(SIGNATURE_HEADER),
+      timestamp: req.get(TIMESTAMP_HEADER),
     });
-    
-    if (salesRole) {
-      const salesUser = await db.query.users.findFirst({
-        where: eq(users.roleId, salesRole.id),
-      });
-      
-      if (salesUser) {
-        return salesUser.id;
-      }
+    res.status(result.httpStatus).json(result.body);
+  } catch (error) {
+    handleMqlError(error, res, next, "receiving MQL webhook");
+  }
+});
+
+/**
+ * POST /api/crm/mql/webhook
+ * The unsigned organization-less webhook is retired
+ */
+mqlRouter.post("/webhook", (_req, res) => {
+  res.status(410).json({
+    success: false,
+    message: "This webhook has moved to per-organization signed endpoints at /api/crm/mql/webhook/:token",
+  });
+});
+
+/**
+ * GET /api/crm/mql/endpoints
+ * Webhook endpoints of the organization, with masked secrets
+ */
+mqlRouter.get("/endpoints", createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await listEndpoints(req.user!.orgId!));
+  } catch (error) {
+    handleMqlError(error, res, next, "fetching MQL webhook endpoints");
+  }
+});
+
+/**
+ * GET /api/crm/mql/endpoints/defaults
+ * Lead fields that can be mapped and the default mapping
+ */
+mqlRouter.get("/endpoints/defaults", createAuthMiddleware(3), (_req, res) => {
+  res.json({ fields: MQL_LEAD_FIELDS, fieldMappings: DEFAULT_FIELD_MAPPINGS, assignmentStrategies: ASSIGNMENT_STRATEGIES });
+});
+
+/**
+ * GET /api/crm/mql/endpoints/:id
+ */
+mqlRouter.get("/endpoints/:id", createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await getEndpoint(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleMqlError(error, res, next, "fetching MQL webhook endpoint");
+  }
+});
+
+/**
+ * POST /api/crm/mql/endpoints
+ * The response carries the signing secret, which is not shown again
+ */
+mqlRouter.post("/endpoints", createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const parsed = endpointSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid webhook endpoint", errors: parsed.error.format() });
     }
-    
-    // Fallback to admin user (ID 1)
-    return 1;
+    res.status(201).json(await createEndpoint(req.user!.orgId!, req.user!.id, parsed.data));
   } catch (error) {
-    console.error("Error finding unassigned sales user:", error);
-    // Default to admin user if there's an error
-    return 1;
+    handleMqlError(error, res, next, "creating MQL webhook endpoint");
   }
-}
+});
 
-// MQL Webhook endpoint for automatic lead creation
-mqlRouter.post("/webhook", async (req, res) => {
+/**
+ * PUT /api/crm/mql/endpoints/:id
+ */
+mqlRouter.put("/endpoints/:id", createAuthMiddleware(4), async (req, res, next) => {
   try {
-    // Validate the incoming payload
-    const validationResult = mqlWebhookSchema.safeParse(req.body);
-    
-    if (!validationResult.success) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid MQL payload",
-        errors: validationResult.error.errors,
-      });
+    const parsed = endpointSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid webhook endpoint", errors: parsed.error.format() });
     }
-    
-    const payload = validationResult.data;
-    
-    // Get unassigned sales user ID
-    const assignedUserId = await getUnassignedSalesUserID();
-    
-    // Create the lead with MQL source
-    const [newLead] = await db.insert(leads).values({
-      companyName: payload.companyName,
-      contactName: payload.contactName,
-      phoneNumber: payload.phone,
-      email: payload.email || null,
-      mcNumber: payload.mcNumber || "Pending",
-      equipmentType: payload.truckType || "unknown",
-      factoringStatus: "needs-factoring", // Default for MQLs
-      truckCategory: null,
-      serviceCharges: 5, // Default to 5%
-      status: "New",
-      source: "MQL",
-      sourceDetails: payload.sourceForm || "Website Form",
-      qualificationScore: "Medium", // Default qualification score
-      assignedTo: assignedUserId,
-      createdBy: assignedUserId,
-      orgId: 1, // Default organization ID
-      
-      // Add the initial activity to the timeline
-      activityTimeline: JSON.stringify([
-        {
-          type: "lead_created",
-          userId: assignedUserId,
-          timestamp: new Date().toISOString(),
-          payload: {
-            source: "MQL",
-            sourceDetails: payload.sourceForm || "Website Form",
-          }
-        }
-      ]),
-    }).returning();
-    
-    // Return success response
-    return res.status(201).json({
-      success: true,
-      message: "MQL lead created successfully",
-      leadId: newLead.id,
-    });
-  } catch (error: any) {
-    console.error("Error creating MQL lead:", error);
-    
-    return res.status(500).json({
-      success: false,
-      message: "Server error while creating MQL lead",
-      error: error.message,
-    });
+    res.json(await updateEndpoint(Number(req.params.id), req.user!.orgId!, parsed.data));
+  } catch (error) {
+    handleMqlError(error, res, next, "updating MQL webhook endpoint");
+  }
+});
+
+/**
+ * POST /api/crm/mql/endpoints/:id/rotate-secret
+ * Issue a new signing secret and return it once
+ */
+mqlRouter.post("/endpoints/:id/rotate-secret", createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    res.json(await rotateEndpointSecret(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleMqlError(error, res, next, "rotating MQL webhook secret");
+  }
+});
+
+/**
+ * GET /api/crm/mql/endpoints/:id/deliveries?limit=
+ * Most recent deliveries with their outcome, for troubleshooting
+ */
+mqlRouter.get("/endpoints/:id/deliveries", createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    res.json(await listDeliveries(Number(req.params.id), req.user!.orgId!, limit));
+  } catch (error) {
+    handleMqlError(error, res, next, "fetching MQL webhook deliveries");
   }
 });
 
-export default mqlRouter;
\ No newline at end of file
+export default mqlRouter;
@@ -0,0 +1,74 @@
+import express from 'express';
+import multer from 'multer';
+import { logger } from '../logger';
+import { FormError, getPublicForm, MAX_FORM_FILE_SIZE_BYTES, submitPublicForm } from '../services/forms';
+
+/**
+ * Form links filled out by leads; the token is the only credential
+ */
+const router = express.Router();
+
+// Answers arrive as a JSON "answers" part, file answers as parts named by field key
+const formUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FORM_FILE_SIZE_BYTES, files: 20, fieldSize: 1024 * 1024 }
+});
+
+function handleFormError(error: unknown, res: express.Response, next: express.NextFunction, context: string) {
+  if (error instanceof FormError) {
+    return res.status(error.statusCode).json({ message: error.message, fieldErrors: error.fieldErrors });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/public/forms/:token
+ * The form's fields; the first visit marks it viewed
+ */
+router.get('/:token', async (req, res, next) => {
+  try {
+    res.json(await getPublicForm(req.params.token));
+  } catch (error) {
+    handleFormError(error, res, next, 'fetching public form');
+  }
+});
+
+/**
+ * POST /api/public/forms/:token
+ * Submit the answers; responds 422 with an error per field when they do not
+ * match the form
+ */
+router.post('/:token', (req, res, next) => {
+  formUpload.any()(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Files may be at most ${Math.round(MAX_FORM_FILE_SIZE_BYTES / (1024 * 1024))} MB`
+        : error.message;
+      return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ message });
+    }
+    next(error);
+  });
+}, async (req, res, next) => {
+  try {
+    let answers: Record<string, unknown> = req.body ?? {};
+    if (typeof req.body?.answers === 'string') {
+      try {
+        answers = JSON.parse(req.body.answers);
+      } catch {
+        return res.status(400).json({ message: 'Invalid answers' });
+      }
+    }
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return res.status(400).json({ message: 'Invalid answers' });
+    }
+
+    const files = Array.isArray(req.files) ? req.files : [];
+    await submitPublicForm(req.params.token, answers, files);
+    res.status(201).json({ message: 'Thank you, your form has been submitted' });
+  } catch (error) {
+    handleFormError(error, res, next, 'submitting public form');
+  }
+});
+
+export default router;
@@ -0,0 +1,52 @@
+import express from 'express';
+import { z } from 'zod';
+import { logger } from '../logger';
+import { getPublicSurvey, respondToSurvey, SurveyError } from '../services/surveys';
+
+/**
+ * Survey links answered by customers; the token is the only credential
+ */
+const router = express.Router();
+
+const responseSchema = z.object({
+  score: z.number().int().min(0).max(10),
+  comment: z.string().max(5000).nullable().optional()
+});
+
+function handleSurveyError(error: unknown, res: express.Response, next: express.NextFunction, context: string) {
+  if (error instanceof SurveyError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/public/surveys/:token
+ */
+router.get('/:token', async (req, res, next) => {
+  try {
+    res.json(await getPublicSurvey(req.params.token));
+  } catch (error) {
+    handleSurveyError(error, res, next, 'fetching public survey');
+  }
+});
+
+/**
+ * POST /api/public/surveys/:token
+ * Record the score and comment; a survey can be answered once
+ */
+router.post('/:token', async (req, res, next) => {
+  try {
+    const parsed = responseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Please choose a score from 0 to 10', errors: parsed.error.format() });
+    }
+    await respondToSurvey(req.params.token, parsed.data);
+    res.status(201).json({ message: 'Thank you for your feedback' });
+  } catch (error) {
+    handleSurveyError(error, res, next, 'recording survey response');
+  }
+});
+
+export default router;
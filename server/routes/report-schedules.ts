@@ -0,0 +1,79 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import {
+  isReportJob,
+  listReportSchedules,
+  ReportScheduleError,
+  runReportJob,
+  setReportSchedulePaused
+} from '../services/report-schedules';
+
+const router = express.Router();
+
+const pauseSchema = z.object({
+  paused: z.boolean()
+});
+
+/**
+ * GET /api/admin/report-schedules
+ * Dispatch report jobs of the organization with their next run (in the
+ * organization's timezone), pause state and last run
+ */
+router.get('/', createAuthMiddleware(3), async (req, res, next) => {
+  try {
+    res.json(await listReportSchedules(req.user!.orgId!));
+  } catch (error) {
+    logger.error('Error fetching report schedules:', error);
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/admin/report-schedules/:job
+ * Pause or resume a job
+ */
+router.patch('/:job', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const { job } = req.params;
+    if (!isReportJob(job)) {
+      return res.status(404).json({ message: 'Unknown report job' });
+    }
+    const parsed = pauseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid schedule update', errors: parsed.error.format() });
+    }
+
+    const orgId = req.user!.orgId!;
+    await setReportSchedulePaused(orgId, job, parsed.data.paused);
+    const schedules = await listReportSchedules(orgId);
+    res.json(schedules.find(schedule => schedule.job === job));
+  } catch (error) {
+    logger.error('Error updating report schedule:', error);
+    next(error);
+  }
+});
+
+/**
+ * POST /api/admin/report-schedules/:job/run
+ * Run a job now, whether or not it is paused, and return the recorded run
+ */
+router.post('/:job/run', createAuthMiddleware(4), async (req, res, next) => {
+  try {
+    const { job } = req.params;
+    if (!isReportJob(job)) {
+      return res.status(404).json({ message: 'Unknown report job' });
+    }
+    const run = await runReportJob(req.user!.orgId!, job, 'manual', { userId: req.user!.id });
+    res.status(run.status === 'failed' ? 500 : 200).json(run);
+  } catch (error) {
+    if (error instanceof ReportScheduleError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    logger.error('Error running report job:', error);
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+import express from 'express';
+import { z } from 'zod';
+import { createAuthMiddleware } from '../auth-middleware';
+import { logger } from '../logger';
+import {
+  createSurvey,
+  getNpsReport,
+  getSurvey,
+  listSurveys,
+  sendSurvey,
+  SURVEY_TYPES,
+  SurveyError,
+  updateSurvey
+} from '../services/surveys';
+
+const router = express.Router();
+
+const surveySchema = z.object({
+  title: z.string().min(1).max(200),
+  type: z.enum(SURVEY_TYPES).default('nps'),
+  leadId: z.number().int().positive().nullable().optional(),
+  accountId: z.number().int().positive().nullable().optional(),
+  send: z.boolean().optional()
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+
+function handleSurveyError(error: unknown, res: express.Response, next: express.NextFunction, context: string) {
+  if (error instanceof SurveyError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  logger.error(`Error ${context}:`, error);
+  next(error);
+}
+
+/**
+ * GET /api/crm/surveys
+ * Surveys of the organization with their lead and account names
+ */
+router.get('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await listSurveys(req.user!.orgId!));
+  } catch (error) {
+    handleSurveyError(error, res, next, 'fetching surveys');
+  }
+});
+
+/**
+ * GET /api/crm/surveys/reports/nps?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Promoters, passives and detractors overall, by month and by assigned rep
+ */
+router.get('/reports/nps', createAuthMiddleware(2), async (req, res, next) => {
+  try {
+    const from = dateSchema.safeParse(req.query.from);
+    const to = dateSchema.safeParse(req.query.to);
+    if (!from.success || !to.success) {
+      return res.status(400).json({ message: 'Dates must be YYYY-MM-DD' });
+    }
+    res.json(await getNpsReport(req.user!.orgId!, { from: from.data, to: to.data }));
+  } catch (error) {
+    handleSurveyError(error, res, next, 'building NPS report');
+  }
+});
+
+/**
+ * GET /api/crm/surveys/:id
+ */
+router.get('/:id', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await getSurvey(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleSurveyError(error, res, next, 'fetching survey');
+  }
+});
+
+/**
+ * POST /api/crm/surveys
+ * Create a survey for a lead or an account; with send: true the link is emailed right away
+ */
+router.post('/', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = surveySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid survey', errors: parsed.error.format() });
+    }
+    const { send, ...input } = parsed.data;
+    const orgId = req.user!.orgId!;
+    const survey = await createSurvey(orgId, req.user!.id, input);
+    res.status(201).json(send ? await sendSurvey(survey.id, orgId) : survey);
+  } catch (error) {
+    handleSurveyError(error, res, next, 'creating survey');
+  }
+});
+
+/**
+ * PUT /api/crm/surveys/:id
+ * Edit a survey that has not been sent
+ */
+router.put('/:id', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    const parsed = surveySchema.omit({ send: true }).partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid survey', errors: parsed.error.format() });
+    }
+    res.json(await updateSurvey(Number(req.params.id), req.user!.orgId!, parsed.data));
+  } catch (error) {
+    handleSurveyError(error, res, next, 'updating survey');
+  }
+});
+
+/**
+ * POST /api/crm/surveys/:id/send
+ * Email the survey link to the recipient (again)
+ */
+router.post('/:id/send', createAuthMiddleware(1), async (req, res, next) => {
+  try {
+    res.json(await sendSurvey(Number(req.params.id), req.user!.orgId!));
+  } catch (error) {
+    handleSurveyError(error, res, next, 'sending survey');
+  }
+});
+
+export default router;
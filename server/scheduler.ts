@@ -27,8 +27,10 @@ import {
   differenceInDays
 } from 'date-fns';
 // Import required modules
-import { initializeDispatchReportAutomation } from './dispatch-report-automation';
 import { sendSlackMessage, sendSlackNotification } from './slack';
+import { runInvoiceDunning } from './services/invoice-dunning';
+import { runComplianceExpiryAlerts } from './services/carrier-compliance';
+import { runDueReportJobs } from './services/report-schedules';
 
 // Circuit breaker implementation for job error recovery
 class JobCircuitBreaker {
@@ -142,23 +144,6 @@ export function scheduleDailyTasksReminder() {
   }, null, true, 'America/New_York');
 }
 
-/**
- * Creates daily report reminders 15 minutes before the end of dispatcher's shift
- * Default shift is 8 hours from start (09:00 - 17:00)
- */
-export function scheduleDailyReportReminder() {
-  // Temporarily disabled due to TypeScript schema conflicts
-  return new CronJob('45 16 * * *', async () => {
-    console.log('Daily report reminder cron job temporarily disabled - schema update needed');
-    try {
-      // TODO: Fix TypeScript schema conflicts before re-enabling
-      console.log('Skipping dispatcher report creation due to schema issues');
-    } catch (error) {
-      console.error('Error in daily report reminder cron job:', error);
-    }
-  }, null, false, 'America/New_York'); // Disabled
-}
-
 /**
  * Checks weekly invoice targets every Friday at 23:00
  * Sends performance alerts to dispatchers based on their progress
@@ -797,40 +782,102 @@ export function scheduleWeeklyLeadStatusCheck() {
   }, null, true, 'America/New_York');
 }
 
+/**
+ * Marks invoices overdue and sends escalating payment reminders
+ * (friendly reminder, urgent payment, overdue notice) at the day offsets
+ * configured per organization
+ * Runs at 08:00 AM every day
+ */
+export function scheduleInvoiceDunning() {
+  return new CronJob('0 8 * * *', async () => {
+    await jobCircuitBreaker.execute('invoiceDunning', async () => {
+      console.log('Running invoice dunning cron job');
+      try {
+        await runInvoiceDunning();
+      } catch (error) {
+        console.error('Error in invoice dunning cron job:', error);
+        throw error;
+      }
+    });
+  }, null, true, 'America/New_York');
+}
+
+/**
+ * Warns dispatchers 30, 15 and 3 days before a carrier's insurance or
+ * Notice of Assignment expires, and again once it has expired
+ * Runs at 07:30 AM every day
+ */
+export function scheduleCarrierComplianceAlerts() {
+  return new CronJob('30 7 * * *', async () => {
+    await jobCircuitBreaker.execute('carrierComplianceAlerts', async () => {
+      console.log('Running carrier compliance expiry cron job');
+      try {
+        await runComplianceExpiryAlerts();
+      } catch (error) {
+        console.error('Error in carrier compliance expiry cron job:', error);
+        throw error;
+      }
+    });
+  }, null, true, 'America/New_York');
+}
+
+/**
+ * Runs the dispatch report jobs (daily reminder, daily generation, monthly
+ * summary) of each organization once they are due in its own timezone and
+ * working hours, see services/report-schedules
+ * Checks every 5 minutes
+ */
+export function scheduleDispatchReportJobs() {
+  return new CronJob('*/5 * * * *', async () => {
+    await jobCircuitBreaker.execute('dispatchReportJobs', async () => {
+      try {
+        const runs = await runDueReportJobs();
+        if (runs.length > 0) {
+          console.log(`Ran ${runs.length} dispatch report job(s)`);
+        }
+      } catch (error) {
+        console.error('Error in dispatch report jobs:', error);
+        throw error;
+      }
+    });
+  }, null, true, 'UTC');
+}
+
 /**
  * Initializes all scheduler jobs
  */
 export function initializeScheduler() {
   const dailyTasksJob = scheduleDailyTasksReminder();
-  const dailyReportJob = scheduleDailyReportReminder();
   const weeklyInvoiceJob = scheduleWeeklyInvoiceTargetCheck();
   const leadFollowUpJob = scheduleLeadFollowUpCheck();
   const weeklyInactiveLeadsJob = scheduleWeeklyInactiveLeadsReminder();
   const dailyPerformanceAlertsJob = scheduleDailyPerformanceAlerts();
   const weeklyLeadStatusCheckJob = scheduleWeeklyLeadStatusCheck();
+  const invoiceDunningJob = scheduleInvoiceDunning();
+  const carrierComplianceJob = scheduleCarrierComplianceAlerts();
 
-  // Initialize the dispatch report automation jobs
-  const dispatchReportJobs = initializeDispatchReportAutomation();
+  const dispatchReportJobs = scheduleDispatchReportJobs();
 
   console.log('Scheduler initialized with the following jobs:');
   console.log('- Daily Tasks Reminder: runs at 09:00 daily');
-  console.log('- Daily Report Reminder: runs at 16:45 daily');
   console.log('- Weekly Invoice Target Check: runs at 23:00 on Fridays');
   console.log('- Lead Follow-up Check: runs at 10:00 daily');
   console.log('- Weekly Inactive Leads Reminder: runs at 10:00 on Mondays');
   console.log('- Daily Performance Alerts: runs at 19:00 daily');
   console.log('- Weekly Lead Status Check: runs at 09:30 on Mondays');
-  console.log('- Daily Report Generation: runs at 18:00 daily');
-  console.log('- Monthly Report Generation: runs at 01:00 on the 1st of each month');
+  console.log('- Invoice Dunning: runs at 08:00 daily');
+  console.log('- Carrier Compliance Alerts: runs at 07:30 daily');
+  console.log('- Dispatch Report Jobs: checked every 5 minutes against each organization\'s schedule');
 
   return {
     dailyTasksJob,
-    dailyReportJob,
     weeklyInvoiceJob,
     leadFollowUpJob,
     weeklyInactiveLeadsJob,
     dailyPerformanceAlertsJob,
     weeklyLeadStatusCheckJob,
+    invoiceDunningJob,
+    carrierComplianceJob,
     dispatchReportJobs
   };
 }
\ No newline at end of file
@@ -0,0 +1,409 @@
+/**
+ * Billing Runs
+ *
+ * Turns delivered loads into invoices, one draft invoice per client (lead)
+ * for a delivery date range. A load is billed at most once: loads already
+ * referenced by invoice_items of a non-void invoice are skipped, and the selected loads are locked
+ * and moved to 'invoiced' in the same transaction that creates the invoice
+ * and its items. Re-running a range that was already billed is a no-op.
+ * Loads without a verified POD are skipped until their POD is verified.
+ * Invoices entered by hand go through createInvoice so they are numbered
+ * from the same sequence.
+ */
+
+import { and, asc, between, eq, inArray, ne, type SQL } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { allocateInvoiceNumber } from './invoice-numbering';
+import { regenerateInvoicePdf } from './invoice-pdf';
+import { loadsMissingVerifiedPod } from './load-documents';
+import { recordLoadStatusChanges } from './load-lifecycle';
+import { describeLoadRoute, getStopsForLoads } from './load-stops';
+import {
+  activities,
+  invoiceItems,
+  invoices,
+  leads,
+  loads,
+  type InsertInvoice,
+  type InsertInvoiceItem,
+  type Invoice,
+  type InvoiceItem,
+  type Load
+} from '@shared/schema';
+
+export const DEFAULT_PAYMENT_TERM_DAYS = 30;
+
+export interface BillingRunOptions {
+  from: string; // YYYY-MM-DD, delivery date
+  to: string; // YYYY-MM-DD, delivery date
+  paymentTermDays?: number;
+}
+
+export interface BillingRunInvoice {
+  invoiceId: number;
+  invoiceNumber: string;
+  leadId: number;
+  companyName: string;
+  loadIds: number[];
+  totalAmount: number;
+}
+
+export interface BillingRunSkippedLoad {
+  loadId: number;
+  leadId: number;
+  reason: 'already_invoiced' | 'unknown_client' | 'missing_verified_pod';
+}
+
+export interface BillingRunReport {
+  orgId: number;
+  from: string;
+  to: string;
+  ranAt: string;
+  invoices: BillingRunInvoice[];
+  skipped: BillingRunSkippedLoad[];
+  invoicedLoads: number;
+  totalAmount: number;
+}
+
+export class BillingRunError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'BillingRunError';
+    this.statusCode = statusCode;
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Service charge billed for a load: the amount stored on the load, or the
+ * client's serviceCharges percentage of the freight when the load has none
+ */
+export function loadServiceCharge(load: Pick<Load, 'freightAmount' | 'serviceCharge'>, leadServiceChargePct: number | null): number {
+  if (load.serviceCharge > 0) {
+    return roundCurrency(load.serviceCharge);
+  }
+  return roundCurrency(load.freightAmount * (leadServiceChargePct ?? 0) / 100);
+}
+
+/**
+ * Lock the matching loads of an organization in 'delivered' and sort out
+ * those that cannot be billed yet. Locking makes a concurrent run or manual
+ * invoice wait and then drop the loads already moved to 'invoiced'.
+ */
+async function lockBillableLoads(
+  tx: DbExecutor,
+  orgId: number,
+  filter: SQL | undefined
+): Promise<{ loads: Load[]; billed: Set<number>; missingPod: Set<number> }> {
+  const candidates = await tx
+    .select()
+    .from(loads)
+    .where(and(eq(loads.orgId, orgId), eq(loads.status, 'delivered'), filter))
+    .orderBy(asc(loads.deliveryDate), asc(loads.id))
+    .for('update');
+  if (candidates.length === 0) {
+    return { loads: [], billed: new Set(), missingPod: new Set() };
+  }
+
+  // Items of voided invoices no longer count, their loads are billable again
+  const billed = await tx
+    .select({ loadId: invoiceItems.loadId })
+    .from(invoiceItems)
+    .innerJoin(invoices, eq(invoices.id, invoiceItems.invoiceId))
+    .where(and(
+      inArray(invoiceItems.loadId, candidates.map(load => load.id)),
+      ne(invoices.status, 'void')
+    ));
+  return {
+    loads: candidates,
+    billed: new Set(billed.map(row => row.loadId)),
+    missingPod: new Set(await loadsMissingVerifiedPod(candidates.map(load => load.id), tx))
+  };
+}
+
+async function markLoadsInvoiced(tx: DbExecutor, invoicedLoads: Load[], userId: number, invoiceNumber: string): Promise<void> {
+  await tx
+    .update(loads)
+    .set({ status: 'invoiced', updatedAt: new Date() })
+    .where(inArray(loads.id, invoicedLoads.map(load => load.id)));
+  await recordLoadStatusChanges(tx, invoicedLoads, 'invoice', userId, `Invoice #${invoiceNumber}`);
+}
+
+/**
+ * Delivery date range for the weekly run: the seven days up to today
+ */
+export function weeklyBillingRange(now: Date = new Date()): { from: string; to: string } {
+  const to = now.toISOString().slice(0, 10);
+  return { from: addDays(to, -7), to };
+}
+
+/**
+ * Invoice the delivered, not yet invoiced loads of an organization
+ */
+export async function runBilling(orgId: number, options: BillingRunOptions, userId: number): Promise<BillingRunReport> {
+  const { from, to } = options;
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    throw new BillingRunError('Billing range dates must be YYYY-MM-DD');
+  }
+  if (from > to) {
+    throw new BillingRunError('Billing range start must not be after its end');
+  }
+
+  const ranAt = new Date();
+  const issuedDate = ranAt.toISOString().slice(0, 10);
+  const dueDate = addDays(issuedDate, options.paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS);
+
+  const report = await db.transaction(async (tx) => {
+    const report: BillingRunReport = {
+      orgId,
+      from,
+      to,
+      ranAt: ranAt.toISOString(),
+      invoices: [],
+      skipped: [],
+      invoicedLoads: 0,
+      totalAmount: 0
+    };
+
+    const { loads: candidates, billed: billedLoadIds, missingPod } =
+      await lockBillableLoads(tx, orgId, between(loads.deliveryDate, from, to));
+    if (candidates.length === 0) {
+      return report;
+    }
+
+    const clients = await tx
+      .select({ id: leads.id, companyName: leads.companyName, serviceCharges: leads.serviceCharges })
+      .from(leads)
+      .where(inArray(leads.id, Array.from(new Set(candidates.map(load => load.leadId)))));
+    const clientsById = new Map(clients.map(client => [client.id, client]));
+
+    const stopsByLoad = await getStopsForLoads(candidates.map(load => load.id), tx);
+
+    const loadsByLead = new Map<number, Load[]>();
+    for (const load of candidates) {
+      if (billedLoadIds.has(load.id)) {
+        report.skipped.push({ loadId: load.id, leadId: load.leadId, reason: 'already_invoiced' });
+      } else if (missingPod.has(load.id)) {
+        report.skipped.push({ loadId: load.id, leadId: load.leadId, reason: 'missing_verified_pod' });
+      } else if (!clientsById.has(load.leadId)) {
+        report.skipped.push({ loadId: load.id, leadId: load.leadId, reason: 'unknown_client' });
+      } else {
+        loadsByLead.set(load.leadId, [...(loadsByLead.get(load.leadId) ?? []), load]);
+      }
+    }
+
+    for (const [leadId, leadLoads] of Array.from(loadsByLead.entries())) {
+      const client = clientsById.get(leadId)!;
+      const lines = leadLoads.map(load => ({
+        load,
+        amount: roundCurrency(load.freightAmount + loadServiceCharge(load, client.serviceCharges))
+      }));
+      const totalAmount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+      const [invoice] = await tx
+        .insert(invoices)
+        .values({
+          orgId,
+          leadId,
+          invoiceNumber: await allocateInvoiceNumber(orgId, ranAt, tx),
+          totalAmount,
+          status: 'draft',
+          issuedDate,
+          dueDate,
+          createdBy: userId,
+          notes: `Billing run for loads delivered ${from} to ${to} (${leadLoads.length} loads).`
+        })
+        .returning();
+
+      await tx.insert(invoiceItems).values(lines.map(line => ({
+        invoiceId: invoice.id,
+        loadId: line.load.id,
+        description: `Load #${line.load.id}: ${describeLoadRoute(line.load, stopsByLoad.get(line.load.id))}`,
+        amount: line.amount
+      })));
+
+      await markLoadsInvoiced(tx, leadLoads, userId, invoice.invoiceNumber);
+
+      report.invoices.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        leadId,
+        companyName: client.companyName,
+        loadIds: leadLoads.map(load => load.id),
+        totalAmount
+      });
+      report.invoicedLoads += leadLoads.length;
+      report.totalAmount = roundCurrency(report.totalAmount + totalAmount);
+    }
+
+    if (report.invoices.length > 0) {
+      await tx.insert(activities).values({
+        userId,
+        entityType: 'invoice',
+        entityId: 0, // Organization-wide activity
+        action: 'billing_run',
+        details: `Billing run ${from} to ${to}: ${report.invoices.length} invoices for ${report.invoicedLoads} loads`,
+        metadata: {
+          from,
+          to,
+          invoiceIds: report.invoices.map(invoice => invoice.invoiceId),
+          skipped: report.skipped.length
+        }
+      });
+    }
+
+    return report;
+  });
+
+  for (const invoice of report.invoices) {
+    regenerateInvoicePdf(invoice.invoiceId);
+  }
+
+  logger.info(`Billing run for org ${orgId} (${from} to ${to}): ${report.invoices.length} invoices, ${report.invoicedLoads} loads, ${report.skipped.length} skipped`);
+  return report;
+}
+
+/**
+ * Create a single invoice with its items. The invoice number is allocated in
+ * the same transaction, so a failed insert does not leave a gap. Every item
+ * must be a delivered, not yet invoiced load of the organization with a
+ * verified POD; those loads move to 'invoiced'.
+ */
+export async function createInvoice(
+  orgId: number,
+  userId: number,
+  invoice: Omit<InsertInvoice, 'orgId' | 'invoiceNumber' | 'createdBy'>,
+  items: Array<Omit<InsertInvoiceItem, 'invoiceId'>>
+): Promise<{ invoice: Invoice; items: InvoiceItem[] }> {
+  const loadIds = Array.from(new Set(items.map(item => item.loadId)));
+  if (loadIds.length !== items.length) {
+    throw new BillingRunError('A load can only appear once on an invoice');
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const billable = loadIds.length > 0
+      ? await lockBillableLoads(tx, orgId, inArray(loads.id, loadIds))
+      : { loads: [], billed: new Set<number>(), missingPod: new Set<number>() };
+    const lockedIds = new Set(billable.loads.map(load => load.id));
+    const unavailable = loadIds.filter(id => !lockedIds.has(id) || billable.billed.has(id));
+    if (unavailable.length > 0) {
+      throw new BillingRunError(
+        `Load${unavailable.length > 1 ? 's' : ''} ${unavailable.map(id => `#${id}`).join(', ')} cannot be invoiced: not a delivered, unbilled load of this organization`,
+        409
+      );
+    }
+    if (billable.missingPod.size > 0) {
+      const missingPod = Array.from(billable.missingPod);
+      throw new BillingRunError(
+        `A verified POD is required before invoicing load${missingPod.length > 1 ? 's' : ''} ${missingPod.map(id => `#${id}`).join(', ')}`,
+        422
+      );
+    }
+
+    const invoiceNumber = await allocateInvoiceNumber(orgId, new Date(), tx);
+    const now = new Date();
+    const [created] = await tx
+      .insert(invoices)
+      .values({ ...invoice, orgId, invoiceNumber, createdBy: userId, createdAt: now, updatedAt: now })
+      .returning();
+
+    const createdItems = items.length > 0
+      ? await tx.insert(invoiceItems).values(items.map(item => ({ ...item, invoiceId: created.id }))).returning()
+      : [];
+    if (billable.loads.length > 0) {
+      await markLoadsInvoiced(tx, billable.loads, userId, invoiceNumber);
+    }
+    return { invoice: created, items: createdItems };
+  });
+
+  if (result.items.length > 0) {
+    regenerateInvoicePdf(result.invoice.id);
+  }
+  return result;
+}
+
+export interface InvoiceChanges {
+  notes?: string | null;
+  dueDate?: string;
+  // Line amounts by load; only a draft's lines can change
+  items?: Array<{ loadId: number; amount: number; description?: string }>;
+}
+
+/**
+ * Edit the notes and due date of an invoice and, while it is a draft, the
+ * amounts of its lines. The total follows the lines.
+ */
+export async function updateInvoice(orgId: number, invoiceId: number, changes: InvoiceChanges): Promise<{ invoice: Invoice; items: InvoiceItem[] }> {
+  const result = await db.transaction(async (tx) => {
+    const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+    if (!invoice || invoice.orgId !== orgId) {
+      throw new BillingRunError('Invoice not found', 404);
+    }
+
+    let items = await tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+    let totalAmount = invoice.totalAmount;
+    if (changes.items) {
+      const byLoad = new Map(items.map(item => [item.loadId, item]));
+      const edited = changes.items.filter(line => {
+        const item = byLoad.get(line.loadId);
+        if (!item) {
+          throw new BillingRunError(`Load #${line.loadId} is not on this invoice`);
+        }
+        return item.amount !== line.amount || (line.description !== undefined && item.description !== line.description);
+      });
+
+      if (edited.length > 0 && invoice.status !== 'draft') {
+        throw new BillingRunError('The lines of a sent invoice cannot be changed; issue a credit note instead', 409);
+      }
+      for (const line of edited) {
+        await tx
+          .update(invoiceItems)
+          .set({ amount: roundCurrency(line.amount), description: line.description ?? byLoad.get(line.loadId)!.description })
+          .where(eq(invoiceItems.id, byLoad.get(line.loadId)!.id));
+      }
+      if (edited.length > 0) {
+        items = await tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+        totalAmount = roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+      }
+    }
+
+    const [updated] = await tx
+      .update(invoices)
+      .set({
+        notes: changes.notes === undefined ? invoice.notes : changes.notes,
+        dueDate: changes.dueDate ?? invoice.dueDate,
+        totalAmount,
+        updatedAt: new Date()
+      })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    return { invoice: updated, items };
+  });
+
+  regenerateInvoicePdf(invoiceId);
+  return result;
+}
+
+export default {
+  runBilling,
+  createInvoice,
+  updateInvoice,
+  weeklyBillingRange,
+  loadServiceCharge
+};
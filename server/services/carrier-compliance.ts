@@ -0,0 +1,373 @@
+/**
+ * Carrier Compliance
+ *
+ * Compliance profile of a dispatch client: its insurance certificate, W-9,
+ * factoring Notice of Assignment and equipment, next to the MC/DOT numbers
+ * of its lead. A daily job warns the carrier's dispatcher 30, 15 and 3 days
+ * before a document expires and once more when it has expired; each warning
+ * is recorded as an activity on the dispatch client so it is sent only once.
+ * No new loads can be booked for a carrier whose insurance has expired.
+ */
+
+import { and, desc, eq, inArray, isNotNull, or } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { emitToUser, RealTimeEvents } from '../socket';
+import {
+  activities,
+  carrierComplianceProfiles,
+  dispatch_clients,
+  leadHandoffs,
+  leads,
+  notifications,
+  type CarrierComplianceProfile,
+  type DispatchClient,
+  type Lead
+} from '@shared/schema';
+
+export const EXPIRY_WARNING_DAYS = [30, 15, 3];
+
+export const EXPIRY_ACTIVITY_ACTION = 'compliance_expiry_warning';
+
+export type ExpiringDocument = 'insurance' | 'noa';
+
+const EXPIRING_DOCUMENTS: Array<{ document: ExpiringDocument; label: string; field: 'insuranceExpiresOn' | 'noaExpiresOn' }> = [
+  { document: 'insurance', label: 'Insurance certificate', field: 'insuranceExpiresOn' },
+  { document: 'noa', label: 'Factoring Notice of Assignment', field: 'noaExpiresOn' }
+];
+
+export interface CarrierEquipment {
+  equipmentType: string;
+  trucks: number;
+  trailers: number;
+}
+
+export interface CarrierComplianceInput {
+  dispatcherId?: number | null;
+  insuranceProvider?: string | null;
+  insurancePolicyNumber?: string | null;
+  insuranceCertificateUrl?: string | null;
+  insuranceExpiresOn?: string | null;
+  w9Url?: string | null;
+  w9ReceivedOn?: string | null;
+  factoringCompany?: string | null;
+  noaUrl?: string | null;
+  noaExpiresOn?: string | null;
+  equipment?: CarrierEquipment[];
+}
+
+export type DocumentStatus = 'missing' | 'valid' | 'expiring' | 'expired';
+
+export interface ComplianceDocumentStatus {
+  document: 'insurance' | 'w9' | 'noa';
+  label: string;
+  url: string | null;
+  expiresOn: string | null;
+  daysUntilExpiry: number | null;
+  status: DocumentStatus;
+}
+
+export interface ExpiryAlertRunResult {
+  sent: number;
+  skipped: number;
+}
+
+export class CarrierComplianceError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'CarrierComplianceError';
+    this.statusCode = statusCode;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+function expiryStatus(expiresOn: string | null, today: string): Pick<ComplianceDocumentStatus, 'daysUntilExpiry' | 'status'> {
+  if (!expiresOn) {
+    return { daysUntilExpiry: null, status: 'missing' };
+  }
+  const days = daysBetween(today, expiresOn);
+  if (days < 0) return { daysUntilExpiry: days, status: 'expired' };
+  return { daysUntilExpiry: days, status: days <= EXPIRY_WARNING_DAYS[0] ? 'expiring' : 'valid' };
+}
+
+/**
+ * Status of every compliance document of a profile
+ */
+export function complianceDocuments(profile: CarrierComplianceProfile | null, today: string = toDateString(new Date())): ComplianceDocumentStatus[] {
+  const insurance = expiryStatus(profile?.insuranceExpiresOn ?? null, today);
+  const noa = expiryStatus(profile?.noaExpiresOn ?? null, today);
+  return [
+    {
+      document: 'insurance',
+      label: 'Insurance certificate',
+      url: profile?.insuranceCertificateUrl ?? null,
+      expiresOn: profile?.insuranceExpiresOn ?? null,
+      // A certificate is only complete with its expiry date
+      ...insurance
+    },
+    {
+      document: 'w9',
+      label: 'W-9',
+      url: profile?.w9Url ?? null,
+      expiresOn: null,
+      daysUntilExpiry: null,
+      status: profile?.w9Url ? 'valid' : 'missing'
+    },
+    {
+      document: 'noa',
+      label: 'Factoring Notice of Assignment',
+      url: profile?.noaUrl ?? null,
+      expiresOn: profile?.noaExpiresOn ?? null,
+      // A Notice of Assignment without an end date stays valid
+      ...(profile?.noaUrl ? (profile.noaExpiresOn ? noa : { daysUntilExpiry: null, status: 'valid' as const }) : { daysUntilExpiry: null, status: 'missing' as const })
+    }
+  ];
+}
+
+function equipmentTotals(equipment: CarrierEquipment[]) {
+  return equipment.reduce(
+    (totals, item) => ({ trucks: totals.trucks + (item.trucks || 0), trailers: totals.trailers + (item.trailers || 0) }),
+    { trucks: 0, trailers: 0 }
+  );
+}
+
+function insuranceExpired(profile: Pick<CarrierComplianceProfile, 'insuranceExpiresOn'> | null, today: string): boolean {
+  return !!profile?.insuranceExpiresOn && profile.insuranceExpiresOn < today;
+}
+
+async function findClient(dispatchClientId: number, orgId: number): Promise<{ client: DispatchClient; lead: Lead }> {
+  const [row] = await db
+    .select({ client: dispatch_clients, lead: leads })
+    .from(dispatch_clients)
+    .innerJoin(leads, eq(leads.id, dispatch_clients.leadId))
+    .where(eq(dispatch_clients.id, dispatchClientId));
+  if (!row || row.client.orgId !== orgId) {
+    throw new CarrierComplianceError('Dispatch client not found', 404);
+  }
+  return row;
+}
+
+export async function getCarrierCompliance(dispatchClientId: number, orgId: number, now: Date = new Date()) {
+  const { client, lead } = await findClient(dispatchClientId, orgId);
+  const [profile] = await db
+    .select()
+    .from(carrierComplianceProfiles)
+    .where(eq(carrierComplianceProfiles.dispatchClientId, dispatchClientId));
+
+  const today = toDateString(now);
+  const equipment = (profile?.equipment as CarrierEquipment[] | null) ?? [];
+  const blocked = insuranceExpired(profile ?? null, today);
+
+  return {
+    dispatchClientId: client.id,
+    companyName: lead.companyName,
+    mcNumber: lead.mcNumber,
+    dotNumber: lead.dotNumber,
+    profile: profile ?? null,
+    documents: complianceDocuments(profile ?? null, today),
+    equipment,
+    equipmentTotals: equipmentTotals(equipment),
+    canBookLoads: !blocked,
+    blockedReason: blocked ? `Insurance expired on ${profile!.insuranceExpiresOn}` : null
+  };
+}
+
+/**
+ * Create or update the compliance profile of a dispatch client
+ */
+export async function saveCarrierCompliance(
+  dispatchClientId: number,
+  orgId: number,
+  userId: number,
+  input: CarrierComplianceInput
+): Promise<CarrierComplianceProfile> {
+  await findClient(dispatchClientId, orgId);
+
+  const values = { ...input, updatedBy: userId, updatedAt: new Date() };
+  const [profile] = await db
+    .insert(carrierComplianceProfiles)
+    .values({ ...values, orgId, dispatchClientId })
+    .onConflictDoUpdate({ target: carrierComplianceProfiles.dispatchClientId, set: values })
+    .returning();
+
+  logger.info(`Dispatch client ${dispatchClientId}: compliance profile updated by user ${userId}`);
+  return profile;
+}
+
+/**
+ * Refuse to book a load for a carrier whose insurance has expired
+ */
+export async function assertCarrierCanBook(leadId: number, now: Date = new Date()): Promise<void> {
+  const [row] = await db
+    .select({ insuranceExpiresOn: carrierComplianceProfiles.insuranceExpiresOn, companyName: leads.companyName })
+    .from(carrierComplianceProfiles)
+    .innerJoin(dispatch_clients, eq(dispatch_clients.id, carrierComplianceProfiles.dispatchClientId))
+    .innerJoin(leads, eq(leads.id, dispatch_clients.leadId))
+    .where(eq(dispatch_clients.leadId, leadId));
+
+  if (row && insuranceExpired(row, toDateString(now))) {
+    throw new CarrierComplianceError(
+      `Insurance of ${row.companyName} expired on ${row.insuranceExpiresOn}; upload a current certificate before booking new loads`,
+      409
+    );
+  }
+}
+
+/**
+ * The tightest warning a document has reached that was not sent yet for its
+ * current expiry date: a day threshold, 0 once it has expired, or null
+ */
+export function dueExpiryWarning(daysUntilExpiry: number, sentThresholds: number[]): number | null {
+  const reached = daysUntilExpiry < 0
+    ? 0
+    : EXPIRY_WARNING_DAYS.filter(days => daysUntilExpiry <= days).reduce<number | null>((min, days) => (min === null || days < min ? days : min), null);
+  if (reached === null || sentThresholds.some(sent => sent <= reached)) {
+    return null;
+  }
+  return reached;
+}
+
+// Explicit dispatcher of the profile, else the one who accepted the carrier's handoff
+async function resolveDispatcher(profile: CarrierComplianceProfile, leadId: number): Promise<number | null> {
+  if (profile.dispatcherId) {
+    return profile.dispatcherId;
+  }
+  const [handoff] = await db
+    .select({ dispatcherId: leadHandoffs.dispatcherId })
+    .from(leadHandoffs)
+    .where(and(eq(leadHandoffs.leadId, leadId), eq(leadHandoffs.status, 'accepted'), isNotNull(leadHandoffs.dispatcherId)))
+    .orderBy(desc(leadHandoffs.responseDate))
+    .limit(1);
+  return handoff?.dispatcherId ?? null;
+}
+
+async function getSentWarnings(clientIds: number[]): Promise<Array<{ clientId: number; document: string; expiresOn: string; daysBefore: number }>> {
+  if (clientIds.length === 0) return [];
+
+  const rows = await db
+    .select({ entityId: activities.entityId, metadata: activities.metadata })
+    .from(activities)
+    .where(and(
+      eq(activities.entityType, 'dispatch_client'),
+      eq(activities.action, EXPIRY_ACTIVITY_ACTION),
+      inArray(activities.entityId, clientIds)
+    ));
+
+  return rows.flatMap(row => {
+    const metadata = row.metadata as { document?: string; expiresOn?: string; daysBefore?: number } | null;
+    return metadata?.document && metadata.expiresOn && typeof metadata.daysBefore === 'number'
+      ? [{ clientId: row.entityId, document: metadata.document, expiresOn: metadata.expiresOn, daysBefore: metadata.daysBefore }]
+      : [];
+  });
+}
+
+async function sendExpiryWarning(
+  profile: CarrierComplianceProfile,
+  lead: Lead,
+  dispatcherId: number,
+  document: typeof EXPIRING_DOCUMENTS[number],
+  expiresOn: string,
+  daysBefore: number
+): Promise<void> {
+  const expired = daysBefore === 0;
+  const title = expired ? `${document.label} expired` : `${document.label} expires in ${daysBefore} days`;
+  const blocking = expired && document.document === 'insurance' ? ' New loads are blocked until a current certificate is on file.' : '';
+  const message = `${document.label} of ${lead.companyName} (MC ${lead.mcNumber}) ${expired ? 'expired' : 'expires'} on ${expiresOn}.${blocking}`;
+
+  const [notification] = await db
+    .insert(notifications)
+    .values({
+      userId: dispatcherId,
+      orgId: profile.orgId,
+      title,
+      message,
+      type: expired ? 'error' : 'warning',
+      read: false,
+      entityType: 'dispatch_client',
+      entityId: profile.dispatchClientId
+    })
+    .returning();
+
+  await db.insert(activities).values({
+    userId: dispatcherId,
+    entityType: 'dispatch_client',
+    entityId: profile.dispatchClientId,
+    action: EXPIRY_ACTIVITY_ACTION,
+    details: message,
+    metadata: { document: document.document, expiresOn, daysBefore }
+  });
+
+  emitToUser(dispatcherId, RealTimeEvents.NOTIFICATION_CREATED, notification);
+}
+
+/**
+ * Run one expiry warning pass over all compliance profiles
+ */
+export async function runComplianceExpiryAlerts(now: Date = new Date()): Promise<ExpiryAlertRunResult> {
+  const today = toDateString(now);
+  const result: ExpiryAlertRunResult = { sent: 0, skipped: 0 };
+
+  const profiles = await db
+    .select({ profile: carrierComplianceProfiles, lead: leads })
+    .from(carrierComplianceProfiles)
+    .innerJoin(dispatch_clients, eq(dispatch_clients.id, carrierComplianceProfiles.dispatchClientId))
+    .innerJoin(leads, eq(leads.id, dispatch_clients.leadId))
+    .where(or(isNotNull(carrierComplianceProfiles.insuranceExpiresOn), isNotNull(carrierComplianceProfiles.noaExpiresOn)));
+
+  const sentWarnings = await getSentWarnings(profiles.map(row => row.profile.dispatchClientId));
+
+  for (const { profile, lead } of profiles) {
+    for (const document of EXPIRING_DOCUMENTS) {
+      const expiresOn = profile[document.field];
+      if (!expiresOn) continue;
+
+      // Warnings restart whenever a renewed document brings a new expiry date
+      const sent = sentWarnings
+        .filter(warning => warning.clientId === profile.dispatchClientId && warning.document === document.document && warning.expiresOn === expiresOn)
+        .map(warning => warning.daysBefore);
+      const daysBefore = dueExpiryWarning(daysBetween(today, expiresOn), sent);
+      if (daysBefore === null) continue;
+
+      const dispatcherId = await resolveDispatcher(profile, lead.id);
+      if (!dispatcherId) {
+        result.skipped++;
+        logger.warn(`Compliance warning skipped for dispatch client ${profile.dispatchClientId}: no dispatcher assigned`);
+        continue;
+      }
+
+      try {
+        await sendExpiryWarning(profile, lead, dispatcherId, document, expiresOn, daysBefore);
+        result.sent++;
+      } catch (error) {
+        result.skipped++;
+        logger.error(`Compliance warning failed for dispatch client ${profile.dispatchClientId}:`, error);
+      }
+    }
+  }
+
+  logger.info(`Carrier compliance: ${result.sent} expiry warnings sent, ${result.skipped} skipped`);
+  return result;
+}
+
+export default {
+  EXPIRY_WARNING_DAYS,
+  complianceDocuments,
+  getCarrierCompliance,
+  saveCarrierCompliance,
+  assertCarrierCanBook,
+  dueExpiryWarning,
+  runComplianceExpiryAlerts
+};
@@ -0,0 +1,275 @@
+/**
+ * Commission Approval Workflow
+ *
+ * A commission run moves calculated -> reviewed -> approved -> paid -> locked.
+ * Every transition is appended to commission_run.statusLog with the acting
+ * user and timestamp. Once a run has been paid it can no longer be
+ * recalculated; corrections are recorded as commission_adjustments instead.
+ */
+
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import {
+  commissionAdjustments,
+  commissionRun,
+  users,
+  type CommissionAdjustment,
+  type CommissionRun,
+  type User
+} from '@shared/schema';
+
+export const COMMISSION_RUN_STATUSES = ['calculated', 'reviewed', 'approved', 'paid', 'locked'] as const;
+export type CommissionRunStatus = typeof COMMISSION_RUN_STATUSES[number];
+
+/**
+ * Statuses after which the run figures are frozen
+ */
+export const FROZEN_COMMISSION_STATUSES: CommissionRunStatus[] = ['paid', 'locked'];
+
+export type CommissionRunAction = 'review' | 'approve' | 'pay' | 'lock';
+
+export interface CommissionTransition {
+  from: CommissionRunStatus;
+  to: CommissionRunStatus;
+  minRoleLevel: number;
+  // Departments allowed to perform the transition below super admin level
+  departments?: string[];
+}
+
+export const COMMISSION_TRANSITIONS: Record<CommissionRunAction, CommissionTransition> = {
+  review: { from: 'calculated', to: 'reviewed', minRoleLevel: 3 },
+  approve: { from: 'reviewed', to: 'approved', minRoleLevel: 4, departments: ['finance', 'accounting', 'admin'] },
+  pay: { from: 'approved', to: 'paid', minRoleLevel: 4, departments: ['finance', 'accounting'] },
+  lock: { from: 'paid', to: 'locked', minRoleLevel: 5 }
+};
+
+export interface CommissionActorRole {
+  level: number;
+  department?: string;
+}
+
+export interface CommissionStatusLogEntry {
+  action: CommissionRunAction | 'recalculated' | 'adjustment';
+  from: CommissionRunStatus;
+  to: CommissionRunStatus;
+  actorId: number;
+  actorName: string | null;
+  timestamp: string;
+  note?: string;
+  amount?: number;
+}
+
+export class CommissionWorkflowError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'CommissionWorkflowError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function isFrozenCommissionRun(run: Pick<CommissionRun, 'status'>): boolean {
+  return FROZEN_COMMISSION_STATUSES.includes(run.status as CommissionRunStatus);
+}
+
+/**
+ * Whether the role may perform the transition. Super admins (level 5) may
+ * perform any transition; department-restricted transitions otherwise
+ * require a matching department.
+ */
+export function canPerformTransition(role: CommissionActorRole, action: CommissionRunAction): boolean {
+  const transition = COMMISSION_TRANSITIONS[action];
+  if (role.level >= 5) return true;
+  if (role.level < transition.minRoleLevel) return false;
+  return !transition.departments || (!!role.department && transition.departments.includes(role.department));
+}
+
+export function buildStatusLogEntry(
+  entry: Omit<CommissionStatusLogEntry, 'timestamp' | 'actorName'>,
+  actor: Pick<User, 'firstName' | 'lastName'> | null
+): CommissionStatusLogEntry {
+  return {
+    ...entry,
+    actorName: actor ? `${actor.firstName} ${actor.lastName}` : null,
+    timestamp: new Date().toISOString()
+  };
+}
+
+function appendStatusLog(run: CommissionRun, entry: CommissionStatusLogEntry): CommissionStatusLogEntry[] {
+  const log = Array.isArray(run.statusLog) ? (run.statusLog as CommissionStatusLogEntry[]) : [];
+  return [...log, entry];
+}
+
+async function getActor(actorId: number) {
+  const [actor] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .where(eq(users.id, actorId));
+  return actor ?? null;
+}
+
+export async function getCommissionRunById(runId: number): Promise<CommissionRun | undefined> {
+  const [run] = await db.select().from(commissionRun).where(eq(commissionRun.id, runId));
+  return run;
+}
+
+/**
+ * List runs of an organization for a month, optionally filtered by status
+ */
+export async function listCommissionRuns(orgId: number, year: number, month: number, status?: string) {
+  const conditions = [
+    eq(commissionRun.orgId, orgId),
+    eq(commissionRun.year, year),
+    eq(commissionRun.month, month)
+  ];
+  if (status) {
+    conditions.push(eq(commissionRun.status, status));
+  }
+
+  return db
+    .select({
+      run: commissionRun,
+      userName: sql<string>`${users.firstName} || ' ' || ${users.lastName}`,
+      adjustmentTotal: sql<number>`coalesce((
+        select sum(${commissionAdjustments.amount}) from ${commissionAdjustments}
+        where ${commissionAdjustments.runId} = ${commissionRun.id}
+      ), 0)`
+    })
+    .from(commissionRun)
+    .innerJoin(users, eq(users.id, commissionRun.userId))
+    .where(and(...conditions))
+    .orderBy(users.firstName, users.lastName);
+}
+
+/**
+ * Move a run to the next status of the workflow
+ */
+export async function transitionCommissionRun(
+  runId: number,
+  action: CommissionRunAction,
+  actorId: number,
+  role: CommissionActorRole,
+  note?: string
+): Promise<CommissionRun> {
+  const transition = COMMISSION_TRANSITIONS[action];
+  if (!transition) {
+    throw new CommissionWorkflowError(`Unknown commission action: ${action}`);
+  }
+
+  if (!canPerformTransition(role, action)) {
+    throw new CommissionWorkflowError(`You do not have permission to ${action} commission runs`, 403);
+  }
+
+  const run = await getCommissionRunById(runId);
+  if (!run) {
+    throw new CommissionWorkflowError('Commission run not found', 404);
+  }
+
+  if (run.status !== transition.from) {
+    throw new CommissionWorkflowError(
+      `Cannot ${action} a run that is ${run.status}; it must be ${transition.from} first`,
+      409
+    );
+  }
+
+  const actor = await getActor(actorId);
+  const entry = buildStatusLogEntry({ action, from: transition.from, to: transition.to, actorId, note }, actor);
+
+  // Guard on the current status so concurrent transitions cannot both succeed
+  const [updated] = await db
+    .update(commissionRun)
+    .set({
+      status: transition.to,
+      statusLog: appendStatusLog(run, entry),
+      updatedAt: new Date()
+    })
+    .where(and(eq(commissionRun.id, runId), eq(commissionRun.status, transition.from)))
+    .returning();
+
+  if (!updated) {
+    throw new CommissionWorkflowError('Commission run was changed by another user, please reload', 409);
+  }
+
+  logger.info(`Commission run ${runId} moved ${transition.from} -> ${transition.to} by user ${actorId}`);
+  return updated;
+}
+
+/**
+ * Record a correction against a paid or locked run. The run figures stay
+ * untouched; the adjustment is logged on the run and stored separately.
+ */
+export async function createCommissionAdjustment(
+  runId: number,
+  amount: number,
+  reason: string,
+  actorId: number
+): Promise<CommissionAdjustment> {
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new CommissionWorkflowError('Adjustment amount must be a non-zero number');
+  }
+  if (!reason?.trim()) {
+    throw new CommissionWorkflowError('A reason is required for commission adjustments');
+  }
+
+  const run = await getCommissionRunById(runId);
+  if (!run) {
+    throw new CommissionWorkflowError('Commission run not found', 404);
+  }
+  if (!isFrozenCommissionRun(run)) {
+    throw new CommissionWorkflowError(
+      'Adjustments can only be recorded on paid or locked runs; recalculate the run instead',
+      409
+    );
+  }
+
+  const actor = await getActor(actorId);
+  const status = run.status as CommissionRunStatus;
+
+  return db.transaction(async (tx) => {
+    const [adjustment] = await tx
+      .insert(commissionAdjustments)
+      .values({
+        orgId: run.orgId,
+        runId: run.id,
+        userId: run.userId,
+        amount,
+        reason: reason.trim(),
+        createdBy: actorId
+      })
+      .returning();
+
+    const entry = buildStatusLogEntry(
+      { action: 'adjustment', from: status, to: status, actorId, note: reason.trim(), amount },
+      actor
+    );
+
+    await tx
+      .update(commissionRun)
+      .set({ statusLog: appendStatusLog(run, entry), updatedAt: new Date() })
+      .where(eq(commissionRun.id, run.id));
+
+    return adjustment;
+  });
+}
+
+export async function getCommissionAdjustments(runId: number): Promise<CommissionAdjustment[]> {
+  return db
+    .select()
+    .from(commissionAdjustments)
+    .where(eq(commissionAdjustments.runId, runId))
+    .orderBy(desc(commissionAdjustments.createdAt));
+}
+
+export default {
+  transitionCommissionRun,
+  createCommissionAdjustment,
+  getCommissionAdjustments,
+  getCommissionRunById,
+  listCommissionRuns,
+  canPerformTransition,
+  isFrozenCommissionRun
+};
@@ -0,0 +1,717 @@
+/**
+ * Commission Engine
+ *
+ * Calculates monthly sales commissions from the commission policy that was
+ * in force for the month (commission_policy.rules + validFrom/validTo) and
+ * the real activity recorded for the rep: lead activations, lead source,
+ * starter/closer rows in lead_sales_users and sales team membership.
+ */
+
+import { and, eq, gte, inArray, isNull, lt, lte, or, sql, count } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import {
+  callLogs,
+  commissionPolicy,
+  commissionRun,
+  commissionsMonthly,
+  leadSalesUsers,
+  leads,
+  teamMembers,
+  teams,
+  users,
+  type CommissionPolicy,
+  type CommissionRun,
+  type Lead,
+  type LeadSalesUser
+} from '@shared/schema';
+import {
+  CommissionWorkflowError,
+  buildStatusLogEntry,
+  isFrozenCommissionRun,
+  type CommissionRunStatus,
+  type CommissionStatusLogEntry
+} from './commission-approval';
+
+/**
+ * A single row of the active lead table configured in CommissionPolicyEditor
+ */
+export interface ActiveLeadTier {
+  activeleads: number;
+  amount: number;
+}
+
+/**
+ * Shape of commission_policy.rules for the dispatch_sales scope
+ */
+export interface SalesCommissionRules {
+  activeLeadTable: ActiveLeadTier[];
+  inboundFactor: number;
+  starterSplit: number;
+  closerSplit: number;
+  penaltyThreshold: number;
+  penaltyFactor: number;
+  teamLeadBonusAmount: number;
+  repOfMonthBonus: number;
+}
+
+/**
+ * Defaults mirror the initial values of CommissionPolicyEditor so that a
+ * partially filled policy behaves the same way it looks in the editor
+ */
+export const DEFAULT_SALES_COMMISSION_RULES: SalesCommissionRules = {
+  activeLeadTable: [{ activeleads: 0, amount: 15000 }],
+  inboundFactor: 0.75,
+  starterSplit: 0.6,
+  closerSplit: 0.4,
+  penaltyThreshold: 20,
+  penaltyFactor: 0.75,
+  teamLeadBonusAmount: 1000,
+  repOfMonthBonus: 0
+};
+
+/**
+ * Lead sources that count as inbound (the lead came to us)
+ */
+export const INBOUND_LEAD_SOURCES: Lead['source'][] = ['MQL', 'Website'];
+
+export type LeadCreditRole = 'direct' | 'starter' | 'closer' | 'starter+closer';
+
+export interface CreditedLead {
+  leadId: number;
+  companyName: string;
+  source: Lead['source'];
+  activatedAt: string | null;
+  role: LeadCreditRole;
+  share: number;
+  inbound: boolean;
+  inboundFactor: number;
+  weight: number;
+}
+
+export interface SalesCommissionDetails {
+  period: { year: number; month: number; from: string; to: string };
+  policy: { id: number; name: string; validFrom: string | null; validTo: string | null };
+  rules: SalesCommissionRules;
+  tier: ActiveLeadTier | null;
+  leads: CreditedLead[];
+  weightedShare: number;
+  callAttempts: number;
+  penalty: { applied: boolean; reason: string | null; factor: number; threshold: number };
+  teamLead: { teamIds: number[]; memberIds: number[]; memberActivations: number; amountPerActivation: number } | null;
+  repOfMonth: { topActivations: number; awarded: boolean };
+  totals: {
+    baseCommission: number;
+    adjustedCommission: number;
+    repOfMonthBonus: number;
+    activeTrucksBonus: number;
+    teamLeadBonus: number;
+    totalCommission: number;
+  };
+}
+
+/**
+ * Result of a commission calculation before it is persisted
+ */
+export interface SalesCommissionCalculation {
+  orgId: number;
+  userId: number;
+  year: number;
+  month: number;
+  policyId: number;
+  activeLeadCount: number;
+  baseCommission: number;
+  adjustedCommission: number;
+  repOfMonthBonus: number;
+  activeTrucksBonus: number;
+  teamLeadBonus: number;
+  totalCommission: number;
+  penaltyApplied: boolean;
+  calculationDetails: SalesCommissionDetails;
+}
+
+interface CommissionPeriod {
+  year: number;
+  month: number;
+  start: Date;
+  end: Date; // exclusive
+  firstDay: string;
+  lastDay: string;
+}
+
+/**
+ * Parse a YYYY-MM month string into the date window used for queries
+ */
+export function parseCommissionMonth(month: string): CommissionPeriod {
+  const [year, monthNum] = month.split('-').map(Number);
+  if (!year || !monthNum || monthNum < 1 || monthNum > 12) {
+    throw new Error('Invalid month format. Expected YYYY-MM');
+  }
+
+  const lastDayOfMonth = new Date(year, monthNum, 0).getDate();
+  const mm = monthNum.toString().padStart(2, '0');
+
+  return {
+    year,
+    month: monthNum,
+    start: new Date(year, monthNum - 1, 1),
+    end: new Date(year, monthNum, 1),
+    firstDay: `${year}-${mm}-01`,
+    lastDay: `${year}-${mm}-${lastDayOfMonth.toString().padStart(2, '0')}`
+  };
+}
+
+/**
+ * Merge stored policy rules with the editor defaults
+ */
+export function parseSalesCommissionRules(rules: unknown): SalesCommissionRules {
+  const stored = (rules && typeof rules === 'object' ? rules : {}) as Partial<SalesCommissionRules>;
+  const numberOr = (value: unknown, fallback: number) => {
+    const parsed = Number(value);
+    return value === undefined || value === null || value === '' || isNaN(parsed) ? fallback : parsed;
+  };
+
+  const table = Array.isArray(stored.activeLeadTable) && stored.activeLeadTable.length > 0
+    ? stored.activeLeadTable.map(tier => ({
+        activeleads: numberOr(tier.activeleads, 0),
+        amount: numberOr(tier.amount, 0)
+      }))
+    : DEFAULT_SALES_COMMISSION_RULES.activeLeadTable;
+
+  return {
+    activeLeadTable: table,
+    inboundFactor: numberOr(stored.inboundFactor, DEFAULT_SALES_COMMISSION_RULES.inboundFactor),
+    starterSplit: numberOr(stored.starterSplit, DEFAULT_SALES_COMMISSION_RULES.starterSplit),
+    closerSplit: numberOr(stored.closerSplit, DEFAULT_SALES_COMMISSION_RULES.closerSplit),
+    penaltyThreshold: numberOr(stored.penaltyThreshold, DEFAULT_SALES_COMMISSION_RULES.penaltyThreshold),
+    penaltyFactor: numberOr(stored.penaltyFactor, DEFAULT_SALES_COMMISSION_RULES.penaltyFactor),
+    teamLeadBonusAmount: numberOr(stored.teamLeadBonusAmount, DEFAULT_SALES_COMMISSION_RULES.teamLeadBonusAmount),
+    repOfMonthBonus: numberOr(stored.repOfMonthBonus, DEFAULT_SALES_COMMISSION_RULES.repOfMonthBonus)
+  };
+}
+
+/**
+ * Find the highest tier of the active lead table reached by the lead count
+ */
+export function findActiveLeadTier(table: ActiveLeadTier[], activeLeadCount: number): ActiveLeadTier | null {
+  const sorted = [...table].sort((a, b) => b.activeleads - a.activeleads);
+  return sorted.find(tier => activeLeadCount >= tier.activeleads) || null;
+}
+
+/**
+ * Get the active policy of the given scope that was in force during the
+ * month. When several policies overlap the month, the one that started last
+ * wins.
+ */
+export async function getPolicyForMonth(
+  orgId: number,
+  scope: CommissionPolicy['scope'],
+  month: string
+): Promise<CommissionPolicy | undefined> {
+  const period = parseCommissionMonth(month);
+
+  const [policy] = await db
+    .select()
+    .from(commissionPolicy)
+    .where(and(
+      eq(commissionPolicy.orgId, orgId),
+      eq(commissionPolicy.scope, scope),
+      eq(commissionPolicy.isActive, true),
+      or(isNull(commissionPolicy.validFrom), lte(commissionPolicy.validFrom, period.lastDay)),
+      or(isNull(commissionPolicy.validTo), gte(commissionPolicy.validTo, period.firstDay))
+    ))
+    .orderBy(
+      sql`${commissionPolicy.validFrom} desc nulls last`,
+      sql`${commissionPolicy.updatedAt} desc`
+    )
+    .limit(1);
+
+  return policy;
+}
+
+/**
+ * Users credited for an activated lead: the starter/closer rows when the
+ * lead was split, otherwise the assigned rep
+ */
+function getCreditedUserIds(lead: Lead, splits: LeadSalesUser[]): number[] {
+  if (splits.length === 0) {
+    return [lead.assignedTo];
+  }
+  return Array.from(new Set(splits.map(split => split.userId)));
+}
+
+/**
+ * Work out the rep's share of an activated lead
+ */
+function getLeadCredit(
+  lead: Lead,
+  splits: LeadSalesUser[],
+  userId: number,
+  rules: SalesCommissionRules
+): { role: LeadCreditRole; share: number } | null {
+  if (splits.length === 0) {
+    return lead.assignedTo === userId ? { role: 'direct', share: 1 } : null;
+  }
+
+  const userRoles = new Set(splits.filter(split => split.userId === userId).map(split => split.role));
+  const isStarter = userRoles.has('starter');
+  const isCloser = userRoles.has('closer');
+
+  if (isStarter && isCloser) {
+    return { role: 'starter+closer', share: Math.min(1, rules.starterSplit + rules.closerSplit) };
+  }
+  if (isStarter) {
+    return { role: 'starter', share: rules.starterSplit };
+  }
+  if (isCloser) {
+    return { role: 'closer', share: rules.closerSplit };
+  }
+  return null;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Calculate a sales rep's commission for a month without persisting it.
+ * Returns null when the user does not exist or no policy covers the month.
+ */
+export async function calculateSalesCommission(
+  userId: number,
+  month: string
+): Promise<SalesCommissionCalculation | null> {
+  const period = parseCommissionMonth(month);
+
+  const [user] = await db.select().from(users).where(eq(users.id, userId));
+  if (!user || !user.orgId) {
+    logger.warn(`Commission engine: user ${userId} not found or has no organization`);
+    return null;
+  }
+  const orgId = user.orgId;
+
+  const policy = await getPolicyForMonth(orgId, 'dispatch_sales', month);
+  if (!policy) {
+    logger.warn(`Commission engine: no dispatch_sales policy in force for org ${orgId} in ${month}`);
+    return null;
+  }
+  const rules = parseSalesCommissionRules(policy.rules);
+
+  // All leads of the organization activated during the month
+  const activations = await db
+    .select()
+    .from(leads)
+    .where(and(
+      eq(leads.orgId, orgId),
+      gte(leads.activatedAt, period.start),
+      lt(leads.activatedAt, period.end)
+    ));
+
+  const activationIds = activations.map(lead => lead.id);
+  const splits = activationIds.length > 0
+    ? await db.select().from(leadSalesUsers).where(inArray(leadSalesUsers.leadId, activationIds))
+    : [];
+
+  const splitsByLead = new Map<number, LeadSalesUser[]>();
+  for (const split of splits) {
+    const list = splitsByLead.get(split.leadId) || [];
+    list.push(split);
+    splitsByLead.set(split.leadId, list);
+  }
+
+  // Rep's own credited activations
+  const creditedLeads: CreditedLead[] = [];
+  for (const lead of activations) {
+    const credit = getLeadCredit(lead, splitsByLead.get(lead.id) || [], userId, rules);
+    if (!credit) continue;
+
+    const inbound = INBOUND_LEAD_SOURCES.includes(lead.source);
+    const inboundFactor = inbound ? rules.inboundFactor : 1;
+
+    creditedLeads.push({
+      leadId: lead.id,
+      companyName: lead.companyName,
+      source: lead.source,
+      activatedAt: lead.activatedAt ? lead.activatedAt.toISOString() : null,
+      role: credit.role,
+      share: credit.share,
+      inbound,
+      inboundFactor,
+      weight: credit.share * inboundFactor
+    });
+  }
+
+  const activeLeadCount = creditedLeads.length;
+  const tier = findActiveLeadTier(rules.activeLeadTable, activeLeadCount);
+  const baseCommission = tier ? tier.amount : 0;
+
+  // The tier amount is scaled by the average weight of the credited leads,
+  // so split and inbound leads pay proportionally less
+  const weightedShare = activeLeadCount > 0
+    ? creditedLeads.reduce((sum, lead) => sum + lead.weight, 0) / activeLeadCount
+    : 1;
+  let adjustedCommission = baseCommission * weightedShare;
+
+  // No-activation penalty, waived when the rep logged enough call attempts
+  const [callCount] = await db
+    .select({ count: count() })
+    .from(callLogs)
+    .where(and(
+      eq(callLogs.userId, userId),
+      gte(callLogs.createdAt, period.start),
+      lt(callLogs.createdAt, period.end)
+    ));
+  const callAttempts = Number(callCount?.count || 0);
+
+  const penaltyApplied = activeLeadCount === 0 && callAttempts < rules.penaltyThreshold;
+  if (penaltyApplied) {
+    adjustedCommission *= rules.penaltyFactor;
+  }
+
+  // Activation counts per user, used for team lead and rep-of-month bonuses
+  const activationsByUser = new Map<number, number>();
+  for (const lead of activations) {
+    for (const creditedUserId of getCreditedUserIds(lead, splitsByLead.get(lead.id) || [])) {
+      activationsByUser.set(creditedUserId, (activationsByUser.get(creditedUserId) || 0) + 1);
+    }
+  }
+
+  // Team lead bonus for every activation credited to a member of a sales team the rep leads
+  let teamLead: SalesCommissionDetails['teamLead'] = null;
+  let teamLeadBonus = 0;
+  const ledTeams = await db
+    .select()
+    .from(teams)
+    .where(and(
+      eq(teams.orgId, orgId),
+      eq(teams.teamLeadId, userId),
+      eq(teams.department, 'sales')
+    ));
+
+  if (ledTeams.length > 0) {
+    const teamIds = ledTeams.map(team => team.id);
+    const members = await db
+      .select({ userId: teamMembers.userId })
+      .from(teamMembers)
+      .where(inArray(teamMembers.teamId, teamIds));
+    const memberIds = Array.from(new Set(members.map(member => member.userId))).filter(id => id !== userId);
+    const memberSet = new Set(memberIds);
+
+    const memberActivations = activations.filter(lead =>
+      getCreditedUserIds(lead, splitsByLead.get(lead.id) || []).some(id => memberSet.has(id))
+    ).length;
+
+    teamLeadBonus = memberActivations * rules.teamLeadBonusAmount;
+    teamLead = {
+      teamIds,
+      memberIds,
+      memberActivations,
+      amountPerActivation: rules.teamLeadBonusAmount
+    };
+  }
+
+  // Rep of the month: most activations in the organization (ties all qualify)
+  const topActivations = Math.max(0, ...Array.from(activationsByUser.values()));
+  const isRepOfMonth = rules.repOfMonthBonus > 0
+    && topActivations > 0
+    && (activationsByUser.get(userId) || 0) === topActivations;
+  const repOfMonthBonus = isRepOfMonth ? rules.repOfMonthBonus : 0;
+
+  const activeTrucksBonus = 0;
+  const totalCommission = adjustedCommission + repOfMonthBonus + activeTrucksBonus + teamLeadBonus;
+
+  const totals = {
+    baseCommission: roundCurrency(baseCommission),
+    adjustedCommission: roundCurrency(adjustedCommission),
+    repOfMonthBonus: roundCurrency(repOfMonthBonus),
+    activeTrucksBonus: roundCurrency(activeTrucksBonus),
+    teamLeadBonus: roundCurrency(teamLeadBonus),
+    totalCommission: roundCurrency(totalCommission)
+  };
+
+  return {
+    orgId,
+    userId,
+    year: period.year,
+    month: period.month,
+    policyId: policy.id,
+    activeLeadCount,
+    ...totals,
+    penaltyApplied,
+    calculationDetails: {
+      period: { year: period.year, month: period.month, from: period.firstDay, to: period.lastDay },
+      policy: { id: policy.id, name: policy.name, validFrom: policy.validFrom, validTo: policy.validTo },
+      rules,
+      tier,
+      leads: creditedLeads,
+      weightedShare,
+      callAttempts,
+      penalty: {
+        applied: penaltyApplied,
+        reason: penaltyApplied
+          ? `No activations and ${callAttempts} call attempts (threshold ${rules.penaltyThreshold})`
+          : null,
+        factor: rules.penaltyFactor,
+        threshold: rules.penaltyThreshold
+      },
+      teamLead,
+      repOfMonth: { topActivations, awarded: isRepOfMonth },
+      totals
+    }
+  };
+}
+
+/**
+ * Write a calculation to commission_run (one row per user and month) and
+ * mirror the total into commissions_monthly for the dashboards
+ */
+export async function saveCommissionRun(
+  calculation: SalesCommissionCalculation,
+  calculatedBy: number
+): Promise<CommissionRun> {
+  const { calculationDetails, ...values } = calculation;
+  const now = new Date();
+
+  const [existing] = await db
+    .select()
+    .from(commissionRun)
+    .where(and(
+      eq(commissionRun.orgId, calculation.orgId),
+      eq(commissionRun.userId, calculation.userId),
+      eq(commissionRun.year, calculation.year),
+      eq(commissionRun.month, calculation.month)
+    ));
+
+  if (existing && isFrozenCommissionRun(existing)) {
+    throw new CommissionWorkflowError(
+      `Commission run for ${calculation.year}-${calculation.month} is ${existing.status} and cannot be recalculated; record a reversing adjustment instead`,
+      409
+    );
+  }
+
+  let run: CommissionRun;
+  if (existing) {
+    // Recalculating a reviewed/approved run sends it back through the workflow
+    const statusLog = Array.isArray(existing.statusLog) ? [...(existing.statusLog as CommissionStatusLogEntry[])] : [];
+    if (existing.status !== 'calculated') {
+      const [actor] = await db
+        .select({ firstName: users.firstName, lastName: users.lastName })
+        .from(users)
+        .where(eq(users.id, calculatedBy));
+      statusLog.push(buildStatusLogEntry({
+        action: 'recalculated',
+        from: existing.status as CommissionRunStatus,
+        to: 'calculated',
+        actorId: calculatedBy
+      }, actor ?? null));
+    }
+
+    [run] = await db
+      .update(commissionRun)
+      .set({
+        ...values,
+        calculationDetails,
+        calculatedBy,
+        calculatedAt: now,
+        status: 'calculated',
+        statusLog,
+        updatedAt: now
+      })
+      .where(eq(commissionRun.id, existing.id))
+      .returning();
+  } else {
+    [run] = await db
+      .insert(commissionRun)
+      .values({
+        ...values,
+        calculationDetails,
+        calculatedBy,
+        calculatedAt: now
+      })
+      .returning();
+  }
+
+  const monthKey = `${calculation.year}-${calculation.month.toString().padStart(2, '0')}`;
+  const monthlyValues = {
+    orgId: calculation.orgId,
+    userId: calculation.userId,
+    month: monthKey,
+    dept: 'sales',
+    activeLeads: calculation.activeLeadCount,
+    penaltyPct: calculation.penaltyApplied
+      ? roundCurrency((1 - calculationDetails.rules.penaltyFactor) * 100)
+      : 0,
+    totalCommission: calculation.totalCommission
+  };
+
+  const [monthly] = await db
+    .select({ id: commissionsMonthly.id })
+    .from(commissionsMonthly)
+    .where(and(
+      eq(commissionsMonthly.userId, calculation.userId),
+      eq(commissionsMonthly.month, monthKey)
+    ));
+
+  if (monthly) {
+    await db
+      .update(commissionsMonthly)
+      .set({ ...monthlyValues, updatedAt: now })
+      .where(eq(commissionsMonthly.id, monthly.id));
+  } else {
+    await db.insert(commissionsMonthly).values(monthlyValues);
+  }
+
+  return run;
+}
+
+export type CommissionLineItem =
+  | 'baseCommission'
+  | 'adjustedCommission'
+  | 'repOfMonthBonus'
+  | 'activeTrucksBonus'
+  | 'teamLeadBonus'
+  | 'penaltyApplied';
+
+export interface CommissionLineItemChange {
+  item: CommissionLineItem;
+  previous: number | boolean | null;
+  current: number | boolean;
+}
+
+/**
+ * Dry-run result for one rep: what would be written compared with what is stored
+ */
+export interface CommissionPreview {
+  userId: number;
+  month: string;
+  previousTotal: number | null;
+  newTotal: number;
+  difference: number;
+  source: 'commission_run' | 'commissions_monthly' | null;
+  changes: CommissionLineItemChange[];
+  calculation: SalesCommissionCalculation;
+}
+
+const COMMISSION_LINE_ITEMS: CommissionLineItem[] = [
+  'baseCommission',
+  'adjustedCommission',
+  'repOfMonthBonus',
+  'activeTrucksBonus',
+  'teamLeadBonus',
+  'penaltyApplied'
+];
+
+/**
+ * Compare a fresh calculation with the stored commission_run row, falling
+ * back to the commissions_monthly total when no run was ever written
+ */
+export async function diffCommissionCalculation(
+  calculation: SalesCommissionCalculation
+): Promise<CommissionPreview> {
+  const monthKey = `${calculation.year}-${calculation.month.toString().padStart(2, '0')}`;
+  const existingRun = await getCommissionRun(calculation.orgId, calculation.userId, monthKey);
+
+  if (existingRun) {
+    const changes = COMMISSION_LINE_ITEMS
+      .filter(item => existingRun[item] !== calculation[item])
+      .map(item => ({ item, previous: existingRun[item], current: calculation[item] }));
+
+    return {
+      userId: calculation.userId,
+      month: monthKey,
+      previousTotal: existingRun.totalCommission,
+      newTotal: calculation.totalCommission,
+      difference: roundCurrency(calculation.totalCommission - existingRun.totalCommission),
+      source: 'commission_run',
+      changes,
+      calculation
+    };
+  }
+
+  const [monthly] = await db
+    .select()
+    .from(commissionsMonthly)
+    .where(and(
+      eq(commissionsMonthly.userId, calculation.userId),
+      eq(commissionsMonthly.month, monthKey)
+    ));
+
+  const previousTotal = monthly ? monthly.totalCommission : null;
+
+  // Without a stored run there is no line-item breakdown to compare against,
+  // so every non-zero line item of the new calculation is reported
+  const changes = COMMISSION_LINE_ITEMS
+    .filter(item => calculation[item] !== 0 && calculation[item] !== false)
+    .map(item => ({ item, previous: null, current: calculation[item] }));
+
+  return {
+    userId: calculation.userId,
+    month: monthKey,
+    previousTotal,
+    newTotal: calculation.totalCommission,
+    difference: roundCurrency(calculation.totalCommission - (previousTotal || 0)),
+    source: monthly ? 'commissions_monthly' : null,
+    changes,
+    calculation
+  };
+}
+
+/**
+ * Calculate a rep's commission without persisting it and diff it against
+ * the stored run. Returns null when the commission cannot be calculated.
+ */
+export async function previewSalesCommission(
+  userId: number,
+  month: string
+): Promise<CommissionPreview | null> {
+  const calculation = await calculateSalesCommission(userId, month);
+  if (!calculation) {
+    return null;
+  }
+  return diffCommissionCalculation(calculation);
+}
+
+/**
+ * Get the stored commission run of an organization's user for a month
+ */
+export async function getCommissionRun(orgId: number, userId: number, month: string): Promise<CommissionRun | undefined> {
+  const period = parseCommissionMonth(month);
+  const [run] = await db
+    .select()
+    .from(commissionRun)
+    .where(and(
+      eq(commissionRun.orgId, orgId),
+      eq(commissionRun.userId, userId),
+      eq(commissionRun.year, period.year),
+      eq(commissionRun.month, period.month)
+    ));
+  return run;
+}
+
+/**
+ * Calculate and persist a sales rep's commission for a month
+ */
+export async function runSalesCommission(
+  userId: number,
+  month: string,
+  calculatedBy: number
+): Promise<CommissionRun | null> {
+  const calculation = await calculateSalesCommission(userId, month);
+  if (!calculation) {
+    return null;
+  }
+  return saveCommissionRun(calculation, calculatedBy);
+}
+
+export default {
+  calculateSalesCommission,
+  saveCommissionRun,
+  runSalesCommission,
+  previewSalesCommission,
+  diffCommissionCalculation,
+  getCommissionRun,
+  getPolicyForMonth,
+  parseSalesCommissionRules,
+  findActiveLeadTier,
+  parseCommissionMonth
+};
@@ -0,0 +1,322 @@
+/**
+ * Dispatch Daily Reports
+ *
+ * A dispatcher's daily report is computed from the loads and invoices
+ * attributed to them: a load belongs to its dispatcher (loads.dispatcherId,
+ * else the user it is assigned to) and an invoice counts for the dispatcher
+ * with the share of its items that bill their loads. The dispatcher only
+ * confirms the figures and may annotate them. A figure they disagree with is
+ * stored in `overrides` next to the value computed at confirmation, so
+ * managers can see the discrepancy; the computed columns are never edited by
+ * hand. Once confirmed, a report is no longer recomputed. A report's day is
+ * the calendar day in the organization's timezone.
+ */
+
+import { and, eq, gte, inArray, lte, ne, or, sql } from 'drizzle-orm';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { db } from '../db';
+import { ErrorCategory } from '../middleware/error-handler';
+import { getOrganizationSettings } from './organization-settings';
+import {
+  dispatchReports,
+  invoiceItems,
+  invoices,
+  leads,
+  loads,
+  users,
+  type DispatchReport
+} from '@shared/schema';
+
+export const DISPATCH_REPORT_METRICS = [
+  'loadsBooked',
+  'invoiceUsd',
+  'activeLeads',
+  'pendingInvoiceUsd',
+  'highestInvoiceUsd',
+  'paidInvoiceUsd'
+] as const;
+
+export type DispatchReportMetric = typeof DISPATCH_REPORT_METRICS[number];
+
+export type DispatchReportMetrics = Record<DispatchReportMetric, number>;
+
+export type DispatchReportOverrides = Partial<Record<DispatchReportMetric, { value: number; computed: number }>>;
+
+export interface DispatchReportDiscrepancy {
+  metric: DispatchReportMetric;
+  computed: number;
+  reported: number;
+  difference: number;
+}
+
+// Invoices billed but not yet settled
+const OUTSTANDING_INVOICE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+export class DispatchReportError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'DispatchReportError';
+    this.statusCode = statusCode;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function timezoneOffset(timezone: string, instant: Date): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(instant);
+  } catch {
+    // Unknown timezone names fall back to UTC
+    return 0;
+  }
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Midnight of a calendar day (YYYY-MM-DD) in a timezone, as an instant
+ */
+function zonedMidnight(day: string, timezone: string): Date {
+  const utcMidnight = Date.parse(`${day}T00:00:00Z`);
+  // A second pass settles days on which the offset changes (DST)
+  let instant = utcMidnight - timezoneOffset(timezone, new Date(utcMidnight));
+  instant = utcMidnight - timezoneOffset(timezone, new Date(instant));
+  return new Date(instant);
+}
+
+/**
+ * First and last instant of a calendar day in a timezone
+ */
+export function zonedDayBounds(day: string, timezone: string): { start: Date; end: Date } {
+  const next = new Date(`${day}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return {
+    start: zonedMidnight(day, timezone),
+    end: new Date(zonedMidnight(next.toISOString().slice(0, 10), timezone).getTime() - 1)
+  };
+}
+
+async function dispatcherTimezone(dispatcherId: number): Promise<string> {
+  const [dispatcher] = await db.select({ orgId: users.orgId }).from(users).where(eq(users.id, dispatcherId));
+  const settings = dispatcher?.orgId ? await getOrganizationSettings(dispatcher.orgId) : undefined;
+  return settings?.defaultTimezone || 'UTC';
+}
+
+function attributedToDispatcher(dispatcherId: number) {
+  return sql`coalesce(${loads.dispatcherId}, ${loads.assignedTo}) = ${dispatcherId}`;
+}
+
+/**
+ * Figures of a dispatcher's day. The calendar day of `date` is read in the
+ * organization's timezone, as the report jobs pass it. Pending invoices are
+ * a snapshot of what is outstanding when the report is computed.
+ */
+export async function computeDispatchReportMetrics(dispatcherId: number, date: Date): Promise<DispatchReportMetrics> {
+  const day = format(date, 'yyyy-MM-dd');
+  const { start, end } = zonedDayBounds(day, await dispatcherTimezone(dispatcherId));
+
+  const [booked] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(loads)
+    .where(and(
+      attributedToDispatcher(dispatcherId),
+      ne(loads.status, 'cancelled'),
+      gte(loads.createdAt, start),
+      lte(loads.createdAt, end)
+    ));
+
+  const [active] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(leads)
+    .where(and(eq(leads.assignedTo, dispatcherId), eq(leads.status, 'Active')));
+
+  // The dispatcher's share of each invoice that was issued or paid today or is still outstanding
+  const dispatcherInvoices = await db
+    .select({
+      id: invoices.id,
+      status: invoices.status,
+      issuedDate: invoices.issuedDate,
+      paidDate: invoices.paidDate,
+      totalAmount: invoices.totalAmount,
+      paidAmount: invoices.paidAmount,
+      creditedAmount: invoices.creditedAmount,
+      share: sql<string>`sum(${invoiceItems.amount})`
+    })
+    .from(invoiceItems)
+    .innerJoin(loads, eq(loads.id, invoiceItems.loadId))
+    .innerJoin(invoices, eq(invoices.id, invoiceItems.invoiceId))
+    .where(and(
+      attributedToDispatcher(dispatcherId),
+      ne(invoices.status, 'void'),
+      or(
+        eq(invoices.issuedDate, day),
+        eq(invoices.paidDate, day),
+        inArray(invoices.status, OUTSTANDING_INVOICE_STATUSES)
+      )
+    ))
+    .groupBy(invoices.id);
+
+  let invoiceUsd = 0;
+  let highestInvoiceUsd = 0;
+  let pendingInvoiceUsd = 0;
+  let paidInvoiceUsd = 0;
+  for (const invoice of dispatcherInvoices) {
+    const share = Number(invoice.share) || 0;
+    if (invoice.issuedDate === day) {
+      invoiceUsd += share;
+      highestInvoiceUsd = Math.max(highestInvoiceUsd, share);
+    }
+    if (invoice.status === 'paid' && invoice.paidDate === day) {
+      paidInvoiceUsd += share;
+    }
+    if (OUTSTANDING_INVOICE_STATUSES.includes(invoice.status) && invoice.totalAmount > 0) {
+      const outstanding = Math.max(0, invoice.totalAmount - (invoice.paidAmount || 0) - invoice.creditedAmount);
+      pendingInvoiceUsd += share * (outstanding / invoice.totalAmount);
+    }
+  }
+
+  return {
+    loadsBooked: booked?.count ?? 0,
+    invoiceUsd: round(invoiceUsd),
+    activeLeads: active?.count ?? 0,
+    pendingInvoiceUsd: round(pendingInvoiceUsd),
+    highestInvoiceUsd: round(highestInvoiceUsd),
+    paidInvoiceUsd: round(paidInvoiceUsd)
+  };
+}
+
+async function findReport(dispatcherId: number, date: Date): Promise<DispatchReport | undefined> {
+  const [report] = await db
+    .select()
+    .from(dispatchReports)
+    .where(and(
+      eq(dispatchReports.dispatcherId, dispatcherId),
+      gte(dispatchReports.date, startOfDay(date)),
+      lte(dispatchReports.date, endOfDay(date))
+    ));
+  return report;
+}
+
+/**
+ * Create or recompute the dispatcher's report for the day. A confirmed
+ * report is returned as it was confirmed.
+ */
+export async function refreshDispatchReport(dispatcherId: number, date: Date = new Date()): Promise<DispatchReport> {
+  const existing = await findReport(dispatcherId, date);
+  if (existing?.status === 'Submitted') {
+    return existing;
+  }
+
+  const metrics = await computeDispatchReportMetrics(dispatcherId, date);
+
+  if (existing) {
+    const [updated] = await db
+      .update(dispatchReports)
+      .set({ ...metrics, computedAt: new Date() })
+      .where(eq(dispatchReports.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [dispatcher] = await db.select({ orgId: users.orgId }).from(users).where(eq(users.id, dispatcherId));
+  if (!dispatcher) {
+    throw new DispatchReportError(`Dispatcher with ID ${dispatcherId} not found`, 404);
+  }
+
+  const [created] = await db
+    .insert(dispatchReports)
+    .values({
+      dispatcherId,
+      orgId: dispatcher.orgId || 1,
+      date,
+      ...metrics,
+      computedAt: new Date(),
+      status: 'Pending'
+    })
+    .returning();
+  return created;
+}
+
+/**
+ * The dispatcher confirms their report. Figures are recomputed first; every
+ * reported value that differs from its computed value is kept as an override.
+ */
+export async function confirmDispatchReport(
+  reportId: number,
+  userId: number,
+  input: { reported?: Partial<Record<DispatchReportMetric, number>>; notes?: string | null }
+): Promise<DispatchReport> {
+  const [report] = await db.select().from(dispatchReports).where(eq(dispatchReports.id, reportId));
+  if (!report) {
+    throw new DispatchReportError('Report not found', 404);
+  }
+  if (report.status === 'Submitted') {
+    throw new DispatchReportError('This report has already been confirmed', 409);
+  }
+
+  const metrics = await computeDispatchReportMetrics(report.dispatcherId, report.date);
+
+  const overrides: DispatchReportOverrides = {};
+  for (const metric of DISPATCH_REPORT_METRICS) {
+    const value = input.reported?.[metric];
+    if (value !== undefined && round(value) !== metrics[metric]) {
+      overrides[metric] = { value: round(value), computed: metrics[metric] };
+    }
+  }
+
+  const now = new Date();
+  const [confirmed] = await db
+    .update(dispatchReports)
+    .set({
+      ...metrics,
+      overrides,
+      notes: input.notes?.trim() || null,
+      computedAt: now,
+      confirmedAt: now,
+      confirmedBy: userId,
+      status: 'Submitted'
+    })
+    .where(and(eq(dispatchReports.id, reportId), eq(dispatchReports.status, 'Pending')))
+    .returning();
+  if (!confirmed) {
+    throw new DispatchReportError('This report has already been confirmed', 409);
+  }
+  return confirmed;
+}
+
+export function getReportDiscrepancies(report: Pick<DispatchReport, 'overrides'>): DispatchReportDiscrepancy[] {
+  const overrides = (report.overrides ?? {}) as DispatchReportOverrides;
+  return DISPATCH_REPORT_METRICS
+    .filter(metric => overrides[metric])
+    .map(metric => {
+      const { value, computed } = overrides[metric]!;
+      return { metric, computed, reported: value, difference: round(value - computed) };
+    });
+}
+
+export default {
+  DISPATCH_REPORT_METRICS,
+  computeDispatchReportMetrics,
+  refreshDispatchReport,
+  confirmDispatchReport,
+  getReportDiscrepancies
+};
@@ -0,0 +1,289 @@
+/**
+ * Finance Reports
+ *
+ * Builds the profit & loss statement from recorded data: invoice payments
+ * for revenue, commissions_monthly payouts and the expenses ledger for costs.
+ * Every report is compared against the immediately preceding period of the
+ * same length (previous month, quarter or year).
+ */
+
+import { and, eq, gte, inArray, lt, ne, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { commissionsMonthly, expenses, invoicePayments, invoices, leads } from '@shared/schema';
+import { OPEN_INVOICE_STATUSES } from './invoice-payments';
+
+export type ReportPeriodType = 'month' | 'quarter' | 'year';
+
+export interface ReportPeriod {
+  type: ReportPeriodType;
+  label: string;
+  year: number;
+  // 1-12 for months, 1-4 for quarters, 1 for years
+  index: number;
+  startDate: string; // inclusive, YYYY-MM-DD
+  endDate: string; // exclusive, YYYY-MM-DD
+  months: string[]; // YYYY-MM keys covered by the period
+}
+
+export interface ProfitAndLossStatement {
+  period: string;
+  startDate: string;
+  endDate: string;
+  revenue: {
+    total: number;
+    invoiceCount: number;
+    breakdown: Record<string, number>;
+  };
+  expenses: {
+    total: number;
+    commissions: number;
+    operating: number;
+    breakdown: Record<string, number>;
+  };
+  netProfit: number;
+  profitMargin: number;
+}
+
+export interface ProfitAndLossReport extends ProfitAndLossStatement {
+  periodType: ReportPeriodType;
+  previous: ProfitAndLossStatement;
+  change: {
+    revenuePct: number | null;
+    expensesPct: number | null;
+    netProfitPct: number | null;
+  };
+  receivables: {
+    total: number;
+    count: number;
+  };
+}
+
+const MONTHS_PER_PERIOD: Record<ReportPeriodType, number> = { month: 1, quarter: 3, year: 12 };
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateString(year: number, month: number): string {
+  return `${year}-${month.toString().padStart(2, '0')}-01`;
+}
+
+/**
+ * Resolve a report period. `index` is the month (1-12) or quarter (1-4) and
+ * is ignored for yearly reports.
+ */
+export function resolveReportPeriod(type: ReportPeriodType, year: number, index = 1): ReportPeriod {
+  const monthsInPeriod = MONTHS_PER_PERIOD[type];
+  if (!monthsInPeriod) {
+    throw new Error(`Unsupported report period: ${type}`);
+  }
+
+  const periodIndex = type === 'year' ? 1 : index;
+  const maxIndex = 12 / monthsInPeriod;
+  if (!Number.isInteger(year) || !Number.isInteger(periodIndex) || periodIndex < 1 || periodIndex > maxIndex) {
+    throw new Error(`Invalid ${type} period: ${year}/${index}`);
+  }
+
+  const startMonth = (periodIndex - 1) * monthsInPeriod + 1;
+  const months: string[] = [];
+  for (let i = 0; i < monthsInPeriod; i++) {
+    months.push(`${year}-${(startMonth + i).toString().padStart(2, '0')}`);
+  }
+
+  const endMonthIndex = startMonth + monthsInPeriod; // may be 13
+  const endDate = endMonthIndex > 12 ? toDateString(year + 1, 1) : toDateString(year, endMonthIndex);
+
+  const label = type === 'month'
+    ? `${MONTH_NAMES[startMonth - 1]} ${year}`
+    : type === 'quarter'
+      ? `Q${periodIndex} ${year}`
+      : `${year}`;
+
+  return {
+    type,
+    label,
+    year,
+    index: periodIndex,
+    startDate: toDateString(year, startMonth),
+    endDate,
+    months
+  };
+}
+
+/**
+ * The period of the same length immediately before the given one
+ */
+export function previousReportPeriod(period: ReportPeriod): ReportPeriod {
+  if (period.type === 'year') {
+    return resolveReportPeriod('year', period.year - 1);
+  }
+  const maxIndex = 12 / MONTHS_PER_PERIOD[period.type];
+  return period.index === 1
+    ? resolveReportPeriod(period.type, period.year - 1, maxIndex)
+    : resolveReportPeriod(period.type, period.year, period.index - 1);
+}
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return roundCurrency(((current - previous) / Math.abs(previous)) * 100);
+}
+
+/**
+ * Revenue collected in the period: invoice payments with a payment date
+ * inside the period, grouped by client. Voided invoices never count.
+ */
+async function getRevenue(orgId: number, period: ReportPeriod) {
+  const rows = await db
+    .select({
+      client: leads.companyName,
+      amount: sql<number>`coalesce(sum(${invoicePayments.amount}), 0)`,
+      count: sql<number>`count(distinct ${invoicePayments.invoiceId})`
+    })
+    .from(invoicePayments)
+    .innerJoin(invoices, eq(invoices.id, invoicePayments.invoiceId))
+    .leftJoin(leads, eq(leads.id, invoices.leadId))
+    .where(and(
+      eq(invoices.orgId, orgId),
+      ne(invoices.status, 'void'),
+      gte(invoicePayments.paymentDate, period.startDate),
+      lt(invoicePayments.paymentDate, period.endDate)
+    ))
+    .groupBy(leads.companyName);
+
+  const breakdown: Record<string, number> = {};
+  let total = 0;
+  let invoiceCount = 0;
+  for (const row of rows) {
+    const amount = Number(row.amount);
+    breakdown[row.client ?? 'Unknown client'] = roundCurrency(amount);
+    total += amount;
+    invoiceCount += Number(row.count);
+  }
+
+  return { total: roundCurrency(total), invoiceCount, breakdown };
+}
+
+async function getCommissionCosts(orgId: number, period: ReportPeriod) {
+  const rows = await db
+    .select({
+      dept: commissionsMonthly.dept,
+      amount: sql<number>`coalesce(sum(${commissionsMonthly.totalCommission}), 0)`
+    })
+    .from(commissionsMonthly)
+    .where(and(
+      eq(commissionsMonthly.orgId, orgId),
+      inArray(commissionsMonthly.month, period.months)
+    ))
+    .groupBy(commissionsMonthly.dept);
+
+  const breakdown: Record<string, number> = {};
+  let total = 0;
+  for (const row of rows) {
+    const amount = Number(row.amount);
+    const dept = row.dept.charAt(0).toUpperCase() + row.dept.slice(1);
+    breakdown[`${dept} Commissions`] = roundCurrency(amount);
+    total += amount;
+  }
+
+  return { total: roundCurrency(total), breakdown };
+}
+
+async function getOperatingExpenses(orgId: number, period: ReportPeriod) {
+  const rows = await db
+    .select({
+      category: expenses.category,
+      amount: sql<number>`coalesce(sum(${expenses.amount}), 0)`
+    })
+    .from(expenses)
+    .where(and(
+      eq(expenses.orgId, orgId),
+      gte(expenses.expenseDate, period.startDate),
+      lt(expenses.expenseDate, period.endDate)
+    ))
+    .groupBy(expenses.category);
+
+  const breakdown: Record<string, number> = {};
+  let total = 0;
+  for (const row of rows) {
+    const amount = Number(row.amount);
+    breakdown[row.category] = roundCurrency((breakdown[row.category] ?? 0) + amount);
+    total += amount;
+  }
+
+  return { total: roundCurrency(total), breakdown };
+}
+
+export async function buildProfitAndLossStatement(orgId: number, period: ReportPeriod): Promise<ProfitAndLossStatement> {
+  const [revenue, commissions, operating] = await Promise.all([
+    getRevenue(orgId, period),
+    getCommissionCosts(orgId, period),
+    getOperatingExpenses(orgId, period)
+  ]);
+
+  const expenseTotal = roundCurrency(commissions.total + operating.total);
+  const netProfit = roundCurrency(revenue.total - expenseTotal);
+
+  return {
+    period: period.label,
+    startDate: period.startDate,
+    endDate: period.endDate,
+    revenue,
+    expenses: {
+      total: expenseTotal,
+      commissions: commissions.total,
+      operating: operating.total,
+      breakdown: { ...commissions.breakdown, ...operating.breakdown }
+    },
+    netProfit,
+    profitMargin: revenue.total > 0 ? roundCurrency((netProfit / revenue.total) * 100) : 0
+  };
+}
+
+/**
+ * Invoices that have been issued but not yet paid, as of now
+ */
+async function getOutstandingReceivables(orgId: number) {
+  const [row] = await db
+    .select({
+      total: sql<number>`coalesce(sum(${invoices.totalAmount} - coalesce(${invoices.paidAmount}, 0) - ${invoices.creditedAmount}), 0)`,
+      count: sql<number>`count(*)`
+    })
+    .from(invoices)
+    .where(and(
+      eq(invoices.orgId, orgId),
+      inArray(invoices.status, OPEN_INVOICE_STATUSES)
+    ));
+
+  return { total: roundCurrency(Number(row?.total ?? 0)), count: Number(row?.count ?? 0) };
+}
+
+/**
+ * Profit & loss for the period with the prior period for comparison
+ */
+export async function getProfitAndLossReport(orgId: number, period: ReportPeriod): Promise<ProfitAndLossReport> {
+  const [current, previous, receivables] = await Promise.all([
+    buildProfitAndLossStatement(orgId, period),
+    buildProfitAndLossStatement(orgId, previousReportPeriod(period)),
+    getOutstandingReceivables(orgId)
+  ]);
+
+  return {
+    ...current,
+    periodType: period.type,
+    previous,
+    change: {
+      revenuePct: percentChange(current.revenue.total, previous.revenue.total),
+      expensesPct: percentChange(current.expenses.total, previous.expenses.total),
+      netProfitPct: percentChange(current.netProfit, previous.netProfit)
+    },
+    receivables
+  };
+}
+
+export default {
+  resolveReportPeriod,
+  previousReportPeriod,
+  buildProfitAndLossStatement,
+  getProfitAndLossReport
+};
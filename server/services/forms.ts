@@ -0,0 +1,812 @@
+/**
+ * Forms
+ *
+ * A form template is a list of typed fields (text, number, date, select,
+ * file, signature). Changing the fields creates a new version and keeps the
+ * old one, so a submission is always validated against the version its link
+ * was sent with. Sending a form to a lead emails a public link carrying an
+ * unguessable token; the submission then moves Sent -> Viewed (link opened)
+ * -> Completed (answers accepted), or to Expired once its window has passed.
+ * The lead's formsSent and formsCompleted counters are recounted from its
+ * submissions on every change. Uploaded files are stored under
+ * uploads/form-submissions/<submissionId>.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { and, asc, count, desc, eq, inArray, isNotNull, lt, sql } from 'drizzle-orm';
+import { env } from '../config/env';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { sendEmail } from '../email';
+import { emitToUser, RealTimeEvents } from '../socket';
+import {
+  activities,
+  formSubmissions,
+  formTemplates,
+  formTemplateVersions,
+  leads,
+  notifications,
+  users,
+  type FormSubmission,
+  type FormTemplate,
+  type Lead
+} from '@shared/schema';
+
+export const FORM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'file', 'signature'] as const;
+export type FormFieldType = typeof FORM_FIELD_TYPES[number];
+
+/**
+ * One field of a template. For text fields min/max bound the length, for
+ * number fields the value. File fields may restrict the accepted MIME types.
+ */
+export interface FormFieldDefinition {
+  key: string;
+  label: string;
+  type: FormFieldType;
+  required: boolean;
+  helpText?: string | null;
+  options?: string[];
+  min?: number | null;
+  max?: number | null;
+  multiline?: boolean;
+  accept?: string[];
+}
+
+export interface FormTemplateInput {
+  name: string;
+  description?: string | null;
+  category: string;
+  fields: FormFieldDefinition[];
+  isActive?: boolean;
+}
+
+export interface SendFormInput {
+  templateId: number;
+  leadId: number;
+  customMessage?: string | null;
+  expiresInDays?: number;
+}
+
+export interface UploadedFormFile {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// How a file answer is kept in response_data
+interface StoredFormFile {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  path: string;
+}
+
+export const DEFAULT_RESPONSE_WINDOW_DAYS = 14;
+
+export const MAX_FORM_FILE_SIZE_BYTES = (env.MAX_FILE_SIZE_MB || 5) * 1024 * 1024;
+
+// A drawn signature is a PNG data URL from the fill-out page's canvas
+const SIGNATURE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+const MAX_TEXT_LENGTH = 5000;
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const UPLOADS_ROOT = path.join(process.cwd(), 'uploads');
+const SUBMISSIONS_DIR = 'form-submissions';
+
+const OPEN_STATUSES = ['Sent', 'Viewed'] as const;
+
+export class FormError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+  fieldErrors?: Record<string, string>;
+
+  constructor(message: string, statusCode = 400, fieldErrors?: Record<string, string>) {
+    super(message);
+    this.name = 'FormError';
+    this.statusCode = statusCode;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function safeFileName(name: string): string {
+  const base = path.basename(name).replace(/[^A-Za-z0-9._-]+/g, '_');
+  return base.slice(-100) || 'file';
+}
+
+function fieldsOf(value: unknown): FormFieldDefinition[] {
+  return Array.isArray(value) ? (value as FormFieldDefinition[]) : [];
+}
+
+/**
+ * Reject field lists the fill-out page could not render or validate
+ */
+export function validateFieldDefinitions(fields: FormFieldDefinition[]): void {
+  if (fields.length === 0) {
+    throw new FormError('A form needs at least one field');
+  }
+
+  const keys = new Set<string>();
+  for (const field of fields) {
+    if (!FIELD_KEY_PATTERN.test(field.key)) {
+      throw new FormError(`Field key "${field.key}" must start with a letter and use only lowercase letters, digits and underscores`);
+    }
+    if (keys.has(field.key)) {
+      throw new FormError(`Field key "${field.key}" is used more than once`);
+    }
+    keys.add(field.key);
+
+    if (field.type === 'select' && (!field.options || field.options.length === 0)) {
+      throw new FormError(`Select field "${field.label}" needs at least one option`);
+    }
+    if (field.min != null && field.max != null && field.min > field.max) {
+      throw new FormError(`Field "${field.label}" has a minimum above its maximum`);
+    }
+  }
+}
+
+function validateTextAnswer(field: FormFieldDefinition, value: unknown): string | null {
+  if (typeof value !== 'string') return 'Must be text';
+  const max = Math.min(field.max ?? MAX_TEXT_LENGTH, MAX_TEXT_LENGTH);
+  if (field.min != null && value.length < field.min) return `Must be at least ${field.min} characters`;
+  if (value.length > max) return `Must be at most ${max} characters`;
+  return null;
+}
+
+function validateNumberAnswer(field: FormFieldDefinition, value: unknown): string | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return 'Must be a number';
+  if (field.min != null && number < field.min) return `Must be at least ${field.min}`;
+  if (field.max != null && number > field.max) return `Must be at most ${field.max}`;
+  return null;
+}
+
+function validateDateAnswer(value: unknown): string | null {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    return 'Must be a date (YYYY-MM-DD)';
+  }
+  return null;
+}
+
+function validateFileAnswer(field: FormFieldDefinition, file: UploadedFormFile): string | null {
+  if (field.accept && field.accept.length > 0 && !field.accept.includes(file.mimetype)) {
+    return `Must be one of: ${field.accept.join(', ')}`;
+  }
+  if (file.size > MAX_FORM_FILE_SIZE_BYTES) {
+    return `Must be at most ${Math.round(MAX_FORM_FILE_SIZE_BYTES / (1024 * 1024))} MB`;
+  }
+  return null;
+}
+
+/**
+ * Check the answers against a version's fields. Returns the answers to keep
+ * (unknown keys dropped, numbers coerced) and an error per invalid field.
+ */
+export function validateFormAnswers(
+  fields: FormFieldDefinition[],
+  answers: Record<string, unknown>,
+  files: UploadedFormFile[] = []
+): { values: Record<string, unknown>; files: Map<string, UploadedFormFile>; errors: Record<string, string> } {
+  const values: Record<string, unknown> = {};
+  const accepted = new Map<string, UploadedFormFile>();
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    if (field.type === 'file') {
+      const file = files.find(upload => upload.fieldname === field.key);
+      if (!file) {
+        if (field.required) errors[field.key] = 'This file is required';
+        continue;
+      }
+      const error = validateFileAnswer(field, file);
+      if (error) errors[field.key] = error;
+      else accepted.set(field.key, file);
+      continue;
+    }
+
+    const raw = answers[field.key];
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === undefined || value === null || value === '') {
+      if (field.required) errors[field.key] = 'This field is required';
+      continue;
+    }
+
+    let error: string | null = null;
+    switch (field.type) {
+      case 'text':
+        error = validateTextAnswer(field, value);
+        break;
+      case 'number':
+        error = validateNumberAnswer(field, value);
+        break;
+      case 'date':
+        error = validateDateAnswer(value);
+        break;
+      case 'select':
+        error = typeof value === 'string' && field.options?.includes(value) ? null : 'Must be one of the listed options';
+        break;
+      case 'signature':
+        error = typeof value === 'string' && value.length <= MAX_SIGNATURE_LENGTH && SIGNATURE_PATTERN.test(value)
+          ? null
+          : 'Please sign in the box';
+        break;
+    }
+
+    if (error) errors[field.key] = error;
+    else values[field.key] = field.type === 'number' ? Number(value) : value;
+  }
+
+  return { values, files: accepted, errors };
+}
+
+async function findTemplate(templateId: number, orgId: number): Promise<FormTemplate> {
+  const [template] = await db.select().from(formTemplates).where(eq(formTemplates.id, templateId));
+  if (!template || template.orgId !== orgId) {
+    throw new FormError('Form template not found', 404);
+  }
+  return template;
+}
+
+async function findLead(leadId: number, orgId: number): Promise<Lead> {
+  const [lead] = await db.select().from(leads).where(eq(leads.id, leadId));
+  if (!lead || lead.orgId !== orgId) {
+    throw new FormError('Lead not found', 404);
+  }
+  return lead;
+}
+
+async function findSubmission(submissionId: number, orgId: number): Promise<FormSubmission> {
+  const [submission] = await db.select().from(formSubmissions).where(eq(formSubmissions.id, submissionId));
+  if (!submission || submission.orgId !== orgId) {
+    throw new FormError('Form submission not found', 404);
+  }
+  return submission;
+}
+
+async function getVersionFields(templateId: number, version: number): Promise<FormFieldDefinition[]> {
+  const [row] = await db
+    .select({ fields: formTemplateVersions.fields })
+    .from(formTemplateVersions)
+    .where(and(eq(formTemplateVersions.formTemplateId, templateId), eq(formTemplateVersions.version, version)));
+  if (!row) {
+    throw new FormError(`Version ${version} of this form no longer exists`, 404);
+  }
+  return fieldsOf(row.fields);
+}
+
+/**
+ * Recount a lead's sent and completed forms
+ */
+export async function syncLeadFormCounts(executor: DbExecutor, leadId: number): Promise<void> {
+  const [counts] = await executor
+    .select({
+      sent: count(),
+      completed: sql<number>`count(*) filter (where ${formSubmissions.status} = 'Completed')::int`
+    })
+    .from(formSubmissions)
+    .where(eq(formSubmissions.leadId, leadId));
+
+  await executor
+    .update(leads)
+    .set({ formsSent: counts.sent, formsCompleted: counts.completed })
+    .where(eq(leads.id, leadId));
+}
+
+/**
+ * Mark open submissions whose window has passed as expired
+ */
+export async function expireOverdueSubmissions(orgId?: number): Promise<number> {
+  const expired = await db
+    .update(formSubmissions)
+    .set({ status: 'Expired' })
+    .where(and(
+      inArray(formSubmissions.status, [...OPEN_STATUSES]),
+      isNotNull(formSubmissions.expiresAt),
+      lt(formSubmissions.expiresAt, new Date()),
+      orgId ? eq(formSubmissions.orgId, orgId) : undefined
+    ))
+    .returning({ id: formSubmissions.id });
+  return expired.length;
+}
+
+async function notify(userId: number, orgId: number, title: string, message: string, submissionId: number): Promise<void> {
+  try {
+    const [notification] = await db
+      .insert(notifications)
+      .values({ userId, orgId, title, message, type: 'form_completed', read: false, entityType: 'form_submission', entityId: submissionId })
+      .returning();
+    emitToUser(userId, RealTimeEvents.NOTIFICATION_CREATED, notification);
+  } catch (error) {
+    logger.error(`Could not notify user ${userId} about form submission ${submissionId}:`, error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+export async function listFormTemplates(orgId: number, options: { activeOnly?: boolean } = {}) {
+  return db
+    .select()
+    .from(formTemplates)
+    .where(and(eq(formTemplates.orgId, orgId), options.activeOnly ? eq(formTemplates.isActive, true) : undefined))
+    .orderBy(asc(formTemplates.name));
+}
+
+/**
+ * A template with the history of its field versions
+ */
+export async function getFormTemplate(templateId: number, orgId: number) {
+  const template = await findTemplate(templateId, orgId);
+  const versions = await db
+    .select({
+      version: formTemplateVersions.version,
+      fields: formTemplateVersions.fields,
+      createdAt: formTemplateVersions.createdAt,
+      createdBy: formTemplateVersions.createdBy,
+      createdByFirstName: users.firstName,
+      createdByLastName: users.lastName
+    })
+    .from(formTemplateVersions)
+    .leftJoin(users, eq(users.id, formTemplateVersions.createdBy))
+    .where(eq(formTemplateVersions.formTemplateId, templateId))
+    .orderBy(desc(formTemplateVersions.version));
+
+  return {
+    ...template,
+    versions: versions.map(({ createdByFirstName, createdByLastName, ...version }) => ({
+      ...version,
+      createdByName: createdByFirstName ? `${createdByFirstName} ${createdByLastName}` : null
+    }))
+  };
+}
+
+export async function createFormTemplate(orgId: number, userId: number, input: FormTemplateInput): Promise<FormTemplate> {
+  validateFieldDefinitions(input.fields);
+
+  return db.transaction(async (tx) => {
+    const [template] = await tx
+      .insert(formTemplates)
+      .values({
+        orgId,
+        name: input.name,
+        description: input.description ?? null,
+        category: input.category,
+        fields: input.fields,
+        version: 1,
+        isActive: input.isActive ?? true,
+        createdBy: userId
+      })
+      .returning();
+
+    await tx.insert(formTemplateVersions).values({
+      formTemplateId: template.id,
+      version: 1,
+      fields: input.fields,
+      createdBy: userId
+    });
+
+    return template;
+  });
+}
+
+/**
+ * Change a template; new fields become a new version while links already
+ * sent keep the version they were sent with
+ */
+export async function updateFormTemplate(
+  templateId: number,
+  orgId: number,
+  userId: number,
+  input: Partial<FormTemplateInput>
+): Promise<FormTemplate> {
+  const template = await findTemplate(templateId, orgId);
+
+  const values: Partial<typeof formTemplates.$inferInsert> = { updatedAt: new Date() };
+  if (input.name !== undefined) values.name = input.name;
+  if (input.description !== undefined) values.description = input.description;
+  if (input.category !== undefined) values.category = input.category;
+  if (input.isActive !== undefined) values.isActive = input.isActive;
+
+  const fieldsChanged = input.fields !== undefined
+    && JSON.stringify(input.fields) !== JSON.stringify(fieldsOf(template.fields));
+  if (fieldsChanged) {
+    validateFieldDefinitions(input.fields!);
+    values.fields = input.fields;
+    values.version = template.version + 1;
+  }
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(formTemplates)
+      .set(values)
+      .where(eq(formTemplates.id, templateId))
+      .returning();
+
+    if (fieldsChanged) {
+      await tx.insert(formTemplateVersions).values({
+        formTemplateId: templateId,
+        version: updated.version,
+        fields: input.fields!,
+        createdBy: userId
+      });
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Delete a template that was never sent; one with submissions is only
+ * deactivated so their answers keep their field definitions
+ */
+export async function deleteFormTemplate(templateId: number, orgId: number): Promise<{ deleted: boolean }> {
+  await findTemplate(templateId, orgId);
+
+  const [{ submissions }] = await db
+    .select({ submissions: count() })
+    .from(formSubmissions)
+    .where(eq(formSubmissions.formTemplateId, templateId));
+
+  if (submissions > 0) {
+    await db
+      .update(formTemplates)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(formTemplates.id, templateId));
+    return { deleted: false };
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(formTemplateVersions).where(eq(formTemplateVersions.formTemplateId, templateId));
+    await tx.delete(formTemplates).where(eq(formTemplates.id, templateId));
+  });
+  return { deleted: true };
+}
+
+// ---------------------------------------------------------------------------
+// Submissions
+// ---------------------------------------------------------------------------
+
+export async function listFormSubmissions(orgId: number, filters: { leadId?: number } = {}) {
+  await expireOverdueSubmissions(orgId);
+
+  const rows = await db
+    .select({ submission: formSubmissions, formName: formTemplates.name, category: formTemplates.category })
+    .from(formSubmissions)
+    .innerJoin(formTemplates, eq(formTemplates.id, formSubmissions.formTemplateId))
+    .where(and(
+      eq(formSubmissions.orgId, orgId),
+      filters.leadId ? eq(formSubmissions.leadId, filters.leadId) : undefined
+    ))
+    .orderBy(desc(formSubmissions.sentAt));
+
+  return rows.map(({ submission, formName, category }) => ({ ...submission, formName, category }));
+}
+
+/**
+ * A submission with the fields of the version it was sent with
+ */
+export async function getFormSubmission(submissionId: number, orgId: number) {
+  const submission = await findSubmission(submissionId, orgId);
+  const [template] = await db
+    .select({ name: formTemplates.name, category: formTemplates.category })
+    .from(formTemplates)
+    .where(eq(formTemplates.id, submission.formTemplateId));
+  const fields = await getVersionFields(submission.formTemplateId, submission.templateVersion);
+  return { ...submission, formName: template?.name ?? null, category: template?.category ?? null, fields };
+}
+
+function buildFormEmail(name: string, formName: string, customMessage: string | null, url: string, expiresAt: Date) {
+  const intro = customMessage || `Please fill out the ${formName} form at your earliest convenience.`;
+  const text = `Hello ${name},
+
+${intro}
+
+Open the form here: ${url}
+
+The link is valid until ${expiresAt.toDateString()}.`;
+
+  const html = `
+    <p>Hello ${escapeHtml(name)},</p>
+    <p style="white-space:pre-line;">${escapeHtml(intro)}</p>
+    <p>
+      <a href="${url}" style="display:inline-block;padding:10px 20px;background:#025E73;color:#ffffff;text-decoration:none;border-radius:4px;">
+        Open ${escapeHtml(formName)}
+      </a>
+    </p>
+    <p style="color:#666666;font-size:12px;">The link is valid until ${expiresAt.toDateString()}.</p>`;
+
+  return { subject: formName, text, html };
+}
+
+async function emailFormLink(lead: Lead, formName: string, customMessage: string | null, token: string, expiresAt: Date) {
+  if (!lead.email) {
+    throw new FormError(`${lead.companyName} has no email address to send the form to`);
+  }
+  const email = buildFormEmail(lead.contactName, formName, customMessage, env.publicUrl(`/forms/${token}`), expiresAt);
+  const sent = await sendEmail(lead.email, email.subject, email.text, email.html);
+  if (!sent) {
+    throw new FormError('The form email could not be sent', 502);
+  }
+}
+
+/**
+ * Email a lead a link to the current version of an active template
+ */
+export async function sendForm(orgId: number, userId: number, input: SendFormInput): Promise<FormSubmission> {
+  const template = await findTemplate(input.templateId, orgId);
+  if (!template.isActive) {
+    throw new FormError('Inactive form templates cannot be sent', 409);
+  }
+  if (fieldsOf(template.fields).length === 0) {
+    throw new FormError('This form template has no fields yet', 409);
+  }
+  const lead = await findLead(input.leadId, orgId);
+
+  const token = generateToken();
+  const sentAt = new Date();
+  const expiresAt = new Date(sentAt.getTime() + (input.expiresInDays ?? DEFAULT_RESPONSE_WINDOW_DAYS) * 24 * 60 * 60 * 1000);
+  const customMessage = input.customMessage?.trim() || null;
+  await emailFormLink(lead, template.name, customMessage, token, expiresAt);
+
+  const submission = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(formSubmissions)
+      .values({
+        orgId,
+        formTemplateId: template.id,
+        templateVersion: template.version,
+        leadId: lead.id,
+        token,
+        sentBy: userId,
+        deliveryMethod: 'email',
+        status: 'Sent',
+        sentAt,
+        expiresAt,
+        customMessage
+      })
+      .returning();
+
+    await syncLeadFormCounts(tx, lead.id);
+    await tx.insert(activities).values({
+      userId,
+      entityType: 'lead',
+      entityId: lead.id,
+      action: 'form_sent',
+      details: `Sent ${template.name} to ${lead.email}`,
+      metadata: { formSubmissionId: created.id, templateVersion: template.version }
+    });
+
+    return created;
+  });
+
+  logger.info(`Form ${template.id} v${template.version} sent to lead ${lead.id} as submission ${submission.id}`);
+  return submission;
+}
+
+/**
+ * Email the link again with a fresh window; an expired link is reopened
+ */
+export async function resendForm(submissionId: number, orgId: number, userId: number, expiresInDays = DEFAULT_RESPONSE_WINDOW_DAYS): Promise<FormSubmission> {
+  const submission = await findSubmission(submissionId, orgId);
+  if (submission.status === 'Completed') {
+    throw new FormError('This form has already been completed', 409);
+  }
+  if (!submission.token) {
+    throw new FormError('This form was not sent as a link and cannot be resent', 409);
+  }
+
+  const [template] = await db.select().from(formTemplates).where(eq(formTemplates.id, submission.formTemplateId));
+  const lead = await findLead(submission.leadId, orgId);
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  await emailFormLink(lead, template.name, submission.customMessage, submission.token, expiresAt);
+
+  const [updated] = await db
+    .update(formSubmissions)
+    .set({ status: submission.status === 'Expired' ? 'Sent' : submission.status, expiresAt })
+    .where(eq(formSubmissions.id, submissionId))
+    .returning();
+
+  await db.insert(activities).values({
+    userId,
+    entityType: 'lead',
+    entityId: lead.id,
+    action: 'form_resent',
+    details: `Resent ${template.name} to ${lead.email}`,
+    metadata: { formSubmissionId: submissionId }
+  });
+
+  return updated;
+}
+
+/**
+ * Location of an uploaded file answer on disk
+ */
+export async function getSubmissionFile(submissionId: number, orgId: number, fieldKey: string) {
+  const submission = await findSubmission(submissionId, orgId);
+  const stored = (submission.responseData as Record<string, unknown> | null)?.[fieldKey] as StoredFormFile | undefined;
+  if (!stored || typeof stored !== 'object' || !stored.path) {
+    throw new FormError('File not found', 404);
+  }
+  const absolutePath = path.join(UPLOADS_ROOT, stored.path);
+  if (!absolutePath.startsWith(UPLOADS_ROOT) || !fs.existsSync(absolutePath)) {
+    throw new FormError('File is missing', 404);
+  }
+  return { file: stored, absolutePath };
+}
+
+// ---------------------------------------------------------------------------
+// Public links
+// ---------------------------------------------------------------------------
+
+async function findByToken(token: string): Promise<FormSubmission> {
+  const [submission] = await db.select().from(formSubmissions).where(eq(formSubmissions.token, token));
+  if (!submission || !submission.orgId) {
+    throw new FormError('Form not found', 404);
+  }
+  if (
+    (submission.status === 'Sent' || submission.status === 'Viewed')
+    && submission.expiresAt
+    && submission.expiresAt < new Date()
+  ) {
+    await db.update(formSubmissions).set({ status: 'Expired' }).where(eq(formSubmissions.id, submission.id));
+    return { ...submission, status: 'Expired' };
+  }
+  return submission;
+}
+
+/**
+ * What the public fill-out page needs; opening it marks the form viewed
+ */
+export async function getPublicForm(token: string) {
+  let submission = await findByToken(token);
+  if (submission.status === 'Sent') {
+    const [viewed] = await db
+      .update(formSubmissions)
+      .set({ status: 'Viewed', viewedAt: new Date() })
+      .where(and(eq(formSubmissions.id, submission.id), eq(formSubmissions.status, 'Sent')))
+      .returning();
+    submission = viewed ?? submission;
+  }
+
+  const [template] = await db
+    .select({ name: formTemplates.name, description: formTemplates.description })
+    .from(formTemplates)
+    .where(eq(formTemplates.id, submission.formTemplateId));
+  const [lead] = await db.select({ companyName: leads.companyName }).from(leads).where(eq(leads.id, submission.leadId));
+  const open = submission.status === 'Sent' || submission.status === 'Viewed';
+
+  return {
+    title: template?.name ?? 'Form',
+    description: template?.description ?? null,
+    companyName: lead?.companyName ?? null,
+    customMessage: submission.customMessage,
+    status: submission.status,
+    expiresAt: submission.expiresAt,
+    fields: open ? await getVersionFields(submission.formTemplateId, submission.templateVersion) : []
+  };
+}
+
+async function storeFiles(submissionId: number, files: Map<string, UploadedFormFile>): Promise<Record<string, StoredFormFile>> {
+  const stored: Record<string, StoredFormFile> = {};
+  for (const [key, file] of Array.from(files.entries())) {
+    const relativePath = path.join(
+      SUBMISSIONS_DIR,
+      String(submissionId),
+      `${Date.now()}-${crypto.randomBytes(6).toString('hex')}-${safeFileName(file.originalname)}`
+    );
+    const absolutePath = path.join(UPLOADS_ROOT, relativePath);
+    await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.promises.writeFile(absolutePath, file.buffer);
+    stored[key] = { fileName: file.originalname, mimeType: file.mimetype, size: file.size, path: relativePath };
+  }
+  return stored;
+}
+
+async function removeFiles(stored: Record<string, StoredFormFile>): Promise<void> {
+  await Promise.all(
+    Object.values(stored).map(file => fs.promises.unlink(path.join(UPLOADS_ROOT, file.path)).catch(() => undefined))
+  );
+}
+
+/**
+ * Validate the answers against the version the link was sent with and
+ * complete the submission; a form can be completed once
+ */
+export async function submitPublicForm(token: string, answers: Record<string, unknown>, files: UploadedFormFile[] = []): Promise<void> {
+  const submission = await findByToken(token);
+  if (submission.status === 'Completed') {
+    throw new FormError('This form has already been completed', 409);
+  }
+  if (submission.status === 'Expired') {
+    throw new FormError('This form link has expired', 410);
+  }
+
+  const fields = await getVersionFields(submission.formTemplateId, submission.templateVersion);
+  const result = validateFormAnswers(fields, answers, files);
+  if (Object.keys(result.errors).length > 0) {
+    throw new FormError('Some answers are missing or invalid', 422, result.errors);
+  }
+
+  const storedFiles = await storeFiles(submission.id, result.files);
+  const now = new Date();
+  try {
+    await db.transaction(async (tx) => {
+      const [completed] = await tx
+        .update(formSubmissions)
+        .set({
+          status: 'Completed',
+          completedAt: now,
+          viewedAt: submission.viewedAt ?? now,
+          responseData: { ...result.values, ...storedFiles }
+        })
+        .where(and(eq(formSubmissions.id, submission.id), inArray(formSubmissions.status, [...OPEN_STATUSES])))
+        .returning();
+      if (!completed) {
+        throw new FormError('This form has already been completed', 409);
+      }
+
+      await syncLeadFormCounts(tx, submission.leadId);
+      await tx.insert(activities).values({
+        userId: submission.sentBy,
+        entityType: 'lead',
+        entityId: submission.leadId,
+        action: 'form_completed',
+        details: 'Lead completed a form',
+        metadata: { formSubmissionId: submission.id, templateVersion: submission.templateVersion }
+      });
+    });
+  } catch (error) {
+    await removeFiles(storedFiles);
+    throw error;
+  }
+
+  logger.info(`Form submission ${submission.id} completed`);
+  const [lead] = await db.select({ companyName: leads.companyName }).from(leads).where(eq(leads.id, submission.leadId));
+  await notify(
+    submission.sentBy,
+    submission.orgId!,
+    'Form completed',
+    `${lead?.companyName ?? 'A lead'} completed the form you sent`,
+    submission.id
+  );
+}
+
+export default {
+  FORM_FIELD_TYPES,
+  validateFieldDefinitions,
+  validateFormAnswers,
+  syncLeadFormCounts,
+  expireOverdueSubmissions,
+  listFormTemplates,
+  getFormTemplate,
+  createFormTemplate,
+  updateFormTemplate,
+  deleteFormTemplate,
+  listFormSubmissions,
+  getFormSubmission,
+  sendForm,
+  resendForm,
+  getSubmissionFile,
+  getPublicForm,
+  submitPublicForm
+};
@@ -0,0 +1,332 @@
+/**
+ * Invoice Credits
+ *
+ * Corrections to invoices that have already been sent. A credit note is
+ * linked to the original invoice, its lines reference the invoice_items being
+ * credited and it reduces the outstanding balance (invoices.creditedAmount).
+ * Voiding keeps the invoice record but takes it out of receivables and
+ * revenue and releases its loads for billing again. Either way, commissions
+ * already calculated against the invoice are flagged for adjustment.
+ */
+
+import { and, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { invoiceBalance, syncInvoiceFromLedger } from './invoice-payments';
+import { regenerateInvoicePdf } from './invoice-pdf';
+import { recordLoadStatusChanges } from './load-lifecycle';
+import {
+  commissions,
+  creditNoteItems,
+  creditNotes,
+  invoiceItems,
+  invoices,
+  loads,
+  users,
+  type Commission,
+  type CreditNote,
+  type CreditNoteItem,
+  type Invoice
+} from '@shared/schema';
+
+/**
+ * Invoices that can be credited: sent to the client and not settled yet
+ */
+export const CREDITABLE_INVOICE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+export const VOIDABLE_INVOICE_STATUSES = ['draft', 'sent', 'overdue'];
+
+export const COMMISSION_NEEDS_ADJUSTMENT = 'needs_adjustment';
+export const COMMISSION_ADJUSTED = 'adjusted';
+
+export interface CreditNoteLineInput {
+  invoiceItemId: number;
+  amount: number;
+  description?: string;
+}
+
+export interface CreateCreditNoteInput {
+  reason: string;
+  issuedDate?: string; // YYYY-MM-DD, defaults to today
+  lines: CreditNoteLineInput[];
+}
+
+export interface CreditNoteResult {
+  creditNote: CreditNote & { items: CreditNoteItem[] };
+  invoice: Invoice;
+  balance: number;
+  flaggedCommissions: number;
+}
+
+export class InvoiceCreditError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'InvoiceCreditError';
+    this.statusCode = statusCode;
+  }
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function lockInvoice(tx: DbExecutor, invoiceId: number, orgId: number): Promise<Invoice> {
+  const [invoice] = await tx
+    .select()
+    .from(invoices)
+    .where(eq(invoices.id, invoiceId))
+    .for('update');
+
+  if (!invoice || invoice.orgId !== orgId) {
+    throw new InvoiceCreditError('Invoice not found', 404);
+  }
+  return invoice;
+}
+
+/**
+ * Flag the commissions calculated against an invoice for adjustment.
+ * Commissions already flagged keep their original reason.
+ */
+async function flagInvoiceCommissions(tx: DbExecutor, invoiceId: number, reason: string): Promise<number> {
+  const flagged = await tx
+    .update(commissions)
+    .set({ adjustmentStatus: COMMISSION_NEEDS_ADJUSTMENT, adjustmentReason: reason, updatedAt: new Date() })
+    .where(and(
+      eq(commissions.invoiceId, invoiceId),
+      or(isNull(commissions.adjustmentStatus), eq(commissions.adjustmentStatus, COMMISSION_ADJUSTED))
+    ))
+    .returning({ id: commissions.id });
+  return flagged.length;
+}
+
+export async function getCreditNotes(invoiceId: number, orgId: number): Promise<Array<CreditNote & { items: CreditNoteItem[]; createdByName: string | null }>> {
+  const [invoice] = await db
+    .select({ orgId: invoices.orgId })
+    .from(invoices)
+    .where(eq(invoices.id, invoiceId));
+  if (!invoice || invoice.orgId !== orgId) {
+    throw new InvoiceCreditError('Invoice not found', 404);
+  }
+
+  const notes = await db
+    .select({
+      creditNote: creditNotes,
+      createdByName: sql<string | null>`${users.firstName} || ' ' || ${users.lastName}`
+    })
+    .from(creditNotes)
+    .leftJoin(users, eq(users.id, creditNotes.createdBy))
+    .where(eq(creditNotes.invoiceId, invoiceId))
+    .orderBy(desc(creditNotes.issuedDate), desc(creditNotes.id));
+
+  if (notes.length === 0) return [];
+
+  const items = await db
+    .select()
+    .from(creditNoteItems)
+    .where(inArray(creditNoteItems.creditNoteId, notes.map(note => note.creditNote.id)));
+
+  return notes.map(({ creditNote, createdByName }) => ({
+    ...creditNote,
+    createdByName,
+    items: items.filter(item => item.creditNoteId === creditNote.id)
+  }));
+}
+
+/**
+ * Issue a credit note against a sent invoice. Each line credits part or all
+ * of an invoice item; an item can never be credited for more than its amount.
+ */
+export async function createCreditNote(
+  invoiceId: number,
+  input: CreateCreditNoteInput,
+  userId: number,
+  orgId: number
+): Promise<CreditNoteResult> {
+  if (input.lines.length === 0) {
+    throw new InvoiceCreditError('A credit note needs at least one line');
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const invoice = await lockInvoice(tx, invoiceId, orgId);
+    if (!CREDITABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new InvoiceCreditError(`Cannot credit a ${invoice.status} invoice`, 409);
+    }
+
+    const items = await tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+    const alreadyCredited = await tx
+      .select({
+        invoiceItemId: creditNoteItems.invoiceItemId,
+        amount: sql<number>`coalesce(sum(${creditNoteItems.amount}), 0)`
+      })
+      .from(creditNoteItems)
+      .innerJoin(creditNotes, eq(creditNotes.id, creditNoteItems.creditNoteId))
+      .where(eq(creditNotes.invoiceId, invoiceId))
+      .groupBy(creditNoteItems.invoiceItemId);
+
+    const creditedByItem = new Map(alreadyCredited.map(row => [row.invoiceItemId, Number(row.amount)]));
+    const lines = input.lines.map(line => {
+      const item = items.find(candidate => candidate.id === line.invoiceItemId);
+      if (!item) {
+        throw new InvoiceCreditError(`Invoice item ${line.invoiceItemId} does not belong to invoice #${invoice.invoiceNumber}`);
+      }
+
+      const amount = roundCurrency(line.amount);
+      const remaining = roundCurrency(item.amount - (creditedByItem.get(item.id) ?? 0));
+      if (amount <= 0 || amount > remaining) {
+        throw new InvoiceCreditError(`Credit for "${item.description}" must be between 0 and ${remaining.toFixed(2)}`);
+      }
+      creditedByItem.set(item.id, (creditedByItem.get(item.id) ?? 0) + amount);
+
+      return { invoiceItemId: item.id, description: line.description || item.description, amount };
+    });
+
+    const amount = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+    const balance = invoiceBalance(invoice);
+    if (amount > balance) {
+      throw new InvoiceCreditError(`Credit of ${amount.toFixed(2)} exceeds the outstanding balance of ${balance.toFixed(2)}`);
+    }
+
+    const [{ count }] = await tx
+      .select({ count: sql<number>`count(*)` })
+      .from(creditNotes)
+      .where(eq(creditNotes.invoiceId, invoiceId));
+
+    const [creditNote] = await tx
+      .insert(creditNotes)
+      .values({
+        orgId: invoice.orgId ?? orgId,
+        invoiceId,
+        creditNoteNumber: `${invoice.invoiceNumber}-CN${Number(count) + 1}`,
+        amount,
+        reason: input.reason,
+        issuedDate: input.issuedDate ?? new Date().toISOString().slice(0, 10),
+        createdBy: userId
+      })
+      .returning();
+
+    const noteItems = await tx
+      .insert(creditNoteItems)
+      .values(lines.map(line => ({ ...line, creditNoteId: creditNote.id })))
+      .returning();
+
+    const [credited] = await tx
+      .update(invoices)
+      .set({ creditedAmount: roundCurrency((invoice.creditedAmount ?? 0) + amount), updatedAt: new Date() })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    const updated = await syncInvoiceFromLedger(tx, credited);
+
+    const flaggedCommissions = await flagInvoiceCommissions(
+      tx,
+      invoiceId,
+      `Credit note ${creditNote.creditNoteNumber} of ${amount.toFixed(2)}: ${input.reason}`
+    );
+
+    return { creditNote: { ...creditNote, items: noteItems }, invoice: updated, flaggedCommissions };
+  });
+
+  regenerateInvoicePdf(invoiceId);
+  logger.info(`Issued credit note ${result.creditNote.creditNoteNumber} of ${result.creditNote.amount} on invoice ${invoiceId}; ${result.flaggedCommissions} commissions flagged`);
+  return { ...result, balance: invoiceBalance(result.invoice) };
+}
+
+/**
+ * Void an invoice. Invoices with payments cannot be voided; credit them
+ * instead. The invoice's loads return to delivered so they can be billed on
+ * a corrected invoice.
+ */
+export async function voidInvoice(invoiceId: number, reason: string, userId: number, orgId: number) {
+  const result = await db.transaction(async (tx) => {
+    const invoice = await lockInvoice(tx, invoiceId, orgId);
+    if (!VOIDABLE_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new InvoiceCreditError(`Cannot void a ${invoice.status} invoice`, 409);
+    }
+    if ((invoice.paidAmount ?? 0) > 0) {
+      throw new InvoiceCreditError('Invoices with recorded payments cannot be voided; issue a credit note instead', 409);
+    }
+
+    const [voided] = await tx
+      .update(invoices)
+      .set({ status: 'void', voidedAt: new Date(), voidedBy: userId, voidReason: reason, updatedAt: new Date() })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+
+    const items = await tx.select({ loadId: invoiceItems.loadId }).from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+    const releasedLoads = items.length > 0
+      ? await tx
+          .update(loads)
+          .set({ status: 'delivered', updatedAt: new Date() })
+          .where(and(inArray(loads.id, items.map(item => item.loadId)), eq(loads.status, 'invoiced')))
+          .returning({ id: loads.id, orgId: loads.orgId })
+      : [];
+    await recordLoadStatusChanges(
+      tx,
+      releasedLoads.map(load => ({ ...load, status: 'invoiced' })),
+      'void_invoice',
+      userId,
+      `Invoice #${invoice.invoiceNumber} voided: ${reason}`
+    );
+
+    const flaggedCommissions = await flagInvoiceCommissions(tx, invoiceId, `Invoice #${invoice.invoiceNumber} voided: ${reason}`);
+    return { invoice: voided, releasedLoads: releasedLoads.map(load => load.id), flaggedCommissions };
+  });
+
+  regenerateInvoicePdf(invoiceId);
+  logger.info(`Voided invoice ${invoiceId}; ${result.releasedLoads.length} loads released, ${result.flaggedCommissions} commissions flagged`);
+  return result;
+}
+
+/**
+ * Commissions of the organization's users waiting for an adjustment
+ */
+export async function getCommissionsNeedingAdjustment(orgId: number): Promise<Array<Commission & { invoiceNumber: string | null; invoiceStatus: string | null }>> {
+  const rows = await db
+    .select({ commission: commissions, invoiceNumber: invoices.invoiceNumber, invoiceStatus: invoices.status })
+    .from(commissions)
+    .innerJoin(users, eq(users.id, commissions.userId))
+    .leftJoin(invoices, eq(invoices.id, commissions.invoiceId))
+    .where(and(eq(users.orgId, orgId), eq(commissions.adjustmentStatus, COMMISSION_NEEDS_ADJUSTMENT)))
+    .orderBy(desc(commissions.updatedAt));
+
+  return rows.map(row => ({ ...row.commission, invoiceNumber: row.invoiceNumber, invoiceStatus: row.invoiceStatus }));
+}
+
+/**
+ * Mark a flagged commission as adjusted, optionally correcting its amount
+ */
+export async function resolveCommissionAdjustment(commissionId: number, orgId: number, amount?: number): Promise<Commission> {
+  const [commission] = await db
+    .select({ commission: commissions })
+    .from(commissions)
+    .innerJoin(users, eq(users.id, commissions.userId))
+    .where(and(eq(commissions.id, commissionId), eq(users.orgId, orgId)));
+
+  if (!commission) {
+    throw new InvoiceCreditError('Commission not found', 404);
+  }
+  if (commission.commission.adjustmentStatus !== COMMISSION_NEEDS_ADJUSTMENT) {
+    throw new InvoiceCreditError('Commission is not flagged for adjustment', 409);
+  }
+
+  const [updated] = await db
+    .update(commissions)
+    .set({
+      adjustmentStatus: COMMISSION_ADJUSTED,
+      ...(amount !== undefined ? { amount: roundCurrency(amount) } : {}),
+      updatedAt: new Date()
+    })
+    .where(eq(commissions.id, commissionId))
+    .returning();
+  return updated;
+}
+
+export default {
+  createCreditNote,
+  getCreditNotes,
+  voidInvoice,
+  getCommissionsNeedingAdjustment,
+  resolveCommissionAdjustment
+};
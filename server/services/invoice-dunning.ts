@@ -0,0 +1,248 @@
+/**
+ * Invoice Dunning
+ *
+ * Daily job logic for overdue invoices: marks sent and partially paid
+ * invoices overdue once the due date has passed and sends the escalating
+ * reminder templates at the day offsets configured per organization
+ * (moduleSettings.dunning). Each send is recorded as an activity on the
+ * invoice with the step's day offset and template, which is also how the job
+ * knows which steps were already sent; editing or reordering the steps does
+ * not resend them. Dunning stops once the invoice is paid or while a user has
+ * paused dunning for the client.
+ */
+
+import { and, eq, inArray, lt, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { activities, invoices, leads, type Invoice } from '@shared/schema';
+import { InvoiceTemplateType, sendInvoiceEmailWithTemplate } from '../invoiceTemplates';
+import { buildInvoiceEmailData } from './invoice-email';
+import { OPEN_INVOICE_STATUSES } from './invoice-payments';
+import { getModuleSettings, updateModuleSettings } from './organization-settings';
+
+export type DunningTemplate =
+  | InvoiceTemplateType.FRIENDLY_REMINDER
+  | InvoiceTemplateType.URGENT_PAYMENT
+  | InvoiceTemplateType.OVERDUE_NOTICE;
+
+export interface DunningStep {
+  // Days relative to the due date; negative values send before the invoice is due
+  daysFromDue: number;
+  template: DunningTemplate;
+}
+
+export interface DunningSettings {
+  enabled: boolean;
+  steps: DunningStep[];
+}
+
+export const DEFAULT_DUNNING_SETTINGS: DunningSettings = {
+  enabled: true,
+  steps: [
+    { daysFromDue: -3, template: InvoiceTemplateType.FRIENDLY_REMINDER },
+    { daysFromDue: 3, template: InvoiceTemplateType.URGENT_PAYMENT },
+    { daysFromDue: 14, template: InvoiceTemplateType.OVERDUE_NOTICE }
+  ]
+};
+
+export const DUNNING_ACTIVITY_ACTION = 'dunning_sent';
+
+export interface DunningRunResult {
+  markedOverdue: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+export async function getDunningSettings(orgId: number): Promise<DunningSettings> {
+  const settings = await getModuleSettings(orgId, 'dunning', DEFAULT_DUNNING_SETTINGS);
+  return {
+    enabled: settings.enabled !== false,
+    steps: [...(settings.steps ?? [])].sort((a, b) => a.daysFromDue - b.daysFromDue)
+  };
+}
+
+export async function updateDunningSettings(orgId: number, settings: DunningSettings): Promise<DunningSettings> {
+  return updateModuleSettings(orgId, 'dunning', {
+    enabled: settings.enabled,
+    steps: [...settings.steps].sort((a, b) => a.daysFromDue - b.daysFromDue)
+  });
+}
+
+/**
+ * The latest step that is due for the invoice and lies after the last step
+ * sent. Earlier missed steps are skipped so a client never gets several
+ * reminders on the same day.
+ */
+export function nextDunningStep(steps: DunningStep[], daysFromDue: number, sentSteps: DunningStep[]): DunningStep | null {
+  const lastSentOffset = sentSteps.length > 0
+    ? Math.max(...sentSteps.map(step => step.daysFromDue))
+    : Number.NEGATIVE_INFINITY;
+  let candidate: DunningStep | null = null;
+  for (const step of steps) {
+    if (step.daysFromDue <= daysFromDue && step.daysFromDue > lastSentOffset) {
+      candidate = step;
+    }
+  }
+  return candidate;
+}
+
+/**
+ * Sent and partially paid invoices past their due date become overdue
+ */
+export async function markOverdueInvoices(today: string): Promise<number> {
+  const updated = await db
+    .update(invoices)
+    .set({ status: 'overdue', updatedAt: new Date() })
+    .where(and(inArray(invoices.status, ['sent', 'partially_paid']), lt(invoices.dueDate, today)))
+    .returning({ id: invoices.id });
+  return updated.length;
+}
+
+async function getSentSteps(invoiceIds: number[]): Promise<Map<number, DunningStep[]>> {
+  const sent = new Map<number, DunningStep[]>();
+  if (invoiceIds.length === 0) return sent;
+
+  const rows = await db
+    .select({ entityId: activities.entityId, metadata: activities.metadata })
+    .from(activities)
+    .where(and(
+      eq(activities.entityType, 'invoice'),
+      eq(activities.action, DUNNING_ACTIVITY_ACTION),
+      inArray(activities.entityId, invoiceIds)
+    ));
+
+  for (const row of rows) {
+    const metadata = row.metadata as { stepDaysFromDue?: number; template?: DunningTemplate } | null;
+    if (typeof metadata?.stepDaysFromDue === 'number' && metadata.template) {
+      const step = { daysFromDue: metadata.stepDaysFromDue, template: metadata.template };
+      sent.set(row.entityId, [...(sent.get(row.entityId) ?? []), step]);
+    }
+  }
+  return sent;
+}
+
+async function sendDunningStep(invoice: Invoice, step: DunningStep, daysFromDue: number): Promise<boolean> {
+  const emailData = await buildInvoiceEmailData(invoice);
+  if (!emailData) {
+    logger.warn(`Dunning skipped for invoice ${invoice.invoiceNumber}: client has no email address`);
+    return false;
+  }
+
+  const { lead, ...templateData } = emailData;
+  const sent = await sendInvoiceEmailWithTemplate(step.template, templateData);
+  if (!sent) {
+    throw new Error(`Email delivery failed for invoice ${invoice.invoiceNumber}`);
+  }
+
+  await db.insert(activities).values({
+    userId: invoice.createdBy,
+    entityType: 'invoice',
+    entityId: invoice.id,
+    action: DUNNING_ACTIVITY_ACTION,
+    details: `Sent ${step.template.replace(/_/g, ' ')} for invoice #${invoice.invoiceNumber} to ${lead.email} (${daysFromDue} days from due date)`,
+    metadata: { stepDaysFromDue: step.daysFromDue, template: step.template, daysFromDue, recipient: lead.email }
+  });
+
+  return true;
+}
+
+/**
+ * Run one dunning pass for all organizations
+ */
+export async function runInvoiceDunning(now: Date = new Date()): Promise<DunningRunResult> {
+  const today = toDateString(now);
+  const result: DunningRunResult = { markedOverdue: 0, sent: 0, skipped: 0, failed: 0 };
+
+  result.markedOverdue = await markOverdueInvoices(today);
+
+  const openInvoices = await db
+    .select({ invoice: invoices })
+    .from(invoices)
+    .innerJoin(leads, eq(leads.id, invoices.leadId))
+    .where(and(
+      inArray(invoices.status, OPEN_INVOICE_STATUSES),
+      eq(leads.dunningPaused, false),
+      sql`${invoices.totalAmount} > coalesce(${invoices.paidAmount}, 0) + ${invoices.creditedAmount}`
+    ));
+
+  const sentSteps = await getSentSteps(openInvoices.map(row => row.invoice.id));
+  const settingsByOrg = new Map<number, DunningSettings>();
+
+  for (const { invoice } of openInvoices) {
+    const orgKey = invoice.orgId ?? 0;
+    let settings = settingsByOrg.get(orgKey);
+    if (!settings) {
+      settings = invoice.orgId ? await getDunningSettings(invoice.orgId) : DEFAULT_DUNNING_SETTINGS;
+      settingsByOrg.set(orgKey, settings);
+    }
+    if (!settings.enabled) {
+      result.skipped++;
+      continue;
+    }
+
+    const daysFromDue = daysBetween(invoice.dueDate, today);
+    const step = nextDunningStep(settings.steps, daysFromDue, sentSteps.get(invoice.id) ?? []);
+    if (!step) {
+      continue;
+    }
+
+    try {
+      const sent = await sendDunningStep(invoice, step, daysFromDue);
+      sent ? result.sent++ : result.skipped++;
+    } catch (error) {
+      result.failed++;
+      logger.error(`Dunning failed for invoice ${invoice.id}:`, error);
+    }
+  }
+
+  logger.info(`Invoice dunning: ${result.markedOverdue} marked overdue, ${result.sent} reminders sent, ${result.skipped} skipped, ${result.failed} failed`);
+  return result;
+}
+
+/**
+ * Pause or resume dunning for a client (lead)
+ */
+export async function setClientDunningPaused(leadId: number, orgId: number, paused: boolean, userId: number) {
+  const [lead] = await db
+    .update(leads)
+    .set({
+      dunningPaused: paused,
+      dunningPausedAt: paused ? new Date() : null,
+      dunningPausedBy: paused ? userId : null,
+      updatedAt: new Date()
+    })
+    .where(and(eq(leads.id, leadId), eq(leads.orgId, orgId)))
+    .returning();
+
+  if (lead) {
+    await db.insert(activities).values({
+      userId,
+      entityType: 'lead',
+      entityId: leadId,
+      action: paused ? 'dunning_paused' : 'dunning_resumed',
+      details: `${paused ? 'Paused' : 'Resumed'} automatic invoice reminders for ${lead.companyName}`
+    });
+  }
+
+  return lead;
+}
+
+export default {
+  runInvoiceDunning,
+  markOverdueInvoices,
+  getDunningSettings,
+  updateDunningSettings,
+  setClientDunningPaused,
+  nextDunningStep
+};
@@ -0,0 +1,71 @@
+/**
+ * Invoice Email
+ *
+ * Builds the data passed to sendInvoiceEmailWithTemplate from the stored
+ * invoice, its items, loads, client (lead) and creator.
+ */
+
+import { eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { invoiceItems, leads, loads, users, type Invoice, type Lead } from '@shared/schema';
+import type { InvoiceEmailData } from '../invoiceTemplates';
+
+/**
+ * Returns null when the client has no email address to send to
+ */
+export async function buildInvoiceEmailData(
+  invoice: Invoice,
+  customMessage?: string
+): Promise<(InvoiceEmailData & { lead: Lead }) | null> {
+  const [lead] = await db.select().from(leads).where(eq(leads.id, invoice.leadId));
+  if (!lead?.email) {
+    return null;
+  }
+
+  const [creator] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName, email: users.email, phoneNumber: users.phoneNumber })
+    .from(users)
+    .where(eq(users.id, invoice.createdBy));
+
+  const items = await db.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoice.id));
+  const loadIds = items.map(item => item.loadId);
+  const itemLoads = loadIds.length > 0
+    ? await db.select().from(loads).where(inArray(loads.id, loadIds))
+    : [];
+
+  return {
+    lead,
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    clientName: lead.companyName,
+    clientEmail: lead.email,
+    clientContactName: lead.contactName,
+    totalAmount: invoice.totalAmount,
+    issuedDate: invoice.issuedDate,
+    dueDate: invoice.dueDate,
+    items: items.map(item => {
+      const load = itemLoads.find(l => l.id === item.loadId);
+      return {
+        description: item.description,
+        amount: item.amount,
+        loadInfo: load ? {
+          loadNumber: String(load.id),
+          origin: load.origin,
+          destination: load.destination,
+          date: load.pickupDate
+        } : undefined
+      };
+    }),
+    notes: invoice.notes ?? undefined,
+    createdBy: {
+      name: creator ? `${creator.firstName} ${creator.lastName}` : 'MetaSys ERP',
+      email: creator?.email ?? 'noreply@metasyserp.com',
+      phone: creator?.phoneNumber ?? undefined
+    },
+    customMessage
+  };
+}
+
+export default {
+  buildInvoiceEmailData
+};
@@ -0,0 +1,213 @@
+/**
+ * Invoice Numbering
+ *
+ * Per-organization invoice number sequences configured under
+ * organization_settings.moduleSettings.invoiceNumbering. Numbers are
+ * allocated while holding a row lock on the organization, so concurrent
+ * billing runs never receive the same number. Allocating inside the caller's
+ * transaction means a rolled back invoice also gives its number back.
+ */
+
+import { and, eq, like } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { ErrorCategory } from '../middleware/error-handler';
+import { invoices, organizations, organizationSettings } from '@shared/schema';
+import { getModuleSettings } from './organization-settings';
+
+export interface InvoiceNumberingSettings {
+  prefix: string;
+  // Restart at 1 every calendar year; the year becomes part of the number
+  yearlyReset: boolean;
+  padding: number;
+  nextNumber: number;
+  // Year the current sequence belongs to, maintained by the allocator
+  sequenceYear?: number;
+}
+
+export const DEFAULT_INVOICE_NUMBERING: InvoiceNumberingSettings = {
+  prefix: 'INV',
+  yearlyReset: true,
+  padding: 5,
+  nextNumber: 1
+};
+
+const MODULE = 'invoiceNumbering';
+
+export class InvoiceNumberingError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'InvoiceNumberingError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function formatInvoiceNumber(settings: InvoiceNumberingSettings, sequence: number, year: number): string {
+  const padded = String(sequence).padStart(settings.padding, '0');
+  const prefix = settings.prefix ? `${settings.prefix}-` : '';
+  return settings.yearlyReset ? `${prefix}${year}-${padded}` : `${prefix}${padded}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Highest sequence number the organization's invoices already carry in the
+ * given format and year; padding is ignored so a re-padded number still counts
+ */
+async function highestIssuedSequence(tx: DbExecutor, orgId: number, settings: InvoiceNumberingSettings, year: number): Promise<number> {
+  const stem = formatInvoiceNumber({ ...settings, padding: 0 }, 0, year).slice(0, -1);
+  const pattern = new RegExp(`^${escapeRegExp(stem)}(\\d+)$`);
+  const rows = await tx
+    .select({ invoiceNumber: invoices.invoiceNumber })
+    .from(invoices)
+    .where(and(eq(invoices.orgId, orgId), like(invoices.invoiceNumber, `${stem}%`)));
+
+  return rows.reduce((highest, row) => {
+    const match = pattern.exec(row.invoiceNumber);
+    return match ? Math.max(highest, Number(match[1])) : highest;
+  }, 0);
+}
+
+/**
+ * The sequence number the next allocation in the given year will use
+ */
+function effectiveNextNumber(settings: InvoiceNumberingSettings, year: number): number {
+  if (settings.yearlyReset && settings.sequenceYear !== undefined && settings.sequenceYear !== year) {
+    return 1;
+  }
+  return settings.nextNumber;
+}
+
+export async function getInvoiceNumberingSettings(orgId: number): Promise<InvoiceNumberingSettings> {
+  return getModuleSettings(orgId, MODULE, DEFAULT_INVOICE_NUMBERING);
+}
+
+/**
+ * Settings plus a preview of the number the next invoice will receive
+ */
+export async function getInvoiceNumberingOverview(orgId: number, date: Date = new Date()) {
+  const settings = await getInvoiceNumberingSettings(orgId);
+  const year = date.getFullYear();
+  return {
+    ...settings,
+    nextInvoiceNumber: formatInvoiceNumber(settings, effectiveNextNumber(settings, year), year)
+  };
+}
+
+async function readLockedSettings(tx: DbExecutor, orgId: number) {
+  const [organization] = await tx
+    .select({ id: organizations.id })
+    .from(organizations)
+    .where(eq(organizations.id, orgId))
+    .for('update');
+  if (!organization) {
+    throw new InvoiceNumberingError(`Organization ${orgId} not found`, 404);
+  }
+
+  const [row] = await tx
+    .select()
+    .from(organizationSettings)
+    .where(eq(organizationSettings.orgId, orgId));
+  const moduleSettings = (row?.moduleSettings ?? {}) as Record<string, unknown>;
+  const stored = moduleSettings[MODULE];
+  const settings: InvoiceNumberingSettings = stored && typeof stored === 'object'
+    ? { ...DEFAULT_INVOICE_NUMBERING, ...(stored as Partial<InvoiceNumberingSettings>) }
+    : { ...DEFAULT_INVOICE_NUMBERING };
+
+  return { row, moduleSettings, settings };
+}
+
+async function writeSettings(
+  tx: DbExecutor,
+  orgId: number,
+  row: { id: number } | undefined,
+  moduleSettings: Record<string, unknown>,
+  settings: InvoiceNumberingSettings
+) {
+  const updated = { ...moduleSettings, [MODULE]: settings };
+  if (row) {
+    await tx
+      .update(organizationSettings)
+      .set({ moduleSettings: updated, updatedAt: new Date() })
+      .where(eq(organizationSettings.id, row.id));
+  } else {
+    await tx.insert(organizationSettings).values({ orgId, moduleSettings: updated });
+  }
+}
+
+/**
+ * Allocate the next invoice number of an organization. Pass the transaction
+ * that creates the invoice; without one the allocation commits on its own.
+ */
+export async function allocateInvoiceNumber(orgId: number, date: Date = new Date(), executor?: DbExecutor): Promise<string> {
+  if (!executor) {
+    return db.transaction(tx => allocateInvoiceNumber(orgId, date, tx));
+  }
+
+  const { row, moduleSettings, settings } = await readLockedSettings(executor, orgId);
+  const year = date.getFullYear();
+  const sequence = effectiveNextNumber(settings, year);
+
+  await writeSettings(executor, orgId, row, moduleSettings, {
+    ...settings,
+    nextNumber: sequence + 1,
+    sequenceYear: year
+  });
+
+  return formatInvoiceNumber(settings, sequence, year);
+}
+
+/**
+ * Update the numbering settings. The next number may not move backwards
+ * within the current sequence, nor to a number an existing invoice already
+ * carries in the new format, which would hand out numbers again.
+ */
+export async function updateInvoiceNumberingSettings(
+  orgId: number,
+  values: Pick<InvoiceNumberingSettings, 'prefix' | 'yearlyReset' | 'padding'> & { nextNumber?: number }
+): Promise<InvoiceNumberingSettings> {
+  return db.transaction(async (tx) => {
+    const { row, moduleSettings, settings } = await readLockedSettings(tx, orgId);
+    const year = new Date().getFullYear();
+    const current = effectiveNextNumber(settings, year);
+    const formatChanged = values.prefix !== settings.prefix || values.yearlyReset !== settings.yearlyReset;
+
+    if (values.nextNumber !== undefined && values.nextNumber < current && !formatChanged) {
+      throw new InvoiceNumberingError(`Next number cannot be lower than ${current}, numbers up to it may already be in use`);
+    }
+
+    const updated: InvoiceNumberingSettings = {
+      prefix: values.prefix,
+      yearlyReset: values.yearlyReset,
+      padding: values.padding,
+      nextNumber: values.nextNumber ?? current,
+      sequenceYear: year
+    };
+
+    // A format used before may already have issued numbers past the new start
+    const issued = await highestIssuedSequence(tx, orgId, updated, year);
+    if (updated.nextNumber <= issued) {
+      if (values.nextNumber !== undefined) {
+        throw new InvoiceNumberingError(
+          `Next number must be above ${issued}, ${formatInvoiceNumber(updated, issued, year)} has already been issued`,
+          409
+        );
+      }
+      updated.nextNumber = issued + 1;
+    }
+    await writeSettings(tx, orgId, row, moduleSettings, updated);
+    return updated;
+  });
+}
+
+export default {
+  allocateInvoiceNumber,
+  formatInvoiceNumber,
+  getInvoiceNumberingSettings,
+  getInvoiceNumberingOverview,
+  updateInvoiceNumberingSettings
+};
@@ -0,0 +1,352 @@
+/**
+ * Invoice Payments
+ *
+ * Payment ledger for invoices. A carrier may pay an invoice in several
+ * installments; each one is stored in invoice_payments and the invoice's
+ * paidAmount, paidDate and status are derived from the ledger:
+ * sent -> partially_paid -> paid. Issued credit notes (creditedAmount) count
+ * towards settling the invoice as well. The payment that settles an invoice
+ * moves its invoiced loads to paid.
+ */
+
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { emitInvoicePaid } from './event-emitter';
+import { LOAD_TRANSITIONS, recordLoadStatusChanges, type LoadAction } from './load-lifecycle';
+import {
+  invoiceItems,
+  invoicePayments,
+  invoices,
+  leads,
+  loads,
+  type Invoice,
+  type InvoicePayment
+} from '@shared/schema';
+
+export const PAYMENT_METHODS = ['ach', 'wire', 'check', 'card', 'cash', 'factoring', 'other'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+/**
+ * Invoice statuses that still carry an open balance
+ */
+export const OPEN_INVOICE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+
+export interface RecordPaymentInput {
+  amount: number;
+  paymentDate: string; // YYYY-MM-DD
+  method: PaymentMethod;
+  referenceNumber?: string | null;
+  notes?: string | null;
+}
+
+export interface PaymentResult {
+  invoice: Invoice;
+  payment: InvoicePayment;
+  balance: number;
+}
+
+export class InvoicePaymentError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'InvoicePaymentError';
+    this.statusCode = statusCode;
+  }
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amount still owed on an invoice after payments and credit notes
+ */
+export function invoiceBalance(invoice: Pick<Invoice, 'totalAmount' | 'paidAmount' | 'creditedAmount'>): number {
+  return roundCurrency(invoice.totalAmount - (invoice.paidAmount ?? 0) - (invoice.creditedAmount ?? 0));
+}
+
+/**
+ * Status of an invoice given the total paid so far. An invoice settled
+ * entirely by credit notes is credited. Invoices with nothing paid keep their
+ * current status unless it was a settlement status, in which case they fall
+ * back to sent (e.g. after a payment is deleted).
+ */
+export function deriveInvoiceStatus(invoice: Pick<Invoice, 'status' | 'totalAmount' | 'creditedAmount'>, paidTotal: number): string {
+  const credited = invoice.creditedAmount ?? 0;
+  if (roundCurrency(paidTotal + credited) >= roundCurrency(invoice.totalAmount) && (paidTotal > 0 || credited > 0)) {
+    return paidTotal > 0 ? 'paid' : 'credited';
+  }
+  if (paidTotal > 0) {
+    return 'partially_paid';
+  }
+  return ['paid', 'partially_paid', 'credited'].includes(invoice.status) ? 'sent' : invoice.status;
+}
+
+/**
+ * Recompute paidAmount, paidDate and status of an invoice from its ledger.
+ * Must run inside the transaction that changed the ledger or the credits.
+ */
+export async function syncInvoiceFromLedger(tx: DbExecutor, invoice: Invoice): Promise<Invoice> {
+  const [totals] = await tx
+    .select({
+      paid: sql<number>`coalesce(sum(${invoicePayments.amount}), 0)`,
+      lastPaymentDate: sql<string | null>`max(${invoicePayments.paymentDate})`
+    })
+    .from(invoicePayments)
+    .where(eq(invoicePayments.invoiceId, invoice.id));
+
+  const paidTotal = roundCurrency(Number(totals?.paid ?? 0));
+  const status = deriveInvoiceStatus(invoice, paidTotal);
+
+  const [updated] = await tx
+    .update(invoices)
+    .set({
+      paidAmount: paidTotal > 0 ? paidTotal : null,
+      paidDate: status === 'paid' ? totals.lastPaymentDate : null,
+      status,
+      updatedAt: new Date()
+    })
+    .where(eq(invoices.id, invoice.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Apply a billing transition to the loads on an invoice's items
+ */
+async function moveInvoiceLoads(tx: DbExecutor, invoice: Invoice, action: LoadAction, userId: number, note: string): Promise<void> {
+  const { from, to } = LOAD_TRANSITIONS[action];
+  const items = await tx.select({ loadId: invoiceItems.loadId }).from(invoiceItems).where(eq(invoiceItems.invoiceId, invoice.id));
+  if (items.length === 0) return;
+
+  const moved = await tx
+    .update(loads)
+    .set({ status: to, updatedAt: new Date() })
+    .where(and(inArray(loads.id, items.map(item => item.loadId)), inArray(loads.status, from)))
+    .returning({ id: loads.id, orgId: loads.orgId });
+  await recordLoadStatusChanges(tx, moved.map(load => ({ ...load, status: from[0] })), action, userId, note);
+}
+
+export async function getInvoicePayments(invoiceId: number, orgId: number): Promise<InvoicePayment[]> {
+  const [invoice] = await db
+    .select({ orgId: invoices.orgId })
+    .from(invoices)
+    .where(eq(invoices.id, invoiceId));
+  if (!invoice || invoice.orgId !== orgId) {
+    throw new InvoicePaymentError('Invoice not found', 404);
+  }
+
+  return db
+    .select()
+    .from(invoicePayments)
+    .where(eq(invoicePayments.invoiceId, invoiceId))
+    .orderBy(desc(invoicePayments.paymentDate), desc(invoicePayments.id));
+}
+
+/**
+ * Post a payment against an invoice. emitInvoicePaid fires only for the
+ * payment that brings the balance to zero.
+ */
+export async function recordInvoicePayment(
+  invoiceId: number,
+  input: RecordPaymentInput,
+  userId: number,
+  orgId: number
+): Promise<PaymentResult> {
+  const amount = roundCurrency(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new InvoicePaymentError('Payment amount must be greater than zero');
+  }
+
+  const result = await db.transaction(async (tx) => {
+    // Lock the invoice so concurrent payments cannot both see the old balance
+    const [invoice] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, invoiceId))
+      .for('update');
+
+    if (!invoice || invoice.orgId !== orgId) {
+      throw new InvoicePaymentError('Invoice not found', 404);
+    }
+    if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+      throw new InvoicePaymentError(`Cannot record a payment on a ${invoice.status} invoice`, 409);
+    }
+
+    const balance = invoiceBalance(invoice);
+    if (amount > balance) {
+      throw new InvoicePaymentError(`Payment of ${amount.toFixed(2)} exceeds the outstanding balance of ${balance.toFixed(2)}`);
+    }
+
+    const [payment] = await tx
+      .insert(invoicePayments)
+      .values({
+        orgId,
+        invoiceId,
+        amount,
+        paymentDate: input.paymentDate,
+        method: input.method,
+        referenceNumber: input.referenceNumber ?? null,
+        notes: input.notes ?? null,
+        recordedBy: userId
+      })
+      .returning();
+
+    const updated = await syncInvoiceFromLedger(tx, invoice);
+
+    // The payment that settles the invoice also settles its loads
+    if (updated.status === 'paid' && invoice.status !== 'paid') {
+      await moveInvoiceLoads(tx, invoice, 'pay', userId, `Invoice #${invoice.invoiceNumber} paid`);
+    }
+
+    return { previousStatus: invoice.status, invoice: updated, payment };
+  });
+
+  const balance = invoiceBalance(result.invoice);
+
+  if (result.invoice.status === 'paid' && result.previousStatus !== 'paid') {
+    emitInvoicePaid(result.invoice, userId, orgId);
+  }
+
+  logger.info(`Recorded payment ${result.payment.id} of ${amount} on invoice ${invoiceId}; balance ${balance}`);
+  return { invoice: result.invoice, payment: result.payment, balance };
+}
+
+/**
+ * Remove a payment recorded in error and re-derive the invoice status. Loads
+ * of an invoice that is no longer paid go back to invoiced.
+ */
+export async function deleteInvoicePayment(invoiceId: number, paymentId: number, orgId: number, userId: number): Promise<Invoice> {
+  return db.transaction(async (tx) => {
+    const [invoice] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, invoiceId))
+      .for('update');
+
+    if (!invoice || invoice.orgId !== orgId) {
+      throw new InvoicePaymentError('Invoice not found', 404);
+    }
+
+    const [deleted] = await tx
+      .delete(invoicePayments)
+      .where(and(eq(invoicePayments.id, paymentId), eq(invoicePayments.invoiceId, invoiceId)))
+      .returning();
+
+    if (!deleted) {
+      throw new InvoicePaymentError('Payment not found', 404);
+    }
+
+    const updated = await syncInvoiceFromLedger(tx, invoice);
+    if (invoice.status === 'paid' && updated.status !== 'paid') {
+      await moveInvoiceLoads(tx, invoice, 'reverse_payment', userId, `Payment #${paymentId} on invoice #${invoice.invoiceNumber} deleted`);
+    }
+    return updated;
+  });
+}
+
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export interface AgingInvoice {
+  invoiceId: number;
+  invoiceNumber: string;
+  clientName: string;
+  dueDate: string;
+  daysPastDue: number;
+  balance: number;
+  bucket: AgingBucket;
+}
+
+export interface ArAgingReport {
+  asOf: string;
+  totals: Record<AgingBucket, number> & { total: number };
+  clients: Array<{ leadId: number; clientName: string } & Record<AgingBucket, number> & { total: number }>;
+  invoices: AgingInvoice[];
+}
+
+/**
+ * Bucket by days past the due date: current (not yet due), 1-30, 31-60,
+ * 61-90 and 90+ (over 90)
+ */
+export function agingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return '1-30';
+  if (daysPastDue <= 60) return '31-60';
+  if (daysPastDue <= 90) return '61-90';
+  return '90+';
+}
+
+function emptyBuckets(): Record<AgingBucket, number> & { total: number } {
+  return { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0, total: 0 };
+}
+
+/**
+ * Accounts receivable aging of all open invoices of an organization
+ */
+export async function getArAgingReport(orgId: number, asOf: Date = new Date()): Promise<ArAgingReport> {
+  const rows = await db
+    .select({
+      invoice: invoices,
+      clientName: leads.companyName
+    })
+    .from(invoices)
+    .leftJoin(leads, eq(leads.id, invoices.leadId))
+    .where(and(
+      eq(invoices.orgId, orgId),
+      inArray(invoices.status, OPEN_INVOICE_STATUSES)
+    ));
+
+  const asOfDate = new Date(Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate()));
+  const totals = emptyBuckets();
+  const clients = new Map<number, ArAgingReport['clients'][number]>();
+  const agingInvoices: AgingInvoice[] = [];
+
+  for (const { invoice, clientName } of rows) {
+    const balance = invoiceBalance(invoice);
+    if (balance <= 0) continue;
+
+    const daysPastDue = Math.max(0, Math.floor((asOfDate.getTime() - new Date(invoice.dueDate).getTime()) / 86400000));
+    const bucket = agingBucket(daysPastDue);
+    const name = clientName ?? `Client ${invoice.leadId}`;
+
+    agingInvoices.push({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      clientName: name,
+      dueDate: invoice.dueDate,
+      daysPastDue,
+      balance,
+      bucket
+    });
+
+    totals[bucket] = roundCurrency(totals[bucket] + balance);
+    totals.total = roundCurrency(totals.total + balance);
+
+    const client = clients.get(invoice.leadId) ?? { leadId: invoice.leadId, clientName: name, ...emptyBuckets() };
+    client[bucket] = roundCurrency(client[bucket] + balance);
+    client.total = roundCurrency(client.total + balance);
+    clients.set(invoice.leadId, client);
+  }
+
+  return {
+    asOf: asOfDate.toISOString().slice(0, 10),
+    totals,
+    clients: Array.from(clients.values()).sort((a, b) => b.total - a.total),
+    invoices: agingInvoices.sort((a, b) => b.daysPastDue - a.daysPastDue)
+  };
+}
+
+export default {
+  recordInvoicePayment,
+  deleteInvoicePayment,
+  getInvoicePayments,
+  getArAgingReport,
+  deriveInvoiceStatus,
+  invoiceBalance,
+  agingBucket
+};
@@ -0,0 +1,341 @@
+/**
+ * Invoice PDF
+ *
+ * Renders invoices to PDF (organization logo, client details, itemized loads,
+ * totals and payment terms) and stores them under uploads/invoices. The file
+ * name carries a fingerprint of the invoice contents, so a stored PDF is
+ * reused only while the invoice and its items are unchanged and is
+ * regenerated otherwise.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { invoiceBalance } from './invoice-payments';
+import { getStopsForLoads } from './load-stops';
+import {
+  invoiceItems,
+  invoices,
+  leads,
+  loads,
+  organizations,
+  type Invoice,
+  type InvoiceItem,
+  type Lead,
+  type Load,
+  type LoadStop,
+  type Organization
+} from '@shared/schema';
+
+const UPLOADS_ROOT = path.join(process.cwd(), 'uploads');
+const INVOICE_PDF_DIR = path.join(UPLOADS_ROOT, 'invoices');
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+interface InvoicePdfData {
+  invoice: Invoice;
+  organization: Organization | null;
+  lead: Lead | null;
+  items: Array<InvoiceItem & { load?: Load; stops: LoadStop[] }>;
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+async function loadInvoicePdfData(invoiceId: number): Promise<InvoicePdfData | null> {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+  if (!invoice) return null;
+
+  const [organization] = invoice.orgId
+    ? await db.select().from(organizations).where(eq(organizations.id, invoice.orgId))
+    : [];
+  const [lead] = await db.select().from(leads).where(eq(leads.id, invoice.leadId));
+  const items = await db.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId)).orderBy(invoiceItems.id);
+  const loadIds = items.map(item => item.loadId);
+  const itemLoads = loadIds.length > 0 ? await db.select().from(loads).where(inArray(loads.id, loadIds)) : [];
+  const stopsByLoad = await getStopsForLoads(loadIds);
+
+  return {
+    invoice,
+    organization: organization ?? null,
+    lead: lead ?? null,
+    items: items.map(item => ({
+      ...item,
+      load: itemLoads.find(load => load.id === item.loadId),
+      stops: stopsByLoad.get(item.loadId) ?? []
+    }))
+  };
+}
+
+/**
+ * Fingerprint of everything printed on the PDF
+ */
+function fingerprint({ invoice, organization, lead, items }: InvoicePdfData): string {
+  const content = JSON.stringify({
+    invoice: [invoice.invoiceNumber, invoice.totalAmount, invoice.issuedDate, invoice.dueDate, invoice.paidAmount, invoice.creditedAmount, invoice.status, invoice.notes],
+    organization: organization ? [organization.name, organization.address, organization.contactEmail, organization.contactPhone, organization.logoUrl] : null,
+    lead: lead ? [lead.companyName, lead.contactName, lead.email, lead.phoneNumber, lead.mcNumber, lead.dotNumber] : null,
+    items: items.map(item => [item.id, item.description, item.amount, item.load?.origin, item.load?.destination, item.load?.pickupDate, item.load?.deliveryDate, item.stops.map(stop => stop.location)])
+  });
+  return crypto.createHash('sha1').update(content).digest('hex').slice(0, 12);
+}
+
+/**
+ * Load the organization logo from an uploads path or a remote URL.
+ * A missing or unreadable logo never fails the PDF.
+ */
+async function loadLogo(logoUrl: string | null | undefined): Promise<Buffer | null> {
+  if (!logoUrl) return null;
+
+  try {
+    if (/^https?:\/\//i.test(logoUrl)) {
+      const response = await fetch(logoUrl, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+      if (!response.ok) return null;
+      return Buffer.from(await response.arrayBuffer());
+    }
+
+    const relative = logoUrl.replace(/^\/?(api\/)?uploads\//, '');
+    const logoPath = path.resolve(UPLOADS_ROOT, relative);
+    if (!logoPath.startsWith(UPLOADS_ROOT) || !fs.existsSync(logoPath)) return null;
+    return await fs.promises.readFile(logoPath);
+  } catch (error) {
+    logger.warn(`Could not load organization logo ${logoUrl}:`, error);
+    return null;
+  }
+}
+
+function renderInvoicePdf(data: InvoicePdfData, logo: Buffer | null, filePath: string): Promise<void> {
+  const { invoice, organization, lead, items } = data;
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+    const stream = fs.createWriteStream(filePath);
+    stream.on('finish', () => resolve());
+    stream.on('error', reject);
+    doc.on('error', reject);
+    doc.pipe(stream);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const width = right - left;
+
+    // Header: logo and organization on the left, invoice meta on the right
+    let headerBottom = 50;
+    if (logo) {
+      try {
+        doc.image(logo, left, 45, { fit: [140, 60] });
+        headerBottom = 110;
+      } catch (error) {
+        logger.warn(`Unsupported logo image for organization ${organization?.id}`);
+      }
+    }
+
+    doc.font('Helvetica-Bold').fontSize(14).text(organization?.name ?? 'MetaSys ERP', left, headerBottom);
+    doc.font('Helvetica').fontSize(9).fillColor('#444444');
+    if (organization?.address) doc.text(organization.address);
+    if (organization?.contactEmail) doc.text(organization.contactEmail);
+    if (organization?.contactPhone) doc.text(organization.contactPhone);
+    const orgBottom = doc.y;
+
+    doc.fillColor('#025E73').font('Helvetica-Bold').fontSize(22)
+      .text(invoice.status === 'void' ? 'INVOICE (VOID)' : 'INVOICE', left, 45, { width, align: 'right' });
+    doc.fillColor('#000000').font('Helvetica').fontSize(10);
+    doc.text(`Invoice #: ${invoice.invoiceNumber}`, left, 75, { width, align: 'right' });
+    doc.text(`Issued: ${formatDate(invoice.issuedDate)}`, { width, align: 'right' });
+    doc.text(`Due: ${formatDate(invoice.dueDate)}`, { width, align: 'right' });
+
+    // Bill to
+    let y = Math.max(orgBottom, doc.y) + 25;
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#025E73').text('BILL TO', left, y);
+    doc.font('Helvetica').fillColor('#000000').fontSize(10);
+    if (lead) {
+      doc.font('Helvetica-Bold').text(lead.companyName);
+      doc.font('Helvetica');
+      doc.text(lead.contactName);
+      if (lead.email) doc.text(lead.email);
+      if (lead.phoneNumber) doc.text(lead.phoneNumber);
+      doc.text(`MC# ${lead.mcNumber}${lead.dotNumber ? `  DOT# ${lead.dotNumber}` : ''}`);
+    } else {
+      doc.text(`Client ${invoice.leadId}`);
+    }
+
+    // Items table
+    y = doc.y + 25;
+    const columns = {
+      description: left,
+      route: left + 170,
+      dates: left + 340,
+      amount: right - 80
+    };
+
+    doc.rect(left, y - 5, width, 20).fill('#025E73');
+    doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(9);
+    doc.text('Description', columns.description + 5, y, { width: 160 });
+    doc.text('Route', columns.route, y, { width: 165 });
+    doc.text('Pickup / Delivery', columns.dates, y, { width: 130 });
+    doc.text('Amount', columns.amount, y, { width: 75, align: 'right' });
+    doc.fillColor('#000000').font('Helvetica').fontSize(9);
+    y += 22;
+
+    for (const item of items) {
+      if (y > doc.page.height - 150) {
+        doc.addPage();
+        y = doc.page.margins.top;
+      }
+
+      // Multi-stop loads list every stop, in route order
+      const route = item.stops.length > 2
+        ? item.stops.map(stop => stop.location).join(' → ')
+        : item.load ? `${item.load.origin} → ${item.load.destination}` : `Load #${item.loadId}`;
+      const dates = item.load ? `${formatDate(item.load.pickupDate)} / ${formatDate(item.load.deliveryDate)}` : '';
+      const rowHeight = Math.max(
+        doc.heightOfString(item.description, { width: 160 }),
+        doc.heightOfString(route, { width: 165 }),
+        12
+      );
+
+      doc.text(item.description, columns.description + 5, y, { width: 160 });
+      doc.text(route, columns.route, y, { width: 165 });
+      doc.text(dates, columns.dates, y, { width: 130 });
+      doc.text(formatCurrency(item.amount), columns.amount, y, { width: 75, align: 'right' });
+
+      y += rowHeight + 8;
+      doc.moveTo(left, y - 4).lineTo(right, y - 4).strokeColor('#DDDDDD').lineWidth(0.5).stroke();
+    }
+
+    // Totals
+    const paid = invoice.paidAmount ?? 0;
+    const credited = invoice.creditedAmount ?? 0;
+    const balance = invoice.status === 'void' ? 0 : invoiceBalance(invoice);
+    y += 10;
+    doc.font('Helvetica').fontSize(10);
+    doc.text('Total', columns.dates, y, { width: 130 });
+    doc.font('Helvetica-Bold').text(formatCurrency(invoice.totalAmount), columns.amount, y, { width: 75, align: 'right' });
+    if (paid > 0) {
+      y += 16;
+      doc.font('Helvetica').text('Paid', columns.dates, y, { width: 130 });
+      doc.text(`-${formatCurrency(paid)}`, columns.amount, y, { width: 75, align: 'right' });
+    }
+    if (credited > 0) {
+      y += 16;
+      doc.font('Helvetica').text('Credit notes', columns.dates, y, { width: 130 });
+      doc.text(`-${formatCurrency(credited)}`, columns.amount, y, { width: 75, align: 'right' });
+    }
+    y += 16;
+    doc.font('Helvetica-Bold').fillColor('#025E73').text('Balance Due', columns.dates, y, { width: 130 });
+    doc.text(formatCurrency(balance), columns.amount, y, { width: 75, align: 'right' });
+    doc.fillColor('#000000');
+
+    // Payment terms and notes
+    const termDays = Math.round((new Date(invoice.dueDate).getTime() - new Date(invoice.issuedDate).getTime()) / 86400000);
+    y += 40;
+    doc.font('Helvetica-Bold').fontSize(10).text('Payment Terms', left, y);
+    doc.font('Helvetica').fontSize(9).text(
+      `Net ${termDays} - payment of ${formatCurrency(balance)} is due by ${formatDate(invoice.dueDate)}. ` +
+      `Please reference invoice #${invoice.invoiceNumber} with your payment.`,
+      { width }
+    );
+    if (invoice.notes) {
+      doc.moveDown();
+      doc.font('Helvetica-Bold').fontSize(10).text('Notes');
+      doc.font('Helvetica').fontSize(9).text(invoice.notes, { width });
+    }
+
+    doc.end();
+  });
+}
+
+function toStoredPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath).split(path.sep).join('/');
+}
+
+/**
+ * Absolute path of a stored invoice PDF, or null when the stored value points
+ * outside the invoice PDF folder
+ */
+function fromStoredPath(storedPath: string): string | null {
+  const filePath = path.resolve(process.cwd(), storedPath);
+  return filePath.startsWith(INVOICE_PDF_DIR + path.sep) ? filePath : null;
+}
+
+/**
+ * Render the invoice PDF (again) and record its path on the invoice
+ */
+export async function generateInvoicePdf(invoiceId: number): Promise<string | null> {
+  const data = await loadInvoicePdfData(invoiceId);
+  if (!data) return null;
+  return writeInvoicePdf(data);
+}
+
+async function writeInvoicePdf(data: InvoicePdfData): Promise<string> {
+  const { invoice } = data;
+  await fs.promises.mkdir(INVOICE_PDF_DIR, { recursive: true });
+
+  const safeNumber = invoice.invoiceNumber.replace(/[^A-Za-z0-9_-]/g, '_');
+  const filePath = path.join(INVOICE_PDF_DIR, `${safeNumber}-${fingerprint(data)}.pdf`);
+  const logo = await loadLogo(data.organization?.logoUrl);
+  await renderInvoicePdf(data, logo, filePath);
+
+  const storedPath = toStoredPath(filePath);
+  if (invoice.invoicePdf && invoice.invoicePdf !== storedPath) {
+    const previousPath = fromStoredPath(invoice.invoicePdf);
+    if (previousPath) {
+      await fs.promises.unlink(previousPath).catch(() => undefined);
+    }
+  }
+
+  await db
+    .update(invoices)
+    .set({ invoicePdf: storedPath, updatedAt: new Date() })
+    .where(eq(invoices.id, invoice.id));
+
+  logger.info(`Generated PDF for invoice ${invoice.invoiceNumber}: ${storedPath}`);
+  return filePath;
+}
+
+/**
+ * Absolute path of an up-to-date PDF for the invoice, generating it when
+ * missing or when the invoice/items changed since it was rendered
+ */
+export async function ensureInvoicePdf(invoiceId: number): Promise<string | null> {
+  const data = await loadInvoicePdfData(invoiceId);
+  if (!data) return null;
+
+  const { invoice } = data;
+  if (invoice.invoicePdf && invoice.invoicePdf.includes(`-${fingerprint(data)}.pdf`)) {
+    const existing = fromStoredPath(invoice.invoicePdf);
+    if (existing && fs.existsSync(existing)) {
+      return existing;
+    }
+  }
+
+  return writeInvoicePdf(data);
+}
+
+/**
+ * Regenerate after items changed without failing the calling request
+ */
+export function regenerateInvoicePdf(invoiceId: number): void {
+  generateInvoicePdf(invoiceId).catch(error => {
+    logger.error(`Failed to regenerate PDF for invoice ${invoiceId}:`, error);
+  });
+}
+
+export default {
+  generateInvoicePdf,
+  ensureInvoicePdf,
+  regenerateInvoicePdf
+};
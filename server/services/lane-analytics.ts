@@ -0,0 +1,214 @@
+/**
+ * Lane Analytics
+ *
+ * Rates from historical loads grouped by lane: the load's origin and
+ * destination reduced to "City, ST", together with the equipment type of the
+ * carrier's lead. For each lane the report gives the load count, average,
+ * median, minimum and maximum freight, a month-by-month trend and the
+ * carriers that hauled it most. Cancelled loads are left out.
+ */
+
+import { and, eq, gte, lt, ne } from 'drizzle-orm';
+import { db } from '../db';
+import { leads, loads } from '@shared/schema';
+
+export interface LaneFilters {
+  startDate: string; // inclusive, YYYY-MM-DD
+  endDate: string; // exclusive, YYYY-MM-DD
+  equipmentType?: string;
+  origin?: string;
+  destination?: string;
+  minLoads?: number;
+}
+
+export interface FreightStats {
+  loadCount: number;
+  averageFreight: number;
+  medianFreight: number;
+  minFreight: number;
+  maxFreight: number;
+}
+
+export interface LaneMonth {
+  month: string; // YYYY-MM
+  loadCount: number;
+  averageFreight: number;
+}
+
+export interface LaneCarrier {
+  leadId: number;
+  companyName: string;
+  loadCount: number;
+  averageFreight: number;
+}
+
+export interface Lane extends FreightStats {
+  key: string;
+  origin: string;
+  destination: string;
+  equipmentType: string;
+  trend: LaneMonth[];
+  topCarriers: LaneCarrier[];
+}
+
+export interface LaneAnalyticsReport {
+  startDate: string;
+  endDate: string;
+  totals: FreightStats & { laneCount: number };
+  equipmentTypes: string[];
+  lanes: Lane[];
+}
+
+const TOP_CARRIERS = 5;
+
+// Two-letter state or province code, optionally followed by a ZIP/postal code
+const STATE_PATTERN = /^([A-Za-z]{2})(?:\s+[A-Za-z0-9]{3,5}(?:[-\s][A-Za-z0-9]{3,4})?)?$/;
+
+function titleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(^|[\s-])([a-z])/g, (_match, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * "City, ST" of a free-text location such as "123 Main St, Dallas, TX 75201",
+ * "dallas tx" or "Dallas, Texas". Locations without a recognizable state are
+ * returned trimmed and title-cased.
+ */
+export function normalizeLocation(location: string): string {
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean);
+
+  for (let index = parts.length - 1; index >= 0; index--) {
+    const state = parts[index].match(STATE_PATTERN);
+    if (state && index > 0) {
+      return `${titleCase(parts[index - 1])}, ${state[1].toUpperCase()}`;
+    }
+
+    // "Dallas TX 75201" in a single segment
+    const inline = parts[index].match(/^(.*?)\s+([A-Za-z]{2})(?:\s+\d{5}(?:-\d{4})?)?$/);
+    if (inline && inline[1] && (index === parts.length - 1)) {
+      return `${titleCase(inline[1])}, ${inline[2].toUpperCase()}`;
+    }
+  }
+
+  return parts.length >= 2
+    ? `${titleCase(parts[parts.length - 2])}, ${titleCase(parts[parts.length - 1])}`
+    : titleCase(location);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function freightStats(amounts: number[]): FreightStats {
+  if (amounts.length === 0) {
+    return { loadCount: 0, averageFreight: 0, medianFreight: 0, minFreight: 0, maxFreight: 0 };
+  }
+  const sorted = [...amounts].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  return {
+    loadCount: sorted.length,
+    averageFreight: round(sorted.reduce((total, amount) => total + amount, 0) / sorted.length),
+    medianFreight: round(median),
+    minFreight: round(sorted[0]),
+    maxFreight: round(sorted[sorted.length - 1])
+  };
+}
+
+function matches(value: string, filter?: string): boolean {
+  return !filter || value.toLowerCase().includes(filter.trim().toLowerCase());
+}
+
+export async function getLaneAnalytics(orgId: number, filters: LaneFilters): Promise<LaneAnalyticsReport> {
+  const rows = await db
+    .select({
+      origin: loads.origin,
+      destination: loads.destination,
+      pickupDate: loads.pickupDate,
+      freightAmount: loads.freightAmount,
+      leadId: loads.leadId,
+      companyName: leads.companyName,
+      equipmentType: leads.equipmentType
+    })
+    .from(loads)
+    .innerJoin(leads, eq(leads.id, loads.leadId))
+    .where(and(
+      eq(loads.orgId, orgId),
+      ne(loads.status, 'cancelled'),
+      gte(loads.pickupDate, filters.startDate),
+      lt(loads.pickupDate, filters.endDate)
+    ));
+
+  const equipmentTypes = Array.from(new Set(rows.map(row => row.equipmentType).filter(Boolean))).sort();
+
+  const byLane = new Map<string, { origin: string; destination: string; equipmentType: string; rows: typeof rows }>();
+  for (const row of rows) {
+    const origin = normalizeLocation(row.origin);
+    const destination = normalizeLocation(row.destination);
+    const equipmentType = row.equipmentType || 'Unknown';
+    if (filters.equipmentType && equipmentType !== filters.equipmentType) continue;
+    if (!matches(origin, filters.origin) || !matches(destination, filters.destination)) continue;
+
+    const key = `${origin}|${destination}|${equipmentType}`;
+    const lane = byLane.get(key) ?? { origin, destination, equipmentType, rows: [] };
+    lane.rows.push(row);
+    byLane.set(key, lane);
+  }
+
+  const lanes: Lane[] = [];
+  for (const [key, lane] of Array.from(byLane.entries())) {
+    if (lane.rows.length < (filters.minLoads ?? 1)) continue;
+
+    const months = new Map<string, number[]>();
+    const carriers = new Map<number, { companyName: string; amounts: number[] }>();
+    for (const row of lane.rows) {
+      const month = row.pickupDate.slice(0, 7);
+      months.set(month, [...(months.get(month) ?? []), row.freightAmount]);
+      const carrier = carriers.get(row.leadId) ?? { companyName: row.companyName, amounts: [] };
+      carrier.amounts.push(row.freightAmount);
+      carriers.set(row.leadId, carrier);
+    }
+
+    lanes.push({
+      key,
+      origin: lane.origin,
+      destination: lane.destination,
+      equipmentType: lane.equipmentType,
+      ...freightStats(lane.rows.map(row => row.freightAmount)),
+      trend: Array.from(months.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, amounts]) => ({ month, loadCount: amounts.length, averageFreight: freightStats(amounts).averageFreight })),
+      topCarriers: Array.from(carriers.entries())
+        .map(([leadId, carrier]) => ({
+          leadId,
+          companyName: carrier.companyName,
+          loadCount: carrier.amounts.length,
+          averageFreight: freightStats(carrier.amounts).averageFreight
+        }))
+        .sort((a, b) => b.loadCount - a.loadCount || b.averageFreight - a.averageFreight)
+        .slice(0, TOP_CARRIERS)
+    });
+  }
+
+  lanes.sort((a, b) => b.loadCount - a.loadCount || b.averageFreight - a.averageFreight);
+
+  return {
+    startDate: filters.startDate,
+    endDate: filters.endDate,
+    totals: {
+      ...freightStats(Array.from(byLane.values()).flatMap(lane => lane.rows.map(row => row.freightAmount))),
+      laneCount: lanes.length
+    },
+    equipmentTypes,
+    lanes
+  };
+}
+
+export default {
+  normalizeLocation,
+  freightStats,
+  getLaneAnalytics
+};
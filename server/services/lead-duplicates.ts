@@ -0,0 +1,505 @@
+/**
+ * Lead Duplicates
+ *
+ * Leads arrive from the new lead form, the MQL webhooks and imports, so the
+ * same carrier can end up in the CRM more than once. Two leads of an
+ * organization are flagged as likely duplicates when they share an MC or DOT
+ * number, a phone number (last ten digits), an email address, or a company
+ * name that matches after dropping punctuation and legal suffixes (or is
+ * within a small edit distance). Pairs a reviewer marked as distinct are
+ * left out of the queue.
+ *
+ * Merging keeps one lead (the survivor) with the field values picked from
+ * either side, moves every record of the other lead to it, and deletes the
+ * other lead. The merge, with the deleted lead's last state and how many
+ * rows moved per table, is recorded in lead_merges.
+ */
+
+import { and, asc, desc, eq, inArray, or } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { syncLeadFormCounts } from './forms';
+import {
+  activities,
+  callLogs,
+  commissions,
+  customerFeedback,
+  dispatch_clients,
+  formSubmissions,
+  invoices,
+  leadDuplicateDismissals,
+  leadFollowUps,
+  leadHandoffs,
+  leadMerges,
+  leadRemarks,
+  leadSalesUsers,
+  leads,
+  loads,
+  mqlWebhookDeliveries,
+  surveys,
+  users,
+  type Lead,
+  type LeadMerge
+} from '@shared/schema';
+
+export const MERGE_FIELDS = [
+  'companyName',
+  'contactName',
+  'phoneNumber',
+  'email',
+  'mcNumber',
+  'dotNumber',
+  'equipmentType',
+  'truckCategory',
+  'factoringStatus',
+  'serviceCharges',
+  'status',
+  'qualificationScore',
+  'assignedTo',
+  'notes'
+] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export type FieldChoices = Partial<Record<MergeField, 'survivor' | 'merged'>>;
+
+export type DuplicateReason = 'mc_number' | 'dot_number' | 'email' | 'phone' | 'company_name';
+
+export interface DuplicateMatch {
+  reason: DuplicateReason;
+  detail: string;
+}
+
+export interface DuplicatePair {
+  leadId: number;
+  otherLeadId: number;
+  score: number;
+  matches: DuplicateMatch[];
+}
+
+// How strongly each kind of match suggests the same carrier
+const REASON_SCORES: Record<Exclude<DuplicateReason, 'company_name'>, number> = {
+  mc_number: 100,
+  dot_number: 95,
+  email: 85,
+  phone: 80
+};
+const COMPANY_NAME_SCORE = 70;
+const FUZZY_NAME_THRESHOLD = 0.85;
+
+// Groups larger than this share a placeholder (e.g. a dummy phone), not a carrier
+const MAX_GROUP_SIZE = 25;
+
+const COMPANY_SUFFIXES = new Set(['llc', 'l l c', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited', 'the']);
+
+export class LeadDuplicateError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LeadDuplicateError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * MC or DOT number as bare digits without leading zeros ("MC-0123" -> "123")
+ */
+export function normalizeCarrierNumber(value: string | null | undefined): string | null {
+  const digits = (value ?? '').replace(/\D/g, '').replace(/^0+/, '');
+  return digits.length > 0 ? digits : null;
+}
+
+/**
+ * Last ten digits of a phone number, so "+1 (555) 010-2000" matches "5550102000"
+ */
+export function normalizePhone(value: string | null | undefined): string | null {
+  const digits = (value ?? '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+export function normalizeEmail(value: string | null | undefined): string | null {
+  const email = (value ?? '').trim().toLowerCase();
+  return email.includes('@') ? email : null;
+}
+
+export function normalizeCompanyName(value: string | null | undefined): string {
+  return (value ?? '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !COMPANY_SUFFIXES.has(word))
+    .join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized company names, from 0 to 1
+ */
+export function companyNameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+export type LeadSummary = Pick<Lead,
+  'id' | 'companyName' | 'contactName' | 'mcNumber' | 'dotNumber' | 'phoneNumber' | 'email' | 'status' | 'assignedTo' | 'source' | 'createdAt'
+>;
+
+async function loadOrgLeads(orgId: number): Promise<LeadSummary[]> {
+  return db
+    .select({
+      id: leads.id,
+      companyName: leads.companyName,
+      contactName: leads.contactName,
+      mcNumber: leads.mcNumber,
+      dotNumber: leads.dotNumber,
+      phoneNumber: leads.phoneNumber,
+      email: leads.email,
+      status: leads.status,
+      assignedTo: leads.assignedTo,
+      source: leads.source,
+      createdAt: leads.createdAt
+    })
+    .from(leads)
+    .where(eq(leads.orgId, orgId));
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Score every pair of the organization's leads that share a key; pairs
+ * already dismissed are skipped
+ */
+export function detectPairs(orgLeads: LeadSummary[], dismissed: Set<string>): DuplicatePair[] {
+  const pairs = new Map<string, DuplicatePair>();
+
+  const addMatch = (a: number, b: number, match: DuplicateMatch) => {
+    const key = pairKey(a, b);
+    if (a === b || dismissed.has(key)) return;
+    const pair = pairs.get(key) ?? { leadId: Math.min(a, b), otherLeadId: Math.max(a, b), score: 0, matches: [] };
+    if (!pair.matches.some(existing => existing.reason === match.reason)) {
+      pair.matches.push(match);
+    }
+    pairs.set(key, pair);
+  };
+
+  const exactKeys: Array<{ reason: Exclude<DuplicateReason, 'company_name'>; key: (lead: LeadSummary) => string | null }> = [
+    { reason: 'mc_number', key: lead => normalizeCarrierNumber(lead.mcNumber) },
+    { reason: 'dot_number', key: lead => normalizeCarrierNumber(lead.dotNumber) },
+    { reason: 'email', key: lead => normalizeEmail(lead.email) },
+    { reason: 'phone', key: lead => normalizePhone(lead.phoneNumber) }
+  ];
+  for (const { reason, key } of exactKeys) {
+    const groups = new Map<string, number[]>();
+    for (const lead of orgLeads) {
+      const value = key(lead);
+      if (value) groups.set(value, [...(groups.get(value) ?? []), lead.id]);
+    }
+    for (const [value, ids] of Array.from(groups.entries())) {
+      if (ids.length < 2 || ids.length > MAX_GROUP_SIZE) continue;
+      for (let i = 0; i < ids.length; i++) {
+        for (let j = i + 1; j < ids.length; j++) {
+          addMatch(ids[i], ids[j], { reason, detail: value });
+        }
+      }
+    }
+  }
+
+  // Fuzzy names are only compared within the same first two letters
+  const buckets = new Map<string, Array<{ id: number; name: string }>>();
+  for (const lead of orgLeads) {
+    const name = normalizeCompanyName(lead.companyName);
+    if (name.length < 3) continue;
+    const bucket = name.slice(0, 2);
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), { id: lead.id, name }]);
+  }
+  for (const bucket of Array.from(buckets.values())) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i];
+        const b = bucket[j];
+        if (Math.abs(a.name.length - b.name.length) > Math.max(a.name.length, b.name.length) * (1 - FUZZY_NAME_THRESHOLD)) continue;
+        const similarity = companyNameSimilarity(a.name, b.name);
+        if (similarity >= FUZZY_NAME_THRESHOLD) {
+          addMatch(a.id, b.id, {
+            reason: 'company_name',
+            detail: similarity === 1 ? a.name : `${Math.round(similarity * 100)}% similar`
+          });
+        }
+      }
+    }
+  }
+
+  return Array.from(pairs.values()).map(pair => {
+    const scores = pair.matches.map(match => match.reason === 'company_name' ? COMPANY_NAME_SCORE : REASON_SCORES[match.reason]);
+    return { ...pair, score: Math.min(100, Math.max(...scores) + 5 * (scores.length - 1)) };
+  });
+}
+
+async function dismissedPairs(orgId: number): Promise<Set<string>> {
+  const rows = await db
+    .select({ leadId: leadDuplicateDismissals.leadId, otherLeadId: leadDuplicateDismissals.otherLeadId })
+    .from(leadDuplicateDismissals)
+    .where(eq(leadDuplicateDismissals.orgId, orgId));
+  return new Set(rows.map(row => pairKey(row.leadId, row.otherLeadId)));
+}
+
+/**
+ * Review queue: likely duplicate pairs with both leads, strongest first
+ */
+export async function listDuplicatePairs(orgId: number, options: { leadId?: number; minScore?: number; limit?: number } = {}) {
+  const orgLeads = await loadOrgLeads(orgId);
+  const byId = new Map(orgLeads.map(lead => [lead.id, lead]));
+
+  const pairs = detectPairs(orgLeads, await dismissedPairs(orgId))
+    .filter(pair => pair.score >= (options.minScore ?? 0))
+    .filter(pair => !options.leadId || pair.leadId === options.leadId || pair.otherLeadId === options.leadId)
+    .sort((a, b) => b.score - a.score || a.leadId - b.leadId)
+    .slice(0, options.limit ?? 200);
+
+  return pairs.map(pair => ({ ...pair, lead: byId.get(pair.leadId)!, otherLead: byId.get(pair.otherLeadId)! }));
+}
+
+async function findLead(leadId: number, orgId: number): Promise<Lead> {
+  const [lead] = await db.select().from(leads).where(eq(leads.id, leadId));
+  if (!lead || lead.orgId !== orgId) {
+    throw new LeadDuplicateError(`Lead ${leadId} not found`, 404);
+  }
+  return lead;
+}
+
+/**
+ * Take a pair out of the review queue
+ */
+export async function dismissDuplicatePair(orgId: number, userId: number, leadId: number, otherLeadId: number): Promise<void> {
+  if (leadId === otherLeadId) {
+    throw new LeadDuplicateError('A lead cannot be compared with itself');
+  }
+  await findLead(leadId, orgId);
+  await findLead(otherLeadId, orgId);
+
+  await db
+    .insert(leadDuplicateDismissals)
+    .values({
+      orgId,
+      leadId: Math.min(leadId, otherLeadId),
+      otherLeadId: Math.max(leadId, otherLeadId),
+      dismissedBy: userId
+    })
+    .onConflictDoNothing();
+}
+
+function mergeTimelines(survivor: unknown, merged: unknown): unknown[] {
+  const entries = [
+    ...(Array.isArray(survivor) ? survivor : []),
+    ...(Array.isArray(merged) ? merged : [])
+  ];
+  return entries.sort((a, b) => String(a?.timestamp ?? '').localeCompare(String(b?.timestamp ?? '')));
+}
+
+function latest(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Merge one lead into another. Fields default to the survivor's value unless
+ * the choices pick the merged lead's.
+ */
+export async function mergeLeads(
+  orgId: number,
+  userId: number,
+  input: { survivorId: number; mergedId: number; fieldChoices?: FieldChoices }
+): Promise<{ merge: LeadMerge; lead: Lead }> {
+  if (input.survivorId === input.mergedId) {
+    throw new LeadDuplicateError('A lead cannot be merged into itself');
+  }
+  await findLead(input.survivorId, orgId);
+  await findLead(input.mergedId, orgId);
+  const fieldChoices = input.fieldChoices ?? {};
+
+  const result = await db.transaction(async (tx) => {
+    // Both leads are locked in id order, so two merges of the same pair
+    // cannot interleave; the values kept are those of the locked rows
+    const locked = await tx
+      .select()
+      .from(leads)
+      .where(and(inArray(leads.id, [input.survivorId, input.mergedId]), eq(leads.orgId, orgId)))
+      .orderBy(asc(leads.id))
+      .for('update');
+    const survivor = locked.find(lead => lead.id === input.survivorId);
+    const merged = locked.find(lead => lead.id === input.mergedId);
+    if (!survivor || !merged) {
+      throw new LeadDuplicateError('One of the leads was merged or deleted meanwhile; reload and try again', 409);
+    }
+
+    // A lead has at most one dispatch client; two of them need to be merged by hand first
+    const clients = await tx
+      .select({ leadId: dispatch_clients.leadId })
+      .from(dispatch_clients)
+      .where(inArray(dispatch_clients.leadId, [survivor.id, merged.id]));
+    if (new Set(clients.map(client => client.leadId)).size > 1) {
+      throw new LeadDuplicateError('Both leads are dispatch clients; merge or remove one of the dispatch clients first', 409);
+    }
+
+    const values: Partial<typeof leads.$inferInsert> = {};
+    for (const field of MERGE_FIELDS) {
+      if (fieldChoices[field] === 'merged') {
+        (values as Record<string, unknown>)[field] = merged[field];
+      }
+    }
+
+    const moved: Record<string, number> = {};
+    const repoint = async (name: string, run: () => Promise<Array<{ id: number }>>) => {
+      moved[name] = (await run()).length;
+    };
+
+    await repoint('lead_remarks', () => tx.update(leadRemarks).set({ leadId: survivor.id }).where(eq(leadRemarks.leadId, merged.id)).returning({ id: leadRemarks.id }));
+    await repoint('call_logs', () => tx.update(callLogs).set({ leadId: survivor.id }).where(eq(callLogs.leadId, merged.id)).returning({ id: callLogs.id }));
+    await repoint('lead_follow_ups', () => tx.update(leadFollowUps).set({ leadId: survivor.id }).where(eq(leadFollowUps.leadId, merged.id)).returning({ id: leadFollowUps.id }));
+    await repoint('form_submissions', () => tx.update(formSubmissions).set({ leadId: survivor.id }).where(eq(formSubmissions.leadId, merged.id)).returning({ id: formSubmissions.id }));
+    await repoint('loads', () => tx.update(loads).set({ leadId: survivor.id }).where(eq(loads.leadId, merged.id)).returning({ id: loads.id }));
+    await repoint('invoices', () => tx.update(invoices).set({ leadId: survivor.id }).where(eq(invoices.leadId, merged.id)).returning({ id: invoices.id }));
+    await repoint('activities', () => tx
+      .update(activities)
+      .set({ entityId: survivor.id })
+      .where(and(eq(activities.entityType, 'lead'), eq(activities.entityId, merged.id)))
+      .returning({ id: activities.id }));
+
+    // Everything else that points at the merged lead has to move before it is deleted
+    await repoint('lead_handoffs', () => tx.update(leadHandoffs).set({ leadId: survivor.id }).where(eq(leadHandoffs.leadId, merged.id)).returning({ id: leadHandoffs.id }));
+    await repoint('customer_feedback', () => tx.update(customerFeedback).set({ leadId: survivor.id }).where(eq(customerFeedback.leadId, merged.id)).returning({ id: customerFeedback.id }));
+    await repoint('surveys', () => tx.update(surveys).set({ leadId: survivor.id }).where(eq(surveys.leadId, merged.id)).returning({ id: surveys.id }));
+    await repoint('dispatch_clients', () => tx.update(dispatch_clients).set({ leadId: survivor.id }).where(eq(dispatch_clients.leadId, merged.id)).returning({ id: dispatch_clients.id }));
+    await repoint('commissions', () => tx.update(commissions).set({ leadId: survivor.id }).where(eq(commissions.leadId, merged.id)).returning({ id: commissions.id }));
+    await repoint('mql_webhook_deliveries', () => tx.update(mqlWebhookDeliveries).set({ leadId: survivor.id }).where(eq(mqlWebhookDeliveries.leadId, merged.id)).returning({ id: mqlWebhookDeliveries.id }));
+
+    // Sales users already credited on the survivor are not added twice
+    const survivorSalesUsers = await tx
+      .select({ userId: leadSalesUsers.userId })
+      .from(leadSalesUsers)
+      .where(eq(leadSalesUsers.leadId, survivor.id));
+    if (survivorSalesUsers.length > 0) {
+      await tx.delete(leadSalesUsers).where(and(
+        eq(leadSalesUsers.leadId, merged.id),
+        inArray(leadSalesUsers.userId, survivorSalesUsers.map(row => row.userId))
+      ));
+    }
+    await repoint('lead_sales_users', () => tx.update(leadSalesUsers).set({ leadId: survivor.id }).where(eq(leadSalesUsers.leadId, merged.id)).returning({ id: leadSalesUsers.id }));
+
+    await tx.update(leadMerges).set({ survivorLeadId: survivor.id }).where(eq(leadMerges.survivorLeadId, merged.id));
+    await tx.delete(leadDuplicateDismissals).where(or(
+      eq(leadDuplicateDismissals.leadId, merged.id),
+      eq(leadDuplicateDismissals.otherLeadId, merged.id)
+    ));
+
+    const tags = Array.from(new Set([...(survivor.tags ?? []), ...(merged.tags ?? [])]));
+    const [updated] = await tx
+      .update(leads)
+      .set({
+        ...values,
+        callAttempts: (survivor.callAttempts ?? 0) + (merged.callAttempts ?? 0),
+        lastContactedAt: latest(survivor.lastContactedAt, merged.lastContactedAt),
+        firstContactAt: survivor.firstContactAt && merged.firstContactAt
+          ? (survivor.firstContactAt < merged.firstContactAt ? survivor.firstContactAt : merged.firstContactAt)
+          : survivor.firstContactAt ?? merged.firstContactAt,
+        tags: tags.length > 0 ? tags : survivor.tags,
+        activityTimeline: mergeTimelines(survivor.activityTimeline, merged.activityTimeline),
+        updatedAt: new Date()
+      })
+      .where(eq(leads.id, survivor.id))
+      .returning();
+    await syncLeadFormCounts(tx, survivor.id);
+
+    const [merge] = await tx
+      .insert(leadMerges)
+      .values({
+        orgId,
+        survivorLeadId: survivor.id,
+        mergedLeadId: merged.id,
+        mergedLeadSnapshot: merged,
+        fieldChoices,
+        movedRecords: moved,
+        mergedBy: userId
+      })
+      .returning();
+
+    await tx.insert(activities).values({
+      userId,
+      entityType: 'lead',
+      entityId: survivor.id,
+      action: 'merged',
+      details: `Merged lead #${merged.id} (${merged.companyName}) into this lead`,
+      metadata: { mergeId: merge.id, mergedLeadId: merged.id, movedRecords: moved }
+    });
+
+    await tx.delete(leads).where(eq(leads.id, merged.id));
+
+    return { merge, lead: updated };
+  });
+
+  logger.info(`Lead ${input.mergedId} merged into lead ${input.survivorId} by user ${userId}`);
+  return result;
+}
+
+/**
+ * Merges of the organization, newest first
+ */
+export async function listLeadMerges(orgId: number, limit = 100) {
+  const mergedBy = alias(users, 'merged_by_user');
+  const rows = await db
+    .select({
+      merge: leadMerges,
+      survivorCompanyName: leads.companyName,
+      mergedByFirstName: mergedBy.firstName,
+      mergedByLastName: mergedBy.lastName
+    })
+    .from(leadMerges)
+    .leftJoin(leads, eq(leads.id, leadMerges.survivorLeadId))
+    .leftJoin(mergedBy, eq(mergedBy.id, leadMerges.mergedBy))
+    .where(eq(leadMerges.orgId, orgId))
+    .orderBy(desc(leadMerges.createdAt))
+    .limit(limit);
+
+  return rows.map(row => ({
+    ...row.merge,
+    survivorCompanyName: row.survivorCompanyName,
+    mergedCompanyName: (row.merge.mergedLeadSnapshot as { companyName?: string } | null)?.companyName ?? null,
+    mergedByName: row.mergedByFirstName ? `${row.mergedByFirstName} ${row.mergedByLastName}` : null
+  }));
+}
+
+export default {
+  MERGE_FIELDS,
+  normalizeCarrierNumber,
+  normalizePhone,
+  normalizeEmail,
+  normalizeCompanyName,
+  companyNameSimilarity,
+  listDuplicatePairs,
+  dismissDuplicatePair,
+  mergeLeads,
+  listLeadMerges
+};
@@ -0,0 +1,436 @@
+/**
+ * Lead Handoffs
+ *
+ * A sales rep hands a qualified lead to dispatch. On submission the handoff
+ * is checked against the organization's gates: enough answered calls in
+ * call_logs, a completed form_submission for every required form template
+ * and a valid MC number. A handoff that fails a gate is rejected straight
+ * away with the reasons. Otherwise it waits for a dispatcher, who accepts,
+ * rejects or returns it to sales with a 1-5 quality rating. Acceptance
+ * activates the lead and creates its dispatch_clients row.
+ *
+ * The lead mirrors the handoff: handToDispatchAt is set while a handoff is
+ * pending or accepted, and dispatchRejectionCount is the number of its
+ * rejected handoffs (auto-rejections included).
+ */
+
+import { and, count, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { emitToUser, RealTimeEvents } from '../socket';
+import { getModuleSettings, updateModuleSettings } from './organization-settings';
+import {
+  activities,
+  callLogs,
+  dispatch_clients,
+  formSubmissions,
+  formTemplates,
+  leadHandoffs,
+  leads,
+  notifications,
+  type Lead,
+  type LeadHandoff
+} from '@shared/schema';
+
+export interface LeadHandoffSettings {
+  minAnsweredCalls: number;
+  // Active templates of these categories must each have a completed submission
+  requiredFormCategories: string[];
+}
+
+export const DEFAULT_LEAD_HANDOFF_SETTINGS: LeadHandoffSettings = {
+  minAnsweredCalls: 3,
+  requiredFormCategories: ['onboarding']
+};
+
+// Call outcomes where the rep reached the lead
+const ANSWERED_CALL_OUTCOMES = ['Answered', 'Interested', 'Not Interested', 'Follow Up', 'Booked'] as const;
+
+// MC numbers are up to eight digits, optionally written with an "MC" prefix
+const MC_NUMBER_PATTERN = /^(MC[-\s]?)?(\d{1,8})$/i;
+
+export type HandoffResponse = 'accept' | 'reject' | 'return';
+
+export interface HandoffGateResult {
+  answeredCalls: number;
+  minAnsweredCalls: number;
+  callsVerified: boolean;
+  missingForms: Array<{ id: number; name: string }>;
+  requiredFormsFilled: boolean;
+  mcNumberValid: boolean;
+  passed: boolean;
+  failures: string[];
+}
+
+export interface SubmitHandoffInput {
+  leadId: number;
+  dispatcherId?: number | null;
+  handoffNotes?: string | null;
+}
+
+export interface RespondToHandoffInput {
+  action: HandoffResponse;
+  qualityRating: number;
+  reason?: string | null;
+  notes?: string | null;
+}
+
+export class LeadHandoffError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LeadHandoffError';
+    this.statusCode = statusCode;
+  }
+}
+
+export async function getLeadHandoffSettings(orgId: number): Promise<LeadHandoffSettings> {
+  return getModuleSettings(orgId, 'leadHandoffs', DEFAULT_LEAD_HANDOFF_SETTINGS);
+}
+
+export async function updateLeadHandoffSettings(orgId: number, settings: LeadHandoffSettings): Promise<LeadHandoffSettings> {
+  return updateModuleSettings(orgId, 'leadHandoffs', settings);
+}
+
+export function isValidMcNumber(mcNumber: string | null | undefined): boolean {
+  const match = MC_NUMBER_PATTERN.exec((mcNumber ?? '').trim());
+  return !!match && Number(match[2]) > 0;
+}
+
+async function findLead(leadId: number, orgId: number): Promise<Lead> {
+  const [lead] = await db.select().from(leads).where(eq(leads.id, leadId));
+  if (!lead || lead.orgId !== orgId) {
+    throw new LeadHandoffError('Lead not found', 404);
+  }
+  return lead;
+}
+
+async function findHandoff(handoffId: number, orgId: number): Promise<{ handoff: LeadHandoff; lead: Lead }> {
+  const [row] = await db
+    .select({ handoff: leadHandoffs, lead: leads })
+    .from(leadHandoffs)
+    .innerJoin(leads, eq(leads.id, leadHandoffs.leadId))
+    .where(eq(leadHandoffs.id, handoffId));
+  if (!row || row.lead.orgId !== orgId) {
+    throw new LeadHandoffError('Handoff not found', 404);
+  }
+  return row;
+}
+
+/**
+ * Check a lead against the organization's handoff gates
+ */
+export async function checkHandoffGates(lead: Lead, settings: LeadHandoffSettings): Promise<HandoffGateResult> {
+  const [{ answeredCalls }] = await db
+    .select({ answeredCalls: count() })
+    .from(callLogs)
+    .where(and(eq(callLogs.leadId, lead.id), inArray(callLogs.outcome, [...ANSWERED_CALL_OUTCOMES])));
+
+  const requiredTemplates = settings.requiredFormCategories.length > 0 && lead.orgId
+    ? await db
+        .select({ id: formTemplates.id, name: formTemplates.name })
+        .from(formTemplates)
+        .where(and(
+          eq(formTemplates.orgId, lead.orgId),
+          eq(formTemplates.isActive, true),
+          inArray(formTemplates.category, settings.requiredFormCategories)
+        ))
+    : [];
+
+  const completed = requiredTemplates.length > 0
+    ? await db
+        .selectDistinct({ formTemplateId: formSubmissions.formTemplateId })
+        .from(formSubmissions)
+        .where(and(
+          eq(formSubmissions.leadId, lead.id),
+          eq(formSubmissions.status, 'Completed'),
+          inArray(formSubmissions.formTemplateId, requiredTemplates.map(template => template.id))
+        ))
+    : [];
+  const completedIds = new Set(completed.map(row => row.formTemplateId));
+  const missingForms = requiredTemplates.filter(template => !completedIds.has(template.id));
+
+  const callsVerified = answeredCalls >= settings.minAnsweredCalls;
+  const requiredFormsFilled = missingForms.length === 0;
+  const mcNumberValid = isValidMcNumber(lead.mcNumber);
+
+  const failures: string[] = [];
+  if (!callsVerified) {
+    failures.push(`${answeredCalls} of ${settings.minAnsweredCalls} required answered calls logged`);
+  }
+  if (!requiredFormsFilled) {
+    failures.push(`Required forms not completed: ${missingForms.map(form => form.name).join(', ')}`);
+  }
+  if (!mcNumberValid) {
+    failures.push(`Invalid MC number "${lead.mcNumber}"`);
+  }
+
+  return {
+    answeredCalls,
+    minAnsweredCalls: settings.minAnsweredCalls,
+    callsVerified,
+    missingForms,
+    requiredFormsFilled,
+    mcNumberValid,
+    passed: failures.length === 0,
+    failures
+  };
+}
+
+export async function getHandoffGates(leadId: number, orgId: number): Promise<HandoffGateResult> {
+  const lead = await findLead(leadId, orgId);
+  return checkHandoffGates(lead, await getLeadHandoffSettings(orgId));
+}
+
+export async function listLeadHandoffs(orgId: number, filters: { status?: string; leadId?: number } = {}) {
+  const rows = await db
+    .select({ handoff: leadHandoffs, companyName: leads.companyName, mcNumber: leads.mcNumber })
+    .from(leadHandoffs)
+    .innerJoin(leads, eq(leads.id, leadHandoffs.leadId))
+    .where(and(
+      eq(leads.orgId, orgId),
+      filters.status ? eq(leadHandoffs.status, filters.status) : undefined,
+      filters.leadId ? eq(leadHandoffs.leadId, filters.leadId) : undefined
+    ))
+    .orderBy(desc(leadHandoffs.handoffDate));
+  return rows.map(row => ({ ...row.handoff, companyName: row.companyName, mcNumber: row.mcNumber }));
+}
+
+export async function getLeadHandoffDetails(handoffId: number, orgId: number) {
+  const { handoff, lead } = await findHandoff(handoffId, orgId);
+  // Gates as they stand now; a pending handoff may be reviewed long after submission
+  const gates = await checkHandoffGates(lead, await getLeadHandoffSettings(orgId));
+  return { ...handoff, companyName: lead.companyName, mcNumber: lead.mcNumber, gates };
+}
+
+type Executor = Pick<typeof db, 'select' | 'update'>;
+
+// Recount rejected handoffs so the lead never drifts from its handoff history
+async function syncRejectionCount(executor: Executor, leadId: number, reason: string | null): Promise<void> {
+  const [{ rejections }] = await executor
+    .select({ rejections: count() })
+    .from(leadHandoffs)
+    .where(and(eq(leadHandoffs.leadId, leadId), eq(leadHandoffs.status, 'rejected')));
+  await executor
+    .update(leads)
+    .set({ dispatchRejectionCount: rejections, ...(reason ? { dispatchRejectionReason: reason } : {}), updatedAt: new Date() })
+    .where(eq(leads.id, leadId));
+}
+
+async function notify(userId: number, orgId: number, title: string, message: string, type: string, handoffId: number): Promise<void> {
+  try {
+    const [notification] = await db
+      .insert(notifications)
+      .values({ userId, orgId, title, message, type, read: false, entityType: 'lead_handoff', entityId: handoffId })
+      .returning();
+    emitToUser(userId, RealTimeEvents.NOTIFICATION_CREATED, notification);
+  } catch (error) {
+    logger.error(`Could not notify user ${userId} about handoff ${handoffId}:`, error);
+  }
+}
+
+/**
+ * Submit a lead to dispatch. A handoff failing a gate is stored as an
+ * automatic rejection and returned like any other handoff.
+ */
+export async function submitLeadHandoff(orgId: number, salesRepId: number, input: SubmitHandoffInput) {
+  const lead = await findLead(input.leadId, orgId);
+  if (lead.status === 'Active') {
+    throw new LeadHandoffError(`${lead.companyName} is already active with dispatch`, 409);
+  }
+  const [pending] = await db
+    .select({ id: leadHandoffs.id })
+    .from(leadHandoffs)
+    .where(and(eq(leadHandoffs.leadId, lead.id), eq(leadHandoffs.status, 'pending')))
+    .limit(1);
+  if (pending) {
+    throw new LeadHandoffError(`${lead.companyName} already has a pending handoff`, 409);
+  }
+
+  const gates = await checkHandoffGates(lead, await getLeadHandoffSettings(orgId));
+  const now = new Date();
+
+  const handoff = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(leadHandoffs)
+      .values({
+        leadId: lead.id,
+        salesRepId,
+        dispatcherId: input.dispatcherId ?? null,
+        handoffDate: now,
+        status: gates.passed ? 'pending' : 'rejected',
+        autoRejected: !gates.passed,
+        rejectionReason: gates.passed ? null : gates.failures.join('; '),
+        responseDate: gates.passed ? null : now,
+        callsVerified: gates.callsVerified,
+        requiredFormsFilled: gates.requiredFormsFilled
+      })
+      .returning();
+
+    if (gates.passed) {
+      await tx
+        .update(leads)
+        .set({
+          status: 'HandToDispatch',
+          handToDispatchAt: now,
+          dispatchHandoffDate: now,
+          dispatchHandoffBy: salesRepId,
+          dispatchHandoverNotes: input.handoffNotes ?? null,
+          updatedAt: now
+        })
+        .where(eq(leads.id, lead.id));
+    } else {
+      await syncRejectionCount(tx, lead.id, created.rejectionReason);
+    }
+
+    await tx.insert(activities).values({
+      userId: salesRepId,
+      entityType: 'lead',
+      entityId: lead.id,
+      action: gates.passed ? 'handoff_submitted' : 'handoff_auto_rejected',
+      details: gates.passed
+        ? `Handed ${lead.companyName} to dispatch`
+        : `Handoff of ${lead.companyName} rejected automatically: ${created.rejectionReason}`,
+      metadata: { handoffId: created.id }
+    });
+
+    return created;
+  });
+
+  if (gates.passed && handoff.dispatcherId) {
+    await notify(
+      handoff.dispatcherId,
+      orgId,
+      'New lead handoff',
+      `${lead.companyName} (MC ${lead.mcNumber}) was handed to you for review.`,
+      'info',
+      handoff.id
+    );
+  }
+
+  logger.info(`Lead ${lead.id}: handoff ${handoff.id} ${gates.passed ? 'submitted' : 'auto-rejected'} by user ${salesRepId}`);
+  return { ...handoff, gates };
+}
+
+/**
+ * Dispatcher's decision on a pending handoff
+ */
+export async function respondToLeadHandoff(
+  handoffId: number,
+  orgId: number,
+  dispatcherId: number,
+  input: RespondToHandoffInput
+): Promise<LeadHandoff> {
+  const { handoff, lead } = await findHandoff(handoffId, orgId);
+  if (handoff.status !== 'pending') {
+    throw new LeadHandoffError(`This handoff was already ${handoff.status}`, 409);
+  }
+  if (input.action !== 'accept' && !input.reason?.trim()) {
+    throw new LeadHandoffError(`A reason is required to ${input.action} a handoff`);
+  }
+
+  const now = new Date();
+  const status = input.action === 'accept' ? 'accepted' : input.action === 'reject' ? 'rejected' : 'returned';
+
+  const updated = await db.transaction(async (tx) => {
+    const [saved] = await tx
+      .update(leadHandoffs)
+      .set({
+        status,
+        dispatcherId,
+        qualityRating: input.qualityRating,
+        feedbackNotes: input.notes ?? null,
+        rejectionReason: input.action === 'accept' ? null : input.reason!.trim(),
+        responseDate: now,
+        updatedAt: now
+      })
+      .where(and(eq(leadHandoffs.id, handoff.id), eq(leadHandoffs.status, 'pending')))
+      .returning();
+    if (!saved) {
+      throw new LeadHandoffError('This handoff was already answered', 409);
+    }
+
+    if (input.action === 'accept') {
+      await tx
+        .update(leads)
+        .set({ status: 'Active', activatedAt: now, updatedAt: now })
+        .where(eq(leads.id, lead.id));
+
+      const [existingClient] = await tx
+        .select({ id: dispatch_clients.id })
+        .from(dispatch_clients)
+        .where(eq(dispatch_clients.leadId, lead.id))
+        .limit(1);
+      if (!existingClient) {
+        const [client] = await tx
+          .insert(dispatch_clients)
+          .values({
+            leadId: lead.id,
+            orgId,
+            status: 'pending_onboard',
+            approvedBy: dispatcherId,
+            notes: `Created when dispatch accepted handoff #${handoff.id}`
+          })
+          .returning();
+        await tx.insert(activities).values({
+          userId: dispatcherId,
+          entityType: 'dispatch_client',
+          entityId: client.id,
+          action: 'created',
+          details: `Created dispatch client record for lead ${lead.companyName}`,
+          metadata: { handoffId: handoff.id }
+        });
+      }
+    } else {
+      // Back to sales: the lead is no longer with dispatch
+      await tx
+        .update(leads)
+        .set({ status: 'InProgress', handToDispatchAt: null, updatedAt: now })
+        .where(eq(leads.id, lead.id));
+      if (input.action === 'reject') {
+        await syncRejectionCount(tx, lead.id, saved.rejectionReason);
+      }
+    }
+
+    await tx.insert(activities).values({
+      userId: dispatcherId,
+      entityType: 'lead',
+      entityId: lead.id,
+      action: `handoff_${status}`,
+      details: input.action === 'accept'
+        ? `Dispatch accepted ${lead.companyName} (quality ${input.qualityRating}/5)`
+        : `Dispatch ${status} ${lead.companyName} (quality ${input.qualityRating}/5): ${saved.rejectionReason}`,
+      metadata: { handoffId: handoff.id, qualityRating: input.qualityRating }
+    });
+
+    return saved;
+  });
+
+  await notify(
+    handoff.salesRepId,
+    orgId,
+    `Handoff ${status}`,
+    input.action === 'accept'
+      ? `Dispatch accepted ${lead.companyName}.`
+      : `Dispatch ${status} ${lead.companyName}: ${updated.rejectionReason}`,
+    input.action === 'accept' ? 'success' : 'warning',
+    handoff.id
+  );
+
+  logger.info(`Lead ${lead.id}: handoff ${handoff.id} ${status} by user ${dispatcherId}`);
+  return updated;
+}
+
+export default {
+  getLeadHandoffSettings,
+  updateLeadHandoffSettings,
+  checkHandoffGates,
+  getHandoffGates,
+  listLeadHandoffs,
+  getLeadHandoffDetails,
+  submitLeadHandoff,
+  respondToLeadHandoff
+};
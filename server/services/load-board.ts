@@ -0,0 +1,267 @@
+/**
+ * Load Board
+ *
+ * Dispatch leads' board of open loads, one lane per dispatcher and one
+ * column per status. A load belongs to its dispatcher (loads.dispatcherId),
+ * or to the user it is assigned to for loads booked before dispatchers were
+ * tracked. Each lane shows the dispatcher's capacity: the trucks of the
+ * active carriers they handle against the loads they have in flight.
+ * Moving a load to another lane goes through reassignLoad, which records
+ * the move and notifies both dispatchers.
+ */
+
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { emitToUser, RealTimeEvents } from '../socket';
+import type { LoadStatus } from './load-lifecycle';
+import { describeLoadRoute, getStopsForLoads } from './load-stops';
+import {
+  activities,
+  carrierComplianceProfiles,
+  dispatch_clients,
+  leads,
+  loads,
+  notifications,
+  roles,
+  users,
+  type Load
+} from '@shared/schema';
+
+// Lifecycle statuses shown as board columns, up to delivery
+export const BOARD_STATUSES = ['booked', 'in_transit', 'delivered'] as const satisfies readonly LoadStatus[];
+
+// Loads a dispatcher is actively working
+const IN_FLIGHT_STATUSES = ['booked', 'in_transit'];
+
+export const LOAD_REASSIGNED_EVENT = 'load:reassigned';
+
+export interface DispatcherCapacity {
+  activeCarriers: number;
+  trucks: number;
+  inFlight: number;
+  // In-flight loads per available truck; above 1 the dispatcher is overbooked
+  utilization: number | null;
+}
+
+export interface BoardLoad {
+  id: number;
+  status: string;
+  route: string;
+  companyName: string | null;
+  pickupDate: string;
+  deliveryDate: string;
+  freightAmount: number;
+  dispatcherId: number | null;
+}
+
+export interface BoardLane {
+  dispatcher: { id: number; name: string } | null;
+  capacity: DispatcherCapacity | null;
+  loads: BoardLoad[];
+}
+
+export class LoadBoardError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LoadBoardError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function boardDispatcherId(load: Pick<Load, 'dispatcherId' | 'assignedTo'>): number | null {
+  return load.dispatcherId ?? load.assignedTo ?? null;
+}
+
+async function getDispatchers(orgId: number) {
+  return db
+    .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .innerJoin(roles, eq(roles.id, users.roleId))
+    .where(and(eq(users.orgId, orgId), eq(users.active, true), eq(roles.department, 'dispatch')))
+    .orderBy(users.firstName, users.lastName);
+}
+
+/**
+ * Active carriers per dispatcher: the dispatcher named on the carrier's
+ * compliance profile, else the dispatcher of its most recent load
+ */
+async function getCarrierCapacity(orgId: number): Promise<Map<number, { activeCarriers: number; trucks: number }>> {
+  const carriers = await db
+    .select({
+      leadId: dispatch_clients.leadId,
+      dispatcherId: carrierComplianceProfiles.dispatcherId,
+      equipment: carrierComplianceProfiles.equipment
+    })
+    .from(dispatch_clients)
+    .leftJoin(carrierComplianceProfiles, eq(carrierComplianceProfiles.dispatchClientId, dispatch_clients.id))
+    .where(and(eq(dispatch_clients.orgId, orgId), sql`lower(${dispatch_clients.status}) = 'active'`));
+
+  const unassigned = carriers.filter(carrier => !carrier.dispatcherId).map(carrier => carrier.leadId);
+  const latestDispatcher = new Map<number, number>();
+  if (unassigned.length > 0) {
+    const recent = await db
+      .select({ leadId: loads.leadId, dispatcherId: loads.dispatcherId, assignedTo: loads.assignedTo })
+      .from(loads)
+      .where(inArray(loads.leadId, unassigned))
+      .orderBy(desc(loads.createdAt));
+    for (const load of recent) {
+      const dispatcherId = boardDispatcherId(load);
+      if (dispatcherId && !latestDispatcher.has(load.leadId)) {
+        latestDispatcher.set(load.leadId, dispatcherId);
+      }
+    }
+  }
+
+  const capacity = new Map<number, { activeCarriers: number; trucks: number }>();
+  for (const carrier of carriers) {
+    const dispatcherId = carrier.dispatcherId ?? latestDispatcher.get(carrier.leadId);
+    if (!dispatcherId) continue;
+
+    const equipment = (carrier.equipment as Array<{ trucks?: number }> | null) ?? [];
+    // A carrier without an equipment list counts as one truck
+    const trucks = Math.max(1, equipment.reduce((total, item) => total + (item.trucks || 0), 0));
+    const current = capacity.get(dispatcherId) ?? { activeCarriers: 0, trucks: 0 };
+    capacity.set(dispatcherId, { activeCarriers: current.activeCarriers + 1, trucks: current.trucks + trucks });
+  }
+  return capacity;
+}
+
+export async function getLoadBoard(orgId: number): Promise<{ statuses: readonly string[]; lanes: BoardLane[] }> {
+  const [dispatchers, rows, carrierCapacity] = await Promise.all([
+    getDispatchers(orgId),
+    db
+      .select({ load: loads, companyName: leads.companyName })
+      .from(loads)
+      .leftJoin(leads, eq(leads.id, loads.leadId))
+      .where(and(eq(loads.orgId, orgId), inArray(loads.status, [...BOARD_STATUSES])))
+      .orderBy(loads.pickupDate, loads.id),
+    getCarrierCapacity(orgId)
+  ]);
+
+  const stopsByLoad = await getStopsForLoads(rows.map(row => row.load.id));
+  const boardLoads: BoardLoad[] = rows.map(({ load, companyName }) => ({
+    id: load.id,
+    status: load.status,
+    route: describeLoadRoute(load, stopsByLoad.get(load.id)),
+    companyName,
+    pickupDate: load.pickupDate,
+    deliveryDate: load.deliveryDate,
+    freightAmount: load.freightAmount,
+    dispatcherId: boardDispatcherId(load)
+  }));
+
+  const dispatcherIds = new Set(dispatchers.map(dispatcher => dispatcher.id));
+  const lanes: BoardLane[] = dispatchers.map(dispatcher => {
+    const laneLoads = boardLoads.filter(load => load.dispatcherId === dispatcher.id);
+    const carriers = carrierCapacity.get(dispatcher.id) ?? { activeCarriers: 0, trucks: 0 };
+    const inFlight = laneLoads.filter(load => IN_FLIGHT_STATUSES.includes(load.status)).length;
+    return {
+      dispatcher: { id: dispatcher.id, name: `${dispatcher.firstName} ${dispatcher.lastName}` },
+      capacity: {
+        ...carriers,
+        inFlight,
+        utilization: carriers.trucks > 0 ? Math.round((inFlight / carriers.trucks) * 100) / 100 : null
+      },
+      loads: laneLoads
+    };
+  });
+
+  // Loads without a dispatcher, or held by someone outside dispatch
+  const unassigned = boardLoads.filter(load => !load.dispatcherId || !dispatcherIds.has(load.dispatcherId));
+  if (unassigned.length > 0) {
+    lanes.push({ dispatcher: null, capacity: null, loads: unassigned });
+  }
+
+  return { statuses: BOARD_STATUSES, lanes };
+}
+
+/**
+ * Hand a load over to another dispatcher
+ */
+export async function reassignLoad(
+  loadId: number,
+  orgId: number,
+  toDispatcherId: number,
+  userId: number,
+  note?: string
+): Promise<Load> {
+  const dispatchers = await getDispatchers(orgId);
+  const target = dispatchers.find(dispatcher => dispatcher.id === toDispatcherId);
+  if (!target) {
+    throw new LoadBoardError('Loads can only be assigned to an active dispatcher of the organization');
+  }
+
+  const { load, fromDispatcherId } = await db.transaction(async (tx) => {
+    const [current] = await tx.select().from(loads).where(eq(loads.id, loadId)).for('update');
+    if (!current || current.orgId !== orgId) {
+      throw new LoadBoardError('Load not found', 404);
+    }
+    if (!(BOARD_STATUSES as readonly string[]).includes(current.status)) {
+      throw new LoadBoardError(`A load that is ${current.status.replace('_', ' ')} cannot be reassigned`, 409);
+    }
+
+    const from = boardDispatcherId(current);
+    if (from === toDispatcherId) {
+      throw new LoadBoardError('The load is already assigned to this dispatcher', 409);
+    }
+
+    const [updated] = await tx
+      .update(loads)
+      .set({ dispatcherId: toDispatcherId, assignedTo: toDispatcherId, updatedAt: new Date() })
+      .where(eq(loads.id, loadId))
+      .returning();
+
+    await tx.insert(activities).values({
+      userId,
+      entityType: 'load',
+      entityId: loadId,
+      action: 'reassigned',
+      details: `Reassigned load #${loadId} to ${target.firstName} ${target.lastName}${note ? `: ${note}` : ''}`,
+      metadata: { fromDispatcherId: from, toDispatcherId, note: note ?? null }
+    });
+
+    return { load: updated, fromDispatcherId: from };
+  });
+
+  const label = `#${load.id}`;
+  const recipients: Array<[number | null, string]> = [
+    [toDispatcherId, `Load ${label} (${load.origin} to ${load.destination}) has been assigned to you`],
+    [fromDispatcherId, `Load ${label} has been reassigned to ${target.firstName} ${target.lastName}`]
+  ];
+  for (const [recipientId, message] of recipients) {
+    if (!recipientId) continue;
+    try {
+      const [notification] = await db
+        .insert(notifications)
+        .values({
+          userId: recipientId,
+          orgId,
+          title: 'Load reassigned',
+          message,
+          type: 'info',
+          read: false,
+          entityType: 'load',
+          entityId: load.id
+        })
+        .returning();
+      emitToUser(recipientId, RealTimeEvents.NOTIFICATION_CREATED, notification);
+      emitToUser(recipientId, LOAD_REASSIGNED_EVENT, { loadId: load.id, fromDispatcherId, toDispatcherId, reassignedBy: userId });
+    } catch (error) {
+      logger.error(`Could not notify user ${recipientId} of load ${load.id} reassignment:`, error);
+    }
+  }
+
+  logger.info(`Load ${load.id} reassigned from ${fromDispatcherId ?? 'nobody'} to ${toDispatcherId} by user ${userId}`);
+  return load;
+}
+
+export default {
+  BOARD_STATUSES,
+  getLoadBoard,
+  reassignLoad
+};
@@ -0,0 +1,262 @@
+/**
+ * Load Documents
+ *
+ * Paperwork uploaded for a load (rate confirmation, BOL, POD, lumper receipt,
+ * scale ticket), stored under uploads/load-documents/<loadId>. Every document
+ * starts pending and is verified or rejected by dispatch. Verifying a rate
+ * confirmation or POD also links it from the load, which the lifecycle
+ * transitions require; billing only invoices loads with a verified POD.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { env } from '../config/env';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { loadDocuments, loads, users, type Load, type LoadDocument } from '@shared/schema';
+
+export const LOAD_DOCUMENT_TYPES = ['rate_confirmation', 'bol', 'pod', 'lumper_receipt', 'scale_ticket'] as const;
+export type LoadDocumentType = typeof LOAD_DOCUMENT_TYPES[number];
+
+export const VERIFICATION_STATUSES = ['pending', 'verified', 'rejected'] as const;
+export type VerificationStatus = typeof VERIFICATION_STATUSES[number];
+
+// Scans and photos from drivers, plus PDFs
+export const ALLOWED_DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/tiff'];
+
+export const MAX_DOCUMENT_SIZE_BYTES = (env.MAX_FILE_SIZE_MB || 5) * 1024 * 1024;
+
+const UPLOADS_ROOT = path.join(process.cwd(), 'uploads');
+const DOCUMENTS_DIR = 'load-documents';
+
+// Load fields that point at the latest verified document of a type
+const LINKED_LOAD_FIELDS: Partial<Record<LoadDocumentType, 'rateConfirmationUrl' | 'podUrl'>> = {
+  rate_confirmation: 'rateConfirmationUrl',
+  pod: 'podUrl'
+};
+
+export interface UploadedDocumentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export class LoadDocumentError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LoadDocumentError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function loadDocumentUrl(document: Pick<LoadDocument, 'id' | 'loadId'>): string {
+  return `/api/dispatch/loads/${document.loadId}/documents/${document.id}/file`;
+}
+
+async function findLoad(loadId: number, orgId: number): Promise<Load> {
+  const [load] = await db.select().from(loads).where(eq(loads.id, loadId));
+  if (!load || load.orgId !== orgId) {
+    throw new LoadDocumentError('Load not found', 404);
+  }
+  return load;
+}
+
+async function findDocument(loadId: number, documentId: number, orgId: number): Promise<LoadDocument> {
+  await findLoad(loadId, orgId);
+  const [document] = await db
+    .select()
+    .from(loadDocuments)
+    .where(and(eq(loadDocuments.id, documentId), eq(loadDocuments.loadId, loadId)));
+  if (!document) {
+    throw new LoadDocumentError('Document not found', 404);
+  }
+  return document;
+}
+
+function safeFileName(name: string): string {
+  const base = path.basename(name).replace(/[^A-Za-z0-9._-]+/g, '_');
+  return base.slice(-100) || 'document';
+}
+
+export async function listLoadDocuments(loadId: number, orgId: number) {
+  await findLoad(loadId, orgId);
+
+  const uploader = alias(users, 'uploader');
+  const verifier = alias(users, 'verifier');
+  const rows = await db
+    .select({
+      document: loadDocuments,
+      uploadedByFirstName: uploader.firstName,
+      uploadedByLastName: uploader.lastName,
+      verifiedByFirstName: verifier.firstName,
+      verifiedByLastName: verifier.lastName
+    })
+    .from(loadDocuments)
+    .leftJoin(uploader, eq(uploader.id, loadDocuments.uploadedBy))
+    .leftJoin(verifier, eq(verifier.id, loadDocuments.verifiedBy))
+    .where(eq(loadDocuments.loadId, loadId))
+    .orderBy(desc(loadDocuments.uploadedAt), desc(loadDocuments.id));
+
+  return rows.map(row => ({
+    ...row.document,
+    url: loadDocumentUrl(row.document),
+    uploadedByName: row.uploadedByFirstName ? `${row.uploadedByFirstName} ${row.uploadedByLastName}` : null,
+    verifiedByName: row.verifiedByFirstName ? `${row.verifiedByFirstName} ${row.verifiedByLastName}` : null
+  }));
+}
+
+/**
+ * Store an uploaded file and record it as a pending document of the load
+ */
+export async function uploadLoadDocument(
+  loadId: number,
+  orgId: number,
+  userId: number,
+  documentType: LoadDocumentType,
+  file: UploadedDocumentFile
+): Promise<LoadDocument> {
+  const load = await findLoad(loadId, orgId);
+  if (!ALLOWED_DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+    throw new LoadDocumentError('Only PDF and image files can be uploaded as load documents', 415);
+  }
+
+  const relativePath = path.join(
+    DOCUMENTS_DIR,
+    String(loadId),
+    `${Date.now()}-${crypto.randomBytes(6).toString('hex')}-${safeFileName(file.originalname)}`
+  );
+  const absolutePath = path.join(UPLOADS_ROOT, relativePath);
+  await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.promises.writeFile(absolutePath, file.buffer);
+
+  try {
+    const [document] = await db
+      .insert(loadDocuments)
+      .values({
+        orgId: load.orgId,
+        loadId,
+        documentType,
+        fileName: file.originalname,
+        filePath: relativePath,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        verificationStatus: 'pending',
+        uploadedBy: userId
+      })
+      .returning();
+
+    logger.info(`Load ${loadId}: ${documentType} document ${document.id} uploaded by user ${userId}`);
+    return document;
+  } catch (error) {
+    await fs.promises.unlink(absolutePath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Verify or reject a document; a rejection needs a reason
+ */
+export async function setDocumentVerification(
+  loadId: number,
+  documentId: number,
+  orgId: number,
+  userId: number,
+  status: Exclude<VerificationStatus, 'pending'>,
+  reason?: string
+): Promise<LoadDocument> {
+  const document = await findDocument(loadId, documentId, orgId);
+  if (status === 'rejected' && !reason?.trim()) {
+    throw new LoadDocumentError('A reason is required to reject a document');
+  }
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(loadDocuments)
+      .set({
+        verificationStatus: status,
+        verifiedBy: userId,
+        verifiedAt: new Date(),
+        rejectionReason: status === 'rejected' ? reason!.trim() : null
+      })
+      .where(eq(loadDocuments.id, documentId))
+      .returning();
+
+    await relinkLoadDocument(tx, loadId, document.documentType as LoadDocumentType);
+    return updated;
+  });
+}
+
+/**
+ * Point the load's link for a document type at the latest verified document
+ * of that type, or clear it when none is left
+ */
+async function relinkLoadDocument(tx: DbExecutor, loadId: number, documentType: LoadDocumentType): Promise<void> {
+  const linkedField = LINKED_LOAD_FIELDS[documentType];
+  if (!linkedField) {
+    return;
+  }
+
+  const [latest] = await tx
+    .select({ id: loadDocuments.id, loadId: loadDocuments.loadId })
+    .from(loadDocuments)
+    .where(and(
+      eq(loadDocuments.loadId, loadId),
+      eq(loadDocuments.documentType, documentType),
+      eq(loadDocuments.verificationStatus, 'verified')
+    ))
+    .orderBy(desc(loadDocuments.uploadedAt), desc(loadDocuments.id))
+    .limit(1);
+  await tx
+    .update(loads)
+    .set({ [linkedField]: latest ? loadDocumentUrl(latest) : null, updatedAt: new Date() })
+    .where(eq(loads.id, loadId));
+}
+
+/**
+ * Location of a document's file on disk, for preview and download
+ */
+export async function getLoadDocumentFile(loadId: number, documentId: number, orgId: number) {
+  const document = await findDocument(loadId, documentId, orgId);
+  const absolutePath = path.join(UPLOADS_ROOT, document.filePath);
+  if (!absolutePath.startsWith(UPLOADS_ROOT) || !fs.existsSync(absolutePath)) {
+    throw new LoadDocumentError('Document file is missing', 404);
+  }
+  return { document, absolutePath };
+}
+
+/**
+ * Ids among the given loads that do not have a verified POD yet
+ */
+export async function loadsMissingVerifiedPod(loadIds: number[], executor: DbExecutor = db): Promise<number[]> {
+  if (loadIds.length === 0) {
+    return [];
+  }
+
+  const verified = await executor
+    .select({ loadId: loadDocuments.loadId })
+    .from(loadDocuments)
+    .where(and(
+      inArray(loadDocuments.loadId, loadIds),
+      eq(loadDocuments.documentType, 'pod'),
+      eq(loadDocuments.verificationStatus, 'verified')
+    ));
+  const withPod = new Set(verified.map(row => row.loadId));
+  return Array.from(new Set(loadIds)).filter(loadId => !withPod.has(loadId));
+}
+
+export default {
+  LOAD_DOCUMENT_TYPES,
+  listLoadDocuments,
+  uploadLoadDocument,
+  setDocumentVerification,
+  getLoadDocumentFile,
+  loadsMissingVerifiedPod
+};
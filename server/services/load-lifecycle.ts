@@ -0,0 +1,225 @@
+/**
+ * Load Lifecycle
+ *
+ * State machine for loads.status: booked -> in_transit -> delivered ->
+ * invoiced -> paid, with cancellation before delivery. Each transition lists
+ * the load fields it requires (a rate confirmation before the truck rolls, a
+ * POD before delivery). Dispatchers trigger the manual transitions; invoicing
+ * and payment move loads through the system transitions. Every transition is
+ * recorded in load_status_history.
+ */
+
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { loads, loadStatusHistory, users, type Load, type LoadStatusHistory } from '@shared/schema';
+
+export const LOAD_STATUSES = ['booked', 'in_transit', 'delivered', 'invoiced', 'paid', 'cancelled'] as const;
+export type LoadStatus = typeof LOAD_STATUSES[number];
+
+export type LoadAction = 'dispatch' | 'deliver' | 'cancel' | 'invoice' | 'void_invoice' | 'pay' | 'reverse_payment';
+export type LoadRequiredField = 'rateConfirmationUrl' | 'podUrl';
+
+export interface LoadTransition {
+  label: string;
+  from: LoadStatus[];
+  to: LoadStatus;
+  requires: LoadRequiredField[];
+  // Manual transitions are offered to dispatchers, the others are driven by billing
+  manual: boolean;
+  requiresNote?: boolean;
+}
+
+export const LOAD_TRANSITIONS: Record<LoadAction, LoadTransition> = {
+  dispatch: { label: 'Mark In Transit', from: ['booked'], to: 'in_transit', requires: ['rateConfirmationUrl'], manual: true },
+  deliver: { label: 'Mark Delivered', from: ['in_transit'], to: 'delivered', requires: ['podUrl'], manual: true },
+  cancel: { label: 'Cancel Load', from: ['booked', 'in_transit'], to: 'cancelled', requires: [], manual: true, requiresNote: true },
+  invoice: { label: 'Invoice', from: ['delivered'], to: 'invoiced', requires: [], manual: false },
+  void_invoice: { label: 'Void Invoice', from: ['invoiced'], to: 'delivered', requires: [], manual: false },
+  pay: { label: 'Mark Paid', from: ['invoiced'], to: 'paid', requires: [], manual: false },
+  reverse_payment: { label: 'Reverse Payment', from: ['paid'], to: 'invoiced', requires: [], manual: false }
+};
+
+const REQUIRED_FIELD_LABELS: Record<LoadRequiredField, string> = {
+  rateConfirmationUrl: 'rate confirmation',
+  podUrl: 'proof of delivery (POD)'
+};
+
+// Statuses written by older versions of the dispatch screens
+const LEGACY_STATUSES: Record<string, LoadStatus> = {
+  pending: 'booked',
+  assigned: 'booked'
+};
+
+export interface LoadTransitionInput {
+  podUrl?: string;
+  rateConfirmationUrl?: string;
+  note?: string;
+}
+
+export interface AvailableLoadAction {
+  action: LoadAction;
+  label: string;
+  to: LoadStatus;
+  requires: LoadRequiredField[];
+  requiresNote: boolean;
+}
+
+export class LoadTransitionError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LoadTransitionError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function normalizeLoadStatus(status: string): LoadStatus | string {
+  return LEGACY_STATUSES[status] ?? status;
+}
+
+/**
+ * Manual transitions a dispatcher may perform from the load's current status
+ */
+export function availableLoadActions(load: Pick<Load, 'status'>): AvailableLoadAction[] {
+  const status = normalizeLoadStatus(load.status);
+  return (Object.entries(LOAD_TRANSITIONS) as Array<[LoadAction, LoadTransition]>)
+    .filter(([, transition]) => transition.manual && (transition.from as string[]).includes(status))
+    .map(([action, transition]) => ({
+      action,
+      label: transition.label,
+      to: transition.to,
+      requires: transition.requires,
+      requiresNote: transition.requiresNote ?? false
+    }));
+}
+
+export function missingLoadRequirements(load: Pick<Load, LoadRequiredField>, action: LoadAction): string[] {
+  return LOAD_TRANSITIONS[action].requires
+    .filter(field => !load[field])
+    .map(field => REQUIRED_FIELD_LABELS[field]);
+}
+
+/**
+ * Record system transitions (billing, voiding, payment) of loads whose status
+ * was already updated inside the given transaction
+ */
+export async function recordLoadStatusChanges(
+  tx: DbExecutor,
+  changed: Array<Pick<Load, 'id' | 'orgId' | 'status'>>,
+  action: LoadAction,
+  actorId: number,
+  note?: string
+): Promise<void> {
+  if (changed.length === 0) return;
+
+  await tx.insert(loadStatusHistory).values(changed.map(load => ({
+    orgId: load.orgId,
+    loadId: load.id,
+    fromStatus: normalizeLoadStatus(load.status),
+    toStatus: LOAD_TRANSITIONS[action].to,
+    action,
+    note: note ?? null,
+    changedBy: actorId
+  })));
+}
+
+/**
+ * Apply a manual transition, storing the documents it requires when given
+ */
+export async function transitionLoad(
+  loadId: number,
+  action: LoadAction,
+  actorId: number,
+  orgId: number,
+  input: LoadTransitionInput = {}
+): Promise<{ load: Load; history: LoadStatusHistory; previousStatus: string }> {
+  const transition = LOAD_TRANSITIONS[action];
+  if (!transition?.manual) {
+    throw new LoadTransitionError(`Unknown load action: ${action}`);
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const [load] = await tx
+      .select()
+      .from(loads)
+      .where(eq(loads.id, loadId))
+      .for('update');
+
+    if (!load || load.orgId !== orgId) {
+      throw new LoadTransitionError('Load not found', 404);
+    }
+
+    const status = normalizeLoadStatus(load.status);
+    if (!(transition.from as string[]).includes(status)) {
+      throw new LoadTransitionError(`Cannot ${transition.label.toLowerCase()} a load that is ${status.replace('_', ' ')}`, 409);
+    }
+    if (transition.requiresNote && !input.note?.trim()) {
+      throw new LoadTransitionError(`A note is required to ${transition.label.toLowerCase()}`);
+    }
+
+    const documents: Partial<Pick<Load, LoadRequiredField>> = {};
+    if (input.podUrl) documents.podUrl = input.podUrl;
+    if (input.rateConfirmationUrl) documents.rateConfirmationUrl = input.rateConfirmationUrl;
+
+    const missing = missingLoadRequirements({ ...load, ...documents }, action);
+    if (missing.length > 0) {
+      throw new LoadTransitionError(`A ${missing.join(' and ')} is required to ${transition.label.toLowerCase()}`, 422);
+    }
+
+    const [updated] = await tx
+      .update(loads)
+      .set({ ...documents, status: transition.to, updatedAt: new Date() })
+      .where(eq(loads.id, loadId))
+      .returning();
+
+    const [history] = await tx
+      .insert(loadStatusHistory)
+      .values({
+        orgId: load.orgId,
+        loadId,
+        fromStatus: status,
+        toStatus: transition.to,
+        action,
+        note: input.note ?? null,
+        changedBy: actorId
+      })
+      .returning();
+
+    return { load: updated, history, previousStatus: status };
+  });
+
+  logger.info(`Load ${loadId}: ${result.previousStatus} -> ${result.load.status} (${action}) by user ${actorId}`);
+  return result;
+}
+
+export async function getLoadStatusHistory(loadId: number, orgId: number) {
+  return db
+    .select({
+      id: loadStatusHistory.id,
+      loadId: loadStatusHistory.loadId,
+      fromStatus: loadStatusHistory.fromStatus,
+      toStatus: loadStatusHistory.toStatus,
+      action: loadStatusHistory.action,
+      note: loadStatusHistory.note,
+      changedBy: loadStatusHistory.changedBy,
+      changedByName: sql<string | null>`${users.firstName} || ' ' || ${users.lastName}`,
+      changedAt: loadStatusHistory.changedAt
+    })
+    .from(loadStatusHistory)
+    .leftJoin(users, eq(users.id, loadStatusHistory.changedBy))
+    .where(and(eq(loadStatusHistory.loadId, loadId), eq(loadStatusHistory.orgId, orgId)))
+    .orderBy(desc(loadStatusHistory.changedAt), desc(loadStatusHistory.id));
+}
+
+export default {
+  LOAD_TRANSITIONS,
+  availableLoadActions,
+  transitionLoad,
+  recordLoadStatusChanges,
+  getLoadStatusHistory,
+  normalizeLoadStatus
+};
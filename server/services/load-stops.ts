@@ -0,0 +1,255 @@
+/**
+ * Load Stops
+ *
+ * Ordered pickup and delivery stops of a load with appointment windows and
+ * reference numbers. The load's origin, destination, pickup and delivery
+ * date stay a summary of its first pickup and final delivery, so screens and
+ * reports that only know one pickup and one drop keep working. A load saved
+ * without stops gets a pickup at its origin and a delivery at its
+ * destination.
+ */
+
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { ErrorCategory } from '../middleware/error-handler';
+import { loadStops, type InsertLoadStop, type Load, type LoadStop } from '@shared/schema';
+
+export const STOP_TYPES = ['pickup', 'delivery'] as const;
+export type StopType = typeof STOP_TYPES[number];
+
+export interface LoadStopInput {
+  stopType: StopType;
+  location: string;
+  appointmentStart: Date;
+  appointmentEnd?: Date | null;
+  referenceNumbers?: string[];
+  notes?: string | null;
+}
+
+type LoadRoute = Pick<Load, 'origin' | 'destination' | 'pickupDate' | 'deliveryDate'>;
+
+const ROUTE_FIELDS: Array<keyof LoadRoute> = ['origin', 'destination', 'pickupDate', 'deliveryDate'];
+
+export class LoadStopError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LoadStopError';
+    this.statusCode = statusCode;
+  }
+}
+
+// YYYY-MM-DD in server time, the zone whole-day appointments are created in
+function localDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function wholeDay(date: string): { appointmentStart: Date; appointmentEnd: Date } {
+  const start = new Date(`${date}T00:00:00`);
+  return { appointmentStart: start, appointmentEnd: new Date(start.getTime() + 24 * 60 * 60 * 1000 - 1000) };
+}
+
+/**
+ * Stops of a load without explicit stops: pickup at the origin and delivery
+ * at the destination, each open for the whole scheduled day
+ */
+export function defaultLoadStops(load: Pick<Load, 'id' | 'orgId'> & LoadRoute): InsertLoadStop[] {
+  return [
+    { orgId: load.orgId, loadId: load.id, sequence: 1, stopType: 'pickup', location: load.origin, ...wholeDay(load.pickupDate) },
+    { orgId: load.orgId, loadId: load.id, sequence: 2, stopType: 'delivery', location: load.destination, ...wholeDay(load.deliveryDate) }
+  ];
+}
+
+/**
+ * A route starts with a pickup, ends with a delivery and visits its stops in
+ * appointment order
+ */
+export function validateLoadStops(stops: LoadStopInput[]): void {
+  if (stops.length < 2) {
+    throw new LoadStopError('A load needs at least one pickup and one delivery stop');
+  }
+  if (stops[0].stopType !== 'pickup') {
+    throw new LoadStopError('The first stop of a load must be a pickup');
+  }
+  if (stops[stops.length - 1].stopType !== 'delivery') {
+    throw new LoadStopError('The last stop of a load must be a delivery');
+  }
+
+  stops.forEach((stop, index) => {
+    if (stop.appointmentEnd && stop.appointmentEnd < stop.appointmentStart) {
+      throw new LoadStopError(`Stop ${index + 1}: appointment window must not end before it starts`);
+    }
+    if (index > 0 && stop.appointmentStart < stops[index - 1].appointmentStart) {
+      throw new LoadStopError(`Stop ${index + 1}: appointment is earlier than the stop before it`);
+    }
+  });
+}
+
+/**
+ * Origin, destination and dates stored on the load for its stops
+ */
+export function summarizeLoadStops(stops: Array<Pick<LoadStopInput, 'location' | 'appointmentStart' | 'appointmentEnd'>>): LoadRoute {
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  return {
+    origin: first.location,
+    destination: last.location,
+    pickupDate: localDate(first.appointmentStart),
+    deliveryDate: localDate(last.appointmentEnd ?? last.appointmentStart)
+  };
+}
+
+/**
+ * Route as printed on invoices and lists: "origin to destination" for a
+ * single pickup and delivery, every stop in order otherwise
+ */
+export function describeLoadRoute(load: Pick<Load, 'origin' | 'destination'>, stops: Array<Pick<LoadStop, 'location' | 'referenceNumbers'>> = []): string {
+  const route = stops.length > 2
+    ? stops.map(stop => stop.location).join(' → ')
+    : `${load.origin} to ${load.destination}`;
+  const references = stops.flatMap(stop => stop.referenceNumbers ?? []);
+  return references.length > 0 ? `${route} (Ref ${references.join(', ')})` : route;
+}
+
+function toRows(load: Pick<Load, 'id' | 'orgId'>, stops: LoadStopInput[]): InsertLoadStop[] {
+  return stops.map((stop, index) => ({
+    orgId: load.orgId,
+    loadId: load.id,
+    sequence: index + 1,
+    stopType: stop.stopType,
+    location: stop.location,
+    appointmentStart: stop.appointmentStart,
+    appointmentEnd: stop.appointmentEnd ?? null,
+    referenceNumbers: stop.referenceNumbers?.length ? stop.referenceNumbers : null,
+    notes: stop.notes ?? null
+  }));
+}
+
+export async function getLoadStops(loadId: number, executor: DbExecutor = db): Promise<LoadStop[]> {
+  return executor
+    .select()
+    .from(loadStops)
+    .where(eq(loadStops.loadId, loadId))
+    .orderBy(asc(loadStops.sequence));
+}
+
+/**
+ * Stops of several loads at once, keyed by load id
+ */
+export async function getStopsForLoads(loadIds: number[], executor: DbExecutor = db): Promise<Map<number, LoadStop[]>> {
+  const byLoad = new Map<number, LoadStop[]>();
+  if (loadIds.length === 0) {
+    return byLoad;
+  }
+
+  const rows = await executor
+    .select()
+    .from(loadStops)
+    .where(inArray(loadStops.loadId, loadIds))
+    .orderBy(asc(loadStops.loadId), asc(loadStops.sequence));
+  for (const stop of rows) {
+    byLoad.set(stop.loadId, [...(byLoad.get(stop.loadId) ?? []), stop]);
+  }
+  return byLoad;
+}
+
+/**
+ * Stops of a load, creating the default pickup and delivery for loads
+ * saved before stops existed
+ */
+export async function ensureLoadStops(executor: DbExecutor, load: Load): Promise<LoadStop[]> {
+  const stops = await getLoadStops(load.id, executor);
+  if (stops.length > 0) {
+    return stops;
+  }
+  return executor.insert(loadStops).values(defaultLoadStops(load)).returning();
+}
+
+/**
+ * Store the stops of a newly created load
+ */
+export async function saveLoadStops(load: Load, stops?: LoadStopInput[]): Promise<LoadStop[]> {
+  if (!stops) {
+    return db.insert(loadStops).values(defaultLoadStops(load)).returning();
+  }
+  validateLoadStops(stops);
+  return db.insert(loadStops).values(toRows(load, stops)).returning();
+}
+
+/**
+ * Replace the stops of a load that has not started moving. Returns the new
+ * stops and the route summary the caller stores on the load.
+ */
+export async function replaceLoadStops(load: Load, stops: LoadStopInput[]): Promise<{ stops: LoadStop[]; route: LoadRoute }> {
+  validateLoadStops(stops);
+
+  const saved = await db.transaction(async (tx) => {
+    const current = await getLoadStops(load.id, tx);
+    if (current.some(stop => stop.arrivedAt)) {
+      throw new LoadStopError('Stops cannot be replaced once the truck has arrived at one of them', 409);
+    }
+
+    await tx.delete(loadStops).where(eq(loadStops.loadId, load.id));
+    return tx.insert(loadStops).values(toRows(load, stops)).returning();
+  });
+
+  return { stops: saved, route: summarizeLoadStops(stops) };
+}
+
+export function touchesRoute(changes: Record<string, unknown>): boolean {
+  return ROUTE_FIELDS.some(field => changes[field] !== undefined);
+}
+
+/**
+ * Origin, destination and dates of a multi-stop load follow its stops and
+ * cannot be edited on the load itself
+ */
+export async function assertRouteEditable(loadId: number): Promise<void> {
+  const stops = await getLoadStops(loadId);
+  if (stops.length > 2) {
+    throw new LoadStopError('Edit the stops of a multi-stop load instead of its origin and destination', 409);
+  }
+}
+
+/**
+ * Carry an edit of a single pickup/delivery load's origin, destination or
+ * dates over to its two stops
+ */
+export async function syncSingleStopRoute(load: Load): Promise<void> {
+  const stops = await getLoadStops(load.id);
+  if (stops.length !== 2) {
+    return;
+  }
+
+  const [pickup, delivery] = stops;
+  const updates: Array<[LoadStop, string, string]> = [
+    [pickup, load.origin, load.pickupDate],
+    [delivery, load.destination, load.deliveryDate]
+  ];
+  for (const [stop, location, date] of updates) {
+    const dateChanged = localDate(stop.appointmentStart) !== date;
+    if (stop.location === location && !dateChanged) continue;
+
+    await db
+      .update(loadStops)
+      .set({ location, ...(dateChanged ? wholeDay(date) : {}), updatedAt: new Date() })
+      .where(and(eq(loadStops.id, stop.id), eq(loadStops.loadId, load.id)));
+  }
+}
+
+export default {
+  defaultLoadStops,
+  validateLoadStops,
+  summarizeLoadStops,
+  describeLoadRoute,
+  getLoadStops,
+  getStopsForLoads,
+  saveLoadStops,
+  replaceLoadStops,
+  assertRouteEditable,
+  syncSingleStopRoute
+};
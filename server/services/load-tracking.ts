@@ -0,0 +1,329 @@
+/**
+ * Load Tracking
+ *
+ * Pickup and delivery stops with appointment windows, and the check calls
+ * dispatchers log while a load is moving. A check call can mark arrival at
+ * or departure from a stop and report a new ETA for it; from those the
+ * service flags every stop as on time, late or at risk. Each change is
+ * pushed to the load's socket room so open tracking screens update live.
+ */
+
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { emitToEntity } from '../socket';
+import { normalizeLoadStatus } from './load-lifecycle';
+import { ensureLoadStops, getStopsForLoads } from './load-stops';
+import {
+  leads,
+  loadCheckCalls,
+  loadStops,
+  loads,
+  users,
+  type Load,
+  type LoadCheckCall,
+  type LoadStop
+} from '@shared/schema';
+
+export const CHECK_CALL_STATUSES = ['en_route', 'arrived', 'departed', 'delayed', 'issue'] as const;
+export type CheckCallStatus = typeof CHECK_CALL_STATUSES[number];
+
+export const TRACKING_UPDATED_EVENT = 'load:tracking_updated';
+
+// Loads that are still expected to report check calls
+const TRACKABLE_STATUSES = ['booked', 'in_transit'];
+
+export type StopTimeliness = 'on_time' | 'late' | 'at_risk' | 'scheduled';
+
+export interface TrackedStop extends LoadStop {
+  timeliness: StopTimeliness;
+  // Minutes past the appointment window, actual or projected from the ETA
+  minutesLate: number | null;
+}
+
+export interface CheckCallInput {
+  location: string;
+  latitude?: number;
+  longitude?: number;
+  status: CheckCallStatus;
+  stopId?: number;
+  eta?: Date;
+  notes?: string;
+  reportedAt?: Date;
+}
+
+export type LoadStopChanges = Partial<Pick<LoadStop, 'appointmentStart' | 'appointmentEnd' | 'eta' | 'arrivedAt' | 'departedAt' | 'notes'>>;
+
+export interface LoadTracking {
+  load: Load & { companyName: string | null };
+  stops: TrackedStop[];
+  checkCalls: Array<LoadCheckCall & { reportedByName: string | null }>;
+  currentLocation: string | null;
+  lastUpdated: Date | null;
+  nextStop: TrackedStop | null;
+  estimatedDelivery: Date | null;
+  onTime: boolean;
+}
+
+export class LoadTrackingError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'LoadTrackingError';
+    this.statusCode = statusCode;
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+function minutesBetween(later: Date, earlier: Date): number {
+  return Math.round((later.getTime() - earlier.getTime()) / MINUTE);
+}
+
+/**
+ * On-time flag of a stop: compares the actual arrival, or while the truck
+ * is still on its way the current time and reported ETA, with the end of the
+ * appointment window
+ */
+export function stopTimeliness(stop: LoadStop, now: Date = new Date()): Pick<TrackedStop, 'timeliness' | 'minutesLate'> {
+  const deadline = stop.appointmentEnd ?? stop.appointmentStart;
+
+  if (stop.arrivedAt) {
+    const late = minutesBetween(stop.arrivedAt, deadline);
+    return late > 0 ? { timeliness: 'late', minutesLate: late } : { timeliness: 'on_time', minutesLate: null };
+  }
+  if (now > deadline) {
+    return { timeliness: 'late', minutesLate: minutesBetween(now, deadline) };
+  }
+  if (stop.eta && stop.eta > deadline) {
+    return { timeliness: 'at_risk', minutesLate: minutesBetween(stop.eta, deadline) };
+  }
+  return { timeliness: 'scheduled', minutesLate: null };
+}
+
+async function findLoad(executor: DbExecutor, loadId: number, orgId: number, lock = false): Promise<Load> {
+  const query = executor.select().from(loads).where(eq(loads.id, loadId));
+  const [load] = lock ? await query.for('update') : await query;
+  if (!load || load.orgId !== orgId) {
+    throw new LoadTrackingError('Load not found', 404);
+  }
+  return load;
+}
+
+// First stop the truck has not left yet
+function nextOpenStop<T extends LoadStop>(stops: T[]): T | null {
+  return stops.find(stop => !stop.departedAt) ?? null;
+}
+
+export async function getLoadTracking(loadId: number, orgId: number, now: Date = new Date()): Promise<LoadTracking> {
+  const load = await findLoad(db, loadId, orgId);
+  const stops = (await ensureLoadStops(db, load)).map(stop => ({ ...stop, ...stopTimeliness(stop, now) }));
+
+  const [client] = await db
+    .select({ companyName: leads.companyName })
+    .from(leads)
+    .where(eq(leads.id, load.leadId));
+
+  const checkCalls = await db
+    .select({
+      call: loadCheckCalls,
+      reportedByName: sql<string | null>`${users.firstName} || ' ' || ${users.lastName}`
+    })
+    .from(loadCheckCalls)
+    .leftJoin(users, eq(users.id, loadCheckCalls.reportedBy))
+    .where(eq(loadCheckCalls.loadId, loadId))
+    .orderBy(desc(loadCheckCalls.reportedAt), desc(loadCheckCalls.id));
+
+  const lastCall = checkCalls[0]?.call ?? null;
+  const finalStop = stops[stops.length - 1] ?? null;
+
+  return {
+    load: { ...load, companyName: client?.companyName ?? null },
+    stops,
+    checkCalls: checkCalls.map(row => ({ ...row.call, reportedByName: row.reportedByName })),
+    currentLocation: lastCall?.location ?? null,
+    lastUpdated: lastCall?.reportedAt ?? null,
+    nextStop: nextOpenStop(stops),
+    estimatedDelivery: finalStop
+      ? finalStop.arrivedAt ?? finalStop.eta ?? finalStop.appointmentEnd ?? finalStop.appointmentStart
+      : null,
+    onTime: stops.every(stop => stop.timeliness === 'on_time' || stop.timeliness === 'scheduled')
+  };
+}
+
+/**
+ * Tracking summary of the organization's booked and moving loads, late and
+ * at-risk loads first
+ */
+export async function getActiveShipments(orgId: number, now: Date = new Date()) {
+  const active = await db
+    .select({ load: loads, companyName: leads.companyName })
+    .from(loads)
+    .leftJoin(leads, eq(leads.id, loads.leadId))
+    .where(and(eq(loads.orgId, orgId), inArray(loads.status, TRACKABLE_STATUSES)))
+    .orderBy(asc(loads.pickupDate), asc(loads.id));
+
+  if (active.length === 0) {
+    return [];
+  }
+
+  const loadIds = active.map(row => row.load.id);
+  const stopsByLoad = await getStopsForLoads(loadIds);
+  const calls = await db
+    .select()
+    .from(loadCheckCalls)
+    .where(inArray(loadCheckCalls.loadId, loadIds))
+    .orderBy(desc(loadCheckCalls.reportedAt), desc(loadCheckCalls.id));
+
+  const shipments = active.map(({ load, companyName }) => {
+    const loadStopsTracked = (stopsByLoad.get(load.id) ?? [])
+      .map(stop => ({ ...stop, ...stopTimeliness(stop, now) }));
+    const lastCheckCall = calls.find(call => call.loadId === load.id) ?? null;
+    const late = loadStopsTracked.some(stop => stop.timeliness === 'late');
+    const atRisk = loadStopsTracked.some(stop => stop.timeliness === 'at_risk');
+
+    return {
+      loadId: load.id,
+      origin: load.origin,
+      destination: load.destination,
+      status: load.status,
+      pickupDate: load.pickupDate,
+      deliveryDate: load.deliveryDate,
+      companyName,
+      assignedTo: load.assignedTo,
+      currentLocation: lastCheckCall?.location ?? null,
+      lastCheckCall,
+      nextStop: nextOpenStop(loadStopsTracked),
+      timeliness: (late ? 'late' : atRisk ? 'at_risk' : 'on_time') as 'late' | 'at_risk' | 'on_time'
+    };
+  });
+
+  const rank = { late: 0, at_risk: 1, on_time: 2 };
+  return shipments.sort((a, b) => rank[a.timeliness] - rank[b.timeliness]);
+}
+
+async function publishTracking(loadId: number, orgId: number): Promise<LoadTracking> {
+  const tracking = await getLoadTracking(loadId, orgId);
+  emitToEntity('load', loadId, TRACKING_UPDATED_EVENT, tracking);
+  return tracking;
+}
+
+/**
+ * Log a check call. Arrival and departure reports are recorded on the stop
+ * they name, or on the next stop the truck has not left; an ETA updates the
+ * same stop.
+ */
+export async function recordCheckCall(
+  loadId: number,
+  orgId: number,
+  userId: number,
+  input: CheckCallInput
+): Promise<{ checkCall: LoadCheckCall; tracking: LoadTracking }> {
+  const checkCall = await db.transaction(async (tx) => {
+    const load = await findLoad(tx, loadId, orgId, true);
+    const status = normalizeLoadStatus(load.status);
+    if (!TRACKABLE_STATUSES.includes(status)) {
+      throw new LoadTrackingError(`Check calls cannot be logged for a load that is ${status.replace('_', ' ')}`, 409);
+    }
+
+    const stops = await ensureLoadStops(tx, load);
+    let stop: LoadStop | null = null;
+    if (input.stopId !== undefined) {
+      stop = stops.find(candidate => candidate.id === input.stopId) ?? null;
+      if (!stop) {
+        throw new LoadTrackingError('Stop does not belong to this load');
+      }
+    } else if (input.status === 'arrived' || input.status === 'departed' || input.eta) {
+      stop = nextOpenStop(stops);
+      if (!stop) {
+        throw new LoadTrackingError('All stops of this load are already completed');
+      }
+    }
+
+    const reportedAt = input.reportedAt ?? new Date();
+    if (stop) {
+      const changes: LoadStopChanges = {};
+      if (input.eta) changes.eta = input.eta;
+      if (input.status === 'arrived' && !stop.arrivedAt) changes.arrivedAt = reportedAt;
+      if (input.status === 'departed') {
+        changes.arrivedAt = stop.arrivedAt ?? reportedAt;
+        changes.departedAt = reportedAt;
+      }
+      if (Object.keys(changes).length > 0) {
+        await tx
+          .update(loadStops)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(eq(loadStops.id, stop.id));
+      }
+    }
+
+    const [created] = await tx
+      .insert(loadCheckCalls)
+      .values({
+        orgId: load.orgId,
+        loadId,
+        stopId: stop?.id ?? null,
+        location: input.location,
+        latitude: input.latitude ?? null,
+        longitude: input.longitude ?? null,
+        status: input.status,
+        eta: input.eta ?? null,
+        notes: input.notes ?? null,
+        reportedBy: userId,
+        reportedAt
+      })
+      .returning();
+    return created;
+  });
+
+  logger.info(`Load ${loadId}: check call ${checkCall.status} at ${checkCall.location} by user ${userId}`);
+  return { checkCall, tracking: await publishTracking(loadId, orgId) };
+}
+
+/**
+ * Change the appointment window of a stop or correct its recorded times
+ */
+export async function updateLoadStop(
+  loadId: number,
+  stopId: number,
+  orgId: number,
+  changes: LoadStopChanges
+): Promise<LoadTracking> {
+  await db.transaction(async (tx) => {
+    await findLoad(tx, loadId, orgId, true);
+    const [stop] = await tx
+      .select()
+      .from(loadStops)
+      .where(and(eq(loadStops.id, stopId), eq(loadStops.loadId, loadId)));
+    if (!stop) {
+      throw new LoadTrackingError('Stop not found', 404);
+    }
+
+    const merged = { ...stop, ...changes };
+    if (merged.appointmentEnd && merged.appointmentEnd < merged.appointmentStart) {
+      throw new LoadTrackingError('Appointment window must not end before it starts');
+    }
+    if (merged.departedAt && (!merged.arrivedAt || merged.departedAt < merged.arrivedAt)) {
+      throw new LoadTrackingError('Departure must come after the arrival at the stop');
+    }
+
+    await tx
+      .update(loadStops)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(loadStops.id, stopId));
+  });
+
+  return publishTracking(loadId, orgId);
+}
+
+export default {
+  CHECK_CALL_STATUSES,
+  stopTimeliness,
+  getLoadTracking,
+  getActiveShipments,
+  recordCheckCall,
+  updateLoadStop
+};
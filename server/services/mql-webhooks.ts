@@ -0,0 +1,570 @@
+/**
+ * MQL Webhooks
+ *
+ * Each organization registers one endpoint per form provider at
+ * /api/crm/mql/webhook/<token>. A provider signs every delivery with the
+ * endpoint's secret: X-MetaSys-Timestamp carries the unix time in seconds and
+ * X-MetaSys-Signature is "sha256=" + hex HMAC-SHA256 of "<timestamp>.<raw
+ * body>". Deliveries older than five minutes, or whose signature was already
+ * received, are rejected as replays; a unique index on the accepted
+ * deliveries' signatures settles concurrent copies of the same delivery,
+ * while a delivery that failed may be retried. The endpoint's field mappings pick lead
+ * fields out of the provider's payload (dot paths). A payload that matches an
+ * existing lead of the organization by MC number, phone or email is not
+ * created again. New leads go to the active sales reps in turn (round robin)
+ * or to the rep with the fewest open leads. Every delivery is logged.
+ */
+
+import crypto from 'crypto';
+import { and, asc, count, desc, eq, inArray, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { emitToUser, RealTimeEvents } from '../socket';
+import { normalizeCarrierNumber, normalizePhone } from './lead-duplicates';
+import {
+  activities,
+  leads,
+  mqlWebhookDeliveries,
+  mqlWebhookEndpoints,
+  notifications,
+  roles,
+  users,
+  type MqlWebhookDelivery,
+  type MqlWebhookEndpoint
+} from '@shared/schema';
+
+export const MQL_LEAD_FIELDS = [
+  'companyName',
+  'contactName',
+  'phoneNumber',
+  'email',
+  'mcNumber',
+  'dotNumber',
+  'equipmentType',
+  'truckCategory',
+  'sourceDetails',
+  'notes'
+] as const;
+export type MqlLeadField = typeof MQL_LEAD_FIELDS[number];
+
+export type MqlFieldMappings = Partial<Record<MqlLeadField, string>>;
+
+export const ASSIGNMENT_STRATEGIES = ['round_robin', 'lowest_load'] as const;
+export type AssignmentStrategy = typeof ASSIGNMENT_STRATEGIES[number];
+
+// The payload the webhook accepted before endpoints had mappings
+export const DEFAULT_FIELD_MAPPINGS: MqlFieldMappings = {
+  companyName: 'companyName',
+  contactName: 'contactName',
+  phoneNumber: 'phone',
+  email: 'email',
+  mcNumber: 'mcNumber',
+  equipmentType: 'truckType',
+  sourceDetails: 'sourceForm'
+};
+
+const REQUIRED_FIELDS: MqlLeadField[] = ['companyName', 'contactName', 'phoneNumber'];
+
+export const SIGNATURE_HEADER = 'x-metasys-signature';
+export const TIMESTAMP_HEADER = 'x-metasys-timestamp';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Leads still being worked count toward a rep's load
+const OPEN_LEAD_STATUSES = ['New', 'InProgress', 'FollowUp', 'HandToDispatch'] as const;
+
+export interface MqlEndpointInput {
+  name: string;
+  provider?: string;
+  fieldMappings?: MqlFieldMappings;
+  assignmentStrategy?: AssignmentStrategy;
+  isActive?: boolean;
+}
+
+export interface MqlDeliveryRequest {
+  rawBody: Buffer | undefined;
+  body: unknown;
+  signature: string | undefined;
+  timestamp: string | undefined;
+}
+
+export interface MqlDeliveryResult {
+  httpStatus: number;
+  body: { success: boolean; message: string; leadId?: number; duplicate?: boolean; deliveryId: number };
+}
+
+export class MqlWebhookError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'MqlWebhookError';
+    this.statusCode = statusCode;
+  }
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(18).toString('base64url');
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * An endpoint as listed to admins; the secret is only shown in full when
+ * it is created or rotated
+ */
+function withMaskedSecret(endpoint: MqlWebhookEndpoint) {
+  return { ...endpoint, secret: `••••${endpoint.secret.slice(-4)}` };
+}
+
+async function findEndpoint(endpointId: number, orgId: number): Promise<MqlWebhookEndpoint> {
+  const [endpoint] = await db.select().from(mqlWebhookEndpoints).where(eq(mqlWebhookEndpoints.id, endpointId));
+  if (!endpoint || endpoint.orgId !== orgId) {
+    throw new MqlWebhookError('Webhook endpoint not found', 404);
+  }
+  return endpoint;
+}
+
+function validateMappings(mappings: MqlFieldMappings): void {
+  for (const field of REQUIRED_FIELDS) {
+    if (!mappings[field]?.trim()) {
+      throw new MqlWebhookError(`A mapping for ${field} is required`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint administration
+// ---------------------------------------------------------------------------
+
+export async function listEndpoints(orgId: number) {
+  const endpoints = await db
+    .select()
+    .from(mqlWebhookEndpoints)
+    .where(eq(mqlWebhookEndpoints.orgId, orgId))
+    .orderBy(asc(mqlWebhookEndpoints.name));
+  return endpoints.map(withMaskedSecret);
+}
+
+export async function getEndpoint(endpointId: number, orgId: number) {
+  return withMaskedSecret(await findEndpoint(endpointId, orgId));
+}
+
+export async function createEndpoint(orgId: number, userId: number, input: MqlEndpointInput): Promise<MqlWebhookEndpoint> {
+  const fieldMappings = input.fieldMappings ?? DEFAULT_FIELD_MAPPINGS;
+  validateMappings(fieldMappings);
+
+  const [endpoint] = await db
+    .insert(mqlWebhookEndpoints)
+    .values({
+      orgId,
+      name: input.name,
+      provider: input.provider ?? 'generic',
+      token: generateToken(),
+      secret: generateSecret(),
+      fieldMappings,
+      assignmentStrategy: input.assignmentStrategy ?? 'round_robin',
+      isActive: input.isActive ?? true,
+      createdBy: userId
+    })
+    .returning();
+  return endpoint;
+}
+
+export async function updateEndpoint(endpointId: number, orgId: number, input: Partial<MqlEndpointInput>) {
+  await findEndpoint(endpointId, orgId);
+
+  const values: Partial<typeof mqlWebhookEndpoints.$inferInsert> = { updatedAt: new Date() };
+  if (input.name !== undefined) values.name = input.name;
+  if (input.provider !== undefined) values.provider = input.provider;
+  if (input.assignmentStrategy !== undefined) values.assignmentStrategy = input.assignmentStrategy;
+  if (input.isActive !== undefined) values.isActive = input.isActive;
+  if (input.fieldMappings !== undefined) {
+    validateMappings(input.fieldMappings);
+    values.fieldMappings = input.fieldMappings;
+  }
+
+  const [updated] = await db
+    .update(mqlWebhookEndpoints)
+    .set(values)
+    .where(eq(mqlWebhookEndpoints.id, endpointId))
+    .returning();
+  return withMaskedSecret(updated);
+}
+
+/**
+ * Issue a new signing secret; deliveries signed with the old one are rejected
+ */
+export async function rotateEndpointSecret(endpointId: number, orgId: number): Promise<MqlWebhookEndpoint> {
+  await findEndpoint(endpointId, orgId);
+  const [updated] = await db
+    .update(mqlWebhookEndpoints)
+    .set({ secret: generateSecret(), updatedAt: new Date() })
+    .where(eq(mqlWebhookEndpoints.id, endpointId))
+    .returning();
+  return updated;
+}
+
+export async function listDeliveries(endpointId: number, orgId: number, limit = 100): Promise<MqlWebhookDelivery[]> {
+  await findEndpoint(endpointId, orgId);
+  return db
+    .select()
+    .from(mqlWebhookDeliveries)
+    .where(eq(mqlWebhookDeliveries.endpointId, endpointId))
+    .orderBy(desc(mqlWebhookDeliveries.receivedAt))
+    .limit(limit);
+}
+
+// ---------------------------------------------------------------------------
+// Receiving deliveries
+// ---------------------------------------------------------------------------
+
+/**
+ * Check the signature and timestamp headers against the raw body. Returns
+ * the reason for rejecting the delivery, or null when it is authentic.
+ */
+export function verifySignature(
+  secret: string,
+  rawBody: Buffer | undefined,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  now = Date.now()
+): string | null {
+  if (!rawBody) return 'Missing request body';
+  if (!signature || !timestamp) return `Missing ${SIGNATURE_HEADER} or ${TIMESTAMP_HEADER} header`;
+
+  const signedAt = Number(timestamp);
+  if (!Number.isInteger(signedAt)) return 'Invalid timestamp';
+  if (Math.abs(now / 1000 - signedAt) > SIGNATURE_TOLERANCE_SECONDS) return 'Timestamp is outside the allowed window';
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+  const received = signature.replace(/^sha256=/, '');
+  if (
+    received.length !== expected.length
+    || !crypto.timingSafeEqual(Buffer.from(received, 'utf8'), Buffer.from(expected, 'utf8'))
+  ) {
+    return 'Invalid signature';
+  }
+  return null;
+}
+
+function readPath(payload: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, payload);
+}
+
+/**
+ * Pick the mapped lead fields out of a provider payload
+ */
+export function applyFieldMappings(payload: unknown, mappings: MqlFieldMappings): Partial<Record<MqlLeadField, string>> {
+  const mapped: Partial<Record<MqlLeadField, string>> = {};
+  for (const field of MQL_LEAD_FIELDS) {
+    const path = mappings[field];
+    if (!path) continue;
+    const value = readPath(payload, path);
+    if (value === null || value === undefined || typeof value === 'object') continue;
+    const text = String(value).trim();
+    if (text) mapped[field] = text;
+  }
+  return mapped;
+}
+
+/**
+ * An existing lead of the organization with the same MC number, phone or email
+ */
+export async function findDuplicateLead(
+  orgId: number,
+  fields: Partial<Record<MqlLeadField, string>>
+): Promise<{ id: number; matchedOn: string } | null> {
+  const mc = normalizeCarrierNumber(fields.mcNumber);
+  const phone = normalizePhone(fields.phoneNumber);
+  const email = fields.email?.toLowerCase() ?? null;
+
+  const conditions: SQL[] = [];
+  if (mc) conditions.push(sql`ltrim(regexp_replace(${leads.mcNumber}, '[^0-9]', '', 'g'), '0') = ${mc}`);
+  if (phone) conditions.push(sql`right(regexp_replace(${leads.phoneNumber}, '[^0-9]', '', 'g'), 10) = ${phone}`);
+  if (email) conditions.push(sql`lower(${leads.email}) = ${email}`);
+  if (conditions.length === 0) return null;
+
+  const [match] = await db
+    .select({ id: leads.id, mcNumber: leads.mcNumber, phoneNumber: leads.phoneNumber, email: leads.email })
+    .from(leads)
+    .where(and(eq(leads.orgId, orgId), or(...conditions)))
+    .orderBy(asc(leads.createdAt))
+    .limit(1);
+  if (!match) return null;
+
+  const matchedOn = mc && normalizeCarrierNumber(match.mcNumber) === mc
+    ? 'MC number'
+    : phone && normalizePhone(match.phoneNumber) === phone
+      ? 'phone'
+      : 'email';
+  return { id: match.id, matchedOn };
+}
+
+async function activeSalesReps(orgId: number, executor: DbExecutor): Promise<number[]> {
+  const reps = await executor
+    .select({ id: users.id })
+    .from(users)
+    .innerJoin(roles, eq(roles.id, users.roleId))
+    .where(and(eq(users.orgId, orgId), eq(users.active, true), eq(roles.department, 'sales')))
+    .orderBy(asc(users.id));
+  return reps.map(rep => rep.id);
+}
+
+/**
+ * The rep a new lead from this endpoint goes to; falls back to the
+ * endpoint's creator when the organization has no active sales reps. For
+ * round robin, pass the endpoint row locked in the transaction that stores
+ * the lead, so concurrent deliveries do not pick the same rep.
+ */
+export async function pickAssignee(endpoint: MqlWebhookEndpoint, executor: DbExecutor = db): Promise<number> {
+  const reps = await activeSalesReps(endpoint.orgId, executor);
+  if (reps.length === 0) {
+    return endpoint.createdBy;
+  }
+
+  if (endpoint.assignmentStrategy === 'lowest_load') {
+    const loads = await executor
+      .select({ userId: leads.assignedTo, open: count() })
+      .from(leads)
+      .where(and(
+        eq(leads.orgId, endpoint.orgId),
+        inArray(leads.assignedTo, reps),
+        inArray(leads.status, [...OPEN_LEAD_STATUSES])
+      ))
+      .groupBy(leads.assignedTo);
+    const openByRep = new Map(loads.map(row => [row.userId, row.open]));
+    return reps.reduce((best, rep) => ((openByRep.get(rep) ?? 0) < (openByRep.get(best) ?? 0) ? rep : best), reps[0]);
+  }
+
+  const cursor = endpoint.lastAssignedUserId ?? 0;
+  return reps.find(rep => rep > cursor) ?? reps[0];
+}
+
+type DeliveryOutcome = Pick<typeof mqlWebhookDeliveries.$inferInsert, 'status' | 'httpStatus' | 'error' | 'leadId' | 'assignedTo'>;
+
+function deliveryValues(endpoint: MqlWebhookEndpoint, request: MqlDeliveryRequest, outcome: DeliveryOutcome) {
+  const signedAt = Number(request.timestamp);
+  return {
+    endpointId: endpoint.id,
+    orgId: endpoint.orgId,
+    signature: request.signature ?? null,
+    signedAt: Number.isInteger(signedAt) ? new Date(signedAt * 1000) : null,
+    payload: request.body ?? null,
+    ...outcome
+  };
+}
+
+async function logDelivery(endpoint: MqlWebhookEndpoint, request: MqlDeliveryRequest, outcome: DeliveryOutcome): Promise<MqlWebhookDelivery> {
+  const [delivery] = await db
+    .insert(mqlWebhookDeliveries)
+    .values(deliveryValues(endpoint, request, outcome))
+    .returning();
+  return delivery;
+}
+
+/**
+ * Log an accepted delivery before it is processed. Null when another delivery
+ * with the same signature already claimed it.
+ */
+async function claimDelivery(endpoint: MqlWebhookEndpoint, request: MqlDeliveryRequest): Promise<MqlWebhookDelivery | null> {
+  const [delivery] = await db
+    .insert(mqlWebhookDeliveries)
+    .values(deliveryValues(endpoint, request, { status: 'received', httpStatus: 202 }))
+    .onConflictDoNothing()
+    .returning();
+  return delivery ?? null;
+}
+
+async function completeDelivery(deliveryId: number, outcome: DeliveryOutcome): Promise<void> {
+  await db.update(mqlWebhookDeliveries).set(outcome).where(eq(mqlWebhookDeliveries.id, deliveryId));
+}
+
+async function reject(endpoint: MqlWebhookEndpoint, request: MqlDeliveryRequest, httpStatus: number, error: string): Promise<MqlDeliveryResult> {
+  const delivery = await logDelivery(endpoint, request, { status: 'rejected', httpStatus, error });
+  logger.warn(`MQL webhook ${endpoint.id} rejected delivery ${delivery.id}: ${error}`);
+  return { httpStatus, body: { success: false, message: error, deliveryId: delivery.id } };
+}
+
+async function notifyAssignee(userId: number, orgId: number, leadId: number, companyName: string): Promise<void> {
+  try {
+    const [notification] = await db
+      .insert(notifications)
+      .values({
+        userId,
+        orgId,
+        title: 'New MQL lead',
+        message: `${companyName} came in through a web form and was assigned to you`,
+        type: 'lead_assigned',
+        read: false,
+        entityType: 'lead',
+        entityId: leadId
+      })
+      .returning();
+    emitToUser(userId, RealTimeEvents.NOTIFICATION_CREATED, notification);
+  } catch (error) {
+    logger.error(`Could not notify user ${userId} about MQL lead ${leadId}:`, error);
+  }
+}
+
+/**
+ * Verify, map, dedupe and assign one delivery to an endpoint
+ */
+export async function receiveDelivery(token: string, request: MqlDeliveryRequest): Promise<MqlDeliveryResult> {
+  const [endpoint] = await db.select().from(mqlWebhookEndpoints).where(eq(mqlWebhookEndpoints.token, token));
+  if (!endpoint) {
+    throw new MqlWebhookError('Webhook endpoint not found', 404);
+  }
+  if (!endpoint.isActive) {
+    return reject(endpoint, request, 403, 'This webhook endpoint is disabled');
+  }
+
+  const signatureError = verifySignature(endpoint.secret, request.rawBody, request.signature, request.timestamp);
+  if (signatureError) {
+    return reject(endpoint, request, 401, signatureError);
+  }
+
+  const fields = applyFieldMappings(request.body, endpoint.fieldMappings as MqlFieldMappings);
+  const missing = REQUIRED_FIELDS.filter(field => !fields[field]);
+  if (missing.length > 0) {
+    return reject(endpoint, request, 422, `Missing mapped fields: ${missing.join(', ')}`);
+  }
+
+  const delivery = await claimDelivery(endpoint, request);
+  if (!delivery) {
+    const [replayed] = await db
+      .select({ id: mqlWebhookDeliveries.id })
+      .from(mqlWebhookDeliveries)
+      .where(and(
+        eq(mqlWebhookDeliveries.endpointId, endpoint.id),
+        eq(mqlWebhookDeliveries.signature, request.signature!),
+        notInArray(mqlWebhookDeliveries.status, ['rejected', 'failed'])
+      ))
+      .limit(1);
+    return reject(endpoint, request, 409, `Delivery was already received as #${replayed?.id}`);
+  }
+
+  try {
+    const duplicate = await findDuplicateLead(endpoint.orgId, fields);
+    if (duplicate) {
+      await completeDelivery(delivery.id, { status: 'duplicate', httpStatus: 200, leadId: duplicate.id });
+      const [lead] = await db.select({ assignedTo: leads.assignedTo }).from(leads).where(eq(leads.id, duplicate.id));
+      await db.insert(activities).values({
+        userId: lead.assignedTo,
+        entityType: 'lead',
+        entityId: duplicate.id,
+        action: 'mql_duplicate',
+        details: `Submitted again through ${endpoint.name} (matched on ${duplicate.matchedOn})`,
+        metadata: { endpointId: endpoint.id, deliveryId: delivery.id }
+      });
+      return {
+        httpStatus: 200,
+        body: { success: true, message: `Lead already exists (matched on ${duplicate.matchedOn})`, leadId: duplicate.id, duplicate: true, deliveryId: delivery.id }
+      };
+    }
+
+    const sourceDetails = fields.sourceDetails ?? endpoint.name;
+    const now = new Date();
+    const { lead, assignedTo } = await db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(mqlWebhookEndpoints)
+        .where(eq(mqlWebhookEndpoints.id, endpoint.id))
+        .for('update');
+      const assignedTo = await pickAssignee(locked, tx);
+
+      const [created] = await tx
+        .insert(leads)
+        .values({
+          companyName: fields.companyName!,
+          contactName: fields.contactName!,
+          phoneNumber: fields.phoneNumber!,
+          email: fields.email ?? null,
+          // Left blank until sales verifies it; the handoff gate requires a valid one
+          mcNumber: fields.mcNumber ?? '',
+          dotNumber: fields.dotNumber ?? null,
+          equipmentType: fields.equipmentType ?? 'unknown',
+          truckCategory: fields.truckCategory ?? null,
+          factoringStatus: 'needs-factoring',
+          serviceCharges: 5,
+          status: 'New',
+          source: 'MQL',
+          sourceDetails,
+          qualificationScore: 'Medium',
+          notes: fields.notes ?? null,
+          assignedTo,
+          createdBy: assignedTo,
+          orgId: endpoint.orgId,
+          activityTimeline: [
+            {
+              type: 'lead_created',
+              userId: assignedTo,
+              timestamp: now.toISOString(),
+              payload: { source: 'MQL', sourceDetails, endpointId: endpoint.id }
+            }
+          ]
+        })
+        .returning();
+
+      await tx
+        .update(mqlWebhookEndpoints)
+        .set({ lastAssignedUserId: assignedTo })
+        .where(eq(mqlWebhookEndpoints.id, endpoint.id));
+
+      await tx.insert(activities).values({
+        userId: assignedTo,
+        entityType: 'lead',
+        entityId: created.id,
+        action: 'created',
+        details: `MQL lead ${created.companyName} received through ${endpoint.name}`,
+        metadata: { endpointId: endpoint.id, assignmentStrategy: locked.assignmentStrategy }
+      });
+
+      return { lead: created, assignedTo };
+    });
+
+    await completeDelivery(delivery.id, { status: 'created', httpStatus: 201, leadId: lead.id, assignedTo });
+    logger.info(`MQL webhook ${endpoint.id} created lead ${lead.id} assigned to user ${assignedTo}`);
+    await notifyAssignee(assignedTo, endpoint.orgId, lead.id, lead.companyName);
+
+    return {
+      httpStatus: 201,
+      body: { success: true, message: 'MQL lead created successfully', leadId: lead.id, deliveryId: delivery.id }
+    };
+  } catch (error) {
+    logger.error(`MQL webhook ${endpoint.id} failed to process delivery:`, error);
+    await completeDelivery(delivery.id, {
+      status: 'failed',
+      httpStatus: 500,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return { httpStatus: 500, body: { success: false, message: 'Server error while creating MQL lead', deliveryId: delivery.id } };
+  }
+}
+
+export default {
+  MQL_LEAD_FIELDS,
+  ASSIGNMENT_STRATEGIES,
+  DEFAULT_FIELD_MAPPINGS,
+  listEndpoints,
+  getEndpoint,
+  createEndpoint,
+  updateEndpoint,
+  rotateEndpointSecret,
+  listDeliveries,
+  verifySignature,
+  applyFieldMappings,
+  findDuplicateLead,
+  pickAssignee,
+  receiveDelivery
+};
@@ -0,0 +1,55 @@
+/**
+ * Organization Settings
+ *
+ * Read and write helpers for organization_settings, in particular the
+ * per-module configuration stored under organization_settings.moduleSettings
+ * (e.g. moduleSettings.dunning).
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { organizationSettings, type OrganizationSettings } from '@shared/schema';
+
+export async function getOrganizationSettings(orgId: number): Promise<OrganizationSettings | undefined> {
+  const [settings] = await db
+    .select()
+    .from(organizationSettings)
+    .where(eq(organizationSettings.orgId, orgId));
+  return settings;
+}
+
+/**
+ * Settings of one module, merged over the given defaults
+ */
+export async function getModuleSettings<T extends object>(orgId: number, module: string, defaults: T): Promise<T> {
+  const settings = await getOrganizationSettings(orgId);
+  const moduleSettings = (settings?.moduleSettings ?? {}) as Record<string, unknown>;
+  const stored = moduleSettings[module];
+  return stored && typeof stored === 'object' ? { ...defaults, ...(stored as Partial<T>) } : { ...defaults };
+}
+
+/**
+ * Replace the settings of one module, leaving other modules untouched.
+ * Creates the organization_settings row if the organization has none yet.
+ */
+export async function updateModuleSettings<T extends object>(orgId: number, module: string, values: T): Promise<T> {
+  const settings = await getOrganizationSettings(orgId);
+  const moduleSettings = { ...((settings?.moduleSettings ?? {}) as Record<string, unknown>), [module]: values };
+
+  if (settings) {
+    await db
+      .update(organizationSettings)
+      .set({ moduleSettings, updatedAt: new Date() })
+      .where(eq(organizationSettings.id, settings.id));
+  } else {
+    await db.insert(organizationSettings).values({ orgId, moduleSettings });
+  }
+
+  return values;
+}
+
+export default {
+  getOrganizationSettings,
+  getModuleSettings,
+  updateModuleSettings
+};
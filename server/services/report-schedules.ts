@@ -0,0 +1,298 @@
+/**
+ * Report Schedules
+ *
+ * The dispatch report jobs run per organization, at times derived from its
+ * organization_settings: the daily reminder 15 minutes before the end of the
+ * working day and the daily report generation an hour after it, both in the
+ * organization's defaultTimezone and only on days enabled in workingHours.
+ * The monthly summary runs at 01:00 on the 1st. A scheduler tick checks
+ * every few minutes which jobs are due; each run is recorded in
+ * report_job_runs so a job runs once per day and admins can see how it went.
+ * Admins can pause a job (stored under moduleSettings.reportSchedules) or
+ * trigger it by hand.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { getModuleSettings, getOrganizationSettings, updateModuleSettings } from './organization-settings';
+import { generateDailyReports, generateMonthlyReports, sendDailyReportReminders } from '../dispatch-report-automation';
+import { organizations, reportJobRuns, type ReportJobRun } from '@shared/schema';
+
+export const REPORT_JOBS = ['daily_report_reminder', 'daily_report_generation', 'monthly_report_generation'] as const;
+
+export type ReportJob = typeof REPORT_JOBS[number];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+interface WorkingDay {
+  start: string; // HH:mm
+  end: string; // HH:mm
+  enabled: boolean;
+}
+
+type WorkingHours = Partial<Record<typeof WEEKDAYS[number], WorkingDay>>;
+
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+const DEFAULT_WORKING_DAY: WorkingDay = { start: '09:00', end: '17:00', enabled: true };
+
+interface JobDefinition {
+  label: string;
+  // Minutes after local midnight the job runs on the given day, or null when it does not run that day
+  runsAt: (localDate: string, workingHours: WorkingHours) => number | null;
+  run: (orgId: number, date: Date) => Promise<string>;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function workingDay(localDate: string, workingHours: WorkingHours): WorkingDay | null {
+  const weekday = WEEKDAYS[new Date(`${localDate}T00:00:00Z`).getUTCDay()];
+  const day = workingHours[weekday] ?? (weekday === 'saturday' || weekday === 'sunday' ? null : DEFAULT_WORKING_DAY);
+  return day && day.enabled ? day : null;
+}
+
+const JOBS: Record<ReportJob, JobDefinition> = {
+  daily_report_reminder: {
+    label: 'Daily report reminder',
+    runsAt: (localDate, workingHours) => {
+      const day = workingDay(localDate, workingHours);
+      return day ? Math.max(0, toMinutes(day.end) - 15) : null;
+    },
+    run: sendDailyReportReminders
+  },
+  daily_report_generation: {
+    label: 'Daily report generation',
+    runsAt: (localDate, workingHours) => {
+      const day = workingDay(localDate, workingHours);
+      return day ? Math.min(23 * 60 + 59, toMinutes(day.end) + 60) : null;
+    },
+    run: generateDailyReports
+  },
+  monthly_report_generation: {
+    label: 'Monthly report generation',
+    runsAt: (localDate) => (localDate.endsWith('-01') ? 60 : null),
+    run: generateMonthlyReports
+  }
+};
+
+export interface ReportScheduleStatus {
+  job: ReportJob;
+  label: string;
+  timezone: string;
+  paused: boolean;
+  nextRun: { date: string; time: string } | null;
+  lastRun: ReportJobRun | null;
+}
+
+export class ReportScheduleError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'ReportScheduleError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function isReportJob(job: string): job is ReportJob {
+  return (REPORT_JOBS as readonly string[]).includes(job);
+}
+
+/**
+ * Local date (YYYY-MM-DD) and minutes after midnight of an instant in a timezone
+ */
+export function zonedNow(timezone: string, now: Date = new Date()): { date: string; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+  } catch {
+    // Unknown timezone names fall back to UTC
+    return zonedNow('UTC', now);
+  }
+  const part = (type: string) => parts.find(item => item.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+function addDays(localDate: string, days: number): string {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The report jobs work on server-local dates; noon of the organization's
+ * local day falls on that same calendar day whatever the server timezone.
+ */
+function jobDate(localDate: string): Date {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(year, month - 1, day, 12, 0, 0);
+}
+
+async function getScheduleContext(orgId: number) {
+  const [settings, schedules] = await Promise.all([
+    getOrganizationSettings(orgId),
+    getModuleSettings<{ paused: Partial<Record<ReportJob, boolean>> }>(orgId, 'reportSchedules', { paused: {} })
+  ]);
+  return {
+    timezone: settings?.defaultTimezone || 'UTC',
+    workingHours: (settings?.workingHours ?? {}) as WorkingHours,
+    paused: schedules.paused ?? {}
+  };
+}
+
+async function getLastRun(orgId: number, job: ReportJob, trigger?: 'schedule' | 'manual'): Promise<ReportJobRun | null> {
+  const [run] = await db
+    .select()
+    .from(reportJobRuns)
+    .where(and(
+      eq(reportJobRuns.orgId, orgId),
+      eq(reportJobRuns.job, job),
+      trigger ? eq(reportJobRuns.trigger, trigger) : undefined
+    ))
+    .orderBy(desc(reportJobRuns.startedAt))
+    .limit(1);
+  return run ?? null;
+}
+
+/**
+ * Next time the job will run, looking up to five weeks ahead
+ */
+function nextRun(
+  job: ReportJob,
+  context: { timezone: string; workingHours: WorkingHours },
+  lastScheduledRunDate: string | null,
+  now: Date
+): { date: string; time: string } | null {
+  const local = zonedNow(context.timezone, now);
+  for (let offset = 0; offset <= 35; offset++) {
+    const date = addDays(local.date, offset);
+    const runsAt = JOBS[job].runsAt(date, context.workingHours);
+    if (runsAt === null) continue;
+    // Today's run is still to come unless it has already happened
+    if (offset === 0 && lastScheduledRunDate === date) continue;
+    return { date, time: formatMinutes(Math.max(runsAt, offset === 0 ? local.minutes : runsAt)) };
+  }
+  return null;
+}
+
+export async function listReportSchedules(orgId: number, now: Date = new Date()): Promise<ReportScheduleStatus[]> {
+  const context = await getScheduleContext(orgId);
+  return Promise.all(REPORT_JOBS.map(async (job) => {
+    const [lastRun, lastScheduledRun] = await Promise.all([
+      getLastRun(orgId, job),
+      getLastRun(orgId, job, 'schedule')
+    ]);
+    const paused = context.paused[job] === true;
+    return {
+      job,
+      label: JOBS[job].label,
+      timezone: context.timezone,
+      paused,
+      nextRun: paused ? null : nextRun(job, context, lastScheduledRun?.runDate ?? null, now),
+      lastRun
+    };
+  }));
+}
+
+export async function setReportSchedulePaused(orgId: number, job: ReportJob, paused: boolean): Promise<void> {
+  const context = await getScheduleContext(orgId);
+  await updateModuleSettings(orgId, 'reportSchedules', { paused: { ...context.paused, [job]: paused } });
+}
+
+/**
+ * Run a job for an organization and record the outcome
+ */
+export async function runReportJob(
+  orgId: number,
+  job: ReportJob,
+  trigger: 'schedule' | 'manual',
+  options: { userId?: number; localDate?: string } = {}
+): Promise<ReportJobRun> {
+  // A run left "running" for over an hour was interrupted and no longer blocks the job
+  const running = await getLastRun(orgId, job);
+  if (trigger === 'manual' && running?.status === 'running' && Date.now() - running.startedAt.getTime() < STALE_RUN_MS) {
+    throw new ReportScheduleError('This job is already running', 409);
+  }
+
+  const localDate = options.localDate ?? zonedNow((await getScheduleContext(orgId)).timezone).date;
+  const [run] = await db
+    .insert(reportJobRuns)
+    .values({ orgId, job, trigger, runDate: localDate, status: 'running', triggeredBy: options.userId ?? null })
+    .returning();
+
+  let status = 'success';
+  let message: string;
+  try {
+    message = await JOBS[job].run(orgId, jobDate(localDate));
+  } catch (error) {
+    status = 'failed';
+    message = error instanceof Error ? error.message : String(error);
+    logger.error(`Report job ${job} failed for organization ${orgId}:`, error);
+  }
+
+  const [finished] = await db
+    .update(reportJobRuns)
+    .set({ status, message, finishedAt: new Date() })
+    .where(eq(reportJobRuns.id, run.id))
+    .returning();
+  return finished;
+}
+
+/**
+ * Run every job that is due in its organization's local time and has not
+ * run on schedule yet today. Called by the scheduler every few minutes.
+ */
+export async function runDueReportJobs(now: Date = new Date()): Promise<ReportJobRun[]> {
+  const orgs = await db.select({ id: organizations.id }).from(organizations).where(eq(organizations.active, true));
+  const runs: ReportJobRun[] = [];
+
+  for (const org of orgs) {
+    try {
+      const context = await getScheduleContext(org.id);
+      const local = zonedNow(context.timezone, now);
+      for (const job of REPORT_JOBS) {
+        if (context.paused[job]) continue;
+        const runsAt = JOBS[job].runsAt(local.date, context.workingHours);
+        if (runsAt === null || local.minutes < runsAt) continue;
+
+        const lastScheduledRun = await getLastRun(org.id, job, 'schedule');
+        if (lastScheduledRun?.runDate === local.date) continue;
+
+        runs.push(await runReportJob(org.id, job, 'schedule', { localDate: local.date }));
+      }
+    } catch (error) {
+      logger.error(`Could not run report jobs for organization ${org.id}:`, error);
+    }
+  }
+
+  return runs;
+}
+
+export default {
+  REPORT_JOBS,
+  listReportSchedules,
+  setReportSchedulePaused,
+  runReportJob,
+  runDueReportJobs
+};
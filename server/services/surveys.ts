@@ -0,0 +1,393 @@
+/**
+ * Surveys
+ *
+ * A survey goes to a lead or an account as a public link carrying an
+ * unguessable token; no login is needed to answer it. Sending emails the
+ * link to the lead's (else the account's) address and starts a 30 day
+ * window. The response (a 0-10 score and a comment) completes the survey
+ * and is copied to customer_feedback, so the lead's feedback history has
+ * it too. The NPS report groups completed NPS surveys into promoters (9-10),
+ * passives (7-8) and detractors (0-6), by month and by the rep the lead or
+ * account is assigned to.
+ */
+
+import crypto from 'crypto';
+import { and, desc, eq, gte, inArray, lte } from 'drizzle-orm';
+import { env } from '../config/env';
+import { db } from '../db';
+import { logger } from '../logger';
+import { ErrorCategory } from '../middleware/error-handler';
+import { sendEmail } from '../email';
+import { accounts, customerFeedback, leads, surveys, users, type Survey } from '@shared/schema';
+
+export const SURVEY_TYPES = ['nps', 'satisfaction', 'feedback', 'custom'] as const;
+
+export type SurveyType = typeof SURVEY_TYPES[number];
+
+const RESPONSE_WINDOW_DAYS = 30;
+
+const SURVEY_QUESTIONS: Record<SurveyType, string> = {
+  nps: 'How likely are you to recommend us to a friend or colleague?',
+  satisfaction: 'How satisfied are you with our services?',
+  feedback: 'How would you rate working with us?',
+  custom: 'How would you rate our services?'
+};
+
+export interface SurveyInput {
+  title: string;
+  type: SurveyType;
+  leadId?: number | null;
+  accountId?: number | null;
+}
+
+export interface NpsBucket {
+  responses: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  averageScore: number | null;
+  nps: number | null;
+}
+
+export interface NpsReport extends NpsBucket {
+  from: string | null;
+  to: string | null;
+  byMonth: Array<NpsBucket & { month: string }>;
+  byRep: Array<NpsBucket & { userId: number | null; name: string }>;
+}
+
+export class SurveyError extends Error {
+  statusCode: number;
+  category = ErrorCategory.BUSINESS_LOGIC;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'SurveyError';
+    this.statusCode = statusCode;
+  }
+}
+
+function generateToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Recipient of a survey: the lead's contact, else the account
+ */
+async function resolveRecipient(orgId: number, input: Pick<SurveyInput, 'leadId' | 'accountId'>) {
+  if (!input.leadId && !input.accountId) {
+    throw new SurveyError('A survey needs a lead or an account');
+  }
+
+  let lead: { id: number; companyName: string; contactName: string; email: string | null } | null = null;
+  if (input.leadId) {
+    const [row] = await db
+      .select({ id: leads.id, orgId: leads.orgId, companyName: leads.companyName, contactName: leads.contactName, email: leads.email })
+      .from(leads)
+      .where(eq(leads.id, input.leadId));
+    if (!row || row.orgId !== orgId) {
+      throw new SurveyError('Lead not found', 404);
+    }
+    lead = row;
+  }
+
+  let account: { id: number; name: string; email: string | null } | null = null;
+  if (input.accountId) {
+    const [row] = await db
+      .select({ id: accounts.id, orgId: accounts.orgId, name: accounts.name, email: accounts.email })
+      .from(accounts)
+      .where(eq(accounts.id, input.accountId));
+    if (!row || row.orgId !== orgId) {
+      throw new SurveyError('Account not found', 404);
+    }
+    account = row;
+  }
+
+  return {
+    lead,
+    account,
+    name: lead?.contactName ?? account!.name,
+    companyName: lead?.companyName ?? account!.name,
+    email: lead?.email || account?.email || null
+  };
+}
+
+async function findSurvey(surveyId: number, orgId: number): Promise<Survey> {
+  const [survey] = await db.select().from(surveys).where(eq(surveys.id, surveyId));
+  if (!survey || survey.orgId !== orgId) {
+    throw new SurveyError('Survey not found', 404);
+  }
+  return survey;
+}
+
+export async function listSurveys(orgId: number) {
+  const rows = await db
+    .select({ survey: surveys, leadName: leads.contactName, accountName: accounts.name })
+    .from(surveys)
+    .leftJoin(leads, eq(leads.id, surveys.leadId))
+    .leftJoin(accounts, eq(accounts.id, surveys.accountId))
+    .where(eq(surveys.orgId, orgId))
+    .orderBy(desc(surveys.createdAt));
+  return rows.map(row => ({ ...row.survey, leadName: row.leadName, accountName: row.accountName }));
+}
+
+export async function getSurvey(surveyId: number, orgId: number): Promise<Survey> {
+  return findSurvey(surveyId, orgId);
+}
+
+export async function createSurvey(orgId: number, userId: number, input: SurveyInput): Promise<Survey> {
+  const recipient = await resolveRecipient(orgId, input);
+  const [survey] = await db
+    .insert(surveys)
+    .values({
+      orgId,
+      leadId: recipient.lead?.id ?? null,
+      accountId: recipient.account?.id ?? null,
+      title: input.title,
+      type: input.type,
+      token: generateToken(),
+      recipientEmail: recipient.email,
+      status: 'pending',
+      createdBy: userId
+    })
+    .returning();
+  return survey;
+}
+
+/**
+ * Change a survey that has not been sent yet
+ */
+export async function updateSurvey(surveyId: number, orgId: number, input: Partial<SurveyInput>): Promise<Survey> {
+  const survey = await findSurvey(surveyId, orgId);
+  if (survey.status !== 'pending') {
+    throw new SurveyError('Only surveys that have not been sent can be edited', 409);
+  }
+
+  const values: Partial<typeof surveys.$inferInsert> = {};
+  if (input.title !== undefined) values.title = input.title;
+  if (input.type !== undefined) values.type = input.type;
+  if (input.leadId !== undefined || input.accountId !== undefined) {
+    const recipient = await resolveRecipient(orgId, {
+      leadId: input.leadId !== undefined ? input.leadId : survey.leadId,
+      accountId: input.accountId !== undefined ? input.accountId : survey.accountId
+    });
+    values.leadId = recipient.lead?.id ?? null;
+    values.accountId = recipient.account?.id ?? null;
+    values.recipientEmail = recipient.email;
+  }
+
+  const [updated] = await db.update(surveys).set(values).where(eq(surveys.id, surveyId)).returning();
+  return updated;
+}
+
+function buildSurveyEmail(name: string, title: string, question: string, url: string) {
+  const text = `Hello ${name},
+
+${question}
+
+It takes less than a minute: ${url}
+
+The link is valid for ${RESPONSE_WINDOW_DAYS} days. Thank you for your feedback!`;
+
+  const html = `
+    <p>Hello ${name},</p>
+    <p>${question}</p>
+    <p>
+      <a href="${url}" style="display:inline-block;padding:10px 20px;background:#025E73;color:#ffffff;text-decoration:none;border-radius:4px;">
+        Answer the survey
+      </a>
+    </p>
+    <p style="color:#666666;font-size:12px;">It takes less than a minute. The link is valid for ${RESPONSE_WINDOW_DAYS} days.</p>
+    <p>Thank you for your feedback!</p>`;
+
+  return { subject: title, text, html };
+}
+
+/**
+ * Email the survey link; sending again resends the link with a fresh window
+ */
+export async function sendSurvey(surveyId: number, orgId: number): Promise<Survey> {
+  const survey = await findSurvey(surveyId, orgId);
+  if (survey.status === 'completed') {
+    throw new SurveyError('This survey has already been answered', 409);
+  }
+
+  const recipient = await resolveRecipient(orgId, survey);
+  if (!recipient.email) {
+    throw new SurveyError(`${recipient.companyName} has no email address to send the survey to`);
+  }
+
+  const url = env.publicUrl(`/surveys/${survey.token}`);
+  const email = buildSurveyEmail(recipient.name, survey.title, SURVEY_QUESTIONS[survey.type as SurveyType] ?? SURVEY_QUESTIONS.custom, url);
+  const sent = await sendEmail(recipient.email, email.subject, email.text, email.html);
+  if (!sent) {
+    throw new SurveyError('The survey email could not be sent', 502);
+  }
+
+  const now = new Date();
+  const [updated] = await db
+    .update(surveys)
+    .set({
+      status: 'sent',
+      recipientEmail: recipient.email,
+      sentAt: now,
+      expiresAt: new Date(now.getTime() + RESPONSE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    })
+    .where(eq(surveys.id, surveyId))
+    .returning();
+
+  logger.info(`Survey ${surveyId} sent to ${recipient.email}`);
+  return updated;
+}
+
+async function findByToken(token: string): Promise<Survey> {
+  const [survey] = await db.select().from(surveys).where(eq(surveys.token, token));
+  // Surveys from before public links have no organization or author to file the response under
+  if (!survey || survey.status === 'pending' || !survey.orgId || !survey.createdBy) {
+    throw new SurveyError('Survey not found', 404);
+  }
+  if (survey.status === 'sent' && survey.expiresAt && survey.expiresAt < new Date()) {
+    await db.update(surveys).set({ status: 'expired' }).where(eq(surveys.id, survey.id));
+    return { ...survey, status: 'expired' };
+  }
+  return survey;
+}
+
+/**
+ * What the public response page shows; nothing beyond the company name is exposed
+ */
+export async function getPublicSurvey(token: string) {
+  const survey = await findByToken(token);
+  const recipient = await resolveRecipient(survey.orgId!, survey);
+  return {
+    title: survey.title,
+    type: survey.type,
+    question: SURVEY_QUESTIONS[survey.type as SurveyType] ?? SURVEY_QUESTIONS.custom,
+    companyName: recipient.companyName,
+    status: survey.status,
+    score: survey.status === 'completed' ? survey.score : null
+  };
+}
+
+// customer_feedback keeps a 1-5 rating next to the 0-10 score
+function ratingFromScore(score: number): number {
+  return Math.max(1, Math.ceil(score / 2));
+}
+
+export async function respondToSurvey(token: string, response: { score: number; comment?: string | null }): Promise<void> {
+  const survey = await findByToken(token);
+  if (survey.status === 'completed') {
+    throw new SurveyError('This survey has already been answered', 409);
+  }
+  if (survey.status === 'expired') {
+    throw new SurveyError('This survey link has expired', 410);
+  }
+
+  const now = new Date();
+  const comment = response.comment?.trim() || null;
+  await db.transaction(async (tx) => {
+    const [completed] = await tx
+      .update(surveys)
+      .set({ score: response.score, comment, status: 'completed', completedAt: now })
+      .where(and(eq(surveys.id, survey.id), eq(surveys.status, 'sent')))
+      .returning();
+    if (!completed) {
+      throw new SurveyError('This survey has already been answered', 409);
+    }
+
+    await tx.insert(customerFeedback).values({
+      leadId: survey.leadId,
+      accountId: survey.accountId,
+      surveyId: survey.id,
+      rating: ratingFromScore(response.score),
+      npsScore: response.score,
+      feedback: comment,
+      surveyDate: survey.sentAt ?? survey.createdAt,
+      respondedAt: now,
+      createdBy: survey.createdBy!
+    });
+  });
+
+  logger.info(`Survey ${survey.id} answered with score ${response.score}`);
+}
+
+function bucket(scores: number[]): NpsBucket {
+  const promoters = scores.filter(score => score >= 9).length;
+  const detractors = scores.filter(score => score <= 6).length;
+  const responses = scores.length;
+  return {
+    responses,
+    promoters,
+    passives: responses - promoters - detractors,
+    detractors,
+    averageScore: responses > 0 ? Math.round((scores.reduce((sum, score) => sum + score, 0) / responses) * 10) / 10 : null,
+    nps: responses > 0 ? Math.round(((promoters - detractors) / responses) * 100) : null
+  };
+}
+
+/**
+ * NPS of the completed NPS surveys answered between from and to (YYYY-MM-DD, inclusive)
+ */
+export async function getNpsReport(orgId: number, range: { from?: string; to?: string } = {}): Promise<NpsReport> {
+  const rows = await db
+    .select({
+      score: surveys.score,
+      completedAt: surveys.completedAt,
+      leadRep: leads.assignedTo,
+      accountRep: accounts.assignedTo
+    })
+    .from(surveys)
+    .leftJoin(leads, eq(leads.id, surveys.leadId))
+    .leftJoin(accounts, eq(accounts.id, surveys.accountId))
+    .where(and(
+      eq(surveys.orgId, orgId),
+      eq(surveys.type, 'nps'),
+      eq(surveys.status, 'completed'),
+      range.from ? gte(surveys.completedAt, new Date(`${range.from}T00:00:00`)) : undefined,
+      range.to ? lte(surveys.completedAt, new Date(`${range.to}T23:59:59.999`)) : undefined
+    ));
+
+  const responses = rows
+    .filter(row => row.score !== null && row.completedAt !== null)
+    .map(row => ({
+      score: row.score!,
+      month: row.completedAt!.toISOString().slice(0, 7),
+      repId: row.leadRep ?? row.accountRep ?? null
+    }));
+
+  const byMonth = new Map<string, number[]>();
+  const byRep = new Map<number | null, number[]>();
+  for (const response of responses) {
+    byMonth.set(response.month, [...(byMonth.get(response.month) ?? []), response.score]);
+    byRep.set(response.repId, [...(byRep.get(response.repId) ?? []), response.score]);
+  }
+
+  const repIds = Array.from(byRep.keys()).filter((id): id is number => id !== null);
+  const reps = repIds.length > 0
+    ? await db.select({ id: users.id, firstName: users.firstName, lastName: users.lastName }).from(users).where(inArray(users.id, repIds))
+    : [];
+  const repNames = new Map(reps.map(rep => [rep.id, `${rep.firstName} ${rep.lastName}`]));
+
+  return {
+    from: range.from ?? null,
+    to: range.to ?? null,
+    ...bucket(responses.map(response => response.score)),
+    byMonth: Array.from(byMonth.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, scores]) => ({ month, ...bucket(scores) })),
+    byRep: Array.from(byRep.entries())
+      .map(([userId, scores]) => ({ userId, name: userId === null ? 'Unassigned' : repNames.get(userId) ?? `User #${userId}`, ...bucket(scores) }))
+      .sort((a, b) => b.responses - a.responses)
+  };
+}
+
+export default {
+  listSurveys,
+  getSurvey,
+  createSurvey,
+  updateSurvey,
+  sendSurvey,
+  getPublicSurvey,
+  respondToSurvey,
+  getNpsReport
+};
@@ -61,6 +61,7 @@ import {
   getTeamMembers, getUserTeam, addTeamMember, removeTeamMember, removeAllTeamMembers,
   getAvailableUsers
 } from './teamStorage';
+import { refreshDispatchReport } from './services/dispatch-daily-reports';
 
 // Interface for storage operations
 export interface IStorage {
@@ -6018,227 +6019,22 @@ export class DatabaseStorage implements IStorage {
   }
   
   /**
-   * Generates a daily dispatch report for the specified dispatcher
-   * Aggregates data from loads, invoices, and leads tables
+   * Generates (or recomputes) the daily dispatch report for the specified dispatcher
+   * from the loads and invoices attributed to them
    */
   async generateDailyDispatchReport(dispatcherId: number, date: Date = new Date()): Promise<DispatchReport> {
-    try {
-      // Get existing report for today if it exists
-      const existingReport = await this.getDispatchReportByDispatcherAndDate(dispatcherId, date);
-      if (existingReport) {
-        return await this.updateDailyDispatchReport(existingReport.id, date);
-      }
-      
-      // Get dispatcher info
-      const dispatcher = await this.getUser(dispatcherId);
-      if (!dispatcher) {
-        throw new Error(`Dispatcher with ID ${dispatcherId} not found`);
-      }
-      
-      // Format date for database queries
-      const startDate = new Date(date);
-      startDate.setHours(0, 0, 0, 0);
-      
-      const endDate = new Date(date);
-      endDate.setHours(23, 59, 59, 999);
-      
-      // Get all loads booked by this dispatcher today
-      const todayLoads = await db.select()
-        .from(loads)
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          gte(loads.createdAt, startDate),
-          lte(loads.createdAt, endDate)
-        ));
-      
-      // Get all invoices generated by this dispatcher today
-      const todayInvoices = await db.select({
-        invoice: invoices,
-        load: loads,
-      })
-        .from(invoices)
-        .innerJoin(loads, eq(invoices.leadId, loads.leadId))
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          gte(invoices.createdAt, startDate),
-          lte(invoices.createdAt, endDate)
-        ));
-      
-      // Get all active leads assigned to this dispatcher
-      const activeLeads = await db.select()
-        .from(leads)
-        .where(and(
-          eq(leads.assignedTo, dispatcherId),
-          eq(leads.status, 'Active')
-        ));
-      
-      // Get all pending invoices for this dispatcher
-      const pendingInvoices = await db.select({
-        invoice: invoices,
-        load: loads,
-      })
-        .from(invoices)
-        .innerJoin(loads, eq(invoices.leadId, loads.leadId))
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          eq(invoices.status, 'pending')
-        ));
-      
-      // Calculate metrics
-      const loadsBooked = todayLoads.length;
-      const invoiceUsd = todayInvoices.reduce((sum, item) => sum + Number(item.invoice.totalAmount), 0);
-      const activeLeadsCount = activeLeads.length;
-      const pendingInvoiceUsd = pendingInvoices.reduce((sum, item) => sum + Number(item.invoice.totalAmount), 0);
-      
-      // Get highest invoice amount (if any invoices exist)
-      let highestInvoiceUsd = 0;
-      if (todayInvoices.length > 0) {
-        highestInvoiceUsd = Math.max(...todayInvoices.map(item => Number(item.invoice.totalAmount)));
-      }
-      
-      // Get invoices marked as paid today
-      const paidInvoices = await db.select()
-        .from(invoices)
-        .innerJoin(loads, eq(invoices.leadId, loads.leadId))
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          eq(invoices.status, 'paid'),
-          gte(invoices.paidDate, startDate),
-          lte(invoices.paidDate, endDate)
-        ));
-      
-      const paidInvoiceUsd = paidInvoices.reduce((sum, item) => sum + Number(item.totalAmount), 0);
-      
-      // Create a new report
-      const reportData: InsertDispatchReport = {
-        dispatcherId,
-        orgId: dispatcher.orgId || 1,
-        date,
-        loadsBooked,
-        invoiceUsd,
-        activeLeads: activeLeadsCount,
-        pendingInvoiceUsd,
-        highestInvoiceUsd,
-        paidInvoiceUsd,
-        status: 'Pending',
-      };
-      
-      const [newReport] = await db.insert(dispatchReports).values(reportData).returning();
-      return newReport;
-    } catch (error) {
-      console.error('Error generating daily dispatch report:', error);
-      throw error;
-    }
+    return refreshDispatchReport(dispatcherId, date);
   }
   
   /**
    * Updates an existing daily dispatch report with current data
    */
   async updateDailyDispatchReport(reportId: number, date: Date = new Date()): Promise<DispatchReport> {
-    try {
-      const report = await this.getDispatchReport(reportId);
-      if (!report) {
-        throw new Error(`Report with ID ${reportId} not found`);
-      }
-      
-      // Re-calculate all metrics for the report
-      const dispatcherId = report.dispatcherId;
-      
-      // Format date for database queries
-      const startDate = new Date(date);
-      startDate.setHours(0, 0, 0, 0);
-      
-      const endDate = new Date(date);
-      endDate.setHours(23, 59, 59, 999);
-      
-      // Get all loads booked by this dispatcher today
-      const todayLoads = await db.select()
-        .from(loads)
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          gte(loads.createdAt, startDate),
-          lte(loads.createdAt, endDate)
-        ));
-      
-      // Get all invoices generated by this dispatcher today
-      const todayInvoices = await db.select({
-        invoice: invoices,
-        load: loads,
-      })
-        .from(invoices)
-        .innerJoin(loads, eq(invoices.leadId, loads.leadId))
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          gte(invoices.createdAt, startDate),
-          lte(invoices.createdAt, endDate)
-        ));
-      
-      // Get all active leads assigned to this dispatcher
-      const activeLeads = await db.select()
-        .from(leads)
-        .where(and(
-          eq(leads.assignedTo, dispatcherId),
-          eq(leads.status, 'Active')
-        ));
-      
-      // Get all pending invoices for this dispatcher
-      const pendingInvoices = await db.select({
-        invoice: invoices,
-        load: loads,
-      })
-        .from(invoices)
-        .innerJoin(loads, eq(invoices.leadId, loads.leadId))
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          eq(invoices.status, 'pending')
-        ));
-      
-      // Calculate metrics
-      const loadsBooked = todayLoads.length;
-      const invoiceUsd = todayInvoices.reduce((sum, item) => sum + Number(item.invoice.totalAmount), 0);
-      const activeLeadsCount = activeLeads.length;
-      const pendingInvoiceUsd = pendingInvoices.reduce((sum, item) => sum + Number(item.invoice.totalAmount), 0);
-      
-      // Get highest invoice amount (if any invoices exist)
-      let highestInvoiceUsd = 0;
-      if (todayInvoices.length > 0) {
-        highestInvoiceUsd = Math.max(...todayInvoices.map(item => Number(item.invoice.totalAmount)));
-      }
-      
-      // Get invoices marked as paid today
-      const paidInvoices = await db.select()
-        .from(invoices)
-        .innerJoin(loads, eq(invoices.leadId, loads.leadId))
-        .where(and(
-          eq(loads.assignedTo, dispatcherId),
-          eq(invoices.status, 'paid'),
-          gte(invoices.paidDate, startDate),
-          lte(invoices.paidDate, endDate)
-        ));
-      
-      const paidInvoiceUsd = paidInvoices.reduce((sum, item) => sum + Number(item.totalAmount), 0);
-      
-      // Update the report
-      const updatedData = {
-        loadsBooked,
-        invoiceUsd,
-        activeLeads: activeLeadsCount,
-        pendingInvoiceUsd,
-        highestInvoiceUsd,
-        paidInvoiceUsd,
-      };
-      
-      const [updatedReport] = await db
-        .update(dispatchReports)
-        .set(updatedData)
-        .where(eq(dispatchReports.id, reportId))
-        .returning();
-      
-      return updatedReport;
-    } catch (error) {
-      console.error('Error updating daily dispatch report:', error);
-      throw error;
+    const report = await this.getDispatchReport(reportId);
+    if (!report) {
+      throw new Error(`Report with ID ${reportId} not found`);
     }
+    return refreshDispatchReport(report.dispatcherId, date);
   }
 
   async updateDispatchReport(id: number, report: Partial<DispatchReport>): Promise<DispatchReport | undefined> {
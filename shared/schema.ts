@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp, real, jsonb, pgEnum, index, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, real, jsonb, pgEnum, index, uniqueIndex, varchar } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -613,6 +614,11 @@ export const leads = pgTable("leads", {
   // Follow-up scheduling
   followUpDate: timestamp("follow_up_date"),
   
+  // Invoice dunning - automatic overdue reminders stop while paused
+  dunningPaused: boolean("dunning_paused").notNull().default(false),
+  dunningPausedAt: timestamp("dunning_paused_at"),
+  dunningPausedBy: integer("dunning_paused_by").references(() => users.id),
+  
   // Standard fields
   assignedTo: integer("assigned_to").notNull(),
   orgId: integer("org_id").references(() => organizations.id),
@@ -691,7 +697,9 @@ export const formTemplates = pgTable("form_templates", {
   name: text("name").notNull(),
   description: text("description"),
   category: text("category").notNull(), // "onboarding", "credit", "service", "rate_agreement", etc.
-  content: text("content").notNull(), // JSON or HTML form content
+  content: text("content"), // Legacy HTML content of templates from before field schemas
+  fields: jsonb("fields").notNull().default([]), // Field definitions of the current version
+  version: integer("version").notNull().default(1),
   orgId: integer("org_id").references(() => organizations.id),
   createdBy: integer("created_by").notNull().references(() => users.id),
   isActive: boolean("is_active").notNull().default(true),
@@ -705,11 +713,29 @@ export const formTemplates = pgTable("form_templates", {
   };
 });
 
+// Field schema of every version of a form template; submissions are validated
+// against the version they were sent with
+export const formTemplateVersions = pgTable("form_template_versions", {
+  id: serial("id").primaryKey(),
+  formTemplateId: integer("form_template_id").notNull().references(() => formTemplates.id),
+  version: integer("version").notNull(),
+  fields: jsonb("fields").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    templateVersionIdx: uniqueIndex("form_template_versions_template_version_idx").on(table.formTemplateId, table.version),
+  };
+});
+
 // Form submissions tracking
 export const formSubmissions = pgTable("form_submissions", {
   id: serial("id").primaryKey(),
   formTemplateId: integer("form_template_id").notNull().references(() => formTemplates.id),
+  templateVersion: integer("template_version").notNull().default(1),
+  orgId: integer("org_id").references(() => organizations.id),
   leadId: integer("lead_id").notNull().references(() => leads.id),
+  token: text("token"), // Public fill-out link
   sentBy: integer("sent_by").notNull().references(() => users.id),
   deliveryMethod: text("delivery_method").notNull(), // "email", "text", "portal", etc.
   status: formStatusEnum("status").notNull().default("Sent"),
@@ -724,6 +750,7 @@ export const formSubmissions = pgTable("form_submissions", {
 }, (table) => {
   return {
     templateIdIdx: index("form_submissions_template_id_idx").on(table.formTemplateId),
+    tokenIdx: uniqueIndex("form_submissions_token_idx").on(table.token),
     leadIdIdx: index("form_submissions_lead_id_idx").on(table.leadId),
     statusIdx: index("form_submissions_status_idx").on(table.status),
     sentAtIdx: index("form_submissions_sent_at_idx").on(table.sentAt),
@@ -757,8 +784,11 @@ export const leadFollowUps = pgTable("lead_follow_ups", {
 // Customer feedback system for tracking satisfaction
 export const customerFeedback = pgTable("customer_feedback", {
   id: serial("id").primaryKey(),
-  leadId: integer("lead_id").notNull().references(() => leads.id),
+  leadId: integer("lead_id").references(() => leads.id),
+  accountId: integer("account_id").references(() => accounts.id),
+  surveyId: integer("survey_id").references(() => surveys.id), // Set when the feedback came from a survey link
   rating: integer("rating").notNull(), // 1-5 scale
+  npsScore: integer("nps_score"), // 0-10, for survey responses
   feedback: text("feedback"),
   surveyDate: timestamp("survey_date").notNull().defaultNow(),
   respondedAt: timestamp("responded_at"),
@@ -772,21 +802,29 @@ export const customerFeedback = pgTable("customer_feedback", {
   };
 });
 
-// Surveys (CRM Deep-Carve)
+// Surveys (CRM Deep-Carve) - sent to a lead or an account as a tokenized public link
 export const surveys = pgTable("surveys", {
   id: serial("id").primaryKey(),
-  leadId: integer("lead_id").notNull().references(() => leads.id),
+  orgId: integer("org_id").references(() => organizations.id),
+  leadId: integer("lead_id").references(() => leads.id),
+  accountId: integer("account_id").references(() => accounts.id),
+  title: text("title").notNull().default("Customer Satisfaction Survey"),
+  type: text("type").notNull().default("nps"), // nps, satisfaction, feedback, custom
   token: text("token").notNull(), // Unique token for secure public access
-  score: integer("score"), // 1-5 NPS score
+  recipientEmail: text("recipient_email"),
+  score: integer("score"), // 0-10 NPS score
   comment: text("comment"),
-  status: text("status").notNull().default("pending"), // pending, sent, completed
+  status: text("status").notNull().default("pending"), // pending, sent, completed, expired
   sentAt: timestamp("sent_at"),
+  expiresAt: timestamp("expires_at"),
   completedAt: timestamp("completed_at"),
+  createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => {
   return {
+    orgIdIdx: index("surveys_org_id_idx").on(table.orgId),
     leadIdIdx: index("surveys_lead_id_idx").on(table.leadId),
-    tokenIdx: index("surveys_token_idx").on(table.token),
+    tokenIdx: uniqueIndex("surveys_token_idx").on(table.token),
     statusIdx: index("surveys_status_idx").on(table.status),
   };
 });
@@ -818,6 +856,54 @@ export const leadHandoffs = pgTable("lead_handoffs", {
   };
 });
 
+// MQL webhook endpoints: one per form provider of an organization. Deliveries
+// are signed with the endpoint's secret and mapped onto lead fields.
+export const mqlWebhookEndpoints = pgTable("mql_webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  provider: text("provider").notNull().default("generic"), // Label of the form provider, e.g. "website", "typeform"
+  token: text("token").notNull(), // Path segment of the public URL
+  secret: text("secret").notNull(), // HMAC signing secret
+  fieldMappings: jsonb("field_mappings").notNull(), // Lead field -> dot path in the payload
+  assignmentStrategy: text("assignment_strategy").notNull().default("round_robin"), // "round_robin", "lowest_load"
+  lastAssignedUserId: integer("last_assigned_user_id").references(() => users.id),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    orgIdIdx: index("mql_webhook_endpoints_org_id_idx").on(table.orgId),
+    tokenIdx: uniqueIndex("mql_webhook_endpoints_token_idx").on(table.token),
+  };
+});
+
+// Every request received by an MQL webhook endpoint, for troubleshooting
+export const mqlWebhookDeliveries = pgTable("mql_webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull().references(() => mqlWebhookEndpoints.id),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  status: text("status").notNull(), // "received", "created", "duplicate", "rejected", "failed"
+  httpStatus: integer("http_status").notNull(),
+  signature: text("signature"),
+  signedAt: timestamp("signed_at"),
+  error: text("error"),
+  payload: jsonb("payload"),
+  leadId: integer("lead_id").references(() => leads.id),
+  assignedTo: integer("assigned_to").references(() => users.id),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    endpointReceivedIdx: index("mql_webhook_deliveries_endpoint_received_idx").on(table.endpointId, table.receivedAt),
+    // A signature is accepted once; rejected and failed attempts do not
+    // claim it, so the provider can retry a delivery that failed
+    signatureIdx: uniqueIndex("mql_webhook_deliveries_signature_claim_idx")
+      .on(table.endpointId, table.signature)
+      .where(sql`${table.status} NOT IN ('rejected', 'failed')`),
+  };
+});
+
 // Dispatch Management
 export const dispatch_clients = pgTable("dispatch_clients", {
   id: serial("id").primaryKey(),
@@ -831,6 +917,31 @@ export const dispatch_clients = pgTable("dispatch_clients", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Carrier compliance paperwork of a dispatch client; MC/DOT come from its lead
+export const carrierComplianceProfiles = pgTable("carrier_compliance_profiles", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull(),
+  dispatchClientId: integer("dispatch_client_id").notNull().references(() => dispatch_clients.id).unique(),
+  dispatcherId: integer("dispatcher_id").references(() => users.id), // Receives expiry warnings
+  insuranceProvider: text("insurance_provider"),
+  insurancePolicyNumber: text("insurance_policy_number"),
+  insuranceCertificateUrl: text("insurance_certificate_url"),
+  insuranceExpiresOn: date("insurance_expires_on"),
+  w9Url: text("w9_url"),
+  w9ReceivedOn: date("w9_received_on"),
+  factoringCompany: text("factoring_company"),
+  noaUrl: text("noa_url"), // Factoring Notice of Assignment
+  noaExpiresOn: date("noa_expires_on"),
+  equipment: jsonb("equipment").default([]), // [{ equipmentType, trucks, trailers }]
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    insuranceExpiresIdx: index("carrier_compliance_insurance_expires_idx").on(table.insuranceExpiresOn),
+  };
+});
+
 export const loads = pgTable("loads", {
   id: serial("id").primaryKey(),
   leadId: integer("lead_id").notNull(),
@@ -839,7 +950,7 @@ export const loads = pgTable("loads", {
   destination: text("destination").notNull(),
   pickupDate: date("pickup_date").notNull(),
   deliveryDate: date("delivery_date").notNull(),
-  status: text("status").notNull(), // "booked", "in_transit", "delivered", "invoiced", "paid"
+  status: text("status").notNull(), // "booked", "in_transit", "delivered", "invoiced", "paid", "cancelled" - see services/load-lifecycle
   freightAmount: real("freight_amount").notNull(),
   serviceCharge: real("service_charge").notNull(),
   rateConfirmationUrl: text("rate_confirmation_url"),
@@ -852,23 +963,115 @@ export const loads = pgTable("loads", {
   createdBy: integer("created_by").notNull(),
 });
 
+// Load Status History - every load lifecycle transition with its actor
+export const loadStatusHistory = pgTable("load_status_history", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id),
+  loadId: integer("load_id").notNull().references(() => loads.id),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  action: text("action").notNull(), // "dispatch", "deliver", "cancel", "invoice", "void_invoice", "pay"
+  note: text("note"),
+  changedBy: integer("changed_by").notNull().references(() => users.id),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    loadIdIdx: index("load_status_history_load_id_idx").on(table.loadId),
+  };
+});
+
+// Load Stops - pickup and delivery appointments of a load, in route order.
+// loads.origin/destination/pickupDate/deliveryDate summarize the first pickup and final delivery.
+export const loadStops = pgTable("load_stops", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id),
+  loadId: integer("load_id").notNull().references(() => loads.id),
+  sequence: integer("sequence").notNull(),
+  stopType: text("stop_type").notNull(), // "pickup", "delivery"
+  location: text("location").notNull(), // Stop address
+  appointmentStart: timestamp("appointment_start").notNull(),
+  appointmentEnd: timestamp("appointment_end"), // Null for a fixed appointment time
+  eta: timestamp("eta"), // Latest ETA reported through check calls
+  arrivedAt: timestamp("arrived_at"),
+  departedAt: timestamp("departed_at"),
+  referenceNumbers: text("reference_numbers").array(), // PO, BOL and appointment numbers
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    loadIdIdx: index("load_stops_load_id_idx").on(table.loadId),
+  };
+});
+
+// Load Check Calls - timestamped position and status reports while a load is moving
+export const loadCheckCalls = pgTable("load_check_calls", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id),
+  loadId: integer("load_id").notNull().references(() => loads.id),
+  stopId: integer("stop_id").references(() => loadStops.id), // Stop the report refers to, if any
+  location: text("location").notNull(),
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  status: text("status").notNull(), // "en_route", "arrived", "departed", "delayed", "issue"
+  eta: timestamp("eta"),
+  notes: text("notes"),
+  reportedBy: integer("reported_by").notNull().references(() => users.id),
+  reportedAt: timestamp("reported_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    loadIdIdx: index("load_check_calls_load_id_idx").on(table.loadId),
+  };
+});
+
+// Load Documents - uploaded paperwork of a load, verified before billing
+export const loadDocuments = pgTable("load_documents", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id),
+  loadId: integer("load_id").notNull().references(() => loads.id),
+  documentType: text("document_type").notNull(), // "rate_confirmation", "bol", "pod", "lumper_receipt", "scale_ticket"
+  fileName: text("file_name").notNull(), // Name of the file as uploaded
+  filePath: text("file_path").notNull(), // Relative to the uploads directory
+  mimeType: text("mime_type").notNull(),
+  fileSize: integer("file_size").notNull(),
+  verificationStatus: text("verification_status").notNull().default("pending"), // "pending", "verified", "rejected"
+  verifiedBy: integer("verified_by").references(() => users.id),
+  verifiedAt: timestamp("verified_at"),
+  rejectionReason: text("rejection_reason"),
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
+  uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    loadIdIdx: index("load_documents_load_id_idx").on(table.loadId),
+  };
+});
+
 // Invoicing
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
-  invoiceNumber: text("invoice_number").notNull().unique(),
+  invoiceNumber: text("invoice_number").notNull(), // Allocated per organization, see services/invoice-numbering
   leadId: integer("lead_id").notNull(),
   orgId: integer("org_id").references(() => organizations.id),
   totalAmount: real("total_amount").notNull(),
-  status: text("status").notNull(), // "draft", "sent", "paid", "overdue"
+  status: text("status").notNull(), // "draft", "sent", "partially_paid", "paid", "overdue", "credited", "void"
   issuedDate: date("issued_date").notNull(),
   dueDate: date("due_date").notNull(),
   paidDate: date("paid_date"),
   paidAmount: real("paid_amount"),
+  creditedAmount: real("credited_amount").notNull().default(0), // Sum of issued credit notes
+  voidedAt: timestamp("voided_at"),
+  voidedBy: integer("voided_by").references(() => users.id),
+  voidReason: text("void_reason"),
   invoicePdf: text("invoice_pdf"),
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   createdBy: integer("created_by").notNull(),
+}, (table) => {
+  return {
+    orgInvoiceNumberIdx: uniqueIndex("invoices_org_invoice_number_idx").on(table.orgId, table.invoiceNumber),
+  };
 });
 
 export const invoiceItems = pgTable("invoice_items", {
@@ -880,6 +1083,75 @@ export const invoiceItems = pgTable("invoice_items", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Credit Notes - corrections against a sent invoice; they reduce its outstanding balance
+export const creditNotes = pgTable("credit_notes", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id),
+  creditNoteNumber: text("credit_note_number").notNull(),
+  amount: real("amount").notNull(),
+  reason: text("reason").notNull(),
+  issuedDate: date("issued_date").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    invoiceIdIdx: index("credit_notes_invoice_id_idx").on(table.invoiceId),
+  };
+});
+
+export const creditNoteItems = pgTable("credit_note_items", {
+  id: serial("id").primaryKey(),
+  creditNoteId: integer("credit_note_id").notNull().references(() => creditNotes.id),
+  invoiceItemId: integer("invoice_item_id").notNull().references(() => invoiceItems.id),
+  description: text("description").notNull(),
+  amount: real("amount").notNull(),
+}, (table) => {
+  return {
+    creditNoteIdIdx: index("credit_note_items_credit_note_id_idx").on(table.creditNoteId),
+    invoiceItemIdIdx: index("credit_note_items_invoice_item_id_idx").on(table.invoiceItemId),
+  };
+});
+
+// Invoice Payments - payment ledger; invoice paidAmount/paidDate/status are derived from it
+export const invoicePayments = pgTable("invoice_payments", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").references(() => organizations.id),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id),
+  amount: real("amount").notNull(),
+  paymentDate: date("payment_date").notNull(),
+  method: text("method").notNull(), // "ach", "wire", "check", "card", "cash", "factoring", "other"
+  referenceNumber: text("reference_number"),
+  notes: text("notes"),
+  recordedBy: integer("recorded_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    invoiceIdIdx: index("invoice_payments_invoice_id_idx").on(table.invoiceId),
+    paymentDateIdx: index("invoice_payments_payment_date_idx").on(table.paymentDate),
+  };
+});
+
+// Expenses ledger - operating costs used by the profit & loss report
+export const expenses = pgTable("expenses", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  category: text("category").notNull(), // "Payroll", "Rent", "Software", "Insurance", ...
+  vendor: text("vendor"),
+  amount: real("amount").notNull(),
+  expenseDate: date("expense_date").notNull(),
+  description: text("description"),
+  attachmentUrl: text("attachment_url"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    orgDateIdx: index("expenses_org_date_idx").on(table.orgId, table.expenseDate),
+    categoryIdx: index("expenses_category_idx").on(table.category),
+  };
+});
+
 // Commission Tracking
 export const commissions = pgTable("commissions", {
   id: serial("id").primaryKey(),
@@ -892,6 +1164,9 @@ export const commissions = pgTable("commissions", {
   status: text("status").notNull(), // "pending", "approved", "paid"
   calculationDate: date("calculation_date").notNull(),
   paidDate: date("paid_date"),
+  // Set when the invoice was credited or voided after the commission was calculated
+  adjustmentStatus: text("adjustment_status"), // "needs_adjustment", "adjusted"
+  adjustmentReason: text("adjustment_reason"),
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -1113,6 +1388,7 @@ export const commissionRun = pgTable("commission_run", {
   calculatedBy: integer("calculated_by").notNull().references(() => users.id),
   calculatedAt: timestamp("calculated_at").notNull().defaultNow(),
   notes: text("notes"),
+  status: text("status").notNull().default("calculated"), // calculated, reviewed, approved, paid, locked
   statusLog: jsonb("status_log").default([]), // Track status changes and notifications
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -1121,6 +1397,57 @@ export const commissionRun = pgTable("commission_run", {
     userMonthIdx: index("commission_run_user_month_idx").on(table.userId, table.year, table.month),
     orgIdIdx: index("commission_run_org_id_idx").on(table.orgId),
     calculatedAtIdx: index("commission_run_calculated_at_idx").on(table.calculatedAt),
+    statusIdx: index("commission_run_status_idx").on(table.status),
+  };
+});
+
+// Commission Adjustments - corrections recorded against paid/locked commission runs
+export const commissionAdjustments = pgTable("commission_adjustments", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  runId: integer("run_id").notNull().references(() => commissionRun.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  amount: real("amount").notNull(), // Negative for reversals
+  reason: text("reason").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    runIdIdx: index("commission_adjustments_run_id_idx").on(table.runId),
+    userIdIdx: index("commission_adjustments_user_id_idx").on(table.userId),
+  };
+});
+
+// Lead merges: the merged lead is deleted after its records move to the
+// survivor, so its last state is kept here for audit
+export const leadMerges = pgTable("lead_merges", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  survivorLeadId: integer("survivor_lead_id").notNull().references(() => leads.id),
+  mergedLeadId: integer("merged_lead_id").notNull(), // No longer exists
+  mergedLeadSnapshot: jsonb("merged_lead_snapshot").notNull(),
+  fieldChoices: jsonb("field_choices").notNull(), // Field -> "survivor" | "merged"
+  movedRecords: jsonb("moved_records").notNull(), // Table -> number of rows re-pointed
+  mergedBy: integer("merged_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    orgIdIdx: index("lead_merges_org_id_idx").on(table.orgId),
+    survivorIdx: index("lead_merges_survivor_idx").on(table.survivorLeadId),
+  };
+});
+
+// Lead pairs reviewed and found not to be duplicates (lowest id first)
+export const leadDuplicateDismissals = pgTable("lead_duplicate_dismissals", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  leadId: integer("lead_id").notNull().references(() => leads.id),
+  otherLeadId: integer("other_lead_id").notNull().references(() => leads.id),
+  dismissedBy: integer("dismissed_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => {
+  return {
+    pairIdx: uniqueIndex("lead_duplicate_dismissals_pair_idx").on(table.leadId, table.otherLeadId),
   };
 });
 
@@ -1189,6 +1516,13 @@ export const dispatchReports = pgTable("dispatch_reports", {
   pendingInvoiceUsd: real("pending_invoice_usd").notNull().default(0),
   highestInvoiceUsd: real("highest_invoice_usd").notNull().default(0),
   paidInvoiceUsd: real("paid_invoice_usd").notNull().default(0),
+  // Figures above are computed from loads and invoices, see services/dispatch-daily-reports.
+  // A dispatcher who disagrees records { metric: { value, computed } } here instead of editing them
+  overrides: jsonb("overrides").notNull().default({}),
+  notes: text("notes"),
+  computedAt: timestamp("computed_at"),
+  confirmedAt: timestamp("confirmed_at"),
+  confirmedBy: integer("confirmed_by").references(() => users.id),
   status: dispatchReportStatusEnum("status").notNull().default("Pending"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => {
@@ -1199,6 +1533,24 @@ export const dispatchReports = pgTable("dispatch_reports", {
   };
 });
 
+// Runs of the per-organization dispatch report jobs, see services/report-schedules
+export const reportJobRuns = pgTable("report_job_runs", {
+  id: serial("id").primaryKey(),
+  orgId: integer("org_id").notNull().references(() => organizations.id),
+  job: text("job").notNull(), // "daily_report_reminder", "daily_report_generation", "monthly_report_generation"
+  trigger: text("trigger").notNull(), // "schedule" or "manual"
+  runDate: date("run_date").notNull(), // Day the run was for, in the organization's timezone
+  status: text("status").notNull().default("running"), // "running", "success", "failed"
+  message: text("message"),
+  triggeredBy: integer("triggered_by").references(() => users.id),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => {
+  return {
+    orgJobIdx: index("report_job_runs_org_job_idx").on(table.orgId, table.job, table.startedAt),
+  };
+});
+
 // Performance Targets for tracking goals
 export const performanceTargets = pgTable("performance_targets", {
   id: serial("id").primaryKey(),
@@ -1280,9 +1632,18 @@ export const insertCallLogSchema = createInsertSchema(callLogs).omit({ id: true,
 export const insertLeadFollowUpSchema = createInsertSchema(leadFollowUps).omit({ id: true, createdAt: true, updatedAt: true, completedAt: true });
 export const insertCustomerFeedbackSchema = createInsertSchema(customerFeedback).omit({ id: true, createdAt: true, respondedAt: true });
 export const insertDispatchClientSchema = createInsertSchema(dispatch_clients).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertCarrierComplianceProfileSchema = createInsertSchema(carrierComplianceProfiles).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertLoadSchema = createInsertSchema(loads).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertLoadStatusHistorySchema = createInsertSchema(loadStatusHistory).omit({ id: true, changedAt: true });
+export const insertLoadStopSchema = createInsertSchema(loadStops).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertLoadCheckCallSchema = createInsertSchema(loadCheckCalls).omit({ id: true, createdAt: true });
+export const insertLoadDocumentSchema = createInsertSchema(loadDocuments).omit({ id: true, uploadedAt: true });
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({ id: true, createdAt: true });
+export const insertInvoicePaymentSchema = createInsertSchema(invoicePayments).omit({ id: true, createdAt: true });
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ id: true, createdAt: true });
+export const insertCreditNoteItemSchema = createInsertSchema(creditNoteItems).omit({ id: true });
+export const insertExpenseSchema = createInsertSchema(expenses).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAccountSchema = createInsertSchema(accounts).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertSurveySchema = createInsertSchema(surveys).omit({ id: true, createdAt: true, sentAt: true, completedAt: true });
 export const insertActivitySchema = createInsertSchema(activities).omit({ id: true, timestamp: true });
@@ -1303,6 +1664,7 @@ export const insertCommissionPolicySchema = createInsertSchema(commissionPolicy)
   validTo: true // This can be set when archiving a policy
 });
 export const insertCommissionRunSchema = createInsertSchema(commissionRun).omit({ id: true, calculatedAt: true, createdAt: true, updatedAt: true });
+export const insertCommissionAdjustmentSchema = createInsertSchema(commissionAdjustments).omit({ id: true, createdAt: true });
 export const insertLeadSalesUserSchema = createInsertSchema(leadSalesUsers).omit({ id: true, createdAt: true });
 export const insertCommissionMonthlySchema = createInsertSchema(commissionsMonthly).omit({ id: true, createdAt: true, updatedAt: true });
 
@@ -1447,6 +1809,7 @@ export const insertDashboardWidgetSchema = createInsertSchema(dashboardWidgets).
 // Dispatch automation schemas
 export const insertDispatchTaskSchema = createInsertSchema(dispatchTasks).omit({ id: true, createdAt: true });
 export const insertDispatchReportSchema = createInsertSchema(dispatchReports).omit({ id: true, createdAt: true });
+export const insertReportJobRunSchema = createInsertSchema(reportJobRuns).omit({ id: true, startedAt: true });
 export const insertPerformanceTargetSchema = createInsertSchema(performanceTargets).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertBugSchema = createInsertSchema(bugs).omit({ id: true, createdAt: true, updatedAt: true, fixedAt: true, closedAt: true });
 
@@ -1507,15 +1870,42 @@ export type InsertCustomerFeedback = z.infer<typeof insertCustomerFeedbackSchema
 export type DispatchClient = typeof dispatch_clients.$inferSelect;
 export type InsertDispatchClient = z.infer<typeof insertDispatchClientSchema>;
 
+export type CarrierComplianceProfile = typeof carrierComplianceProfiles.$inferSelect;
+export type InsertCarrierComplianceProfile = z.infer<typeof insertCarrierComplianceProfileSchema>;
+
 export type Load = typeof loads.$inferSelect;
 export type InsertLoad = z.infer<typeof insertLoadSchema>;
 
+export type LoadStatusHistory = typeof loadStatusHistory.$inferSelect;
+export type InsertLoadStatusHistory = z.infer<typeof insertLoadStatusHistorySchema>;
+
+export type LoadStop = typeof loadStops.$inferSelect;
+export type InsertLoadStop = z.infer<typeof insertLoadStopSchema>;
+
+export type LoadCheckCall = typeof loadCheckCalls.$inferSelect;
+export type InsertLoadCheckCall = z.infer<typeof insertLoadCheckCallSchema>;
+
+export type LoadDocument = typeof loadDocuments.$inferSelect;
+export type InsertLoadDocument = z.infer<typeof insertLoadDocumentSchema>;
+
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
 export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
 
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type InsertInvoicePayment = z.infer<typeof insertInvoicePaymentSchema>;
+
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+
+export type CreditNoteItem = typeof creditNoteItems.$inferSelect;
+export type InsertCreditNoteItem = z.infer<typeof insertCreditNoteItemSchema>;
+
+export type Expense = typeof expenses.$inferSelect;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+
 export type Commission = typeof commissions.$inferSelect;
 export type InsertCommission = z.infer<typeof insertCommissionSchema>;
 
@@ -1565,6 +1955,9 @@ export type InsertCommissionPolicy = z.infer<typeof insertCommissionPolicySchema
 export type CommissionRun = typeof commissionRun.$inferSelect;
 export type InsertCommissionRun = z.infer<typeof insertCommissionRunSchema>;
 
+export type CommissionAdjustment = typeof commissionAdjustments.$inferSelect;
+export type InsertCommissionAdjustment = z.infer<typeof insertCommissionAdjustmentSchema>;
+
 export type LeadSalesUser = typeof leadSalesUsers.$inferSelect;
 export type InsertLeadSalesUser = z.infer<typeof insertLeadSalesUserSchema>;
 
@@ -1578,6 +1971,9 @@ export type InsertDispatchTask = z.infer<typeof insertDispatchTaskSchema>;
 export type DispatchReport = typeof dispatchReports.$inferSelect;
 export type InsertDispatchReport = z.infer<typeof insertDispatchReportSchema>;
 
+export type ReportJobRun = typeof reportJobRuns.$inferSelect;
+export type InsertReportJobRun = z.infer<typeof insertReportJobRunSchema>;
+
 export type PerformanceTarget = typeof performanceTargets.$inferSelect;
 export type InsertPerformanceTarget = z.infer<typeof insertPerformanceTargetSchema>;
 
@@ -1607,6 +2003,7 @@ export type InsertUserLocation = z.infer<typeof insertUserLocationSchema>;
 
 // Form templates and submissions types
 export type FormTemplate = typeof formTemplates.$inferSelect;
+export type FormTemplateVersion = typeof formTemplateVersions.$inferSelect;
 export type InsertFormTemplate = z.infer<typeof insertFormTemplateSchema>;
 
 export type FormSubmission = typeof formSubmissions.$inferSelect; 
@@ -1614,4 +2011,12 @@ export type InsertFormSubmission = z.infer<typeof insertFormSubmissionSchema>;
 
 // Lead handoff types
 export type LeadHandoff = typeof leadHandoffs.$inferSelect;
-export type InsertLeadHandoff = z.infer<typeof insertLeadHandoffSchema>;
\ No newline at end of file
+export type InsertLeadHandoff = z.infer<typeof insertLeadHandoffSchema>;
+
+// Lead merge types
+export type LeadMerge = typeof leadMerges.$inferSelect;
+export type LeadDuplicateDismissal = typeof leadDuplicateDismissals.$inferSelect;
+
+// MQL webhook types
+export type MqlWebhookEndpoint = typeof mqlWebhookEndpoints.$inferSelect;
+export type MqlWebhookDelivery = typeof mqlWebhookDeliveries.$inferSelect;
\ No newline at end of file